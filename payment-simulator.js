@@ -0,0 +1,90 @@
+const http = require('http');
+const { createHmac, randomUUID } = require('crypto');
+require('dotenv').config();
+
+// Local stand-in for a Click/Payme-style checkout. Serves the links generated
+// by PaymentsService and calls back POST /payments/webhook with a signed body.
+const port = Number(process.env.PAYMENT_SIMULATOR_PORT || 4010);
+const secret = process.env.PAYMENT_PROVIDER_SECRET;
+const merchantId = process.env.PAYMENT_MERCHANT_ID || 'local';
+const webhookUrl =
+  process.env.PAYMENT_WEBHOOK_URL ||
+  `http://localhost:${process.env.PORT || 3000}/payments/webhook`;
+
+if (!secret) {
+  console.error('PAYMENT_PROVIDER_SECRET not found');
+  process.exit(1);
+}
+
+function sign(data) {
+  return createHmac('sha256', secret).update(data).digest('hex');
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(body);
+}
+
+async function notifyWebhook({ orderId, amount, status }) {
+  const transactionId = `sim-${randomUUID()}`;
+  const payload = { transactionId, orderId, amount, status };
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-payment-signature': sign(
+        `${transactionId}:${orderId}:${amount}:${status}`,
+      ),
+    },
+    body: JSON.stringify(payload),
+  });
+  const text = await response.text();
+  console.log(`Webhook ${status} for order ${orderId}: ${response.status} ${text}`);
+  return { status: response.status, text };
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+  const orderId = Number(url.searchParams.get('order_id'));
+  const amount = Number(url.searchParams.get('amount'));
+
+  if (url.pathname === '/pay') {
+    const expected = sign(`${merchantId}:${orderId}:${amount}`);
+    if (url.searchParams.get('sign') !== expected) {
+      send(res, 400, 'Invalid payment link signature');
+      return;
+    }
+
+    const query = `order_id=${orderId}&amount=${amount}`;
+    send(
+      res,
+      200,
+      [
+        `<h1>Order #${orderId}</h1>`,
+        `<p>Amount: ${amount}</p>`,
+        `<p><a href="/confirm?${query}&status=paid">Pay</a></p>`,
+        `<p><a href="/confirm?${query}&status=failed">Fail</a></p>`,
+      ].join('\n'),
+    );
+    return;
+  }
+
+  if (url.pathname === '/confirm') {
+    const status = url.searchParams.get('status') === 'failed' ? 'failed' : 'paid';
+    try {
+      const result = await notifyWebhook({ orderId, amount, status });
+      send(res, 200, `<p>Webhook answered ${result.status}</p><pre>${result.text}</pre>`);
+    } catch (err) {
+      console.error('Error calling webhook:', err);
+      send(res, 502, 'Webhook call failed');
+    }
+    return;
+  }
+
+  send(res, 404, 'Not found');
+});
+
+server.listen(port, () => {
+  console.log(`Payment simulator listening on http://localhost:${port}`);
+  console.log(`Webhook target: ${webhookUrl}`);
+});
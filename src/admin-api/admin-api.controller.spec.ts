@@ -0,0 +1,116 @@
+import { ConflictException, NotFoundException } from "@nestjs/common";
+import { AdminPrincipal } from "../admin-auth/admin-auth.types";
+import { AdminBotService } from "../admin-bot/admin-bot.service";
+import { AdminApiController } from "./admin-api.controller";
+import { AdminApiService } from "./admin-api.service";
+
+describe("AdminApiController", () => {
+  const admin: AdminPrincipal = {
+    accountId: 4,
+    name: "web-admin",
+    role: "payments",
+    telegramUserId: "42",
+  };
+
+  function createController() {
+    const adminApiService = {
+      listOrders: jest.fn().mockResolvedValue({ items: [], total: 0 }),
+      listTasks: jest.fn(),
+      listAdPosts: jest.fn(),
+      listVipSubscriptions: jest.fn(),
+      listChatSessions: jest.fn(),
+    };
+    const adminBotService = {
+      decidePaymentTask: jest.fn(),
+      publishTask: jest.fn(),
+      resolveEscalationTask: jest.fn(),
+    };
+    const controller = new AdminApiController(
+      adminApiService as unknown as AdminApiService,
+      adminBotService as unknown as AdminBotService,
+    );
+    return { controller, adminApiService, adminBotService };
+  }
+
+  it("passes parsed filters to the list query", async () => {
+    const { controller, adminApiService } = createController();
+
+    await controller.listOrders({
+      status: "awaiting_check",
+      type: "vip",
+      from: "2025-01-01",
+      page: "2",
+    });
+
+    expect(adminApiService.listOrders).toHaveBeenCalledWith({
+      status: "awaiting_check",
+      type: "vip",
+      userId: undefined,
+      from: new Date("2025-01-01"),
+      to: undefined,
+      page: 2,
+      pageSize: 20,
+    });
+  });
+
+  it("approves payments through the admin bot task action", async () => {
+    const { controller, adminBotService } = createController();
+    adminBotService.decidePaymentTask.mockResolvedValue({
+      outcome: "done",
+      task: { id: 12, status: "approved" },
+    });
+
+    await expect(
+      controller.decidePayment("12", "approve", admin),
+    ).resolves.toEqual({ taskId: 12, status: "approved" });
+    expect(adminBotService.decidePaymentTask).toHaveBeenCalledWith(
+      12,
+      "approve",
+      "web-admin",
+      "42",
+    );
+  });
+
+  it("maps task outcomes to HTTP errors", async () => {
+    const { controller, adminBotService } = createController();
+    adminBotService.publishTask.mockResolvedValueOnce({
+      outcome: "not_found",
+    });
+    adminBotService.publishTask.mockResolvedValueOnce({
+      outcome: "media_not_approved",
+    });
+
+    await expect(controller.publish("5", admin)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    await expect(controller.publish("5", admin)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it("resumes AI and blocks through the escalation task action", async () => {
+    const { controller, adminBotService } = createController();
+    adminBotService.resolveEscalationTask.mockResolvedValue({
+      outcome: "done",
+      task: { id: 7, status: "resolved" },
+    });
+
+    await controller.resumeAi("7", admin);
+    await controller.block("7", admin);
+
+    expect(adminBotService.resolveEscalationTask).toHaveBeenNthCalledWith(
+      1,
+      7,
+      "resume",
+      "web-admin",
+      "42",
+    );
+    expect(adminBotService.resolveEscalationTask).toHaveBeenNthCalledWith(
+      2,
+      7,
+      "block",
+      "web-admin",
+      "42",
+    );
+  });
+});
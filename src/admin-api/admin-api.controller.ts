@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { AdminRoles, CurrentAdmin } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
+import type { AdminPrincipal } from "../admin-auth/admin-auth.types";
+import { AdminBotService } from "../admin-bot/admin-bot.service";
+import { AdminTaskActionResult } from "../admin-bot/admin-bot.types";
+import { AdminApiService } from "./admin-api.service";
+import { nowInUzbekistan } from "../common/time";
+import {
+  parseAdminListQuery,
+  parseSlaReportQuery,
+  parseTaskId,
+} from "./admin-api.validation";
+
+@Controller("admin")
+@UseGuards(AdminAuthGuard)
+export class AdminApiController {
+  constructor(
+    private readonly adminApiService: AdminApiService,
+    private readonly adminBotService: AdminBotService,
+  ) {}
+
+  @Get("orders")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async listOrders(@Query() query: Record<string, unknown>) {
+    return this.adminApiService.listOrders(parseAdminListQuery(query));
+  }
+
+  @Get("tasks")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async listTasks(@Query() query: Record<string, unknown>) {
+    return this.adminApiService.listTasks(parseAdminListQuery(query));
+  }
+
+  @Get("ad-posts")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async listAdPosts(@Query() query: Record<string, unknown>) {
+    return this.adminApiService.listAdPosts(parseAdminListQuery(query));
+  }
+
+  @Get("vip-subscriptions")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async listVipSubscriptions(@Query() query: Record<string, unknown>) {
+    return this.adminApiService.listVipSubscriptions(
+      parseAdminListQuery(query),
+    );
+  }
+
+  @Get("chat-sessions")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async listChatSessions(@Query() query: Record<string, unknown>) {
+    return this.adminApiService.listChatSessions(parseAdminListQuery(query));
+  }
+
+  @Get("sla/breaches")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async slaBreaches(@Query() query: Record<string, unknown>) {
+    return this.adminApiService.reportSlaBreaches(
+      parseSlaReportQuery(query, nowInUzbekistan()),
+    );
+  }
+
+  @Post("tasks/:id/payment/:action")
+  @AdminRoles("payments")
+  async decidePayment(
+    @Param("id") id: string,
+    @Param("action") action: string,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    if (action !== "approve" && action !== "reject") {
+      throw new BadRequestException("action must be approve or reject");
+    }
+    return this.toResponse(
+      await this.adminBotService.decidePaymentTask(
+        parseTaskId(id),
+        action,
+        admin.name,
+        admin.telegramUserId,
+      ),
+    );
+  }
+
+  @Post("tasks/:id/publish")
+  @AdminRoles("moderator")
+  async publish(
+    @Param("id") id: string,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.toResponse(
+      await this.adminBotService.publishTask(
+        parseTaskId(id),
+        admin.name,
+        admin.telegramUserId,
+      ),
+    );
+  }
+
+  @Post("tasks/:id/resume-ai")
+  @AdminRoles("moderator")
+  async resumeAi(
+    @Param("id") id: string,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.toResponse(
+      await this.adminBotService.resolveEscalationTask(
+        parseTaskId(id),
+        "resume",
+        admin.name,
+        admin.telegramUserId,
+      ),
+    );
+  }
+
+  @Post("tasks/:id/block")
+  @AdminRoles("moderator")
+  async block(@Param("id") id: string, @CurrentAdmin() admin: AdminPrincipal) {
+    return this.toResponse(
+      await this.adminBotService.resolveEscalationTask(
+        parseTaskId(id),
+        "block",
+        admin.name,
+        admin.telegramUserId,
+      ),
+    );
+  }
+
+  private toResponse(result: AdminTaskActionResult) {
+    if (result.outcome === "not_found") {
+      throw new NotFoundException("Task not found");
+    }
+    if (result.outcome !== "done") {
+      throw new ConflictException(result.outcome);
+    }
+    return { taskId: result.task.id, status: result.task.status };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { AdminBotModule } from "../admin-bot/admin-bot.module";
+import { AdminApiController } from "./admin-api.controller";
+import { AdminApiService } from "./admin-api.service";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
+
+@Module({
+  imports: [ConfigModule, AdminBotModule, AdminAuthModule],
+  controllers: [AdminApiController],
+  providers: [AdminApiService],
+})
+export class AdminApiModule {}
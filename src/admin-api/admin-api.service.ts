@@ -0,0 +1,193 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, count, desc, eq, gte, inArray, lt, SQL } from "drizzle-orm";
+import { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import {
+  adminTasks,
+  adPosts,
+  chatSessions,
+  orders,
+  vipSubscriptions,
+} from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import {
+  resolveSlaPolicies,
+  summarizeSlaBreaches,
+} from "../admin-bot/admin-task-sla.rules";
+import { AdminListQuery, SlaReportQuery } from "./admin-api.validation";
+
+/** Columns the shared list filters map to; `type` is absent where a table has no kind. */
+type AdminListColumns = {
+  id: PgColumn;
+  status: PgColumn;
+  type?: PgColumn;
+  userId: PgColumn;
+  createdAt: PgColumn;
+};
+
+export type AdminListPage<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+@Injectable()
+export class AdminApiService {
+  constructor(
+    @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  listOrders(query: AdminListQuery) {
+    return this.listRows<typeof orders.$inferSelect>(orders, query, {
+      id: orders.id,
+      status: orders.status,
+      type: orders.orderType,
+      userId: orders.userId,
+      createdAt: orders.createdAt,
+    });
+  }
+
+  async listTasks(query: AdminListQuery) {
+    const page = await this.listRows<typeof adminTasks.$inferSelect>(
+      adminTasks,
+      query,
+      {
+        id: adminTasks.id,
+        status: adminTasks.status,
+        type: adminTasks.taskType,
+        userId: adminTasks.userId,
+        createdAt: adminTasks.createdAt,
+      },
+    );
+    return {
+      ...page,
+      items: page.items.map((task) => ({
+        ...task,
+        payload: parsePayload(task.payload),
+      })),
+    };
+  }
+
+  listAdPosts(query: AdminListQuery) {
+    return this.listRows<typeof adPosts.$inferSelect>(adPosts, query, {
+      id: adPosts.id,
+      status: adPosts.status,
+      userId: adPosts.userId,
+      createdAt: adPosts.createdAt,
+    });
+  }
+
+  listVipSubscriptions(query: AdminListQuery) {
+    return this.listRows<typeof vipSubscriptions.$inferSelect>(
+      vipSubscriptions,
+      query,
+      {
+        id: vipSubscriptions.id,
+        status: vipSubscriptions.status,
+        userId: vipSubscriptions.userId,
+        createdAt: vipSubscriptions.createdAt,
+      },
+    );
+  }
+
+  listChatSessions(query: AdminListQuery) {
+    return this.listRows<typeof chatSessions.$inferSelect>(
+      chatSessions,
+      query,
+      {
+        id: chatSessions.id,
+        status: chatSessions.status,
+        type: chatSessions.platform,
+        userId: chatSessions.userId,
+        createdAt: chatSessions.createdAt,
+      },
+    );
+  }
+
+  /** SLA breaches of escalation and payment tasks created in the window. */
+  async reportSlaBreaches(query: SlaReportQuery) {
+    const policies = resolveSlaPolicies((key) =>
+      this.configService.get<string>(key),
+    );
+    const tasks = await this.db
+      .select({
+        taskType: adminTasks.taskType,
+        createdAt: adminTasks.createdAt,
+        firstResponseAt: adminTasks.firstResponseAt,
+        firstResponseBy: adminTasks.firstResponseBy,
+        resolvedAt: adminTasks.resolvedAt,
+        adminActionBy: adminTasks.adminActionBy,
+      })
+      .from(adminTasks)
+      .where(
+        and(
+          inArray(adminTasks.taskType, query.types),
+          gte(adminTasks.createdAt, query.from),
+          lt(adminTasks.createdAt, query.to),
+        ),
+      );
+
+    return {
+      from: query.from,
+      to: query.to,
+      types: query.types,
+      policies,
+      ...summarizeSlaBreaches(tasks, policies, nowInUzbekistan()),
+    };
+  }
+
+  private async listRows<T>(
+    table: PgTable,
+    query: AdminListQuery,
+    columns: AdminListColumns,
+  ): Promise<AdminListPage<T>> {
+    const where = and(...buildListConditions(columns, query));
+    const items = await this.db
+      .select()
+      .from(table)
+      .where(where)
+      .orderBy(desc(columns.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const totals = await this.db
+      .select({ total: count() })
+      .from(table)
+      .where(where);
+
+    return {
+      items: items as T[],
+      total: Number(totals[0]?.total ?? 0),
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+}
+
+export function buildListConditions(
+  columns: AdminListColumns,
+  query: AdminListQuery,
+) {
+  const conditions: SQL[] = [];
+  if (query.status) conditions.push(eq(columns.status, query.status));
+  if (query.type && columns.type) {
+    conditions.push(eq(columns.type, query.type));
+  }
+  if (query.userId) conditions.push(eq(columns.userId, query.userId));
+  if (query.from) conditions.push(gte(columns.createdAt, query.from));
+  if (query.to) conditions.push(lt(columns.createdAt, query.to));
+  return conditions;
+}
+
+function parsePayload(payload: string | null) {
+  if (!payload) return null;
+  try {
+    return JSON.parse(payload) as unknown;
+  } catch {
+    return payload;
+  }
+}
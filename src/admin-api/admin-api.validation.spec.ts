@@ -0,0 +1,52 @@
+import { BadRequestException } from "@nestjs/common";
+import {
+  parseAdminListQuery,
+  parseSlaReportQuery,
+  parseTaskId,
+} from "./admin-api.validation";
+
+describe("admin API validation", () => {
+  it("fills in paging defaults and trims filters", () => {
+    expect(parseAdminListQuery({ userId: " 777 ", status: "" })).toEqual({
+      status: undefined,
+      type: undefined,
+      userId: "777",
+      from: undefined,
+      to: undefined,
+      page: 1,
+      pageSize: 20,
+    });
+  });
+
+  it.each([
+    [{ page: "0" }],
+    [{ pageSize: "101" }],
+    [{ pageSize: "abc" }],
+    [{ from: "yesterday" }],
+    [{ from: "2025-02-01", to: "2025-01-01" }],
+  ])("rejects %j", (query) => {
+    expect(() => parseAdminListQuery(query)).toThrow(BadRequestException);
+  });
+
+  it("accepts only positive integer task ids", () => {
+    expect(parseTaskId("42")).toBe(42);
+    expect(() => parseTaskId("4.2")).toThrow(BadRequestException);
+    expect(() => parseTaskId("-1")).toThrow(BadRequestException);
+  });
+
+  it("defaults the SLA report to the last week of both task types", () => {
+    const now = new Date("2025-03-08T00:00:00Z");
+
+    expect(parseSlaReportQuery({}, now)).toEqual({
+      from: new Date("2025-03-01T00:00:00Z"),
+      to: now,
+      types: ["escalation", "payment"],
+    });
+    expect(parseSlaReportQuery({ type: "payment" }, now).types).toEqual([
+      "payment",
+    ]);
+    expect(() => parseSlaReportQuery({ type: "publish" }, now)).toThrow(
+      BadRequestException,
+    );
+  });
+});
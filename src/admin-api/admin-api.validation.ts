@@ -0,0 +1,119 @@
+import { BadRequestException } from "@nestjs/common";
+import {
+  isSlaTaskType,
+  SLA_TASK_TYPES,
+  SlaTaskType,
+} from "../admin-bot/admin-task-sla.rules";
+
+export const ADMIN_LIST_DEFAULT_PAGE_SIZE = 20;
+export const ADMIN_LIST_MAX_PAGE_SIZE = 100;
+export const SLA_REPORT_DEFAULT_DAYS = 7;
+
+export type AdminListQuery = {
+  status?: string;
+  type?: string;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  pageSize: number;
+};
+
+/**
+ * Reads the shared list filters. Dates accept anything `Date` parses
+ * (`2025-01-31`, ISO timestamps); `to` is exclusive.
+ */
+export function parseAdminListQuery(
+  query: Record<string, unknown>,
+): AdminListQuery {
+  const from = parseDate(query.from, "from");
+  const to = parseDate(query.to, "to");
+  if (from && to && from >= to) {
+    throw new BadRequestException("from must be earlier than to");
+  }
+
+  return {
+    status: parseText(query.status),
+    type: parseText(query.type),
+    userId: parseText(query.userId),
+    from,
+    to,
+    page: parsePositiveInt(query.page, "page", 1, Number.MAX_SAFE_INTEGER),
+    pageSize: parsePositiveInt(
+      query.pageSize,
+      "pageSize",
+      ADMIN_LIST_DEFAULT_PAGE_SIZE,
+      ADMIN_LIST_MAX_PAGE_SIZE,
+    ),
+  };
+}
+
+export type SlaReportQuery = {
+  from: Date;
+  to: Date;
+  types: SlaTaskType[];
+};
+
+/** Defaults to the last seven days and both task types; `to` is exclusive. */
+export function parseSlaReportQuery(
+  query: Record<string, unknown>,
+  now: Date,
+): SlaReportQuery {
+  const to = parseDate(query.to, "to") ?? now;
+  const from =
+    parseDate(query.from, "from") ??
+    new Date(to.getTime() - SLA_REPORT_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+  if (from >= to) {
+    throw new BadRequestException("from must be earlier than to");
+  }
+
+  const type = parseText(query.type);
+  if (!type) return { from, to, types: SLA_TASK_TYPES };
+  if (!isSlaTaskType(type)) {
+    throw new BadRequestException(
+      `type must be one of ${SLA_TASK_TYPES.join(", ")}`,
+    );
+  }
+  return { from, to, types: [type] };
+}
+
+export function parseTaskId(value: string) {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new BadRequestException("id must be a positive integer");
+  }
+  return id;
+}
+
+function parseText(value: unknown) {
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim();
+  return normalized || undefined;
+}
+
+function parseDate(value: unknown, field: string) {
+  const text = parseText(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${field} must be a date`);
+  }
+  return date;
+}
+
+function parsePositiveInt(
+  value: unknown,
+  field: string,
+  fallback: number,
+  max: number,
+) {
+  const text = parseText(value);
+  if (!text) return fallback;
+  const parsed = Number(text);
+  if (!Number.isInteger(parsed) || parsed <= 0 || parsed > max) {
+    throw new BadRequestException(
+      `${field} must be an integer between 1 and ${max}`,
+    );
+  }
+  return parsed;
+}
@@ -0,0 +1,43 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+export async function ensureAdminAccountsSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "admin_accounts" (
+      "id" serial PRIMARY KEY,
+      "name" text NOT NULL,
+      "role" text NOT NULL,
+      "token_hash" text NOT NULL,
+      "telegram_user_id" text,
+      "is_active" boolean NOT NULL DEFAULT true,
+      "on_duty" boolean NOT NULL DEFAULT false,
+      "last_used_at" timestamp,
+      "created_by" text,
+      "created_at" timestamp DEFAULT now(),
+      "updated_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`ALTER TABLE "admin_accounts" ADD COLUMN IF NOT EXISTS "telegram_user_id" text`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "admin_accounts" ADD COLUMN IF NOT EXISTS "on_duty" boolean NOT NULL DEFAULT false`,
+  );
+
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "admin_accounts_name_unique" ON "admin_accounts" ("name")`,
+  );
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "admin_accounts_token_hash_unique" ON "admin_accounts" ("token_hash")`,
+  );
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "admin_accounts_telegram_user_unique" ON "admin_accounts" ("telegram_user_id")`,
+  );
+
+  logger.log("Admin accounts schema ensured");
+}
@@ -0,0 +1,105 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { AdminAccountsService } from "./admin-accounts.service";
+import { CurrentAdmin } from "./admin-auth.decorators";
+import { AdminAuthGuard } from "./admin-auth.guard";
+import type { AdminPrincipal } from "./admin-auth.types";
+import {
+  parseAdminAccountId,
+  validateAdminAccountInput,
+  validateAdminRole,
+  validateOnDuty,
+  validateTelegramUserId,
+} from "./admin-auth.validation";
+
+/** Owner-only: no `@AdminRoles`, so the guard admits owners alone. */
+@Controller("admin/accounts")
+@UseGuards(AdminAuthGuard)
+export class AdminAccountsController {
+  constructor(private readonly adminAccountsService: AdminAccountsService) {}
+
+  @Get()
+  async list() {
+    return this.adminAccountsService.list();
+  }
+
+  @Post()
+  async create(
+    @Body() payload: Record<string, unknown>,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.adminAccountsService.create(
+      validateAdminAccountInput(payload ?? {}),
+      admin.name,
+    );
+  }
+
+  @Patch(":id/role")
+  async updateRole(
+    @Param("id") id: string,
+    @Body("role") role: unknown,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.adminAccountsService.updateRole(
+      parseAdminAccountId(id),
+      validateAdminRole(role),
+      admin.name,
+    );
+  }
+
+  @Patch(":id/telegram")
+  async linkTelegramUser(
+    @Param("id") id: string,
+    @Body("telegramUserId") telegramUserId: unknown,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.adminAccountsService.linkTelegramUser(
+      parseAdminAccountId(id),
+      validateTelegramUserId(telegramUserId),
+      admin.name,
+    );
+  }
+
+  @Patch(":id/duty")
+  async setOnDuty(
+    @Param("id") id: string,
+    @Body("onDuty") onDuty: unknown,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.adminAccountsService.setOnDuty(
+      parseAdminAccountId(id),
+      validateOnDuty(onDuty),
+      admin.name,
+    );
+  }
+
+  @Post(":id/rotate-token")
+  async rotateToken(
+    @Param("id") id: string,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.adminAccountsService.rotateToken(
+      parseAdminAccountId(id),
+      admin.name,
+    );
+  }
+
+  @Delete(":id")
+  async deactivate(
+    @Param("id") id: string,
+    @CurrentAdmin() admin: AdminPrincipal,
+  ) {
+    return this.adminAccountsService.deactivate(
+      parseAdminAccountId(id),
+      admin.name,
+    );
+  }
+}
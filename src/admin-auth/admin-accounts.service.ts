@@ -0,0 +1,309 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { adminAccounts } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { ensureAdminAccountsSchema } from "./admin-accounts-schema";
+import {
+  generateAdminToken,
+  hashAdminToken,
+  isAdminRole,
+} from "./admin-auth.rules";
+import { AdminPrincipal, AdminRole } from "./admin-auth.types";
+import { AdminAccountInput } from "./admin-auth.validation";
+
+type AdminAccountRow = typeof adminAccounts.$inferSelect;
+
+@Injectable()
+export class AdminAccountsService {
+  private readonly logger = new Logger(AdminAccountsService.name);
+  private schemaChecked = false;
+
+  constructor(@Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>) {}
+
+  /** Resolves an active account by its raw token and stamps `lastUsedAt`. */
+  async authenticate(token: string): Promise<AdminPrincipal | null> {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(adminAccounts)
+      .where(
+        and(
+          eq(adminAccounts.tokenHash, hashAdminToken(token)),
+          eq(adminAccounts.isActive, true),
+        ),
+      )
+      .limit(1);
+    const account = rows[0];
+    if (!account || !isAdminRole(account.role)) return null;
+
+    await this.db
+      .update(adminAccounts)
+      .set({ lastUsedAt: nowInUzbekistan() })
+      .where(eq(adminAccounts.id, account.id));
+    return {
+      accountId: account.id,
+      name: account.name,
+      role: account.role,
+      telegramUserId: account.telegramUserId ?? undefined,
+    };
+  }
+
+  /** Active account linked to a Telegram user, for admin-bot buttons. */
+  async findByTelegramUserId(
+    telegramUserId: string,
+  ): Promise<AdminPrincipal | null> {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(adminAccounts)
+      .where(
+        and(
+          eq(adminAccounts.telegramUserId, telegramUserId),
+          eq(adminAccounts.isActive, true),
+        ),
+      )
+      .limit(1);
+    const account = rows[0];
+    if (!account || !isAdminRole(account.role)) return null;
+    return { accountId: account.id, name: account.name, role: account.role };
+  }
+
+  /** Active account linked to Telegram by its name, for `/assign` in the admin bot. */
+  async findLinkedByName(
+    name: string,
+  ): Promise<(AdminPrincipal & { telegramUserId: string }) | null> {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(adminAccounts)
+      .where(
+        and(eq(adminAccounts.name, name), eq(adminAccounts.isActive, true)),
+      )
+      .limit(1);
+    const account = rows[0];
+    if (!account?.telegramUserId || !isAdminRole(account.role)) return null;
+    return {
+      accountId: account.id,
+      name: account.name,
+      role: account.role,
+      telegramUserId: account.telegramUserId,
+    };
+  }
+
+  /** Active on-duty accounts linked to Telegram, mentioned in SLA re-pings. */
+  async listOnDuty(): Promise<(AdminPrincipal & { telegramUserId: string })[]> {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(adminAccounts)
+      .where(
+        and(
+          eq(adminAccounts.onDuty, true),
+          eq(adminAccounts.isActive, true),
+          isNotNull(adminAccounts.telegramUserId),
+        ),
+      )
+      .orderBy(asc(adminAccounts.id));
+    return rows.flatMap((account) =>
+      account.telegramUserId && isAdminRole(account.role)
+        ? [
+            {
+              accountId: account.id,
+              name: account.name,
+              role: account.role,
+              telegramUserId: account.telegramUserId,
+            },
+          ]
+        : [],
+    );
+  }
+
+  async list() {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(adminAccounts)
+      .orderBy(asc(adminAccounts.id));
+    return rows.map(toAccountView);
+  }
+
+  /** The raw token is returned only here and on rotation; only its hash is stored. */
+  async create(input: AdminAccountInput, createdBy: string) {
+    await this.ensureSchema();
+    const existing = await this.db
+      .select({ id: adminAccounts.id })
+      .from(adminAccounts)
+      .where(eq(adminAccounts.name, input.name))
+      .limit(1);
+    if (existing.length) {
+      throw new ConflictException("Admin name already exists");
+    }
+    if (input.telegramUserId) {
+      await this.assertTelegramUserFree(input.telegramUserId);
+    }
+
+    const token = generateAdminToken();
+    const now = nowInUzbekistan();
+    const created = await this.db
+      .insert(adminAccounts)
+      .values({
+        name: input.name,
+        role: input.role,
+        tokenHash: hashAdminToken(token),
+        telegramUserId: input.telegramUserId ?? null,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    this.logEvent("admin_account.created", {
+      accountId: created[0].id,
+      role: input.role,
+      by: createdBy,
+    });
+    return { account: toAccountView(created[0]), token };
+  }
+
+  async updateRole(id: number, role: AdminRole, updatedBy: string) {
+    const account = await this.update(id, { role });
+    this.logEvent("admin_account.role_changed", {
+      accountId: id,
+      role,
+      by: updatedBy,
+    });
+    return account;
+  }
+
+  async linkTelegramUser(
+    id: number,
+    telegramUserId: string | null,
+    updatedBy: string,
+  ) {
+    if (telegramUserId) {
+      await this.ensureSchema();
+      await this.assertTelegramUserFree(telegramUserId, id);
+    }
+    const account = await this.update(id, { telegramUserId });
+    this.logEvent("admin_account.telegram_linked", {
+      accountId: id,
+      telegramUserId,
+      by: updatedBy,
+    });
+    return account;
+  }
+
+  async setOnDuty(id: number, onDuty: boolean, updatedBy: string) {
+    const account = await this.update(id, { onDuty });
+    this.logEvent("admin_account.duty_changed", {
+      accountId: id,
+      onDuty,
+      by: updatedBy,
+    });
+    return account;
+  }
+
+  async rotateToken(id: number, rotatedBy: string) {
+    const token = generateAdminToken();
+    const account = await this.update(id, {
+      tokenHash: hashAdminToken(token),
+      isActive: true,
+    });
+    this.logEvent("admin_account.token_rotated", {
+      accountId: id,
+      by: rotatedBy,
+    });
+    return { account, token };
+  }
+
+  async deactivate(id: number, deactivatedBy: string) {
+    const account = await this.update(id, { isActive: false });
+    this.logEvent("admin_account.deactivated", {
+      accountId: id,
+      by: deactivatedBy,
+    });
+    return account;
+  }
+
+  private async update(
+    id: number,
+    values: Partial<
+      Pick<
+        AdminAccountRow,
+        "role" | "tokenHash" | "telegramUserId" | "isActive" | "onDuty"
+      >
+    >,
+  ) {
+    await this.ensureSchema();
+    const updated = await this.db
+      .update(adminAccounts)
+      .set({ ...values, updatedAt: nowInUzbekistan() })
+      .where(eq(adminAccounts.id, id))
+      .returning();
+    if (!updated.length) {
+      throw new NotFoundException("Admin account not found");
+    }
+    return toAccountView(updated[0]);
+  }
+
+  private async assertTelegramUserFree(
+    telegramUserId: string,
+    exceptId?: number,
+  ) {
+    const rows = await this.db
+      .select({ id: adminAccounts.id })
+      .from(adminAccounts)
+      .where(eq(adminAccounts.telegramUserId, telegramUserId))
+      .limit(1);
+    if (rows.length && rows[0].id !== exceptId) {
+      throw new ConflictException("Telegram user is linked to another admin");
+    }
+  }
+
+  private logEvent(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensureAdminAccountsSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn(
+        "Failed to ensure admin accounts schema",
+        error as Error,
+      );
+      throw error;
+    }
+  }
+}
+
+function toAccountView(account: AdminAccountRow) {
+  return {
+    id: account.id,
+    name: account.name,
+    role: account.role,
+    telegramUserId: account.telegramUserId,
+    isActive: account.isActive,
+    onDuty: account.onDuty,
+    lastUsedAt: account.lastUsedAt,
+    createdBy: account.createdBy,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+  };
+}
@@ -0,0 +1,18 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from "@nestjs/common";
+import { AdminPrincipal, AdminRole } from "./admin-auth.types";
+
+export const ADMIN_ROLES_KEY = "adminRoles";
+
+/** Roles besides owner that may call the handler or controller. */
+export const AdminRoles = (...roles: AdminRole[]) =>
+  SetMetadata(ADMIN_ROLES_KEY, roles);
+
+/** The admin `AdminAuthGuard` authenticated for this request. */
+export const CurrentAdmin = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AdminPrincipal =>
+    context.switchToHttp().getRequest<{ admin: AdminPrincipal }>().admin,
+);
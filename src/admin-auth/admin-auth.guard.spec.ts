@@ -0,0 +1,113 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Reflector } from "@nestjs/core";
+import { AdminAccountsService } from "./admin-accounts.service";
+import { AdminRoles } from "./admin-auth.decorators";
+import { AdminAuthGuard, LEGACY_ADMIN_NAME } from "./admin-auth.guard";
+import { AdminPrincipal } from "./admin-auth.types";
+
+class TestController {
+  ownerOnly() {}
+
+  @AdminRoles("payments")
+  payments() {}
+}
+
+describe("AdminAuthGuard", () => {
+  function createGuard(legacyKey?: string) {
+    const configService = { get: jest.fn().mockReturnValue(legacyKey) };
+    const adminAccountsService = {
+      authenticate: jest.fn().mockResolvedValue(null),
+    };
+    const guard = new AdminAuthGuard(
+      new Reflector(),
+      configService as unknown as ConfigService,
+      adminAccountsService as unknown as AdminAccountsService,
+    );
+    return { guard, adminAccountsService };
+  }
+
+  function createContext(
+    handler: keyof TestController,
+    headers: Record<string, string>,
+  ) {
+    const request: {
+      headers: Record<string, string>;
+      path: string;
+      admin?: AdminPrincipal;
+    } = { headers, path: `/test/${handler}` };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+    } as unknown as ExecutionContext;
+    return { context, request };
+  }
+
+  it("rejects requests without a token", async () => {
+    const { guard } = createGuard("secret-key");
+    const { context } = createContext("payments", {});
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it("rejects unknown tokens", async () => {
+    const { guard, adminAccountsService } = createGuard("secret-key");
+    const { context } = createContext("payments", { "x-admin-key": "wrong" });
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(adminAccountsService.authenticate).toHaveBeenCalledWith("wrong");
+  });
+
+  it("treats the legacy key as an owner", async () => {
+    const { guard, adminAccountsService } = createGuard("secret-key");
+    const { context, request } = createContext("ownerOnly", {
+      "x-admin-key": "secret-key",
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.admin).toEqual({
+      accountId: null,
+      name: LEGACY_ADMIN_NAME,
+      role: "owner",
+    });
+    expect(adminAccountsService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it("admits accounts whose role the handler declares", async () => {
+    const { guard, adminAccountsService } = createGuard();
+    const admin = { accountId: 2, name: "cashier", role: "payments" };
+    adminAccountsService.authenticate.mockResolvedValue(admin);
+    const { context, request } = createContext("payments", {
+      authorization: "Bearer adm_token",
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(adminAccountsService.authenticate).toHaveBeenCalledWith("adm_token");
+    expect(request.admin).toEqual(admin);
+  });
+
+  it("forbids roles the handler does not declare", async () => {
+    const { guard, adminAccountsService } = createGuard();
+    adminAccountsService.authenticate.mockResolvedValue({
+      accountId: 2,
+      name: "cashier",
+      role: "payments",
+    });
+    const { context } = createContext("ownerOnly", {
+      "x-admin-key": "adm_token",
+    });
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+});
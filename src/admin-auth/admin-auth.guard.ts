@@ -0,0 +1,72 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Reflector } from "@nestjs/core";
+import { Request } from "express";
+import { AdminAccountsService } from "./admin-accounts.service";
+import { ADMIN_ROLES_KEY } from "./admin-auth.decorators";
+import { extractAdminToken, isRoleAllowed } from "./admin-auth.rules";
+import { AdminPrincipal, AdminRole } from "./admin-auth.types";
+
+/** Name recorded for actions taken with the shared `ADMIN_API_KEY`. */
+export const LEGACY_ADMIN_NAME = "api-key";
+
+/**
+ * Authenticates the admin token and checks the roles declared with
+ * `@AdminRoles`. The shared `ADMIN_API_KEY` acts as an owner so the first
+ * accounts can be created with it.
+ */
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  private readonly logger = new Logger(AdminAuthGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly adminAccountsService: AdminAccountsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext) {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { admin?: AdminPrincipal }>();
+    const admin = await this.authenticate(extractAdminToken(request.headers));
+    if (!admin) {
+      throw new UnauthorizedException("Invalid admin key");
+    }
+
+    const allowed = this.reflector.getAllAndOverride<AdminRole[] | undefined>(
+      ADMIN_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!isRoleAllowed(admin.role, allowed)) {
+      this.logger.warn(
+        JSON.stringify({
+          event: "admin_auth.forbidden",
+          admin: admin.name,
+          role: admin.role,
+          path: request.path,
+        }),
+      );
+      throw new ForbiddenException("Admin role not allowed");
+    }
+
+    request.admin = admin;
+    return true;
+  }
+
+  private async authenticate(token?: string): Promise<AdminPrincipal | null> {
+    if (!token) return null;
+    const legacyKey = this.configService.get<string>("ADMIN_API_KEY");
+    if (legacyKey && token === legacyKey) {
+      return { accountId: null, name: LEGACY_ADMIN_NAME, role: "owner" };
+    }
+    return this.adminAccountsService.authenticate(token);
+  }
+}
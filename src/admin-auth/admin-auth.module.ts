@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { AdminAccountsController } from "./admin-accounts.controller";
+import { AdminAccountsService } from "./admin-accounts.service";
+import { AdminAuthGuard } from "./admin-auth.guard";
+
+@Module({
+  imports: [ConfigModule],
+  providers: [AdminAccountsService, AdminAuthGuard],
+  controllers: [AdminAccountsController],
+  exports: [AdminAccountsService, AdminAuthGuard],
+})
+export class AdminAuthModule {}
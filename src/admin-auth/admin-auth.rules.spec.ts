@@ -0,0 +1,40 @@
+import {
+  extractAdminToken,
+  generateAdminToken,
+  hashAdminToken,
+  isRoleAllowed,
+} from "./admin-auth.rules";
+
+describe("admin auth rules", () => {
+  it("generates distinct prefixed tokens", () => {
+    const first = generateAdminToken();
+    const second = generateAdminToken();
+
+    expect(first).toMatch(/^adm_[\w-]{32}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it("hashes tokens deterministically", () => {
+    expect(hashAdminToken("adm_a")).toBe(hashAdminToken("adm_a"));
+    expect(hashAdminToken("adm_a")).not.toBe(hashAdminToken("adm_b"));
+    expect(hashAdminToken("adm_a")).toHaveLength(64);
+  });
+
+  it.each([
+    ["owner", undefined, true],
+    ["moderator", undefined, false],
+    ["moderator", ["moderator"], true],
+    ["read_only", ["payments"], false],
+  ] as const)("allows %s for %j: %s", (role, allowed, expected) => {
+    expect(isRoleAllowed(role, allowed ? [...allowed] : undefined)).toBe(
+      expected,
+    );
+  });
+
+  it("reads the token from either header", () => {
+    expect(extractAdminToken({ "x-admin-key": " key " })).toBe("key");
+    expect(extractAdminToken({ authorization: "Bearer adm_x" })).toBe("adm_x");
+    expect(extractAdminToken({ authorization: "Basic abc" })).toBeUndefined();
+    expect(extractAdminToken({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,33 @@
+import { createHash, randomBytes } from "crypto";
+import { ADMIN_ROLES, AdminRole } from "./admin-auth.types";
+
+const ADMIN_TOKEN_PREFIX = "adm_";
+
+export function generateAdminToken() {
+  return `${ADMIN_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+/** Tokens are random, so a plain SHA-256 is enough; only the hash is stored. */
+export function hashAdminToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole);
+}
+
+/** Owners pass every check; an endpoint without declared roles is owner-only. */
+export function isRoleAllowed(role: AdminRole, allowed?: AdminRole[]) {
+  if (role === "owner") return true;
+  return Boolean(allowed?.includes(role));
+}
+
+/** Reads `x-admin-key` or an `Authorization: Bearer` header. */
+export function extractAdminToken(headers: Record<string, unknown>) {
+  const key = headers["x-admin-key"];
+  if (typeof key === "string" && key.trim()) return key.trim();
+  const authorization = headers.authorization;
+  if (typeof authorization !== "string") return undefined;
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+  return match?.[1];
+}
@@ -0,0 +1,23 @@
+export type AdminRole = "owner" | "moderator" | "payments" | "read_only";
+
+export const ADMIN_ROLES: AdminRole[] = [
+  "owner",
+  "moderator",
+  "payments",
+  "read_only",
+];
+
+/** Every role may read; use on GET endpoints. */
+export const ADMIN_READ_ROLES: AdminRole[] = ADMIN_ROLES;
+
+/**
+ * The admin a request was authenticated as. `accountId` is null for the legacy
+ * `ADMIN_API_KEY`; `telegramUserId` is set when the account is linked, so task
+ * claims taken in the admin bot hold for the API too.
+ */
+export type AdminPrincipal = {
+  accountId: number | null;
+  name: string;
+  role: AdminRole;
+  telegramUserId?: string;
+};
@@ -0,0 +1,71 @@
+import { BadRequestException } from "@nestjs/common";
+import { isAdminRole } from "./admin-auth.rules";
+import { ADMIN_ROLES, AdminRole } from "./admin-auth.types";
+
+export const ADMIN_NAME_MAX_LENGTH = 64;
+
+export type AdminAccountInput = {
+  name: string;
+  role: AdminRole;
+  telegramUserId?: string | null;
+};
+
+export function validateAdminAccountInput(
+  payload: Record<string, unknown>,
+): AdminAccountInput {
+  const name = typeof payload.name === "string" ? payload.name.trim() : "";
+  if (!name || name.length > ADMIN_NAME_MAX_LENGTH) {
+    throw new BadRequestException(
+      `name must be 1-${ADMIN_NAME_MAX_LENGTH} characters`,
+    );
+  }
+  return {
+    name,
+    role: validateAdminRole(payload.role),
+    telegramUserId:
+      payload.telegramUserId === undefined
+        ? undefined
+        : validateTelegramUserId(payload.telegramUserId),
+  };
+}
+
+export function validateAdminRole(value: unknown): AdminRole {
+  if (!isAdminRole(value)) {
+    throw new BadRequestException(
+      `role must be one of ${ADMIN_ROLES.join(", ")}`,
+    );
+  }
+  return value;
+}
+
+/** Numeric Telegram user ID as a string; null unlinks the account. */
+export function validateTelegramUserId(value: unknown): string | null {
+  if (value === null) return null;
+  const text =
+    typeof value === "number"
+      ? String(value)
+      : typeof value === "string"
+        ? value.trim()
+        : "";
+  if (!/^\d{1,20}$/.test(text)) {
+    throw new BadRequestException(
+      "telegramUserId must be a numeric ID or null",
+    );
+  }
+  return text;
+}
+
+export function validateOnDuty(value: unknown): boolean {
+  if (typeof value !== "boolean") {
+    throw new BadRequestException("onDuty must be a boolean");
+  }
+  return value;
+}
+
+export function parseAdminAccountId(value: string) {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new BadRequestException("id must be a positive integer");
+  }
+  return id;
+}
@@ -0,0 +1,239 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  lt,
+  sum,
+} from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import {
+  adminTasks,
+  orderEvents,
+  orders,
+  userModerationStates,
+  userProfiles,
+  vipSubscriptions,
+} from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { PAYABLE_ORDER_STATUSES } from "../orders/order-state-machine";
+import { redactUserProfilePayload } from "../user-profiles/user-profile.redaction";
+import {
+  StatsBreakdown,
+  StatsCommandData,
+  StatsPeriod,
+  UserCommandData,
+} from "./admin-bot.commands";
+
+/** Task statuses that still wait for an admin, across all task types. */
+export const OPEN_TASK_STATUSES = [
+  "pending",
+  "posted",
+  "payment_submitted",
+  "media_ready",
+];
+
+const PENDING_TASKS_LIMIT = 10;
+const RECENT_ORDERS_LIMIT = 3;
+const ORDER_EVENTS_LIMIT = 10;
+const VIP_SUBSCRIPTIONS_LIMIT = 5;
+
+/** Read-only lookups behind the admin-bot slash commands. */
+@Injectable()
+export class AdminBotQueriesService {
+  constructor(@Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>) {}
+
+  /** Phone and other sensitive profile fields are redacted unless `unredacted`. */
+  async findUser(
+    userId: string,
+    options: { unredacted: boolean },
+  ): Promise<UserCommandData> {
+    const profiles = await this.db
+      .select()
+      .from(userProfiles)
+      .where(eq(userProfiles.userId, userId))
+      .limit(1);
+    const moderation = await this.db
+      .select()
+      .from(userModerationStates)
+      .where(eq(userModerationStates.userId, userId))
+      .limit(1);
+    const recentOrders = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.id))
+      .limit(RECENT_ORDERS_LIMIT);
+    const activeVip = await this.db
+      .select()
+      .from(vipSubscriptions)
+      .where(
+        and(
+          eq(vipSubscriptions.userId, userId),
+          eq(vipSubscriptions.status, "active"),
+          gt(vipSubscriptions.expiresAt, nowInUzbekistan()),
+        ),
+      )
+      .orderBy(desc(vipSubscriptions.expiresAt))
+      .limit(1);
+    const openTasks = await this.db
+      .select({ total: count() })
+      .from(adminTasks)
+      .where(
+        and(
+          eq(adminTasks.userId, userId),
+          inArray(adminTasks.status, OPEN_TASK_STATUSES),
+        ),
+      );
+
+    const profile = profiles[0] as Record<string, unknown> | undefined;
+    return {
+      userId,
+      profile: options.unredacted ? profile : redactUserProfilePayload(profile),
+      moderation: moderation[0],
+      recentOrders,
+      activeVip: activeVip[0],
+      openTasks: Number(openTasks[0]?.total ?? 0),
+    };
+  }
+
+  async findOrder(orderId: number) {
+    const rows = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId))
+      .limit(1);
+    if (!rows.length) return undefined;
+    const events = await this.db
+      .select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(desc(orderEvents.id))
+      .limit(ORDER_EVENTS_LIMIT);
+    return { order: rows[0], events: events.reverse() };
+  }
+
+  /** Oldest open tasks first, with totals per task type. */
+  async listPendingTasks() {
+    const open = inArray(adminTasks.status, OPEN_TASK_STATUSES);
+    const tasks = await this.db
+      .select()
+      .from(adminTasks)
+      .where(open)
+      .orderBy(asc(adminTasks.id))
+      .limit(PENDING_TASKS_LIMIT);
+    const totals = await this.db
+      .select({ type: adminTasks.taskType, total: count() })
+      .from(adminTasks)
+      .where(open)
+      .groupBy(adminTasks.taskType)
+      .orderBy(asc(adminTasks.taskType));
+    return { tasks, totals: toBreakdown(totals) };
+  }
+
+  listVipSubscriptions(userId: string) {
+    return this.db
+      .select()
+      .from(vipSubscriptions)
+      .where(eq(vipSubscriptions.userId, userId))
+      .orderBy(desc(vipSubscriptions.id))
+      .limit(VIP_SUBSCRIPTIONS_LIMIT);
+  }
+
+  /**
+   * An order counts as paid in the window when it left a payable status for
+   * `paid` or `completed` then; revenue sums those orders' amounts.
+   */
+  async collectStats(
+    period: StatsPeriod,
+    range: { from: Date; to: Date },
+  ): Promise<StatsCommandData> {
+    const newUsers = await this.db
+      .select({ total: count() })
+      .from(userProfiles)
+      .where(
+        and(
+          gte(userProfiles.createdAt, range.from),
+          lt(userProfiles.createdAt, range.to),
+        ),
+      );
+    const ordersByType = await this.db
+      .select({ type: orders.orderType, total: count() })
+      .from(orders)
+      .where(
+        and(gte(orders.createdAt, range.from), lt(orders.createdAt, range.to)),
+      )
+      .groupBy(orders.orderType)
+      .orderBy(asc(orders.orderType));
+    const paid = await this.db
+      .select({ total: count(), revenue: sum(orders.amount) })
+      .from(orders)
+      .where(
+        inArray(
+          orders.id,
+          this.db
+            .select({ orderId: orderEvents.orderId })
+            .from(orderEvents)
+            .where(
+              and(
+                inArray(orderEvents.toStatus, ["paid", "completed"]),
+                inArray(orderEvents.fromStatus, PAYABLE_ORDER_STATUSES),
+                gte(orderEvents.createdAt, range.from),
+                lt(orderEvents.createdAt, range.to),
+              ),
+            ),
+        ),
+      );
+    const tasksCreated = await this.db
+      .select({ type: adminTasks.taskType, total: count() })
+      .from(adminTasks)
+      .where(
+        and(
+          gte(adminTasks.createdAt, range.from),
+          lt(adminTasks.createdAt, range.to),
+        ),
+      )
+      .groupBy(adminTasks.taskType)
+      .orderBy(asc(adminTasks.taskType));
+    const tasksResolved = await this.db
+      .select({ total: count() })
+      .from(adminTasks)
+      .where(
+        and(
+          gte(adminTasks.resolvedAt, range.from),
+          lt(adminTasks.resolvedAt, range.to),
+        ),
+      );
+    const newVip = await this.db
+      .select({ total: count() })
+      .from(vipSubscriptions)
+      .where(
+        and(
+          gte(vipSubscriptions.createdAt, range.from),
+          lt(vipSubscriptions.createdAt, range.to),
+        ),
+      );
+
+    return {
+      period,
+      newUsers: Number(newUsers[0]?.total ?? 0),
+      ordersByType: toBreakdown(ordersByType),
+      paidOrders: Number(paid[0]?.total ?? 0),
+      revenue: Number(paid[0]?.revenue ?? 0),
+      tasksCreated: toBreakdown(tasksCreated),
+      tasksResolved: Number(tasksResolved[0]?.total ?? 0),
+      newVipSubscriptions: Number(newVip[0]?.total ?? 0),
+    };
+  }
+}
+
+function toBreakdown(rows: { type: string; total: number }[]): StatsBreakdown {
+  return rows.map((row) => ({ type: row.type, total: Number(row.total) }));
+}
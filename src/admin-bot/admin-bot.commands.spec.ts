@@ -0,0 +1,164 @@
+import {
+  adminTasks,
+  orderEvents,
+  orders,
+  userModerationStates,
+} from "../database/schema";
+import {
+  formatCommandHelp,
+  formatOrderCard,
+  formatPendingTasks,
+  formatStats,
+  formatUserCard,
+  parseAdminCommand,
+  parseStatsPeriod,
+  resolveStatsRange,
+} from "./admin-bot.commands";
+
+describe("admin bot commands", () => {
+  it("parses known commands with bot mentions and arguments", () => {
+    expect(parseAdminCommand("/user@helper_bot  777 ")).toEqual({
+      name: "user",
+      args: ["777"],
+    });
+    expect(parseAdminCommand("/PENDING")).toEqual({
+      name: "pending",
+      args: [],
+    });
+    expect(parseAdminCommand("/unknown 1")).toBeUndefined();
+    expect(parseAdminCommand("salom /user 1")).toBeUndefined();
+  });
+
+  it("resolves stats periods to local-midnight ranges", () => {
+    const now = new Date(2025, 2, 10, 15, 30);
+
+    expect(parseStatsPeriod(undefined)).toBe("today");
+    expect(parseStatsPeriod("month")).toBeUndefined();
+    expect(resolveStatsRange("today", now)).toEqual({
+      from: new Date(2025, 2, 10),
+      to: now,
+    });
+    expect(resolveStatsRange("yesterday", now)).toEqual({
+      from: new Date(2025, 2, 9),
+      to: new Date(2025, 2, 10),
+    });
+    expect(resolveStatsRange("week", now).from).toEqual(new Date(2025, 2, 4));
+  });
+
+  it("lists only the commands the role may run", () => {
+    const help = formatCommandHelp("read_only");
+
+    expect(help).toContain("/user <userId>");
+    expect(help).not.toContain("/block");
+    expect(help).not.toContain("/assign");
+    expect(formatCommandHelp("owner")).toContain("/block <userId>");
+  });
+
+  it("formats a user card with moderation and VIP state", () => {
+    const text = formatUserCard({
+      userId: "777",
+      profile: { displayName: "Ali", phoneNumber: "[REDACTED]", adCount: 2 },
+      moderation: {
+        aiPaused: true,
+        blocked: false,
+        pausedUntil: null,
+      } as typeof userModerationStates.$inferSelect,
+      recentOrders: [
+        {
+          id: 5,
+          orderType: "vip",
+          status: "paid",
+          amount: 490_000,
+          createdAt: new Date(2025, 2, 1, 9, 5),
+        } as typeof orders.$inferSelect,
+      ],
+      activeVip: undefined,
+      openTasks: 1,
+    });
+
+    expect(text).toContain("Ism: Ali");
+    expect(text).toContain("Telefon: [REDACTED]");
+    expect(text).toContain("AI: to'xtatilgan");
+    expect(text).toContain("VIP: yo'q");
+    expect(text).toContain("#5 vip paid 490000 (2025-03-01 09:05)");
+  });
+
+  it("formats order history oldest first", () => {
+    const text = formatOrderCard(
+      {
+        id: 9,
+        userId: "777",
+        orderType: "ad",
+        status: "completed",
+        amount: 90_000,
+        createdAt: new Date(2025, 2, 1, 9, 0),
+      } as typeof orders.$inferSelect,
+      [
+        {
+          fromStatus: null,
+          toStatus: "awaiting_payment",
+          actor: "user",
+          reason: null,
+          createdAt: new Date(2025, 2, 1, 9, 0),
+        } as typeof orderEvents.$inferSelect,
+        {
+          fromStatus: "awaiting_payment",
+          toStatus: "paid",
+          actor: "admin",
+          reason: "payment_approved",
+          createdAt: new Date(2025, 2, 1, 9, 30),
+        } as typeof orderEvents.$inferSelect,
+      ],
+    );
+
+    expect(text).toContain(
+      "2025-03-01 09:30 awaiting_payment -> paid (admin, payment_approved)",
+    );
+  });
+
+  it("summarizes pending tasks and stats", () => {
+    const now = new Date(2025, 2, 1, 12, 0);
+
+    expect(formatPendingTasks([], [], now)).toBe("Ochiq tasklar yo'q.");
+    expect(
+      formatPendingTasks(
+        [
+          {
+            id: 3,
+            taskType: "payment",
+            status: "posted",
+            userId: "777",
+            createdAt: new Date(2025, 2, 1, 9, 0),
+          } as typeof adminTasks.$inferSelect,
+        ],
+        [{ type: "payment", total: 4 }],
+        now,
+      ),
+    ).toBe("Ochiq tasklar: 4 (payment 4)\n#3 payment posted user 777 - 3 soat");
+
+    expect(
+      formatStats({
+        period: "today",
+        newUsers: 3,
+        ordersByType: [
+          { type: "ad", total: 2 },
+          { type: "vip", total: 1 },
+        ],
+        paidOrders: 2,
+        revenue: 580_000,
+        tasksCreated: [],
+        tasksResolved: 0,
+        newVipSubscriptions: 1,
+      }),
+    ).toBe(
+      [
+        "Bugun:",
+        "Yangi foydalanuvchilar: 3",
+        "Buyurtmalar: 3 (ad 2, vip 1)",
+        "To'langan: 2 (580000 so'm)",
+        "Tasklar: 0, hal qilingan 0",
+        "Yangi VIP: 1",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,301 @@
+import { isRoleAllowed } from "../admin-auth/admin-auth.rules";
+import { ADMIN_READ_ROLES, AdminRole } from "../admin-auth/admin-auth.types";
+import {
+  adminTasks,
+  orderEvents,
+  orders,
+  userModerationStates,
+  vipSubscriptions,
+} from "../database/schema";
+
+export type AdminCommandName =
+  | "help"
+  | "user"
+  | "order"
+  | "pending"
+  | "vip"
+  | "resume"
+  | "block"
+  | "stats"
+  | "assign"
+  | "export"
+  | "duty";
+
+export type AdminCommand = { name: AdminCommandName; args: string[] };
+
+type AdminCommandSpec = {
+  usage: string;
+  description: string;
+  /** Roles besides owner that may run the command. */
+  roles: AdminRole[];
+};
+
+export const ADMIN_COMMANDS: Record<AdminCommandName, AdminCommandSpec> = {
+  help: {
+    usage: "/help",
+    description: "buyruqlar ro'yxati",
+    roles: ADMIN_READ_ROLES,
+  },
+  user: {
+    usage: "/user <userId>",
+    description: "foydalanuvchi profili va holati",
+    roles: ADMIN_READ_ROLES,
+  },
+  order: {
+    usage: "/order <orderId>",
+    description: "buyurtma va uning tarixi",
+    roles: ADMIN_READ_ROLES,
+  },
+  pending: {
+    usage: "/pending",
+    description: "ochiq tasklar",
+    roles: ADMIN_READ_ROLES,
+  },
+  vip: {
+    usage: "/vip <userId>",
+    description: "VIP obunalar",
+    roles: ADMIN_READ_ROLES,
+  },
+  resume: {
+    usage: "/resume <userId>",
+    description: "AI ni qaytarish",
+    roles: ["moderator"],
+  },
+  block: {
+    usage: "/block <userId>",
+    description: "foydalanuvchini bloklash",
+    roles: ["moderator"],
+  },
+  stats: {
+    usage: "/stats [today|yesterday|week]",
+    description: "kunlik statistika",
+    roles: ADMIN_READ_ROLES,
+  },
+  assign: {
+    usage: "/assign <taskId> <admin>",
+    description: "taskni boshqa adminga berish",
+    roles: [],
+  },
+  export: {
+    usage: "/export <userId> [json|text|html]",
+    description: "suhbat eksporti",
+    roles: ADMIN_READ_ROLES,
+  },
+  duty: {
+    usage: "/duty on|off",
+    description: "navbatchilik",
+    roles: ADMIN_READ_ROLES,
+  },
+};
+
+const COMMAND_PATTERN = /^\/([a-z]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i;
+
+/** Known slash commands only; `/foo` and plain text return undefined. */
+export function parseAdminCommand(text: string): AdminCommand | undefined {
+  const match = COMMAND_PATTERN.exec(text.trim());
+  if (!match) return undefined;
+  const name = match[1].toLowerCase();
+  if (!(name in ADMIN_COMMANDS)) return undefined;
+  return {
+    name: name as AdminCommandName,
+    args: (match[2] ?? "").split(/\s+/).filter(Boolean),
+  };
+}
+
+export function parseCommandUserId(value: string | undefined) {
+  return value && /^\d{1,20}$/.test(value) ? value : undefined;
+}
+
+export function parseCommandId(value: string | undefined) {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+export type StatsPeriod = "today" | "yesterday" | "week";
+
+export function parseStatsPeriod(
+  value: string | undefined,
+): StatsPeriod | undefined {
+  const period = (value ?? "today").toLowerCase();
+  return period === "today" || period === "yesterday" || period === "week"
+    ? period
+    : undefined;
+}
+
+/** Local-midnight boundaries; the process runs in `UZBEKISTAN_TIMEZONE`. */
+export function resolveStatsRange(period: StatsPeriod, now: Date) {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  const daysBack = period === "week" ? 6 : period === "yesterday" ? 1 : 0;
+  const from = new Date(startOfToday);
+  from.setDate(from.getDate() - daysBack);
+  const to = period === "yesterday" ? startOfToday : now;
+  return { from, to };
+}
+
+export function formatCommandHelp(role: AdminRole) {
+  return [
+    "Buyruqlar:",
+    ...Object.values(ADMIN_COMMANDS)
+      .filter((command) => isRoleAllowed(role, command.roles))
+      .map((command) => `${command.usage} - ${command.description}`),
+  ].join("\n");
+}
+
+/** Count per order or task type. */
+export type StatsBreakdown = { type: string; total: number }[];
+
+export type UserCommandData = {
+  userId: string;
+  profile: Record<string, unknown> | undefined;
+  moderation: typeof userModerationStates.$inferSelect | undefined;
+  recentOrders: (typeof orders.$inferSelect)[];
+  activeVip: typeof vipSubscriptions.$inferSelect | undefined;
+  openTasks: number;
+};
+
+export function formatUserCard(data: UserCommandData) {
+  const profile = data.profile;
+  const text = (key: string) =>
+    typeof profile?.[key] === "string" || typeof profile?.[key] === "number"
+      ? String(profile[key])
+      : "-";
+  return [
+    `user: ${data.userId}`,
+    profile
+      ? [
+          `Ism: ${text("displayName")}`,
+          `Telefon: ${text("phoneNumber")}`,
+          `Jins: ${text("gender")}`,
+          `Til: ${text("preferredLanguage")}`,
+          `Qadam: ${text("currentStep")}`,
+          `E'lonlar: ${text("adCount")}`,
+        ].join("\n")
+      : "Profil topilmadi.",
+    `AI: ${formatModeration(data.moderation)}`,
+    `VIP: ${data.activeVip ? `${formatDate(data.activeVip.expiresAt)} gacha` : "yo'q"}`,
+    `Ochiq tasklar: ${data.openTasks}`,
+    data.recentOrders.length ? "Oxirgi buyurtmalar:" : "",
+    ...data.recentOrders.map(formatOrderLine),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function formatOrderCard(
+  order: typeof orders.$inferSelect,
+  events: (typeof orderEvents.$inferSelect)[],
+) {
+  return [
+    `order: #${order.id}`,
+    `user: ${order.userId}`,
+    `type: ${order.orderType}`,
+    `status: ${order.status}`,
+    `amount: ${order.amount}`,
+    `created: ${formatDate(order.createdAt)}`,
+    events.length ? "Tarix:" : "",
+    ...events.map(
+      (event) =>
+        `${formatDate(event.createdAt)} ${event.fromStatus ?? "-"} -> ${event.toStatus} (${event.actor}${event.reason ? `, ${event.reason}` : ""})`,
+    ),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function formatPendingTasks(
+  tasks: (typeof adminTasks.$inferSelect)[],
+  totals: StatsBreakdown,
+  now: Date,
+) {
+  if (!totals.length) return "Ochiq tasklar yo'q.";
+  return [
+    `Ochiq tasklar: ${formatBreakdown(totals)}`,
+    ...tasks.map(
+      (task) =>
+        `#${task.id} ${task.taskType} ${task.status}${task.userId ? ` user ${task.userId}` : ""} - ${formatAge(task.createdAt, now)}`,
+    ),
+  ].join("\n");
+}
+
+export function formatVipCard(
+  userId: string,
+  subscriptions: (typeof vipSubscriptions.$inferSelect)[],
+) {
+  if (!subscriptions.length) return `user: ${userId}\nVIP obuna yo'q.`;
+  return [
+    `user: ${userId}`,
+    ...subscriptions.map(
+      (subscription) =>
+        `#${subscription.id} ${subscription.status}: ${formatDate(subscription.startsAt)} - ${formatDate(subscription.expiresAt)}`,
+    ),
+  ].join("\n");
+}
+
+export type StatsCommandData = {
+  period: StatsPeriod;
+  newUsers: number;
+  ordersByType: StatsBreakdown;
+  paidOrders: number;
+  revenue: number;
+  tasksCreated: StatsBreakdown;
+  tasksResolved: number;
+  newVipSubscriptions: number;
+};
+
+const STATS_PERIOD_LABELS: Record<StatsPeriod, string> = {
+  today: "Bugun",
+  yesterday: "Kecha",
+  week: "Oxirgi 7 kun",
+};
+
+export function formatStats(data: StatsCommandData) {
+  return [
+    `${STATS_PERIOD_LABELS[data.period]}:`,
+    `Yangi foydalanuvchilar: ${data.newUsers}`,
+    `Buyurtmalar: ${formatBreakdown(data.ordersByType)}`,
+    `To'langan: ${data.paidOrders} (${data.revenue} so'm)`,
+    `Tasklar: ${formatBreakdown(data.tasksCreated)}, hal qilingan ${data.tasksResolved}`,
+    `Yangi VIP: ${data.newVipSubscriptions}`,
+  ].join("\n");
+}
+
+function formatBreakdown(rows: StatsBreakdown) {
+  const total = rows.reduce((sum, row) => sum + row.total, 0);
+  return rows.length
+    ? `${total} (${rows.map((row) => `${row.type} ${row.total}`).join(", ")})`
+    : "0";
+}
+
+function formatOrderLine(order: typeof orders.$inferSelect) {
+  return `#${order.id} ${order.orderType} ${order.status} ${order.amount} (${formatDate(order.createdAt)})`;
+}
+
+function formatModeration(
+  state: typeof userModerationStates.$inferSelect | undefined,
+) {
+  if (state?.blocked) return "bloklangan";
+  if (state?.aiPaused) {
+    return state.pausedUntil
+      ? `to'xtatilgan (${formatDate(state.pausedUntil)} gacha)`
+      : "to'xtatilgan";
+  }
+  return "faol";
+}
+
+function formatDate(value: Date | null) {
+  if (!value) return "-";
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())} ${pad(value.getHours())}:${pad(value.getMinutes())}`;
+}
+
+function formatAge(createdAt: Date | null, now: Date) {
+  if (!createdAt) return "-";
+  const minutes = Math.max(
+    0,
+    Math.floor((now.getTime() - createdAt.getTime()) / 60_000),
+  );
+  if (minutes < 60) return `${minutes} daq`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours} soat` : `${Math.floor(hours / 24)} kun`;
+}
@@ -1,11 +1,14 @@
 import { Module } from "@nestjs/common";
 import { ConfigModule } from "@nestjs/config";
 import { AdminBotService } from "./admin-bot.service";
+import { AdminBotQueriesService } from "./admin-bot-queries.service";
 import { TelegramModule } from "../telegram/telegram.module";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
+import { TranscriptsModule } from "../transcripts/transcripts.module";
 
 @Module({
-  imports: [ConfigModule, TelegramModule],
-  providers: [AdminBotService],
+  imports: [ConfigModule, TelegramModule, AdminAuthModule, TranscriptsModule],
+  providers: [AdminBotService, AdminBotQueriesService],
   exports: [AdminBotService],
 })
 export class AdminBotModule {}
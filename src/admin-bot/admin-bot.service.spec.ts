@@ -1,4 +1,47 @@
+import { ConfigService } from "@nestjs/config";
+import { SQL } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { NewMessageEvent } from "telegram/events";
+import { CallbackQueryEvent } from "telegram/events/CallbackQuery";
+import { AdminAccountsService } from "../admin-auth/admin-accounts.service";
+import { AdminPrincipal } from "../admin-auth/admin-auth.types";
+import * as schema from "../database/schema";
+import { TelegramService } from "../telegram/telegram.service";
+import { TranscriptsService } from "../transcripts/transcripts.service";
+import { AdminBotQueriesService } from "./admin-bot-queries.service";
 import { AdminBotService } from "./admin-bot.service";
+import { SLA_MAX_PINGS } from "./admin-task-sla.rules";
+
+/** Builds the service from partial mocks; omitted dependencies are empty. */
+function buildService(
+  deps: {
+    telegramService?: object;
+    db?: object;
+    adminAccountsService?: object;
+    transcriptsService?: object;
+    queriesService?: object;
+  } = {},
+) {
+  return new AdminBotService(
+    { get: jest.fn() } as unknown as ConfigService,
+    (deps.telegramService ?? {}) as TelegramService,
+    (deps.db ?? {}) as NodePgDatabase<typeof schema>,
+    (deps.adminAccountsService ?? {}) as AdminAccountsService,
+    (deps.transcriptsService ?? {}) as TranscriptsService,
+    (deps.queriesService ?? {}) as AdminBotQueriesService,
+  );
+}
+
+/** A GramJS callback event carrying only the fields the handlers read. */
+function callbackEvent(fields: object) {
+  return fields as CallbackQueryEvent;
+}
+
+/** A GramJS new-message event wrapping a partial admin-group message. */
+function messageEvent(message: object) {
+  return { message } as NewMessageEvent;
+}
 
 describe("AdminBotService", () => {
   it("ignores duplicate payment decision updates", async () => {
@@ -26,17 +69,17 @@ describe("AdminBotService", () => {
       })),
     };
 
-    const configService: any = { get: jest.fn() };
     const telegramService: any = {
       fulfillContactOrder: jest.fn(),
       activateVipOrder: jest.fn(),
       handleAdPaymentApproved: jest.fn(),
       logAdminAction: jest.fn(),
       sendAdminResponse: jest.fn(),
+      sendLocalizedResponse: jest.fn(),
       syncUserCurrentStepFromOrderId: jest.fn(),
     };
 
-    const service = new AdminBotService(configService, telegramService, db);
+    const service = buildService({ telegramService, db });
     const event: any = { answer: jest.fn(), senderId: "42" };
 
     await (service as any).handlePaymentCallback(event, ["", "approve", "123"]);
@@ -45,7 +88,7 @@ describe("AdminBotService", () => {
     expect(telegramService.handleAdPaymentApproved).not.toHaveBeenCalled();
   });
 
-  it("syncs user current step when payment is rejected", async () => {
+  it("moves the order back to awaiting payment when payment is rejected", async () => {
     const task = {
       id: 50,
       status: "posted",
@@ -70,17 +113,17 @@ describe("AdminBotService", () => {
       })),
     };
 
-    const configService: any = { get: jest.fn() };
     const telegramService: any = {
       fulfillContactOrder: jest.fn(),
       activateVipOrder: jest.fn(),
       handleAdPaymentApproved: jest.fn(),
       logAdminAction: jest.fn(),
       sendAdminResponse: jest.fn(),
-      syncUserCurrentStepFromOrderId: jest.fn(),
+      sendLocalizedResponse: jest.fn(),
+      transitionOrder: jest.fn(),
     };
 
-    const service = new AdminBotService(configService, telegramService, db);
+    const service = buildService({ telegramService, db });
     const event: any = {
       answer: jest.fn(),
       senderId: "42",
@@ -90,6 +133,888 @@ describe("AdminBotService", () => {
 
     await (service as any).handlePaymentCallback(event, ["", "reject", "50"]);
 
-    expect(telegramService.syncUserCurrentStepFromOrderId).toHaveBeenCalledWith(90);
+    expect(telegramService.transitionOrder).toHaveBeenCalledWith(
+      90,
+      "awaiting_payment",
+      expect.objectContaining({ actor: "admin" }),
+    );
+  });
+
+  it("shows the promo discount in the admin payment task text", async () => {
+    const db = {
+      select: jest.fn(() => ({
+        from: jest.fn(() => ({
+          where: jest.fn(() => ({
+            limit: jest.fn().mockResolvedValue([
+              {
+                amount: 79_200,
+                meta: JSON.stringify({
+                  promo: {
+                    promoCodeId: 1,
+                    code: "BAHOR20",
+                    discountType: "percent",
+                    discountValue: 20,
+                    discountAmount: 19_800,
+                    originalAmount: 99_000,
+                  },
+                }),
+              },
+            ]),
+          })),
+        })),
+      })),
+    };
+    const service = buildService({ db });
+
+    await expect(service["buildPaymentAmountLines"](55)).resolves.toEqual([
+      "amount: 79200",
+      "promo: BAHOR20 (-19800, was 99000)",
+    ]);
+  });
+
+  it("approves a refund request and writes an audit entry", async () => {
+    const task = {
+      id: 70,
+      status: "posted",
+      userId: "111",
+      payload: JSON.stringify({
+        orderId: 91,
+        orderType: "contact",
+        amount: 99_000,
+        reason: "pulimni qaytaring",
+      }),
+    };
+
+    const db = {
+      select: jest.fn(() => ({
+        from: jest.fn(() => ({
+          where: jest.fn(() => ({
+            limit: jest.fn().mockResolvedValue([task]),
+          })),
+        })),
+      })),
+      update: jest.fn(() => ({
+        set: jest.fn(() => ({
+          where: jest.fn(() => ({
+            returning: jest.fn().mockResolvedValue([{ id: 70 }]),
+          })),
+        })),
+      })),
+    };
+
+    const telegramService = {
+      resolveRefundRequest: jest
+        .fn()
+        .mockResolvedValue({ id: 91, amount: 99_000, userId: "111" }),
+      logAdminAction: jest.fn(),
+    };
+
+    const service = buildService({ telegramService, db });
+    const event = {
+      answer: jest.fn(),
+      senderId: "42",
+      messageId: 1,
+      edit: jest.fn(),
+    };
+
+    await service["handleRefundCallback"](callbackEvent(event), 70, "approve");
+
+    expect(telegramService.resolveRefundRequest).toHaveBeenCalledWith(
+      91,
+      "approve",
+    );
+    expect(telegramService.logAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "refund_approve",
+        taskId: 70,
+        orderId: 91,
+        adminId: "42",
+      }),
+    );
+    expect(event.answer).toHaveBeenCalledWith({ message: "Pul qaytarildi" });
+  });
+
+  it("refuses to publish an anketa before its media is approved", async () => {
+    const db = {
+      select: jest.fn(() => ({
+        from: jest.fn(() => ({
+          where: jest.fn(() => ({
+            limit: jest
+              .fn()
+              .mockResolvedValue([
+                { id: 8, status: "posted", payload: '{"text":"Anketa"}' },
+              ]),
+          })),
+        })),
+      })),
+    };
+    const telegramService = {
+      publishAnketaTask: jest.fn(),
+      logAdminAction: jest.fn(),
+    };
+
+    const service = buildService({ telegramService, db });
+
+    await expect(service.publishTask(8, "web-admin")).resolves.toEqual({
+      outcome: "media_not_approved",
+    });
+    expect(telegramService.publishAnketaTask).not.toHaveBeenCalled();
+  });
+
+  describe("callback access control", () => {
+    function createService(admin: AdminPrincipal | null) {
+      const adminAccountsService = {
+        findByTelegramUserId: jest.fn().mockResolvedValue(admin),
+      };
+      const service = buildService({ adminAccountsService });
+      Object.assign(service, { client: {} });
+      jest
+        .spyOn(service as any, "findTask")
+        .mockResolvedValue({ id: 5, claimedBy: null });
+      const handlePayment = jest
+        .spyOn(service as any, "handlePaymentCallback")
+        .mockResolvedValue(undefined);
+      const handlePublish = jest
+        .spyOn(service as any, "handlePublishCallback")
+        .mockResolvedValue(undefined);
+      return { service, adminAccountsService, handlePayment, handlePublish };
+    }
+
+    it("refuses presses from Telegram users without an admin account", async () => {
+      const { service, adminAccountsService, handlePayment } =
+        createService(null);
+      const event = {
+        data: "pay:approve:5",
+        senderId: "42",
+        answer: jest.fn(),
+      };
+
+      await service["handleCallbackQuery"](callbackEvent(event));
+
+      expect(adminAccountsService.findByTelegramUserId).toHaveBeenCalledWith(
+        "42",
+      );
+      expect(event.answer).toHaveBeenCalledWith({
+        message: "Kechirasiz, bu amal uchun ruxsatingiz yo'q.",
+        alert: true,
+      });
+      expect(handlePayment).not.toHaveBeenCalled();
+    });
+
+    it("lets each role press only its own buttons", async () => {
+      const { service, handlePayment, handlePublish } = createService({
+        accountId: 2,
+        name: "cashier",
+        role: "payments",
+      });
+      const payEvent = {
+        data: "pay:approve:5",
+        senderId: "42",
+        answer: jest.fn(),
+      };
+      const publishEvent = {
+        data: "pub:post:6",
+        senderId: "42",
+        answer: jest.fn(),
+      };
+
+      await service["handleCallbackQuery"](callbackEvent(payEvent));
+      await service["handleCallbackQuery"](callbackEvent(publishEvent));
+
+      expect(handlePayment).toHaveBeenCalledTimes(1);
+      expect(handlePublish).not.toHaveBeenCalled();
+      expect(publishEvent.answer).toHaveBeenCalledWith(
+        expect.objectContaining({ alert: true }),
+      );
+    });
+
+    it("lets owners press every button", async () => {
+      const { service, handlePublish } = createService({
+        accountId: 1,
+        name: "owner",
+        role: "owner",
+      });
+      const event = { data: "pub:post:6", senderId: "1", answer: jest.fn() };
+
+      await service["handleCallbackQuery"](callbackEvent(event));
+
+      expect(handlePublish).toHaveBeenCalledWith(event, 6);
+    });
+  });
+
+  describe("/export command", () => {
+    function createService(admin: AdminPrincipal | null) {
+      const adminAccountsService = {
+        findByTelegramUserId: jest.fn().mockResolvedValue(admin),
+      };
+      const transcriptsService = {
+        exportTranscript: jest.fn().mockResolvedValue({
+          fileName: "transcript-111.html",
+          contentType: "text/html; charset=utf-8",
+          body: "<html></html>",
+        }),
+      };
+      const service = buildService({
+        adminAccountsService,
+        transcriptsService,
+      });
+      const client = { sendFile: jest.fn(), sendMessage: jest.fn() };
+      Object.assign(service, { client: client });
+      return { service, transcriptsService, client };
+    }
+
+    function createEvent(text: string) {
+      return messageEvent({
+        id: 3,
+        message: text,
+        senderId: "42",
+        peerId: "peer",
+      });
+    }
+
+    it("sends a redacted transcript to non-owner admins", async () => {
+      const { service, transcriptsService, client } = createService({
+        accountId: 2,
+        name: "moderator",
+        role: "moderator",
+      });
+
+      await service["handleAdminMessage"](createEvent("/export 111 html"));
+
+      expect(transcriptsService.exportTranscript).toHaveBeenCalledWith(
+        "111",
+        "html",
+        {
+          unredacted: false,
+          requestedBy: "moderator",
+        },
+      );
+      expect(client.sendFile).toHaveBeenCalledWith(
+        "peer",
+        expect.objectContaining({ forceDocument: true, replyTo: 3 }),
+      );
+    });
+
+    it("refuses senders without an admin account", async () => {
+      const { service, transcriptsService, client } = createService(null);
+
+      await service["handleAdminMessage"](createEvent("/export 111"));
+
+      expect(transcriptsService.exportTranscript).not.toHaveBeenCalled();
+      expect(client.sendMessage).toHaveBeenCalledWith("peer", {
+        message: "Kechirasiz, bu amal uchun ruxsatingiz yo'q.",
+        replyTo: 3,
+      });
+    });
+  });
+
+  describe("task claims", () => {
+    function createService(params: {
+      admin: AdminPrincipal;
+      task: { id: number } & Record<string, unknown>;
+      holder?: AdminPrincipal;
+    }) {
+      const adminAccountsService = {
+        findByTelegramUserId: jest.fn((telegramUserId: string) =>
+          Promise.resolve(
+            telegramUserId === "42" ? params.admin : params.holder,
+          ),
+        ),
+        findLinkedByName: jest.fn(),
+      };
+      const telegramService = { logAdminAction: jest.fn() };
+      const returning = jest.fn().mockResolvedValue([{ id: params.task.id }]);
+      const where = jest.fn(() => ({ returning }));
+      const set = jest.fn(() => ({ where }));
+      const db = { update: jest.fn(() => ({ set })) };
+      const service = buildService({
+        telegramService,
+        db,
+        adminAccountsService,
+      });
+      Object.assign(service, { client: {} });
+      jest.spyOn(service as any, "findTask").mockResolvedValue(params.task);
+      const refreshTaskCard = jest
+        .spyOn(service as any, "refreshTaskCard")
+        .mockResolvedValue(undefined);
+      const handlePayment = jest
+        .spyOn(service as any, "handlePaymentCallback")
+        .mockResolvedValue(undefined);
+      return {
+        service,
+        adminAccountsService,
+        telegramService,
+        set,
+        refreshTaskCard,
+        handlePayment,
+      };
+    }
+
+    const paymentTask = {
+      id: 5,
+      taskType: "payment",
+      status: "posted",
+      userId: "777",
+      adminMessageId: "90",
+      claimedBy: null,
+      claimedAt: null,
+    };
+
+    it("assigns a free task to the admin who presses Olaman", async () => {
+      const { service, set, telegramService, refreshTaskCard } = createService({
+        admin: { accountId: 2, name: "cashier", role: "payments" },
+        task: paymentTask,
+      });
+      const event = {
+        data: "clm:take:5",
+        senderId: "42",
+        answer: jest.fn(),
+      };
+
+      await service["handleCallbackQuery"](callbackEvent(event));
+
+      expect(set).toHaveBeenCalledTimes(1);
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ claimedBy: "42" }),
+      );
+      expect(set).not.toHaveBeenCalledWith(
+        expect.objectContaining({ firstResponseBy: "42" }),
+      );
+      expect(event.answer).toHaveBeenCalledWith({ message: "Task sizda." });
+      expect(telegramService.logAdminAction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "task_claim",
+          taskId: 5,
+          adminId: "42",
+        }),
+      );
+      expect(refreshTaskCard).toHaveBeenCalledWith(
+        paymentTask,
+        expect.objectContaining({ adminName: "cashier" }),
+      );
+    });
+
+    it("locks the task buttons to the assignee until the claim expires", async () => {
+      const { service, handlePayment } = createService({
+        admin: { accountId: 2, name: "cashier", role: "payments" },
+        holder: { accountId: 3, name: "vali", role: "payments" },
+        task: { ...paymentTask, claimedBy: "43", claimedAt: new Date() },
+      });
+      const event = {
+        data: "pay:approve:5",
+        senderId: "42",
+        answer: jest.fn(),
+      };
+
+      await service["handleCallbackQuery"](callbackEvent(event));
+
+      expect(handlePayment).not.toHaveBeenCalled();
+      const [answer] = event.answer.mock.calls[0] as [
+        { message: string; alert: boolean },
+      ];
+      expect(answer.alert).toBe(true);
+      expect(answer.message).toContain("Task band. Oldi: vali");
+    });
+
+    it("lets only the assignee or an owner release a claim", async () => {
+      const claimed = {
+        ...paymentTask,
+        claimedBy: "43",
+        claimedAt: new Date(),
+      };
+      const cashier = createService({
+        admin: { accountId: 2, name: "cashier", role: "payments" },
+        holder: { accountId: 3, name: "vali", role: "payments" },
+        task: claimed,
+      });
+      const owner = createService({
+        admin: { accountId: 1, name: "owner", role: "owner" },
+        task: claimed,
+      });
+      const cashierEvent = {
+        data: "clm:release:5",
+        senderId: "42",
+        answer: jest.fn(),
+      };
+      const ownerEvent = {
+        data: "clm:release:5",
+        senderId: "42",
+        answer: jest.fn(),
+      };
+
+      await cashier.service["handleCallbackQuery"](callbackEvent(cashierEvent));
+      await owner.service["handleCallbackQuery"](callbackEvent(ownerEvent));
+
+      expect(cashier.set).not.toHaveBeenCalled();
+      expect(owner.set).toHaveBeenCalledWith(
+        expect.objectContaining({ claimedBy: null, claimedAt: null }),
+      );
+      expect(ownerEvent.answer).toHaveBeenCalledWith({
+        message: "Task bo'shatildi.",
+      });
+      expect(owner.refreshTaskCard).toHaveBeenCalledWith(claimed);
+    });
+
+    it("holds the admin API task actions to the claim", async () => {
+      const { service, set, telegramService } = createService({
+        admin: { accountId: 2, name: "cashier", role: "payments" },
+        task: { ...paymentTask, claimedBy: "43", claimedAt: new Date() },
+      });
+
+      await expect(
+        service.decidePaymentTask(5, "approve", "web-admin", "42"),
+      ).resolves.toEqual({ outcome: "claimed" });
+      await expect(
+        service.resolveEscalationTask(5, "block", "api-key"),
+      ).resolves.toEqual({ outcome: "claimed" });
+
+      expect(set).not.toHaveBeenCalled();
+      expect(telegramService.logAdminAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("escalation relay", () => {
+    function createService(params: {
+      admin: AdminPrincipal;
+      openTasks: unknown[];
+    }) {
+      const results: unknown[][] = [[{ userId: "111" }], params.openTasks];
+      const db = {
+        select: jest.fn(() => ({
+          from: jest.fn(() => ({
+            where: jest.fn(() => ({
+              limit: jest.fn().mockResolvedValue(results.shift() ?? []),
+            })),
+          })),
+        })),
+        update: jest.fn(() => ({ set: updateSet })),
+      };
+      const updateSet = jest.fn(() => ({ where: jest.fn() }));
+      const telegramService = {
+        sendAdminResponse: jest.fn(),
+        logAdminAction: jest.fn(),
+        findRelayUserId: jest.fn(),
+      };
+      const adminAccountsService = {
+        findByTelegramUserId: jest.fn().mockResolvedValue(params.admin),
+      };
+      const service = buildService({
+        telegramService,
+        db,
+        adminAccountsService,
+      });
+      const client = { sendMessage: jest.fn() };
+      Object.assign(service, {
+        client,
+        adminGroupId: "-100500",
+        problemsTopicId: 7,
+      });
+      return { service, telegramService, client, updateSet };
+    }
+
+    const message = {
+      id: 300,
+      chatId: { toString: () => "-100500" },
+      senderId: { toString: () => "42" },
+      replyTo: { replyToMsgId: 250 },
+      message: "Salom, tekshiryapmiz",
+      peerId: "group",
+    };
+    const moderator: AdminPrincipal = {
+      accountId: 2,
+      name: "mod",
+      role: "moderator",
+    };
+
+    it("delivers admin replies to the escalated user", async () => {
+      const { service, telegramService, updateSet } = createService({
+        admin: moderator,
+        openTasks: [{ id: 12 }],
+      });
+
+      await service["handleAdminMessage"](messageEvent(message));
+
+      expect(telegramService.sendAdminResponse).toHaveBeenCalledWith(
+        "111",
+        "Salom, tekshiryapmiz",
+        { adminId: "42", relayMessageId: "300", file: undefined },
+      );
+      expect(telegramService.logAdminAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "escalation_reply", taskId: 12 }),
+      );
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({ firstResponseBy: "42" }),
+      );
+    });
+
+    it("does not relay once the escalation is resolved", async () => {
+      const { service, telegramService, client } = createService({
+        admin: moderator,
+        openTasks: [],
+      });
+
+      await service["handleAdminMessage"](messageEvent(message));
+
+      expect(telegramService.sendAdminResponse).not.toHaveBeenCalled();
+      expect(client.sendMessage).toHaveBeenCalledWith("group", {
+        message: "Murojaat yopilgan, xabar yuborilmadi.",
+        replyTo: 300,
+      });
+    });
+
+    it("holds replies to an escalation another admin claimed", async () => {
+      const { service, telegramService, client } = createService({
+        admin: moderator,
+        openTasks: [{ id: 12, claimedBy: "43", claimedAt: new Date() }],
+      });
+
+      await service["handleAdminMessage"](messageEvent(message));
+
+      expect(telegramService.sendAdminResponse).not.toHaveBeenCalled();
+      const [, { message: reply }] = client.sendMessage.mock.calls[0] as [
+        string,
+        { message: string },
+      ];
+      expect(reply).toContain("Task band. Oldi: mod");
+    });
+
+    it("refuses replies from admins without the moderator role", async () => {
+      const { service, telegramService } = createService({
+        admin: { accountId: 3, name: "cashier", role: "payments" },
+        openTasks: [{ id: 12 }],
+      });
+
+      await service["handleAdminMessage"](messageEvent(message));
+
+      expect(telegramService.sendAdminResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("SLA re-pings", () => {
+    const minutesAgo = (minutes: number) =>
+      new Date(Date.now() - minutes * 60_000);
+
+    type TaskRow = Partial<typeof schema.adminTasks.$inferSelect> & {
+      slaPingCount: number;
+    };
+
+    /**
+     * Applies the query's ping-count cap, when present, before the limit so
+     * the window behaves like the database's.
+     */
+    function selectOpen(tasks: TaskRow[], where: SQL) {
+      const { sql, params } = new PgDialect().sqlToQuery(where);
+      const cap = /"sla_ping_count" < \$(\d+)/.exec(sql);
+      const max = cap ? Number(params[Number(cap[1]) - 1]) : Infinity;
+      const visible = tasks.filter((task) => task.slaPingCount < max);
+      return {
+        orderBy: jest.fn(() => ({
+          limit: jest.fn((count: number) =>
+            Promise.resolve(visible.slice(0, count)),
+          ),
+        })),
+      };
+    }
+
+    function createService(tasks: TaskRow[]) {
+      const updateSet = jest.fn(() => ({ where: jest.fn() }));
+      const db = {
+        select: jest.fn(() => ({
+          from: jest.fn(() => ({
+            where: jest.fn((where: SQL) => selectOpen(tasks, where)),
+          })),
+        })),
+        update: jest.fn(() => ({ set: updateSet })),
+      };
+      const adminAccountsService = {
+        listOnDuty: jest.fn().mockResolvedValue([
+          { accountId: 1, name: "Boss", role: "owner", telegramUserId: "1" },
+          { accountId: 2, name: "Mod", role: "moderator", telegramUserId: "2" },
+          { accountId: 3, name: "Cash", role: "payments", telegramUserId: "3" },
+        ]),
+      };
+      const service = buildService({ db, adminAccountsService });
+      const client = {
+        getInputEntity: jest.fn((id: string) => Promise.resolve(`peer:${id}`)),
+        sendMessage: jest.fn(),
+      };
+      Object.assign(service, {
+        client,
+        adminGroupId: "-100500",
+        confirmPaymentsGroupId: "-100600",
+      });
+      return { service, client, updateSet };
+    }
+
+    const baseTask = {
+      id: 12,
+      taskType: "escalation",
+      status: "posted",
+      userId: "111",
+      adminMessageId: "250",
+      firstResponseAt: null,
+      resolvedAt: null,
+      slaPingedAt: null,
+      slaPingCount: 0,
+    };
+
+    it("replies to breached cards and mentions on-duty admins of that role", async () => {
+      const { service, client, updateSet } = createService([
+        { ...baseTask, createdAt: minutesAgo(20) },
+      ]);
+
+      await service.checkTaskSla();
+
+      const [peer, { message: text, ...options }] = client.sendMessage.mock
+        .calls[0] as [string, { message: string }];
+      expect(peer).toBe("peer:-100500");
+      expect(options).toEqual({ parseMode: "html", replyTo: 250 });
+      expect(text).toContain('<a href="tg://user?id=2">Mod</a>');
+      expect(text).toContain('<a href="tg://user?id=1">Boss</a>');
+      expect(text).not.toContain("Cash");
+      expect(updateSet).toHaveBeenCalledWith(
+        expect.objectContaining({ slaPingCount: 1 }),
+      );
+    });
+
+    it("routes payment pings to the payments group", async () => {
+      const { service, client } = createService([
+        { ...baseTask, taskType: "payment", createdAt: minutesAgo(20) },
+      ]);
+
+      await service.checkTaskSla();
+
+      const [peer, { message }] = client.sendMessage.mock.calls[0] as [
+        string,
+        { message: string },
+      ];
+      expect(peer).toBe("peer:-100600");
+      expect(message).toContain('<a href="tg://user?id=3">Cash</a>');
+    });
+
+    it("stays quiet within the thresholds and the re-ping interval", async () => {
+      const { service, client } = createService([
+        { ...baseTask, createdAt: minutesAgo(5) },
+        {
+          ...baseTask,
+          id: 13,
+          createdAt: minutesAgo(40),
+          slaPingedAt: minutesAgo(10),
+          slaPingCount: 1,
+        },
+      ]);
+
+      await service.checkTaskSla();
+
+      expect(client.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it("keeps pinging new cards behind more than 50 exhausted ones", async () => {
+      const exhausted = Array.from({ length: 60 }, (_, index) => ({
+        ...baseTask,
+        id: index + 1,
+        createdAt: minutesAgo(600),
+        slaPingedAt: minutesAgo(300),
+        slaPingCount: SLA_MAX_PINGS,
+      }));
+      const { service, client } = createService([
+        ...exhausted,
+        {
+          ...baseTask,
+          id: 99,
+          adminMessageId: "990",
+          createdAt: minutesAgo(20),
+        },
+      ]);
+
+      await service.checkTaskSla();
+
+      expect(client.sendMessage).toHaveBeenCalledTimes(1);
+      expect(client.sendMessage).toHaveBeenCalledWith(
+        "peer:-100500",
+        expect.objectContaining({ replyTo: 990 }),
+      );
+    });
+  });
+
+  describe("/duty command", () => {
+    it("toggles the duty flag of the linked admin account", async () => {
+      const adminAccountsService = {
+        findByTelegramUserId: jest
+          .fn()
+          .mockResolvedValue({ accountId: 2, name: "mod", role: "moderator" }),
+        setOnDuty: jest.fn(),
+      };
+      const service = buildService({ adminAccountsService });
+      const client = { sendMessage: jest.fn() };
+      Object.assign(service, { client: client });
+
+      await service["handleAdminMessage"](
+        messageEvent({
+          id: 4,
+          message: "/duty on",
+          senderId: "42",
+          peerId: "peer",
+        }),
+      );
+
+      expect(adminAccountsService.setOnDuty).toHaveBeenCalledWith(
+        2,
+        true,
+        "mod",
+      );
+      expect(client.sendMessage).toHaveBeenCalledWith("peer", {
+        message: "Siz navbatchisiz.",
+        replyTo: 4,
+      });
+    });
+  });
+
+  describe("operational commands", () => {
+    function createService(
+      admin: AdminPrincipal | null,
+      openTasks: unknown[] = [],
+    ) {
+      const adminAccountsService = {
+        findByTelegramUserId: jest.fn().mockResolvedValue(admin),
+      };
+      const telegramService = {
+        resumeAiForUser: jest.fn(),
+        blockEscalatedUser: jest.fn(),
+        logAdminAction: jest.fn(),
+      };
+      const db = {
+        select: jest.fn(() => ({
+          from: () => ({
+            where: () => ({ limit: jest.fn().mockResolvedValue(openTasks) }),
+          }),
+        })),
+      };
+      const queriesService = {
+        findUser: jest.fn().mockResolvedValue({
+          userId: "777",
+          profile: { displayName: "Ali" },
+          moderation: undefined,
+          recentOrders: [],
+          activeVip: undefined,
+          openTasks: 0,
+        }),
+        findOrder: jest.fn().mockResolvedValue(undefined),
+      };
+      const service = buildService({
+        telegramService,
+        db,
+        adminAccountsService,
+        queriesService,
+      });
+      const client = { sendMessage: jest.fn() };
+      Object.assign(service, { client: client });
+      return { service, telegramService, queriesService, client };
+    }
+
+    function send(service: AdminBotService, text: string) {
+      return service["handleAdminMessage"](
+        messageEvent({ id: 5, message: text, senderId: "42", peerId: "peer" }),
+      );
+    }
+
+    it("replies with the user card, redacted for non-owners", async () => {
+      const { service, queriesService, client } = createService({
+        accountId: 3,
+        name: "viewer",
+        role: "read_only",
+      });
+
+      await send(service, "/user 777");
+
+      expect(queriesService.findUser).toHaveBeenCalledWith("777", {
+        unredacted: false,
+      });
+      const [peer, { message, replyTo }] = client.sendMessage.mock.calls[0] as [
+        string,
+        { message: string; replyTo: number },
+      ];
+      expect(peer).toBe("peer");
+      expect(replyTo).toBe(5);
+      expect(message).toContain("Ism: Ali");
+    });
+
+    it("answers with usage and not-found messages", async () => {
+      const { service, client } = createService({
+        accountId: 3,
+        name: "viewer",
+        role: "read_only",
+      });
+
+      await send(service, "/order abc");
+      await send(service, "/order 9");
+
+      expect(client.sendMessage).toHaveBeenNthCalledWith(1, "peer", {
+        message: "Foydalanish: /order <orderId>",
+        replyTo: 5,
+      });
+      expect(client.sendMessage).toHaveBeenNthCalledWith(2, "peer", {
+        message: "Buyurtma topilmadi.",
+        replyTo: 5,
+      });
+    });
+
+    it("resumes the AI directly when the user has no open escalation", async () => {
+      const { service, telegramService, client } = createService({
+        accountId: 2,
+        name: "mod",
+        role: "moderator",
+      });
+
+      await send(service, "/resume 777");
+
+      expect(telegramService.resumeAiForUser).toHaveBeenCalledWith("777", "42");
+      expect(telegramService.logAdminAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "escalation_resume", userId: "777" }),
+      );
+      expect(client.sendMessage).toHaveBeenCalledWith("peer", {
+        message: "AI qaytarildi",
+        replyTo: 5,
+      });
+    });
+
+    it("leaves an escalation claimed by another admin alone", async () => {
+      const { service, telegramService, client } = createService(
+        { accountId: 2, name: "mod", role: "moderator" },
+        [
+          {
+            id: 12,
+            status: "posted",
+            userId: "777",
+            claimedBy: "43",
+            claimedAt: new Date(),
+          },
+        ],
+      );
+
+      await send(service, "/block 777");
+
+      expect(telegramService.blockEscalatedUser).not.toHaveBeenCalled();
+      expect(client.sendMessage).toHaveBeenCalledWith("peer", {
+        message: "Task band.",
+        replyTo: 5,
+      });
+    });
+
+    it("keeps moderation commands away from read-only admins", async () => {
+      const { service, telegramService, client } = createService({
+        accountId: 3,
+        name: "viewer",
+        role: "read_only",
+      });
+
+      await send(service, "/block 777");
+
+      expect(telegramService.blockEscalatedUser).not.toHaveBeenCalled();
+      expect(client.sendMessage).toHaveBeenCalledWith("peer", {
+        message: "Kechirasiz, bu amal uchun ruxsatingiz yo'q.",
+        replyTo: 5,
+      });
+    });
   });
 });
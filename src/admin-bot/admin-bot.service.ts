@@ -1,21 +1,139 @@
-import { Inject, Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Cron, CronExpression } from "@nestjs/schedule";
-import { TelegramClient } from "telegram";
+import { Api, TelegramClient } from "telegram";
 import { StringSession } from "telegram/sessions";
-import { CallbackQuery } from "telegram/events/CallbackQuery";
+import {
+  CallbackQuery,
+  CallbackQueryEvent,
+} from "telegram/events/CallbackQuery";
+import { NewMessage, NewMessageEvent } from "telegram/events";
+import { CustomFile } from "telegram/client/uploads";
 import { Button } from "telegram/tl/custom/button";
 import { DRIZZLE } from "../database/database.module";
 import { NodePgDatabase } from "drizzle-orm/node-postgres";
 import * as schema from "../database/schema";
 import { adminTasks, orders } from "../database/schema";
-import { and, desc, eq, inArray } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  notInArray,
+  or,
+  sql,
+} from "drizzle-orm";
 import { nowInUzbekistan } from "../common/time";
+import { resolveOrderPromo } from "../common/order-meta";
+import {
+  buildReceiptAdminLines,
+  ReceiptTaskSummary,
+} from "../payments/payment-receipt.rules";
 import { TelegramService } from "../telegram/telegram.service";
 import {
   resolveTelegramRoutingConfig,
   validateTelegramRoutingConfig,
 } from "../common/telegram-routing";
+import {
+  AdminTaskActionOutcome,
+  AdminTaskActionResult,
+} from "./admin-bot.types";
+import { AdminAccountsService } from "../admin-auth/admin-accounts.service";
+import { isRoleAllowed } from "../admin-auth/admin-auth.rules";
+import { AdminPrincipal, AdminRole } from "../admin-auth/admin-auth.types";
+import { TranscriptsService } from "../transcripts/transcripts.service";
+import { TRANSCRIPT_UNREDACTED_ROLES } from "../transcripts/transcripts.types";
+import { parseTranscriptFormat } from "../transcripts/transcripts.validation";
+import { EscalationClassification } from "../moderation/escalation-classifier.rules";
+import { ensureAdminTasksSchema } from "./admin-tasks-schema";
+import { AdminBotQueriesService } from "./admin-bot-queries.service";
+import {
+  ADMIN_COMMANDS,
+  AdminCommand,
+  formatCommandHelp,
+  formatOrderCard,
+  formatPendingTasks,
+  formatStats,
+  formatUserCard,
+  formatVipCard,
+  parseAdminCommand,
+  parseCommandId,
+  parseCommandUserId,
+  parseStatsPeriod,
+  resolveStatsRange,
+} from "./admin-bot.commands";
+import {
+  buildSlaPingText,
+  DEFAULT_SLA_REPING_MINUTES,
+  isSlaTaskType,
+  readMinutes,
+  resolveSlaPing,
+  resolveSlaPolicies,
+  SLA_MAX_PINGS,
+  SLA_OPEN_STATUSES,
+  SlaBreach,
+  SlaTaskType,
+} from "./admin-task-sla.rules";
+import {
+  CLAIM_CLOSED_STATUSES,
+  ClaimState,
+  claimExpiresAt,
+  DEFAULT_CLAIM_MINUTES,
+  formatClaimLine,
+  isClaimLockedCallback,
+  resolveClaimState,
+} from "./admin-task-claim.rules";
+
+const TASK_ACTION_ERRORS: Record<
+  Exclude<AdminTaskActionOutcome, "done">,
+  string
+> = {
+  not_found: "Task topilmadi.",
+  already_handled: "Allaqachon ishlangan.",
+  already_published: "Allaqachon chiqarilgan.",
+  media_not_approved: "Avval media tasdiqlang.",
+  missing_text: "Matn topilmadi.",
+  missing_user: "Foydalanuvchi topilmadi.",
+  claimed: "Task band.",
+};
+
+/** Roles besides owner that may press each kind of task button. */
+const CALLBACK_ROLES: Record<string, AdminRole[]> = {
+  pay: ["payments"],
+  ref: ["payments"],
+  pub: ["moderator"],
+  esc: ["moderator"],
+};
+
+/** Roles besides owner that may claim each task type, matching its buttons. */
+const TASK_TYPE_ROLES: Record<string, AdminRole[]> = {
+  payment: CALLBACK_ROLES.pay,
+  refund: CALLBACK_ROLES.ref,
+  publish: CALLBACK_ROLES.pub,
+  escalation: CALLBACK_ROLES.esc,
+};
+
+/** Which button roles an SLA re-ping mentions for each task type. */
+const SLA_PING_ROLES: Record<SlaTaskType, AdminRole[]> = {
+  escalation: CALLBACK_ROLES.esc,
+  payment: CALLBACK_ROLES.pay,
+};
+
+const ACCESS_DENIED_MESSAGE = "Kechirasiz, bu amal uchun ruxsatingiz yo'q.";
+
+const ESCALATION_REPLY_HINT =
+  "Foydalanuvchiga javob berish uchun shu xabarga reply qiling.";
 
 @Injectable()
 export class AdminBotService implements OnModuleInit {
@@ -28,14 +146,20 @@ export class AdminBotService implements OnModuleInit {
   private problemsTopicId?: number;
   private botStartInProgress = false;
   private botRetryTimer?: NodeJS.Timeout;
+  private schemaChecked = false;
+  private slaCheckRunning = false;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly telegramService: TelegramService,
     @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
+    private readonly adminAccountsService: AdminAccountsService,
+    private readonly transcriptsService: TranscriptsService,
+    private readonly queriesService: AdminBotQueriesService,
   ) {}
 
   async onModuleInit() {
+    await this.ensureSchema();
     await this.ensureBotStarted();
   }
 
@@ -115,6 +239,10 @@ export class AdminBotService implements OnModuleInit {
       this.handleCallbackQuery.bind(this),
       new CallbackQuery({}),
     );
+    this.client.addEventHandler(
+      this.handleAdminMessage.bind(this),
+      new NewMessage({ incoming: true }),
+    );
     this.logger.log("Admin helper bot started.");
   }
 
@@ -142,30 +270,130 @@ export class AdminBotService implements OnModuleInit {
       if (task.taskType === "escalation" && this.problemsTopicId) {
         await this.postEscalationTask(task);
       }
+      if (task.taskType === "refund" && this.paymentsTopicId) {
+        await this.postRefundTask(task);
+      }
+    }
+  }
+
+  /**
+   * Re-pings open escalation and payment cards whose SLA timers ran out,
+   * mentioning the on-duty admins who may act on them.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async checkTaskSla() {
+    if (!this.client || this.slaCheckRunning) return;
+    this.slaCheckRunning = true;
+    try {
+      const policies = resolveSlaPolicies((key) =>
+        this.configService.get<string>(key),
+      );
+      const repingMinutes = readMinutes(
+        this.configService.get<string>("SLA_REPING_MINUTES"),
+        DEFAULT_SLA_REPING_MINUTES,
+      );
+      const now = nowInUzbekistan();
+
+      // Cards that used up their pings are skipped in the query, and the
+      // least recently pinged come first, so the window keeps moving.
+      const open = await this.db
+        .select()
+        .from(adminTasks)
+        .where(
+          and(
+            isNotNull(adminTasks.adminMessageId),
+            lt(adminTasks.slaPingCount, SLA_MAX_PINGS),
+            or(
+              and(
+                eq(adminTasks.taskType, "escalation"),
+                inArray(adminTasks.status, SLA_OPEN_STATUSES.escalation),
+              ),
+              and(
+                eq(adminTasks.taskType, "payment"),
+                inArray(adminTasks.status, SLA_OPEN_STATUSES.payment),
+              ),
+            ),
+          ),
+        )
+        .orderBy(
+          asc(
+            sql`coalesce(${adminTasks.slaPingedAt}, ${adminTasks.createdAt})`,
+          ),
+          asc(adminTasks.id),
+        )
+        .limit(50);
+
+      let onDuty:
+        | Awaited<ReturnType<AdminAccountsService["listOnDuty"]>>
+        | undefined;
+      for (const task of open) {
+        if (!isSlaTaskType(task.taskType)) continue;
+        const policy = policies[task.taskType];
+        const breaches = resolveSlaPing(task, policy, { now, repingMinutes });
+        if (!breaches.length) continue;
+
+        onDuty ??= await this.adminAccountsService.listOnDuty();
+        const roles = SLA_PING_ROLES[task.taskType];
+        const mentions = onDuty.filter((admin) =>
+          isRoleAllowed(admin.role, roles),
+        );
+        await this.sendSlaPing(
+          task,
+          breaches,
+          buildSlaPingText(task, breaches, policy, mentions),
+        );
+      }
+    } catch (error) {
+      this.logger.warn("Failed to check task SLA", error as Error);
+    } finally {
+      this.slaCheckRunning = false;
     }
   }
 
+  private async sendSlaPing(
+    task: typeof adminTasks.$inferSelect,
+    breaches: SlaBreach[],
+    text: string,
+  ) {
+    const groupId = this.resolveTaskGroupId(task);
+    if (!this.client || !groupId || !task.adminMessageId) return;
+
+    try {
+      const groupPeer = await this.client.getInputEntity(groupId);
+      await this.client.sendMessage(groupPeer, {
+        message: text,
+        parseMode: "html",
+        replyTo: Number(task.adminMessageId),
+      });
+    } catch (error) {
+      this.logger.warn("Failed to send SLA ping", error as Error);
+      return;
+    }
+
+    await this.db
+      .update(adminTasks)
+      .set({
+        slaPingedAt: nowInUzbekistan(),
+        slaPingCount: task.slaPingCount + 1,
+      })
+      .where(eq(adminTasks.id, task.id));
+
+    this.logger.log(
+      JSON.stringify({
+        event: "admin_task.sla_breached",
+        taskId: task.id,
+        taskType: task.taskType,
+        breaches,
+        pingCount: task.slaPingCount + 1,
+      }),
+    );
+  }
+
   private async postEscalationTask(task: typeof adminTasks.$inferSelect) {
     if (!this.client || !this.adminGroupId || !this.problemsTopicId) return;
 
     const groupPeer = await this.client.getInputEntity(this.adminGroupId);
-    const payload = this.safeParsePayload(task.payload);
-    const text = this.buildEscalationText(task, payload);
-
-    const openUrl =
-      payload?.openUrl && typeof payload.openUrl === "string"
-        ? payload.openUrl
-        : task.userId
-          ? `tg://user?id=${task.userId}`
-          : undefined;
-
-    const buttons = [
-      [
-        ...(openUrl ? [Button.url("Ochish", openUrl)] : []),
-        Button.inline("AI ni qaytarish", Buffer.from(`esc:resume:${task.id}`, "utf-8")),
-        Button.inline("Bloklash", Buffer.from(`esc:block:${task.id}`, "utf-8")),
-      ],
-    ];
+    const { text, buttons } = await this.renderTaskCard(task);
 
     try {
       const sent = await this.client.sendMessage(groupPeer, {
@@ -192,34 +420,78 @@ export class AdminBotService implements OnModuleInit {
     if (!this.client || !this.confirmPaymentsGroupId || !this.paymentsTopicId) return;
 
     const groupPeer = await this.client.getInputEntity(this.confirmPaymentsGroupId);
-    const payload = this.safeParsePayload(task.payload);
-    const messageId = payload?.messageId ? `message: ${payload.messageId}` : "";
-    const orderId = payload?.orderId ? `order: #${payload.orderId}` : "";
-    const orderType = payload?.orderType ? `type: ${payload.orderType}` : "";
+    const { text, buttons } = await this.renderTaskCard(task);
 
-    const text = [
-      "Tolov tekshiruv",
-      `task: #${task.id}`,
-      task.userId ? `user: ${task.userId}` : "",
-      orderId,
-      orderType,
-      messageId,
-    ]
-      .filter(Boolean)
-      .join("\n");
+    try {
+      const sent = await this.client.sendMessage(groupPeer, {
+        message: text,
+        buttons,
+        replyTo: this.paymentsTopicId,
+      });
 
-    const buttons = [
-      [
-        Button.inline(
-          "Tasdiqlash",
-          Buffer.from(`pay:approve:${task.id}`, "utf-8"),
-        ),
-        Button.inline(
-          "Rad etish",
-          Buffer.from(`pay:reject:${task.id}`, "utf-8"),
-        ),
-      ],
-    ];
+      await this.db
+        .update(adminTasks)
+        .set({
+          status: "posted",
+          adminMessageId: sent?.id?.toString(),
+          adminTopicId: this.paymentsTopicId,
+          updatedAt: nowInUzbekistan(),
+        })
+        .where(eq(adminTasks.id, task.id));
+    } catch (error) {
+      this.logger.warn("Failed to post payment task", error as Error);
+    }
+  }
+
+  private async buildPaymentAmountLines(orderId: unknown) {
+    const numericId = Number(orderId);
+    if (!Number.isInteger(numericId) || numericId <= 0) return [];
+
+    const rows = await this.db
+      .select({ amount: orders.amount, meta: orders.meta })
+      .from(orders)
+      .where(eq(orders.id, numericId))
+      .limit(1);
+    const order = rows[0];
+    if (!order) return [];
+
+    const lines = [`amount: ${order.amount}`];
+    const promo = resolveOrderPromo(order.meta);
+    if (promo) {
+      lines.push(
+        `promo: ${promo.code} (-${promo.discountAmount}, was ${promo.originalAmount})`,
+      );
+    }
+    return lines;
+  }
+
+  private buildPaymentReceiptLines(
+    payload: Record<string, unknown> | undefined,
+  ) {
+    const receipt = payload?.receipt as ReceiptTaskSummary | undefined;
+    if (
+      !receipt ||
+      typeof receipt.confidence !== "string" ||
+      !Array.isArray(receipt.warnings)
+    ) {
+      return ["receipt: not analyzed"];
+    }
+    return buildReceiptAdminLines(
+      { ...receipt, duplicates: receipt.duplicates ?? [] },
+      typeof payload?.orderAmount === "number"
+        ? payload.orderAmount
+        : undefined,
+    );
+  }
+
+  private async postRefundTask(task: typeof adminTasks.$inferSelect) {
+    if (!this.client || !this.confirmPaymentsGroupId || !this.paymentsTopicId)
+      return;
+
+    const groupPeer = await this.client.getInputEntity(
+      this.confirmPaymentsGroupId,
+    );
+    const { text, buttons } = await this.renderTaskCard(task);
 
     try {
       const sent = await this.client.sendMessage(groupPeer, {
@@ -238,7 +510,7 @@ export class AdminBotService implements OnModuleInit {
         })
         .where(eq(adminTasks.id, task.id));
     } catch (error) {
-      this.logger.warn("Failed to post payment task", error as Error);
+      this.logger.warn("Failed to post refund task", error as Error);
     }
   }
 
@@ -271,39 +543,12 @@ export class AdminBotService implements OnModuleInit {
       });
     }
 
-    const buttons = [
-      [
-        Button.inline(
-          "Kanalga chiqarish",
-          Buffer.from(`pub:post:${task.id}`, "utf-8"),
-        ),
-        Button.inline(
-          "Media tasdiq",
-          Buffer.from(`pub:media:${task.id}`, "utf-8"),
-        ),
-        Button.inline(
-          "Media rad",
-          Buffer.from(`pub:media_reject:${task.id}`, "utf-8"),
-        ),
-        Button.inline(
-          "Preview",
-          Buffer.from(`pub:preview:${task.id}`, "utf-8"),
-        ),
-        Button.inline(
-          "Media reset",
-          Buffer.from(`pub:media_reset:${task.id}`, "utf-8"),
-        ),
-      ],
-    ];
-
-    const summary = this.buildMediaSummary(payload);
-    const checklist = this.buildChecklist(payload, task.status);
-    const header = [summary, checklist, text].filter(Boolean).join("\n\n");
+    const card = await this.renderTaskCard(task);
 
     try {
       const sent = await this.client.sendMessage(groupPeer, {
-        message: header,
-        buttons,
+        message: card.text,
+        buttons: card.buttons,
         replyTo: this.anketasTopicId,
       });
 
@@ -321,7 +566,115 @@ export class AdminBotService implements OnModuleInit {
     }
   }
 
-  private async handleCallbackQuery(event: any) {
+  /**
+   * Text and buttons of a task card plus its claim row: "Olaman" while the
+   * task is free, the assignee line and "Bo'shatish" once claimed.
+   */
+  private async renderTaskCard(
+    task: typeof adminTasks.$inferSelect,
+    claim?: { adminName: string; until: Date },
+  ) {
+    const payload = this.safeParsePayload(task.payload);
+    const card = await this.buildTaskCard(task, payload);
+    const claimButton = claim
+      ? Button.inline(
+          "Bo'shatish",
+          Buffer.from(`clm:release:${task.id}`, "utf-8"),
+        )
+      : Button.inline("Olaman", Buffer.from(`clm:take:${task.id}`, "utf-8"));
+    return {
+      text: claim
+        ? `${card.text}\n\n${formatClaimLine(claim.adminName, claim.until)}`
+        : card.text,
+      buttons: [...card.buttons, [claimButton]],
+    };
+  }
+
+  private async buildTaskCard(
+    task: typeof adminTasks.$inferSelect,
+    payload: Record<string, any> | undefined,
+  ): Promise<{ text: string; buttons: Api.TypeKeyboardButton[][] }> {
+    const action = (label: string, data: string) =>
+      Button.inline(label, Buffer.from(`${data}:${task.id}`, "utf-8"));
+
+    if (task.taskType === "payment") {
+      const messageId = payload?.messageId
+        ? `message: ${payload.messageId}`
+        : "";
+      const orderId = payload?.orderId ? `order: #${payload.orderId}` : "";
+      const orderType = payload?.orderType ? `type: ${payload.orderType}` : "";
+      const text = [
+        "Tolov tekshiruv",
+        `task: #${task.id}`,
+        task.userId ? `user: ${task.userId}` : "",
+        orderId,
+        orderType,
+        ...(await this.buildPaymentAmountLines(payload?.orderId)),
+        ...this.buildPaymentReceiptLines(payload),
+        messageId,
+      ]
+        .filter(Boolean)
+        .join("\n");
+      return {
+        text,
+        buttons: [
+          [
+            action("Tasdiqlash", "pay:approve"),
+            action("Rad etish", "pay:reject"),
+          ],
+        ],
+      };
+    }
+
+    if (task.taskType === "refund") {
+      return {
+        text: this.buildRefundText(task, payload),
+        buttons: [
+          [
+            action("Qaytarildi", "ref:approve"),
+            action("Rad etish", "ref:reject"),
+          ],
+        ],
+      };
+    }
+
+    if (task.taskType === "escalation") {
+      const openUrl =
+        payload?.openUrl && typeof payload.openUrl === "string"
+          ? payload.openUrl
+          : task.userId
+            ? `tg://user?id=${task.userId}`
+            : undefined;
+      return {
+        text: `${this.buildEscalationText(task, payload)}\n\n${ESCALATION_REPLY_HINT}`,
+        buttons: [
+          [
+            ...(openUrl ? [Button.url("Ochish", openUrl)] : []),
+            action("AI ni qaytarish", "esc:resume"),
+            action("Bloklash", "esc:block"),
+          ],
+        ],
+      };
+    }
+
+    const text = payload?.text ? String(payload.text) : "";
+    const summary = this.buildMediaSummary(payload);
+    const checklist = this.buildChecklist(payload, task.status);
+    return {
+      text: [summary, checklist, text].filter(Boolean).join("\n\n"),
+      buttons: [
+        [
+          action("Kanalga chiqarish", "pub:post"),
+          action("Media tasdiq", "pub:media"),
+          action("Media rad", "pub:media_reject"),
+          action("Preview", "pub:preview"),
+          action("Media reset", "pub:media_reset"),
+        ],
+      ],
+    };
+  }
+
+  private async handleCallbackQuery(event: CallbackQueryEvent) {
     if (!this.client) return;
     const data = this.decodeCallbackData(event?.data);
     const paymentMatch = this.parseCallback(data, /^pay:(approve|reject):(\d+)$/);
@@ -332,6 +685,19 @@ export class AdminBotService implements OnModuleInit {
     const resetMatch = this.parseCallback(data, /^pub:media_reset:(\d+)$/);
     const escalationResumeMatch = this.parseCallback(data, /^esc:resume:(\d+)$/);
     const escalationBlockMatch = this.parseCallback(data, /^esc:block:(\d+)$/);
+    const refundMatch = this.parseCallback(
+      data,
+      /^ref:(approve|reject):(\d+)$/,
+    );
+    const claimMatch = this.parseCallback(data, /^clm:(take|release):(\d+)$/);
+    if (claimMatch) {
+      await this.handleClaimCallback(
+        event,
+        Number(claimMatch[2]),
+        claimMatch[1] as "take" | "release",
+      );
+      return;
+    }
     if (
       !paymentMatch &&
       !publishMatch &&
@@ -340,49 +706,660 @@ export class AdminBotService implements OnModuleInit {
       !previewMatch &&
       !resetMatch &&
       !escalationResumeMatch &&
-      !escalationBlockMatch
+      !escalationBlockMatch &&
+      !refundMatch
     )
       return;
 
+    if (!(await this.authorizeCallback(event, data))) return;
+    if (
+      isClaimLockedCallback(data) &&
+      (await this.isClaimedByOther(event, data))
+    ) {
+      return;
+    }
+
+    if (refundMatch) {
+      await this.handleRefundCallback(
+        event,
+        Number(refundMatch[2]),
+        refundMatch[1] as "approve" | "reject",
+      );
+      return;
+    }
+
     if (paymentMatch) {
       await this.handlePaymentCallback(event, paymentMatch);
       return;
     }
 
-    if (publishMatch) {
-      await this.handlePublishCallback(event, Number(publishMatch[1]));
-    }
+    if (publishMatch) {
+      await this.handlePublishCallback(event, Number(publishMatch[1]));
+    }
+
+    if (mediaMatch) {
+      await this.handleMediaApprove(event, Number(mediaMatch[1]));
+    }
+
+    if (mediaRejectMatch) {
+      await this.handleMediaReject(event, Number(mediaRejectMatch[1]));
+    }
+
+    if (previewMatch) {
+      await this.handlePreview(event, Number(previewMatch[1]));
+    }
+
+    if (resetMatch) {
+      await this.handleMediaReset(event, Number(resetMatch[1]));
+    }
+
+    if (escalationResumeMatch) {
+      await this.handleEscalationCallback(
+        event,
+        Number(escalationResumeMatch[1]),
+        "resume",
+      );
+    }
+
+    if (escalationBlockMatch) {
+      await this.handleEscalationCallback(
+        event,
+        Number(escalationBlockMatch[1]),
+        "block",
+      );
+    }
+  }
+
+  /**
+   * "Olaman" assigns the task to the presser and locks its buttons to them for
+   * `ADMIN_TASK_CLAIM_MINUTES`; "Bo'shatish" frees it again. Owners may free
+   * anyone's claim.
+   */
+  private async handleClaimCallback(
+    event: CallbackQueryEvent,
+    taskId: number,
+    action: "take" | "release",
+  ) {
+    const senderId = event?.senderId?.toString?.();
+    const task = await this.findTask(taskId);
+    if (!task) {
+      await event.answer({ message: TASK_ACTION_ERRORS.not_found });
+      return;
+    }
+    const admin = await this.authorizeAdmin(
+      senderId,
+      TASK_TYPE_ROLES[task.taskType] ?? [],
+      `clm:${action}:${taskId}`,
+    );
+    if (!admin || !senderId) {
+      await event.answer({ message: ACCESS_DENIED_MESSAGE, alert: true });
+      return;
+    }
+    if (CLAIM_CLOSED_STATUSES.includes(task.status)) {
+      await event.answer({ message: TASK_ACTION_ERRORS.already_handled });
+      return;
+    }
+
+    const now = nowInUzbekistan();
+    const claimMinutes = this.resolveClaimMinutes();
+    const claim = resolveClaimState(task, senderId, now, claimMinutes);
+
+    if (action === "take") {
+      if (claim.state === "locked") {
+        await this.answerClaimLocked(event, claim);
+        return;
+      }
+      const claimed = await this.db
+        .update(adminTasks)
+        .set({ claimedBy: senderId, claimedAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(adminTasks.id, task.id),
+            notInArray(adminTasks.status, CLAIM_CLOSED_STATUSES),
+            or(
+              isNull(adminTasks.claimedBy),
+              eq(adminTasks.claimedBy, senderId),
+              lte(
+                adminTasks.claimedAt,
+                new Date(now.getTime() - claimMinutes * 60_000),
+              ),
+            ),
+          ),
+        )
+        .returning({ id: adminTasks.id });
+      if (!claimed.length) {
+        await event.answer({ message: "Task band." });
+        return;
+      }
+      await event.answer({ message: "Task sizda." });
+      await this.recordClaimChange(task, "task_claim", senderId, admin.name);
+      await this.refreshTaskCard(task, {
+        adminName: admin.name,
+        until: claimExpiresAt(now, claimMinutes),
+      });
+      return;
+    }
+
+    if (claim.state === "free") {
+      await event.answer({ message: "Task hech kimda emas." });
+      return;
+    }
+    if (claim.state === "locked" && admin.role !== "owner") {
+      await this.answerClaimLocked(event, claim);
+      return;
+    }
+    await this.db
+      .update(adminTasks)
+      .set({ claimedBy: null, claimedAt: null, updatedAt: now })
+      .where(
+        and(
+          eq(adminTasks.id, task.id),
+          eq(adminTasks.claimedBy, claim.claimedBy),
+        ),
+      );
+    await event.answer({ message: "Task bo'shatildi." });
+    await this.recordClaimChange(
+      task,
+      "task_release",
+      senderId,
+      claim.claimedBy,
+    );
+    await this.refreshTaskCard(task);
+  }
+
+  /** `/assign <taskId> <admin>`: owners hand a task to a linked admin who may act on it. */
+  private async assignTask(
+    taskId: number,
+    adminName: string,
+    assignedBy?: string,
+  ) {
+    const task = await this.findTask(taskId);
+    if (!task) return TASK_ACTION_ERRORS.not_found;
+    if (CLAIM_CLOSED_STATUSES.includes(task.status)) {
+      return TASK_ACTION_ERRORS.already_handled;
+    }
+    const target = await this.adminAccountsService.findLinkedByName(adminName);
+    if (!target) return "Telegramga bog'langan admin topilmadi.";
+    if (!isRoleAllowed(target.role, TASK_TYPE_ROLES[task.taskType] ?? [])) {
+      return `${target.name} bu taskni bajara olmaydi.`;
+    }
+
+    const now = nowInUzbekistan();
+    await this.db
+      .update(adminTasks)
+      .set({ claimedBy: target.telegramUserId, claimedAt: now, updatedAt: now })
+      .where(eq(adminTasks.id, task.id));
+    await this.recordClaimChange(
+      task,
+      "task_reassign",
+      assignedBy,
+      target.name,
+    );
+    await this.refreshTaskCard(task, {
+      adminName: target.name,
+      until: claimExpiresAt(now, this.resolveClaimMinutes()),
+    });
+    return `Task #${task.id} ${target.name} ga berildi.`;
+  }
+
+  /** Answers presses on a task another admin holds, naming the assignee. */
+  private async isClaimedByOther(event: CallbackQueryEvent, data: string) {
+    const task = await this.findTask(Number(data.split(":").pop()));
+    if (!task) return false;
+    const claim = this.findClaimLock(task, event?.senderId?.toString?.());
+    if (!claim) return false;
+    await this.answerClaimLocked(event, claim);
+    return true;
+  }
+
+  /** Another admin's live claim on the task, which keeps `claimantId` off it. */
+  private findClaimLock(
+    task: typeof adminTasks.$inferSelect,
+    claimantId: string | undefined,
+  ) {
+    const claim = resolveClaimState(
+      task,
+      claimantId,
+      nowInUzbekistan(),
+      this.resolveClaimMinutes(),
+    );
+    return claim.state === "locked" ? claim : undefined;
+  }
+
+  private async answerClaimLocked(
+    event: CallbackQueryEvent,
+    claim: Extract<ClaimState, { state: "locked" }>,
+  ) {
+    await event.answer({
+      message: await this.describeClaimLock(claim),
+      alert: true,
+    });
+  }
+
+  private async describeClaimLock(
+    claim: Extract<ClaimState, { state: "locked" }>,
+  ) {
+    const holder = await this.adminAccountsService.findByTelegramUserId(
+      claim.claimedBy,
+    );
+    return `Task band. ${formatClaimLine(holder?.name ?? claim.claimedBy, claim.until)}`;
+  }
+
+  private async recordClaimChange(
+    task: typeof adminTasks.$inferSelect,
+    action: "task_claim" | "task_release" | "task_reassign",
+    adminId: string | undefined,
+    details: string,
+  ) {
+    await this.telegramService.logAdminAction({
+      action,
+      taskId: task.id,
+      adminId,
+      userId: task.userId ?? undefined,
+      details,
+    });
+  }
+
+  /** Re-renders a posted card in place, keeping its buttons. */
+  private async refreshTaskCard(
+    task: typeof adminTasks.$inferSelect,
+    claim?: { adminName: string; until: Date },
+  ) {
+    const groupId = this.resolveTaskGroupId(task);
+    if (!this.client || !groupId || !task.adminMessageId) return;
+    try {
+      const { text, buttons } = await this.renderTaskCard(task, claim);
+      await this.client.editMessage(await this.client.getInputEntity(groupId), {
+        message: Number(task.adminMessageId),
+        text,
+        buttons,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to refresh task card", error as Error);
+    }
+  }
+
+  /** Payment and refund cards live in the payments group, the rest in the admin group. */
+  private resolveTaskGroupId(task: typeof adminTasks.$inferSelect) {
+    return task.taskType === "payment" || task.taskType === "refund"
+      ? this.confirmPaymentsGroupId
+      : this.adminGroupId;
+  }
+
+  private resolveClaimMinutes() {
+    return readMinutes(
+      this.configService.get<string>("ADMIN_TASK_CLAIM_MINUTES"),
+      DEFAULT_CLAIM_MINUTES,
+    );
+  }
+
+  /** Denied presses get a polite answer; `authorizeAdmin` logs them. */
+  private async authorizeCallback(event: CallbackQueryEvent, data: string) {
+    const prefix = data.split(":")[0];
+    const admin = await this.authorizeAdmin(
+      event?.senderId?.toString?.(),
+      CALLBACK_ROLES[prefix],
+      data,
+    );
+    if (!admin) {
+      await event.answer({ message: ACCESS_DENIED_MESSAGE, alert: true });
+    }
+    return admin;
+  }
+
+  /**
+   * Checks a Telegram user against the admin accounts linked to Telegram and
+   * writes an audit line for every denied attempt.
+   */
+  private async authorizeAdmin(
+    senderId: string | undefined,
+    allowed: AdminRole[] | undefined,
+    action: string,
+  ) {
+    let admin: AdminPrincipal | null = null;
+    if (senderId) {
+      try {
+        admin = await this.adminAccountsService.findByTelegramUserId(senderId);
+      } catch (error) {
+        this.logger.warn("Failed to resolve admin account", error as Error);
+      }
+    }
+    if (admin && isRoleAllowed(admin.role, allowed)) {
+      return admin;
+    }
+
+    this.logger.warn(
+      JSON.stringify({
+        event: "admin_bot.access_denied",
+        senderId: senderId ?? null,
+        admin: admin?.name ?? null,
+        role: admin?.role ?? null,
+        action,
+      }),
+    );
+    return null;
+  }
+
+  private async handleAdminMessage(event: NewMessageEvent) {
+    if (!this.client) return;
+    const message = event?.message;
+    const command =
+      typeof message?.message === "string"
+        ? parseAdminCommand(message.message)
+        : undefined;
+    if (command) {
+      await this.handleCommand(message, command);
+      return;
+    }
+    await this.relayEscalationReply(message);
+  }
+
+  /** Slash commands answer with a text reply; `/export` sends a file instead. */
+  private async handleCommand(message: Api.Message, command: AdminCommand) {
+    const admin = await this.authorizeAdmin(
+      message?.senderId?.toString?.(),
+      ADMIN_COMMANDS[command.name].roles,
+      command.name,
+    );
+    if (!admin) {
+      await this.replyToCommand(message, ACCESS_DENIED_MESSAGE);
+      return;
+    }
+
+    try {
+      const reply = await this.runCommand(message, command, admin);
+      if (reply) await this.replyToCommand(message, reply);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        await this.replyToCommand(message, error.message);
+        return;
+      }
+      this.logger.warn(`Failed to run /${command.name}`, error as Error);
+      await this.replyToCommand(message, "Buyruqni bajarib bo'lmadi.");
+    }
+  }
+
+  private async runCommand(
+    message: Api.Message,
+    command: AdminCommand,
+    admin: AdminPrincipal,
+  ): Promise<string | undefined> {
+    const usage = `Foydalanish: ${ADMIN_COMMANDS[command.name].usage}`;
+    const [first, second] = command.args;
+
+    switch (command.name) {
+      case "help":
+        return formatCommandHelp(admin.role);
+      case "user": {
+        const userId = parseCommandUserId(first);
+        if (!userId) return usage;
+        return formatUserCard(
+          await this.queriesService.findUser(userId, {
+            unredacted: TRANSCRIPT_UNREDACTED_ROLES.includes(admin.role),
+          }),
+        );
+      }
+      case "order": {
+        const orderId = parseCommandId(first);
+        if (!orderId) return usage;
+        const found = await this.queriesService.findOrder(orderId);
+        return found
+          ? formatOrderCard(found.order, found.events)
+          : "Buyurtma topilmadi.";
+      }
+      case "pending": {
+        const { tasks, totals } = await this.queriesService.listPendingTasks();
+        return formatPendingTasks(tasks, totals, nowInUzbekistan());
+      }
+      case "vip": {
+        const userId = parseCommandUserId(first);
+        if (!userId) return usage;
+        return formatVipCard(
+          userId,
+          await this.queriesService.listVipSubscriptions(userId),
+        );
+      }
+      case "resume":
+      case "block": {
+        const userId = parseCommandUserId(first);
+        if (!userId) return usage;
+        return this.runEscalationCommand(
+          userId,
+          command.name,
+          message?.senderId?.toString?.(),
+        );
+      }
+      case "stats": {
+        const period = parseStatsPeriod(first);
+        if (!period) return usage;
+        return formatStats(
+          await this.queriesService.collectStats(
+            period,
+            resolveStatsRange(period, nowInUzbekistan()),
+          ),
+        );
+      }
+      case "assign": {
+        const taskId = parseCommandId(first);
+        if (!taskId || !second) return usage;
+        return this.assignTask(taskId, second, message?.senderId?.toString?.());
+      }
+      case "export": {
+        const userId = parseCommandUserId(first);
+        if (!userId) return usage;
+        await this.sendTranscript(message, userId, second ?? "html", admin);
+        return undefined;
+      }
+      case "duty": {
+        const mode = first?.toLowerCase();
+        if ((mode !== "on" && mode !== "off") || !admin.accountId) return usage;
+        await this.adminAccountsService.setOnDuty(
+          admin.accountId,
+          mode === "on",
+          admin.name,
+        );
+        return mode === "on" ? "Siz navbatchisiz." : "Navbatchilik tugadi.";
+      }
+    }
+  }
+
+  /** `/export <userId> [json|text|html]` sends the user's transcript as a file. */
+  private async sendTranscript(
+    message: Api.Message,
+    userId: string,
+    format: string,
+    admin: AdminPrincipal,
+  ) {
+    if (!this.client) return;
+    const rendered = await this.transcriptsService.exportTranscript(
+      userId,
+      parseTranscriptFormat(format),
+      {
+        unredacted: TRANSCRIPT_UNREDACTED_ROLES.includes(admin.role),
+        requestedBy: admin.name,
+      },
+    );
+    const buffer = Buffer.from(rendered.body, "utf-8");
+    await this.client.sendFile(message.peerId, {
+      file: new CustomFile(rendered.fileName, buffer.length, "", buffer),
+      forceDocument: true,
+      replyTo: message.id,
+      caption: `Transcript: ${userId}`,
+    });
+  }
+
+  /**
+   * `/resume` and `/block` close the user's open escalation like the card
+   * buttons; without one they act on the user directly.
+   */
+  private async runEscalationCommand(
+    userId: string,
+    action: "resume" | "block",
+    adminId: string | undefined,
+  ) {
+    const openTask = await this.findOpenEscalationTask(userId);
+    if (openTask) {
+      const result = await this.resolveEscalationTask(
+        openTask.id,
+        action,
+        adminId,
+        adminId,
+      );
+      if (result.outcome !== "done") return TASK_ACTION_ERRORS[result.outcome];
+    } else {
+      let details = "AI resumed";
+      if (action === "resume") {
+        await this.telegramService.resumeAiForUser(userId, adminId);
+      } else {
+        const result = await this.telegramService.blockEscalatedUser(
+          userId,
+          adminId,
+        );
+        details = result.telegramBlocked
+          ? "blocked in Telegram"
+          : "local block only";
+      }
+      await this.telegramService.logAdminAction({
+        action: action === "resume" ? "escalation_resume" : "escalation_block",
+        adminId,
+        userId,
+        details,
+      });
+    }
+    return action === "resume" ? "AI qaytarildi" : "Foydalanuvchi bloklandi";
+  }
+
+  /**
+   * Replies in the escalation topic to the task card or to a mirrored user
+   * message are delivered to that user while the escalation is open. Mirrors
+   * come from the userbot, so replies to them only arrive when the bot is a
+   * group admin or has privacy mode disabled.
+   */
+  private async relayEscalationReply(message: Api.Message) {
+    if (!this.client || !this.adminGroupId || !this.problemsTopicId) return;
+    if (message?.chatId?.toString?.() !== this.adminGroupId) return;
+    const replyToId = message?.replyTo?.replyToMsgId;
+    if (!replyToId || replyToId === this.problemsTopicId) return;
+    const text = typeof message.message === "string" ? message.message : "";
+    if (text.startsWith("/")) return;
+
+    const userId = await this.resolveRelayUserId(String(replyToId));
+    if (!userId) return;
+
+    const senderId = message?.senderId?.toString?.();
+    const admin = await this.authorizeAdmin(
+      senderId,
+      CALLBACK_ROLES.esc,
+      "relay",
+    );
+    if (!admin || !senderId) {
+      await this.replyToCommand(message, ACCESS_DENIED_MESSAGE);
+      return;
+    }
+
+    const openTask = await this.findOpenEscalationTask(userId);
+    if (!openTask) {
+      await this.replyToCommand(
+        message,
+        "Murojaat yopilgan, xabar yuborilmadi.",
+      );
+      return;
+    }
+    const claim = this.findClaimLock(openTask, senderId);
+    if (claim) {
+      await this.replyToCommand(message, await this.describeClaimLock(claim));
+      return;
+    }
+
+    const file = message.media
+      ? await this.downloadMessageMedia(message)
+      : undefined;
+    if (!text.trim() && !file) return;
 
-    if (mediaMatch) {
-      await this.handleMediaApprove(event, Number(mediaMatch[1]));
+    try {
+      await this.telegramService.sendAdminResponse(userId, text, {
+        adminId: senderId,
+        relayMessageId: String(message.id),
+        file,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to relay admin reply", error as Error);
+      await this.replyToCommand(message, "Xabar yuborilmadi.");
+      return;
     }
 
-    if (mediaRejectMatch) {
-      await this.handleMediaReject(event, Number(mediaRejectMatch[1]));
-    }
+    await this.markFirstResponse(openTask.id, senderId);
+    await this.telegramService.logAdminAction({
+      action: "escalation_reply",
+      taskId: openTask.id,
+      adminId: senderId,
+      userId,
+    });
+  }
 
-    if (previewMatch) {
-      await this.handlePreview(event, Number(previewMatch[1]));
+  /** Stops the first-response timer; later replies keep the original stamp. */
+  private async markFirstResponse(taskId: number, adminId: string) {
+    try {
+      await this.db
+        .update(adminTasks)
+        .set({ firstResponseAt: nowInUzbekistan(), firstResponseBy: adminId })
+        .where(
+          and(eq(adminTasks.id, taskId), isNull(adminTasks.firstResponseAt)),
+        );
+    } catch (error) {
+      this.logger.warn("Failed to record first response", error as Error);
     }
+  }
 
-    if (resetMatch) {
-      await this.handleMediaReset(event, Number(resetMatch[1]));
-    }
+  private async findOpenEscalationTask(userId: string) {
+    const rows = await this.db
+      .select()
+      .from(adminTasks)
+      .where(
+        and(
+          eq(adminTasks.userId, userId),
+          eq(adminTasks.taskType, "escalation"),
+          inArray(adminTasks.status, ["pending", "posted"]),
+        ),
+      )
+      .limit(1);
+    return rows[0];
+  }
 
-    if (escalationResumeMatch) {
-      await this.handleEscalationCallback(
-        event,
-        Number(escalationResumeMatch[1]),
-        "resume",
-      );
+  private async resolveRelayUserId(groupMessageId: string) {
+    const tasks = await this.db
+      .select({ userId: adminTasks.userId })
+      .from(adminTasks)
+      .where(
+        and(
+          eq(adminTasks.adminMessageId, groupMessageId),
+          eq(adminTasks.taskType, "escalation"),
+        ),
+      )
+      .limit(1);
+    if (tasks[0]?.userId) return tasks[0].userId;
+    return this.telegramService.findRelayUserId(groupMessageId);
+  }
+
+  private async downloadMessageMedia(message: Api.Message) {
+    try {
+      const data = await message.downloadMedia?.({});
+      return Buffer.isBuffer(data) ? data : undefined;
+    } catch (error) {
+      this.logger.warn("Failed to download relay media", error as Error);
+      return undefined;
     }
+  }
 
-    if (escalationBlockMatch) {
-      await this.handleEscalationCallback(
-        event,
-        Number(escalationBlockMatch[1]),
-        "block",
-      );
+  private async replyToCommand(message: Api.Message, text: string) {
+    if (!this.client) return;
+    try {
+      await this.client.sendMessage(message.peerId, {
+        message: text,
+        replyTo: message.id,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to reply to admin command", error as Error);
     }
   }
 
@@ -391,34 +1368,60 @@ export class AdminBotService implements OnModuleInit {
     taskId: number,
     action: "resume" | "block",
   ) {
-    const existing = await this.db
-      .select()
-      .from(adminTasks)
-      .where(eq(adminTasks.id, taskId))
-      .limit(1);
-
-    if (!existing.length) {
-      await event.answer({ message: "Task topilmadi." });
+    const senderId = event?.senderId?.toString?.() as string | undefined;
+    const result = await this.resolveEscalationTask(
+      taskId,
+      action,
+      senderId,
+      senderId,
+    );
+    if (result.outcome !== "done") {
+      await event.answer({ message: TASK_ACTION_ERRORS[result.outcome] });
       return;
     }
 
-    const task = existing[0];
-    if (["resolved", "blocked"].includes(task.status)) {
-      await event.answer({ message: "Allaqachon ishlangan." });
-      return;
-    }
+    const statusLabel =
+      action === "resume" ? "AI qaytarildi" : "Foydalanuvchi bloklandi";
+    await event.answer({ message: statusLabel });
 
-    if (!task.userId) {
-      await event.answer({ message: "Foydalanuvchi topilmadi." });
-      return;
+    const text = [
+      this.buildEscalationText(result.task, result.payload),
+      `status: ${statusLabel}`,
+      event.senderId ? `by: ${event.senderId.toString()}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    await this.safeEditCallbackMessage(event, text);
+  }
+
+  /**
+   * Resume or block button of an escalation task; also used by the admin API.
+   * `claimantId` is the acting admin's Telegram id, checked against the claim.
+   */
+  async resolveEscalationTask(
+    taskId: number,
+    action: "resume" | "block",
+    adminId?: string,
+    claimantId?: string,
+  ): Promise<AdminTaskActionResult> {
+    const task = await this.findTask(taskId);
+    if (!task) return { outcome: "not_found" };
+    if (["resolved", "blocked"].includes(task.status)) {
+      return { outcome: "already_handled" };
     }
+    if (this.findClaimLock(task, claimantId)) return { outcome: "claimed" };
+    if (!task.userId) return { outcome: "missing_user" };
 
     let details = "";
     if (action === "resume") {
-      await this.telegramService.resumeAiForUser(task.userId);
+      await this.telegramService.resumeAiForUser(task.userId, adminId);
       details = "AI resumed";
     } else {
-      const result = await this.telegramService.blockEscalatedUser(task.userId);
+      const result = await this.telegramService.blockEscalatedUser(
+        task.userId,
+        adminId,
+      );
       details = result.telegramBlocked ? "blocked in Telegram" : "local block only";
     }
 
@@ -428,45 +1431,38 @@ export class AdminBotService implements OnModuleInit {
       .update(adminTasks)
       .set({
         status: nextStatus,
-        adminActionBy: event?.senderId?.toString?.(),
+        adminActionBy: adminId,
         adminActionAt: nowInUzbekistan(),
+        resolvedAt: nowInUzbekistan(),
         updatedAt: nowInUzbekistan(),
       })
       .where(and(eq(adminTasks.id, task.id), inArray(adminTasks.status, ["pending", "posted"])))
       .returning({ id: adminTasks.id });
 
     if (updated.length === 0) {
-      await event.answer({ message: "Allaqachon ishlangan." });
-      return;
+      return { outcome: "already_handled" };
     }
 
     await this.telegramService.logAdminAction({
       action: action === "resume" ? "escalation_resume" : "escalation_block",
       taskId: task.id,
-      adminId: event?.senderId?.toString?.(),
+      adminId,
       userId: task.userId,
       details,
     });
 
-    const statusLabel = action === "resume" ? "AI qaytarildi" : "Foydalanuvchi bloklandi";
-    await event.answer({ message: statusLabel });
-
-    const payload = this.safeParsePayload(task.payload);
-    const text = [
-      this.buildEscalationText(task, payload),
-      `status: ${statusLabel}`,
-      event?.senderId ? `by: ${event.senderId}` : "",
-    ]
-      .filter(Boolean)
-      .join("\n");
-
-    await this.safeEditCallbackMessage(event, text);
+    return {
+      outcome: "done",
+      task: { ...task, status: nextStatus },
+      payload: this.safeParsePayload(task.payload),
+    };
   }
 
-  private async handlePaymentCallback(event: any, match: RegExpExecArray) {
-    const action = match[1];
-    const taskId = Number(match[2]);
-
+  private async handleRefundCallback(
+    event: CallbackQueryEvent,
+    taskId: number,
+    action: "approve" | "reject",
+  ) {
     const existing = await this.db
       .select()
       .from(adminTasks)
@@ -486,16 +1482,15 @@ export class AdminBotService implements OnModuleInit {
 
     const payload = this.safeParsePayload(task.payload);
     const orderId = payload?.orderId ? Number(payload.orderId) : undefined;
-    const orderType = payload?.orderType
-      ? String(payload.orderType)
-      : undefined;
-
-    const nextStatus = action === "approve" ? "approved" : "rejected";
+    if (!orderId) {
+      await event.answer({ message: "Buyurtma topilmadi." });
+      return;
+    }
 
     const updated = await this.db
       .update(adminTasks)
       .set({
-        status: nextStatus,
+        status: action === "approve" ? "approved" : "rejected",
         adminActionBy: event?.senderId?.toString?.(),
         adminActionAt: nowInUzbekistan(),
         updatedAt: nowInUzbekistan(),
@@ -503,7 +1498,7 @@ export class AdminBotService implements OnModuleInit {
       .where(
         and(
           eq(adminTasks.id, task.id),
-          inArray(adminTasks.status, ["pending", "posted", "payment_submitted"]),
+          inArray(adminTasks.status, ["pending", "posted"]),
         ),
       )
       .returning({ id: adminTasks.id });
@@ -513,45 +1508,52 @@ export class AdminBotService implements OnModuleInit {
       return;
     }
 
-    const responseText =
-      action === "approve"
-        ? "To'lov tushdi. Endi ma'lumotlarni yuboring."
-        : "To'lov topilmadi. Iltimos, chekingizni qayta yuboring.";
-
-    let handledByFlow = false;
-    if (action === "approve" && orderId && orderType === "contact") {
-      await this.telegramService.fulfillContactOrder(orderId);
-      handledByFlow = true;
-    }
-    if (action === "approve" && orderId && orderType === "vip") {
-      await this.telegramService.activateVipOrder(orderId);
-      handledByFlow = true;
-    }
-    if (action === "approve" && orderId && orderType === "ad") {
-      await this.telegramService.handleAdPaymentApproved(orderId);
-      handledByFlow = true;
-    }
-
-    if (action === "reject" && orderId) {
-      await this.db
-        .update(orders)
-        .set({ status: "awaiting_payment", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, orderId));
-      await this.telegramService.syncUserCurrentStepFromOrderId(orderId);
-    }
+    const order = await this.telegramService.resolveRefundRequest(
+      orderId,
+      action,
+    );
 
     await this.telegramService.logAdminAction({
-      action: `payment_${action}`,
+      action: `refund_${action}`,
       taskId: task.id,
-      orderId: orderId,
+      orderId,
       adminId: event?.senderId?.toString?.(),
       userId: task.userId ?? undefined,
+      details: order
+        ? `amount: ${order.amount}`
+        : "order was not awaiting refund",
     });
 
-    if (!handledByFlow && task.userId) {
-      await this.telegramService.sendAdminResponse(task.userId, responseText);
+    const statusLabel = action === "approve" ? "Pul qaytarildi" : "Rad etildi";
+    await event.answer({ message: statusLabel });
+
+    const text = [
+      this.buildRefundText(task, payload),
+      `status: ${statusLabel}`,
+      event.senderId ? `by: ${event.senderId.toString()}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    await this.safeEditCallbackMessage(event, text);
+  }
+
+  private async handlePaymentCallback(event: any, match: RegExpExecArray) {
+    const action = match[1] as "approve" | "reject";
+    const taskId = Number(match[2]);
+
+    const senderId = event?.senderId?.toString?.() as string | undefined;
+    const result = await this.decidePaymentTask(
+      taskId,
+      action,
+      senderId,
+      senderId,
+    );
+    if (result.outcome !== "done") {
+      await event.answer({ message: TASK_ACTION_ERRORS[result.outcome] });
+      return;
     }
 
+    const { task, payload } = result;
     const statusLabel = action === "approve" ? "Tasdiqlandi" : "Rad etildi";
     await event.answer({ message: statusLabel });
 
@@ -569,7 +1571,7 @@ export class AdminBotService implements OnModuleInit {
         orderType,
         messageId,
         `status: ${statusLabel}`,
-        event?.senderId ? `by: ${event.senderId}` : "",
+        event.senderId ? `by: ${event.senderId.toString()}` : "",
       ]
         .filter(Boolean)
         .join("\n");
@@ -577,35 +1579,124 @@ export class AdminBotService implements OnModuleInit {
     }
   }
 
-  private async handlePublishCallback(event: any, taskId: number) {
-    const existing = await this.db
-      .select()
-      .from(adminTasks)
-      .where(eq(adminTasks.id, taskId))
-      .limit(1);
+  /**
+   * Approve or reject button of a payment task; also used by the admin API.
+   * `claimantId` is the acting admin's Telegram id, checked against the claim.
+   */
+  async decidePaymentTask(
+    taskId: number,
+    action: "approve" | "reject",
+    adminId?: string,
+    claimantId?: string,
+  ): Promise<AdminTaskActionResult> {
+    const task = await this.findTask(taskId);
+    if (!task) return { outcome: "not_found" };
+    if (task.status === "approved" || task.status === "rejected") {
+      return { outcome: "already_handled" };
+    }
+    if (this.findClaimLock(task, claimantId)) return { outcome: "claimed" };
 
-    if (!existing.length) {
-      await event.answer({ message: "Task topilmadi." });
-      return;
+    const payload = this.safeParsePayload(task.payload);
+    const orderId = payload?.orderId ? Number(payload.orderId) : undefined;
+    const orderType = payload?.orderType
+      ? String(payload.orderType)
+      : undefined;
+
+    const nextStatus = action === "approve" ? "approved" : "rejected";
+
+    const updated = await this.db
+      .update(adminTasks)
+      .set({
+        status: nextStatus,
+        adminActionBy: adminId,
+        adminActionAt: nowInUzbekistan(),
+        resolvedAt: nowInUzbekistan(),
+        updatedAt: nowInUzbekistan(),
+      })
+      .where(
+        and(
+          eq(adminTasks.id, task.id),
+          inArray(adminTasks.status, ["pending", "posted", "payment_submitted"]),
+        ),
+      )
+      .returning({ id: adminTasks.id });
+
+    if (updated.length === 0) {
+      return { outcome: "already_handled" };
     }
 
-    const task = existing[0];
-    if (task.status === "published") {
-      await event.answer({ message: "Allaqachon chiqarilgan." });
+    const handledByFlow =
+      action === "approve" && orderId
+        ? await this.telegramService.handleOrderPaymentApproved(
+            orderId,
+            orderType,
+          )
+        : false;
+
+    if (action === "reject" && orderId) {
+      await this.telegramService.transitionOrder(orderId, "awaiting_payment", {
+        actor: "admin",
+        reason: "payment_rejected",
+      });
+    }
+
+    await this.telegramService.logAdminAction({
+      action: `payment_${action}`,
+      taskId: task.id,
+      orderId: orderId,
+      adminId,
+      userId: task.userId ?? undefined,
+    });
+
+    if (!handledByFlow && task.userId) {
+      await this.telegramService.sendLocalizedResponse(
+        task.userId,
+        action === "approve" ? "payment.approved" : "payment.rejected",
+      );
+    }
+
+    return { outcome: "done", task: { ...task, status: nextStatus }, payload };
+  }
+
+  private async handlePublishCallback(event: any, taskId: number) {
+    const senderId = event?.senderId?.toString?.() as string | undefined;
+    const result = await this.publishTask(taskId, senderId, senderId);
+    if (result.outcome !== "done") {
+      await event.answer({ message: TASK_ACTION_ERRORS[result.outcome] });
       return;
     }
 
+    await event.answer({ message: "Kanalga chiqarildi." });
+
+    if (result.task.adminMessageId) {
+      const statusText = [
+        String(result.payload?.text ?? ""),
+        "\n\nstatus: chiqarildi",
+      ].join("");
+      await this.safeEditCallbackMessage(event, statusText);
+    }
+  }
+
+  /**
+   * Publish button of an anketa task; also used by the admin API.
+   * `claimantId` is the acting admin's Telegram id, checked against the claim.
+   */
+  async publishTask(
+    taskId: number,
+    adminId?: string,
+    claimantId?: string,
+  ): Promise<AdminTaskActionResult> {
+    const task = await this.findTask(taskId);
+    if (!task) return { outcome: "not_found" };
+    if (task.status === "published") return { outcome: "already_published" };
+    if (this.findClaimLock(task, claimantId)) return { outcome: "claimed" };
     if (task.status !== "media_approved") {
-      await event.answer({ message: "Avval media tasdiqlang." });
-      return;
+      return { outcome: "media_not_approved" };
     }
 
     const payload = this.safeParsePayload(task.payload);
     const text = payload?.text ? String(payload.text) : "";
-    if (!text.trim()) {
-      await event.answer({ message: "Matn topilmadi." });
-      return;
-    }
+    if (!text.trim()) return { outcome: "missing_text" };
 
     await this.telegramService.publishAnketaTask({
       taskId: task.id,
@@ -613,21 +1704,25 @@ export class AdminBotService implements OnModuleInit {
       text,
     });
 
-    await event.answer({ message: "Kanalga chiqarildi." });
-
-    if (task.adminMessageId) {
-      const statusText = [text, "\n\nstatus: chiqarildi"].join("");
-      await this.safeEditCallbackMessage(event, statusText);
-    }
-
     const orderId = payload?.orderId ? Number(payload.orderId) : undefined;
     await this.telegramService.logAdminAction({
       action: "publish",
       taskId: task.id,
       orderId: Number.isFinite(orderId) ? orderId : undefined,
-      adminId: event?.senderId?.toString?.(),
+      adminId,
       userId: task.userId ?? undefined,
     });
+
+    return { outcome: "done", task: { ...task, status: "published" }, payload };
+  }
+
+  private async findTask(taskId: number) {
+    const existing = await this.db
+      .select()
+      .from(adminTasks)
+      .where(eq(adminTasks.id, taskId))
+      .limit(1);
+    return existing[0];
   }
 
   private async handleMediaApprove(event: any, taskId: number) {
@@ -692,17 +1787,20 @@ export class AdminBotService implements OnModuleInit {
     const payload = this.safeParsePayload(task.payload);
     const orderId = payload?.orderId ? Number(payload.orderId) : undefined;
     if (task.userId) {
-      await this.telegramService.sendAdminResponse(
+      await this.telegramService.sendLocalizedResponse(
         task.userId,
-        "Media mos emas. Qaytadan 2 ta rasm va 1 ta video yuboring.",
+        "media.rejected",
       );
       if (orderId) {
         await this.telegramService.clearOrderMedia(task.userId, orderId);
-        await this.db
-          .update(orders)
-          .set({ status: "awaiting_content", updatedAt: nowInUzbekistan() })
-          .where(eq(orders.id, orderId));
-        await this.telegramService.syncUserCurrentStepFromOrderId(orderId);
+        await this.telegramService.transitionOrder(
+          orderId,
+          "awaiting_content",
+          {
+            actor: "admin",
+            reason: "media_rejected",
+          },
+        );
       }
     }
 
@@ -768,15 +1866,15 @@ export class AdminBotService implements OnModuleInit {
 
     if (task.userId && Number.isFinite(orderId)) {
       await this.telegramService.clearOrderMedia(task.userId, Number(orderId));
-      await this.telegramService.sendAdminResponse(
+      await this.telegramService.sendLocalizedResponse(
         task.userId,
-        "Media tozalandi. 2 ta rasm va 1 ta video yuboring.",
+        "media.reset_done",
+      );
+      await this.telegramService.transitionOrder(
+        Number(orderId),
+        "awaiting_content",
+        { actor: "admin", reason: "media_reset" },
       );
-      await this.db
-        .update(orders)
-        .set({ status: "awaiting_content", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, Number(orderId)));
-      await this.telegramService.syncUserCurrentStepFromOrderId(Number(orderId));
     }
 
     await this.db
@@ -795,6 +1893,18 @@ export class AdminBotService implements OnModuleInit {
     });
   }
 
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensureAdminTasksSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn("Failed to ensure admin tasks schema", error as Error);
+      throw error;
+    }
+  }
+
   private decodeCallbackData(data: Uint8Array | Buffer | string | undefined) {
     if (!data) return "";
     if (typeof data === "string") return data;
@@ -804,7 +1914,7 @@ export class AdminBotService implements OnModuleInit {
   private safeParsePayload(payload: string | null | undefined) {
     if (!payload) return undefined;
     try {
-      return JSON.parse(payload);
+      return JSON.parse(payload) as Record<string, any>;
     } catch {
       return undefined;
     }
@@ -852,6 +1962,31 @@ export class AdminBotService implements OnModuleInit {
     return items.length > 0 ? `checklist: ${items.join(" | ")}` : "";
   }
 
+  private buildRefundText(
+    task: typeof adminTasks.$inferSelect,
+    payload: Record<string, unknown> | undefined,
+  ) {
+    const reason =
+      payload?.reason && typeof payload.reason === "string"
+        ? payload.reason
+        : "[bo'sh]";
+
+    return [
+      "#refund",
+      `task: #${task.id}`,
+      task.userId ? `user: ${task.userId}` : "",
+      payload?.orderId ? `order: #${Number(payload.orderId)}` : "",
+      typeof payload?.orderType === "string"
+        ? `type: ${payload.orderType}`
+        : "",
+      payload?.amount !== undefined ? `amount: ${Number(payload.amount)}` : "",
+      "Sabab:",
+      reason,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
   private buildEscalationText(
     task: typeof adminTasks.$inferSelect,
     payload: Record<string, unknown> | undefined,
@@ -868,6 +2003,9 @@ export class AdminBotService implements OnModuleInit {
       payload?.message && typeof payload.message === "string"
         ? payload.message
         : "[bo'sh]";
+    const classification = payload?.classification as
+      | Partial<EscalationClassification>
+      | undefined;
 
     return [
       "#muammo",
@@ -875,6 +2013,11 @@ export class AdminBotService implements OnModuleInit {
       task.userId ? `user: ${task.userId}` : "",
       `Ism: ${name}`,
       `Telefon: ${phone}`,
+      classification?.category
+        ? `Turkum: ${classification.category} (${classification.severity}, ${classification.source})`
+        : "",
+      classification?.rationale ? `Izoh: ${classification.rationale}` : "",
+      payload?.action === "flag" ? "AI javob berishda davom etmoqda." : "",
       "Xabar:",
       message,
     ]
@@ -0,0 +1,23 @@
+import { adminTasks } from "../database/schema";
+
+export type AdminTaskActionOutcome =
+  | "done"
+  | "not_found"
+  | "already_handled"
+  | "already_published"
+  | "media_not_approved"
+  | "missing_text"
+  | "missing_user"
+  | "claimed";
+
+/**
+ * Result of a task button (payment, publish, escalation). The admin bot turns
+ * it into a callback answer, the admin API into an HTTP response.
+ */
+export type AdminTaskActionResult =
+  | {
+      outcome: "done";
+      task: typeof adminTasks.$inferSelect;
+      payload?: Record<string, any>;
+    }
+  | { outcome: Exclude<AdminTaskActionOutcome, "done"> };
@@ -0,0 +1,46 @@
+import {
+  formatClaimLine,
+  isClaimLockedCallback,
+  resolveClaimState,
+} from "./admin-task-claim.rules";
+
+describe("admin task claim rules", () => {
+  const claimedAt = new Date(2025, 2, 1, 10, 0);
+
+  it("locks a fresh claim to its admin", () => {
+    const task = { claimedBy: "42", claimedAt };
+    const now = new Date(2025, 2, 1, 10, 10);
+
+    expect(resolveClaimState(task, "42", now, 30)).toEqual({
+      state: "mine",
+      claimedBy: "42",
+      until: new Date(2025, 2, 1, 10, 30),
+    });
+    expect(resolveClaimState(task, "7", now, 30).state).toBe("locked");
+  });
+
+  it("frees unclaimed and expired claims", () => {
+    const now = new Date(2025, 2, 1, 10, 30);
+
+    expect(
+      resolveClaimState({ claimedBy: null, claimedAt: null }, "7", now, 30),
+    ).toEqual({ state: "free" });
+    expect(
+      resolveClaimState({ claimedBy: "42", claimedAt }, "7", now, 30),
+    ).toEqual({ state: "free" });
+  });
+
+  it("locks decision buttons but not the preview", () => {
+    expect(isClaimLockedCallback("pay:approve:5")).toBe(true);
+    expect(isClaimLockedCallback("esc:block:5")).toBe(true);
+    expect(isClaimLockedCallback("pub:media_reject:5")).toBe(true);
+    expect(isClaimLockedCallback("pub:preview:5")).toBe(false);
+    expect(isClaimLockedCallback("clm:take:5")).toBe(false);
+  });
+
+  it("shows the assignee with the lock end", () => {
+    expect(formatClaimLine("ali", new Date(2025, 2, 1, 9, 5))).toBe(
+      "Oldi: ali (09:05 gacha)",
+    );
+  });
+});
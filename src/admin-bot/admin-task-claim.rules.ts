@@ -0,0 +1,54 @@
+import { adminTasks } from "../database/schema";
+
+export const DEFAULT_CLAIM_MINUTES = 30;
+
+/** Statuses in which a task no longer needs anyone, so it cannot be claimed. */
+export const CLAIM_CLOSED_STATUSES = [
+  "approved",
+  "rejected",
+  "resolved",
+  "blocked",
+  "published",
+  "skipped",
+];
+
+type AdminTaskClaim = Pick<
+  typeof adminTasks.$inferSelect,
+  "claimedBy" | "claimedAt"
+>;
+
+export type ClaimState =
+  | { state: "free" }
+  | { state: "mine"; claimedBy: string; until: Date }
+  | { state: "locked"; claimedBy: string; until: Date };
+
+export function claimExpiresAt(claimedAt: Date, claimMinutes: number) {
+  return new Date(claimedAt.getTime() + claimMinutes * 60_000);
+}
+
+/** A claim older than `claimMinutes` no longer locks anyone out. */
+export function resolveClaimState(
+  task: AdminTaskClaim,
+  adminId: string | undefined,
+  now: Date,
+  claimMinutes: number,
+): ClaimState {
+  if (!task.claimedBy || !task.claimedAt) return { state: "free" };
+  const until = claimExpiresAt(task.claimedAt, claimMinutes);
+  if (until.getTime() <= now.getTime()) return { state: "free" };
+  const state = task.claimedBy === adminId ? "mine" : "locked";
+  return { state, claimedBy: task.claimedBy, until };
+}
+
+const CLAIM_LOCKED_CALLBACK =
+  /^(?:pay|ref|esc):[a-z_]+:\d+$|^pub:(?:post|media|media_reject|media_reset):\d+$/;
+
+/** Buttons that change a task; only the claimant may press them. Preview stays open. */
+export function isClaimLockedCallback(data: string) {
+  return CLAIM_LOCKED_CALLBACK.test(data);
+}
+
+export function formatClaimLine(adminName: string, until: Date) {
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `Oldi: ${adminName} (${pad(until.getHours())}:${pad(until.getMinutes())} gacha)`;
+}
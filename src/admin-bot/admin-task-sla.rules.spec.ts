@@ -0,0 +1,175 @@
+import {
+  buildSlaPingText,
+  DEFAULT_SLA_POLICIES,
+  findSlaBreaches,
+  resolveSlaPing,
+  resolveSlaPolicies,
+  SLA_MAX_PINGS,
+  summarizeSlaBreaches,
+} from "./admin-task-sla.rules";
+
+const created = new Date("2025-03-01T10:00:00Z");
+const minutesLater = (minutes: number) =>
+  new Date(created.getTime() + minutes * 60_000);
+const policy = { firstResponseMinutes: 15, resolutionMinutes: 60 };
+
+describe("admin task SLA rules", () => {
+  it("reads thresholds from the environment with defaults", () => {
+    const env: Record<string, string> = {
+      SLA_PAYMENT_RESOLUTION_MINUTES: "90",
+      SLA_ESCALATION_FIRST_RESPONSE_MINUTES: "nope",
+    };
+
+    const policies = resolveSlaPolicies((key) => env[key]);
+
+    expect(policies.payment.resolutionMinutes).toBe(90);
+    expect(policies.escalation).toEqual(DEFAULT_SLA_POLICIES.escalation);
+  });
+
+  it("measures open tasks against now", () => {
+    const task = {
+      createdAt: created,
+      firstResponseAt: null,
+      resolvedAt: null,
+    };
+
+    expect(findSlaBreaches(task, policy, minutesLater(10))).toEqual([]);
+    expect(findSlaBreaches(task, policy, minutesLater(20))).toEqual([
+      "first_response",
+    ]);
+    expect(findSlaBreaches(task, policy, minutesLater(61))).toEqual([
+      "first_response",
+      "resolution",
+    ]);
+  });
+
+  it("counts a quick resolution as the first response", () => {
+    const task = {
+      createdAt: created,
+      firstResponseAt: null,
+      resolvedAt: minutesLater(5),
+    };
+
+    expect(findSlaBreaches(task, policy, minutesLater(500))).toEqual([]);
+  });
+
+  it("waits for the re-ping interval and stops after the ping limit", () => {
+    const task = {
+      createdAt: created,
+      firstResponseAt: null,
+      resolvedAt: null,
+      slaPingedAt: minutesLater(20),
+      slaPingCount: 1,
+    };
+    const params = { repingMinutes: 30, now: minutesLater(40) };
+
+    expect(resolveSlaPing(task, policy, params)).toEqual([]);
+    expect(
+      resolveSlaPing(task, policy, { ...params, now: minutesLater(50) }),
+    ).toEqual(["first_response"]);
+    expect(
+      resolveSlaPing({ ...task, slaPingCount: SLA_MAX_PINGS }, policy, {
+        ...params,
+        now: minutesLater(120),
+      }),
+    ).toEqual([]);
+  });
+
+  it("summarizes breaches per admin and per day", () => {
+    const policies = { escalation: policy, payment: policy };
+    const report = summarizeSlaBreaches(
+      [
+        {
+          taskType: "escalation",
+          createdAt: created,
+          firstResponseAt: minutesLater(30),
+          firstResponseBy: "101",
+          resolvedAt: minutesLater(90),
+          adminActionBy: "102",
+        },
+        {
+          taskType: "payment",
+          createdAt: created,
+          firstResponseAt: null,
+          firstResponseBy: null,
+          resolvedAt: minutesLater(5),
+          adminActionBy: "102",
+        },
+        {
+          taskType: "payment",
+          createdAt: new Date("2025-03-02T09:00:00Z"),
+          firstResponseAt: null,
+          firstResponseBy: null,
+          resolvedAt: null,
+          adminActionBy: null,
+        },
+        {
+          taskType: "publish",
+          createdAt: created,
+          firstResponseAt: null,
+          firstResponseBy: null,
+          resolvedAt: null,
+          adminActionBy: null,
+        },
+      ],
+      policies,
+      new Date("2025-03-02T09:20:00Z"),
+    );
+
+    expect(report.byAdmin).toEqual([
+      {
+        adminId: "101",
+        tasks: 0,
+        firstResponseBreaches: 1,
+        resolutionBreaches: 0,
+      },
+      {
+        adminId: "102",
+        tasks: 2,
+        firstResponseBreaches: 0,
+        resolutionBreaches: 1,
+      },
+      {
+        adminId: "unassigned",
+        tasks: 1,
+        firstResponseBreaches: 1,
+        resolutionBreaches: 0,
+      },
+    ]);
+    expect(report.byDay).toEqual([
+      {
+        date: "2025-03-01",
+        tasks: 2,
+        firstResponseBreaches: 1,
+        resolutionBreaches: 1,
+      },
+      {
+        date: "2025-03-02",
+        tasks: 1,
+        firstResponseBreaches: 1,
+        resolutionBreaches: 0,
+      },
+    ]);
+  });
+
+  it("mentions on-duty admins in the ping text", () => {
+    const text = buildSlaPingText(
+      { id: 7, taskType: "escalation", userId: "55" },
+      ["first_response"],
+      policy,
+      [{ name: "Ali <duty>", telegramUserId: "101" }],
+    );
+
+    expect(text).toContain("task: #7 (escalation)");
+    expect(text).toContain("(15 daq)");
+    expect(text).toContain('<a href="tg://user?id=101">Ali &lt;duty&gt;</a>');
+    expect(
+      buildSlaPingText(
+        { id: 7, taskType: "payment", userId: null },
+        ["resolution"],
+        policy,
+        [],
+      ),
+    ).toContain("Navbatchi admin yo'q.");
+  });
+});
@@ -0,0 +1,216 @@
+import { adminTasks } from "../database/schema";
+import { escapeHtml } from "../transcripts/transcript.formatters";
+
+export type SlaTaskType = "escalation" | "payment";
+
+export const SLA_TASK_TYPES: SlaTaskType[] = ["escalation", "payment"];
+
+/** Statuses in which a task still waits for an admin. */
+export const SLA_OPEN_STATUSES: Record<SlaTaskType, string[]> = {
+  escalation: ["pending", "posted"],
+  payment: ["pending", "posted", "payment_submitted"],
+};
+
+export type SlaBreach = "first_response" | "resolution";
+
+export type AdminTaskSlaPolicy = {
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+};
+
+export const DEFAULT_SLA_POLICIES: Record<SlaTaskType, AdminTaskSlaPolicy> = {
+  escalation: { firstResponseMinutes: 15, resolutionMinutes: 240 },
+  payment: { firstResponseMinutes: 15, resolutionMinutes: 60 },
+};
+
+export const DEFAULT_SLA_REPING_MINUTES = 30;
+
+/** Re-pings stop after this many so a forgotten task does not ping forever. */
+export const SLA_MAX_PINGS = 5;
+
+const SLA_ENV_KEYS: Record<
+  SlaTaskType,
+  Record<keyof AdminTaskSlaPolicy, string>
+> = {
+  escalation: {
+    firstResponseMinutes: "SLA_ESCALATION_FIRST_RESPONSE_MINUTES",
+    resolutionMinutes: "SLA_ESCALATION_RESOLUTION_MINUTES",
+  },
+  payment: {
+    firstResponseMinutes: "SLA_PAYMENT_FIRST_RESPONSE_MINUTES",
+    resolutionMinutes: "SLA_PAYMENT_RESOLUTION_MINUTES",
+  },
+};
+
+type AdminTaskRow = typeof adminTasks.$inferSelect;
+
+export type SlaTimestamps = Pick<
+  AdminTaskRow,
+  "createdAt" | "firstResponseAt" | "resolvedAt"
+>;
+
+export function isSlaTaskType(value: string): value is SlaTaskType {
+  return SLA_TASK_TYPES.includes(value as SlaTaskType);
+}
+
+/** Reads the per-type thresholds from the environment; invalid values fall back to the defaults. */
+export function resolveSlaPolicies(
+  read: (key: string) => string | undefined,
+): Record<SlaTaskType, AdminTaskSlaPolicy> {
+  const policies = {} as Record<SlaTaskType, AdminTaskSlaPolicy>;
+  for (const type of SLA_TASK_TYPES) {
+    policies[type] = {
+      firstResponseMinutes: readMinutes(
+        read(SLA_ENV_KEYS[type].firstResponseMinutes),
+        DEFAULT_SLA_POLICIES[type].firstResponseMinutes,
+      ),
+      resolutionMinutes: readMinutes(
+        read(SLA_ENV_KEYS[type].resolutionMinutes),
+        DEFAULT_SLA_POLICIES[type].resolutionMinutes,
+      ),
+    };
+  }
+  return policies;
+}
+
+export function readMinutes(raw: string | undefined, fallback: number) {
+  const parsed = Number(raw);
+  if (!raw || !Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.floor(parsed);
+}
+
+/**
+ * Timers run from task creation. Resolving a task also counts as its first
+ * response; a task still open at `now` is measured against `now`.
+ */
+export function findSlaBreaches(
+  task: SlaTimestamps,
+  policy: AdminTaskSlaPolicy,
+  now: Date,
+): SlaBreach[] {
+  if (!task.createdAt) return [];
+  const start = task.createdAt.getTime();
+  const firstResponse = task.firstResponseAt ?? task.resolvedAt ?? now;
+  const resolution = task.resolvedAt ?? now;
+
+  const breaches: SlaBreach[] = [];
+  if (firstResponse.getTime() - start > policy.firstResponseMinutes * 60_000) {
+    breaches.push("first_response");
+  }
+  if (resolution.getTime() - start > policy.resolutionMinutes * 60_000) {
+    breaches.push("resolution");
+  }
+  return breaches;
+}
+
+/** Breaches worth a re-ping now, or an empty list while the last ping is recent. */
+export function resolveSlaPing(
+  task: SlaTimestamps & Pick<AdminTaskRow, "slaPingedAt" | "slaPingCount">,
+  policy: AdminTaskSlaPolicy,
+  params: { now: Date; repingMinutes: number },
+): SlaBreach[] {
+  if (task.resolvedAt || task.slaPingCount >= SLA_MAX_PINGS) return [];
+  if (
+    task.slaPingedAt &&
+    params.now.getTime() - task.slaPingedAt.getTime() <
+      params.repingMinutes * 60_000
+  ) {
+    return [];
+  }
+  return findSlaBreaches(task, policy, params.now);
+}
+
+export type SlaBreachCounts = {
+  tasks: number;
+  firstResponseBreaches: number;
+  resolutionBreaches: number;
+};
+
+export const UNASSIGNED_ADMIN = "unassigned";
+
+/**
+ * Counts tasks and breaches per admin and per creation day. First-response
+ * breaches go to whoever responded first, resolution breaches to whoever
+ * resolved the task; open tasks count as `unassigned`.
+ */
+export function summarizeSlaBreaches(
+  tasks: (SlaTimestamps &
+    Pick<AdminTaskRow, "taskType" | "firstResponseBy" | "adminActionBy">)[],
+  policies: Record<SlaTaskType, AdminTaskSlaPolicy>,
+  now: Date,
+) {
+  const byAdmin: Record<string, SlaBreachCounts> = {};
+  const byDay: Record<string, SlaBreachCounts> = {};
+  const entry = (report: Record<string, SlaBreachCounts>, key: string) =>
+    (report[key] ??= {
+      tasks: 0,
+      firstResponseBreaches: 0,
+      resolutionBreaches: 0,
+    });
+
+  for (const task of tasks) {
+    if (!isSlaTaskType(task.taskType) || !task.createdAt) continue;
+    const breaches = findSlaBreaches(task, policies[task.taskType], now);
+    const resolver = task.resolvedAt
+      ? (task.adminActionBy ?? UNASSIGNED_ADMIN)
+      : UNASSIGNED_ADMIN;
+    const responder = task.firstResponseBy ?? resolver;
+    const day = entry(byDay, task.createdAt.toISOString().slice(0, 10));
+
+    day.tasks += 1;
+    entry(byAdmin, resolver).tasks += 1;
+    if (breaches.includes("first_response")) {
+      day.firstResponseBreaches += 1;
+      entry(byAdmin, responder).firstResponseBreaches += 1;
+    }
+    if (breaches.includes("resolution")) {
+      day.resolutionBreaches += 1;
+      entry(byAdmin, resolver).resolutionBreaches += 1;
+    }
+  }
+
+  return {
+    byAdmin: Object.entries(byAdmin)
+      .map(([adminId, counts]) => ({ adminId, ...counts }))
+      .sort((a, b) => a.adminId.localeCompare(b.adminId)),
+    byDay: Object.entries(byDay)
+      .map(([date, counts]) => ({ date, ...counts }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+const SLA_BREACH_LABELS: Record<SlaBreach, string> = {
+  first_response: "Birinchi javob muddati o'tdi",
+  resolution: "Hal qilish muddati o'tdi",
+};
+
+/** HTML re-ping posted as a reply to the task card; mentions notify on-duty admins. */
+export function buildSlaPingText(
+  task: Pick<AdminTaskRow, "id" | "taskType" | "userId">,
+  breaches: SlaBreach[],
+  policy: AdminTaskSlaPolicy,
+  mentions: { name: string; telegramUserId: string }[],
+) {
+  const limits: Record<SlaBreach, number> = {
+    first_response: policy.firstResponseMinutes,
+    resolution: policy.resolutionMinutes,
+  };
+  return [
+    "#sla",
+    `task: #${task.id} (${escapeHtml(task.taskType)})`,
+    task.userId ? `user: ${escapeHtml(task.userId)}` : "",
+    ...breaches.map(
+      (breach) => `${SLA_BREACH_LABELS[breach]} (${limits[breach]} daq).`,
+    ),
+    mentions.length
+      ? mentions
+          .map(
+            (admin) =>
+              `<a href="tg://user?id=${admin.telegramUserId}">${escapeHtml(admin.name)}</a>`,
+          )
+          .join(" ")
+      : "Navbatchi admin yo'q.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,33 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+/** SLA timer and claim columns added after `admin_tasks` was first migrated. */
+export async function ensureAdminTasksSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(
+    sql`ALTER TABLE "admin_tasks" ADD COLUMN IF NOT EXISTS "first_response_by" text`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "admin_tasks" ADD COLUMN IF NOT EXISTS "first_response_at" timestamp`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "admin_tasks" ADD COLUMN IF NOT EXISTS "resolved_at" timestamp`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "admin_tasks" ADD COLUMN IF NOT EXISTS "sla_pinged_at" timestamp`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "admin_tasks" ADD COLUMN IF NOT EXISTS "sla_ping_count" integer NOT NULL DEFAULT 0`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "admin_tasks" ADD COLUMN IF NOT EXISTS "claimed_by" text`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "admin_tasks" ADD COLUMN IF NOT EXISTS "claimed_at" timestamp`,
+  );
+
+  logger.log("Admin tasks schema ensured");
+}
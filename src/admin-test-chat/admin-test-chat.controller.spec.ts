@@ -1,35 +1,33 @@
-import { UnauthorizedException } from "@nestjs/common";
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Reflector } from "@nestjs/core";
+import { AdminAccountsService } from "../admin-auth/admin-accounts.service";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
 import { AdminTestChatController } from "./admin-test-chat.controller";
+import { AdminTestChatService } from "./admin-test-chat.service";
 
 describe("AdminTestChatController", () => {
-  it("rejects invalid admin key", async () => {
-    const service: any = {
+  it("forwards payload with the authenticated admin name", async () => {
+    const service: jest.Mocked<
+      Pick<AdminTestChatService, "sendMessage" | "resetSession">
+    > = {
       sendMessage: jest.fn(),
       resetSession: jest.fn(),
     };
-    const configService: any = {
-      get: jest.fn().mockReturnValue("secret-key"),
-    };
-
-    const controller = new AdminTestChatController(service, configService);
-
-    await expect(
-      controller.sendMessage("session-1", "hello", "wrong-key", "admin-1"),
-    ).rejects.toBeInstanceOf(UnauthorizedException);
-  });
-
-  it("accepts valid admin key and forwards payload", async () => {
-    const service: any = {
-      sendMessage: jest.fn().mockResolvedValue({ ok: true }),
-      resetSession: jest.fn(),
-    };
-    const configService: any = {
-      get: jest.fn().mockReturnValue("secret-key"),
-    };
 
-    const controller = new AdminTestChatController(service, configService);
+    const controller = new AdminTestChatController(
+      service as unknown as AdminTestChatService,
+    );
 
-    await controller.sendMessage("session-1", "hello", "secret-key", "admin-1");
+    await controller.sendMessage("session-1", "hello", {
+      accountId: 3,
+      name: "admin-1",
+      role: "moderator",
+    });
 
     expect(service.sendMessage).toHaveBeenCalledWith({
       sessionId: "session-1",
@@ -37,4 +35,42 @@ describe("AdminTestChatController", () => {
       adminId: "admin-1",
     });
   });
+
+  describe("admin guard", () => {
+    function guardSendMessage(token: string) {
+      const adminAccountsService = {
+        authenticate: jest.fn((value: string) =>
+          Promise.resolve(
+            value === "adm_cashier"
+              ? { accountId: 2, name: "cashier", role: "payments" }
+              : null,
+          ),
+        ),
+      };
+      const guard = new AdminAuthGuard(
+        new Reflector(),
+        { get: jest.fn() } as unknown as ConfigService,
+        adminAccountsService as unknown as AdminAccountsService,
+      );
+      const request = { headers: { "x-admin-key": token }, path: "/" };
+      const context = {
+        switchToHttp: () => ({ getRequest: () => request }),
+        getHandler: () => AdminTestChatController.prototype["sendMessage"],
+        getClass: () => AdminTestChatController,
+      } as unknown as ExecutionContext;
+      return guard.canActivate(context);
+    }
+
+    it("answers 401 to an invalid admin key", async () => {
+      await expect(guardSendMessage("wrong-key")).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+    });
+
+    it("answers 403 to roles other than moderator", async () => {
+      await expect(guardSendMessage("adm_cashier")).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+    });
+  });
 });
@@ -1,57 +1,36 @@
-import {
-  Body,
-  Controller,
-  Headers,
-  Post,
-  UnauthorizedException,
-} from "@nestjs/common";
-import { ConfigService } from "@nestjs/config";
+import { Body, Controller, Post, UseGuards } from "@nestjs/common";
 import { AdminTestChatService } from "./admin-test-chat.service";
+import { AdminRoles, CurrentAdmin } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import type { AdminPrincipal } from "../admin-auth/admin-auth.types";
 
 @Controller("admin/test-chat")
+@UseGuards(AdminAuthGuard)
+@AdminRoles("moderator")
 export class AdminTestChatController {
-  constructor(
-    private readonly adminTestChatService: AdminTestChatService,
-    private readonly configService: ConfigService,
-  ) {}
+  constructor(private readonly adminTestChatService: AdminTestChatService) {}
 
   @Post("message")
   async sendMessage(
     @Body("sessionId") sessionId: string,
     @Body("message") message: string,
-    @Headers("x-admin-key") adminKey?: string,
-    @Headers("x-admin-id") adminId?: string,
+    @CurrentAdmin() admin: AdminPrincipal,
   ) {
-    this.requireAdmin(adminKey);
     return this.adminTestChatService.sendMessage({
       sessionId,
       message,
-      adminId: this.resolveAdminId(adminId),
+      adminId: admin.name,
     });
   }
 
   @Post("reset")
   resetSession(
     @Body("sessionId") sessionId: string,
-    @Headers("x-admin-key") adminKey?: string,
-    @Headers("x-admin-id") adminId?: string,
+    @CurrentAdmin() admin: AdminPrincipal,
   ) {
-    this.requireAdmin(adminKey);
     return this.adminTestChatService.resetSession({
       sessionId,
-      adminId: this.resolveAdminId(adminId),
+      adminId: admin.name,
     });
   }
-
-  private requireAdmin(adminKey?: string) {
-    const expected = this.configService.get<string>("ADMIN_API_KEY");
-    if (expected && adminKey !== expected) {
-      throw new UnauthorizedException("Invalid admin key");
-    }
-  }
-
-  private resolveAdminId(adminId?: string) {
-    const normalized = adminId?.trim();
-    return normalized || "admin";
-  }
 }
@@ -3,9 +3,10 @@ import { ConfigModule } from "@nestjs/config";
 import { TelegramModule } from "../telegram/telegram.module";
 import { AdminTestChatController } from "./admin-test-chat.controller";
 import { AdminTestChatService } from "./admin-test-chat.service";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
 
 @Module({
-  imports: [ConfigModule, TelegramModule],
+  imports: [ConfigModule, TelegramModule, AdminAuthModule],
   controllers: [AdminTestChatController],
   providers: [AdminTestChatService],
 })
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { SettingsModule } from "../settings/settings.module";
+import { AiService } from "./ai.service";
+
+@Module({
+  imports: [ConfigModule, SettingsModule],
+  providers: [AiService],
+  exports: [AiService],
+})
+export class AiModule {}
@@ -0,0 +1,109 @@
+import { ConfigService } from "@nestjs/config";
+import { SettingsService } from "../settings/settings.service";
+import { AiService } from "./ai.service";
+import { AiProviderUnavailableError } from "./ai.types";
+import { FakeAiProvider } from "./fake.provider";
+
+describe("AiService", () => {
+  function createService(providers: Record<string, string>) {
+    const configService = { get: jest.fn().mockReturnValue(undefined) };
+    const settingsService = {
+      getSettings: jest.fn().mockResolvedValue({
+        dialogueAiProvider: providers.dialogue ?? "gemini",
+        summaryAiProvider: providers.summary ?? "gemini",
+        imageAiProvider: providers.image ?? "gemini",
+        transcriptionAiProvider: providers.transcription ?? "gemini",
+        escalationAiProvider: providers.escalation ?? "gemini",
+      }),
+    };
+    return new AiService(
+      configService as unknown as ConfigService,
+      settingsService as unknown as SettingsService,
+    );
+  }
+
+  it("routes each use case to the provider selected in settings", async () => {
+    const service = createService({ dialogue: "fake", summary: "gemini" });
+
+    await expect(service.isAvailable("dialogue")).resolves.toBe(true);
+    await expect(service.isAvailable("summary")).resolves.toBe(false);
+    await expect(
+      service.chat("dialogue", {
+        systemPrompt: "prompt",
+        history: [],
+        message: "Salom",
+      }),
+    ).resolves.toBe("[fake] Salom");
+  });
+
+  it("throws a typed error when the selected provider is not configured", async () => {
+    const service = createService({ summary: "openai" });
+
+    await expect(service.generate("summary", "text")).rejects.toBeInstanceOf(
+      AiProviderUnavailableError,
+    );
+  });
+
+  it("lets tests script fake replies deterministically", async () => {
+    const service = createService({ image: "fake" });
+    service.registerProvider(
+      new FakeAiProvider((input) =>
+        input.kind === "image" ? "Chek aniqlandi." : undefined,
+      ),
+    );
+
+    await expect(
+      service.generateWithImage("image", {
+        prompt: "Tekshiring",
+        image: { data: Buffer.from("img"), mimeType: "image/jpeg" },
+      }),
+    ).resolves.toBe("Chek aniqlandi.");
+  });
+
+  it("transcribes audio through the stub provider", async () => {
+    const service = createService({ transcription: "fake" });
+    const request = {
+      prompt: "Transcribe",
+      audio: { data: Buffer.from("ogg"), mimeType: "audio/ogg" },
+    };
+
+    await expect(service.transcribe("transcription", request)).resolves.toBe(
+      "[fake] audio audio/ogg (3 bytes)",
+    );
+
+    service.registerProvider(
+      new FakeAiProvider((input) =>
+        input.kind === "audio" ? "Ha, olaman" : undefined,
+      ),
+    );
+    await expect(service.transcribe("transcription", request)).resolves.toBe(
+      "Ha, olaman",
+    );
+  });
+
+  it("returns scripted tool calls from the fake provider", async () => {
+    const service = createService({ dialogue: "fake" });
+    const request = {
+      history: [],
+      message: "VIP kerak",
+      tools: [{ name: "start_vip_order", description: "VIP" }],
+    };
+
+    await expect(service.chatWithTools("dialogue", request)).resolves.toEqual({
+      text: "[fake] VIP kerak",
+      toolCalls: [],
+    });
+
+    service.registerProvider(
+      new FakeAiProvider((input) =>
+        input.kind === "tools"
+          ? { text: "", toolCalls: [{ name: "start_vip_order", args: {} }] }
+          : undefined,
+      ),
+    );
+    await expect(service.chatWithTools("dialogue", request)).resolves.toEqual({
+      text: "",
+      toolCalls: [{ name: "start_vip_order", args: {} }],
+    });
+  });
+});
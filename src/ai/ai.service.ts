@@ -0,0 +1,116 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { SettingsService, SummarySettings } from "../settings/settings.service";
+import {
+  AiChatRequest,
+  AiImageRequest,
+  AiProvider,
+  AiProviderName,
+  AiProviderUnavailableError,
+  AiToolChatRequest,
+  AiTranscriptionRequest,
+  AiUseCase,
+} from "./ai.types";
+import { GeminiAiProvider } from "./gemini.provider";
+import { OpenAiCompatibleProvider } from "./openai-compatible.provider";
+import { FakeAiProvider } from "./fake.provider";
+
+const USE_CASE_SETTING_KEYS: Record<AiUseCase, keyof SummarySettings> = {
+  dialogue: "dialogueAiProvider",
+  summary: "summaryAiProvider",
+  image: "imageAiProvider",
+  transcription: "transcriptionAiProvider",
+  escalation: "escalationAiProvider",
+};
+
+@Injectable()
+export class AiService {
+  private readonly logger = new Logger(AiService.name);
+  private readonly providers = new Map<AiProviderName, AiProvider>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly settingsService: SettingsService,
+  ) {
+    const geminiKey = this.configService.get<string>("GEMINI_API_KEY");
+    const geminiModel = this.configService.get<string>("AI_MODEL_NAME");
+    if (geminiKey && geminiModel) {
+      this.registerProvider(
+        new GeminiAiProvider({ apiKey: geminiKey, modelName: geminiModel }),
+      );
+      this.logger.log(`Gemini provider initialized with model: ${geminiModel}`);
+    } else {
+      this.logger.warn(
+        "GEMINI_API_KEY or AI_MODEL_NAME not found. Gemini provider disabled.",
+      );
+    }
+
+    const openAiBaseUrl = this.configService.get<string>("OPENAI_BASE_URL");
+    const openAiModel = this.configService.get<string>("OPENAI_MODEL_NAME");
+    if (openAiBaseUrl && openAiModel) {
+      this.registerProvider(
+        new OpenAiCompatibleProvider({
+          baseUrl: openAiBaseUrl,
+          apiKey: this.configService.get<string>("OPENAI_API_KEY"),
+          modelName: openAiModel,
+          transcriptionModelName: this.configService.get<string>(
+            "OPENAI_TRANSCRIPTION_MODEL_NAME",
+          ),
+        }),
+      );
+      this.logger.log(
+        `OpenAI-compatible provider initialized with model: ${openAiModel}`,
+      );
+    }
+
+    this.registerProvider(new FakeAiProvider());
+  }
+
+  registerProvider(provider: AiProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  async resolveProvider(useCase: AiUseCase) {
+    const settings = await this.settingsService.getSettings();
+    const name = settings[USE_CASE_SETTING_KEYS[useCase]] as AiProviderName;
+    return { name, provider: this.providers.get(name) };
+  }
+
+  async isAvailable(useCase: AiUseCase) {
+    const { provider } = await this.resolveProvider(useCase);
+    return Boolean(provider);
+  }
+
+  async chat(useCase: AiUseCase, request: AiChatRequest) {
+    const provider = await this.requireProvider(useCase);
+    return provider.chat(request);
+  }
+
+  async chatWithTools(useCase: AiUseCase, request: AiToolChatRequest) {
+    const provider = await this.requireProvider(useCase);
+    return provider.chatWithTools(request);
+  }
+
+  async generate(useCase: AiUseCase, prompt: string) {
+    const provider = await this.requireProvider(useCase);
+    return provider.generate(prompt);
+  }
+
+  async generateWithImage(useCase: AiUseCase, request: AiImageRequest) {
+    const provider = await this.requireProvider(useCase);
+    return provider.generateWithImage(request);
+  }
+
+  async transcribe(useCase: AiUseCase, request: AiTranscriptionRequest) {
+    const provider = await this.requireProvider(useCase);
+    return provider.transcribe(request);
+  }
+
+  private async requireProvider(useCase: AiUseCase) {
+    const { name, provider } = await this.resolveProvider(useCase);
+    if (!provider) {
+      throw new AiProviderUnavailableError(useCase, name);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,96 @@
+export type AiProviderName = "gemini" | "openai" | "fake";
+
+export type AiUseCase =
+  | "dialogue"
+  | "summary"
+  | "image"
+  | "transcription"
+  | "escalation";
+
+export const AI_PROVIDER_NAMES: AiProviderName[] = ["gemini", "openai", "fake"];
+
+export type AiChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type AiChatRequest = {
+  systemPrompt?: string;
+  history: AiChatMessage[];
+  message: string;
+};
+
+export type AiToolParameter = {
+  type: "string" | "integer";
+  description: string;
+  enum?: string[];
+};
+
+/** Provider-neutral function declaration offered to the model. */
+export type AiToolDeclaration = {
+  name: string;
+  description: string;
+  parameters?: Record<string, AiToolParameter>;
+  required?: string[];
+};
+
+export type AiToolCall = {
+  name: string;
+  args: Record<string, unknown>;
+};
+
+export type AiToolChatRequest = AiChatRequest & {
+  tools: AiToolDeclaration[];
+};
+
+/** `text` is empty when the model answered only with tool calls. */
+export type AiChatResult = {
+  text: string;
+  toolCalls: AiToolCall[];
+};
+
+export type AiImageInput = {
+  data: Buffer;
+  mimeType: string;
+};
+
+export type AiImageRequest = {
+  prompt: string;
+  image: AiImageInput;
+};
+
+export type AiAudioInput = {
+  data: Buffer;
+  mimeType: string;
+};
+
+/** `prompt` steers the transcript (expected languages, spelling of names). */
+export type AiTranscriptionRequest = {
+  prompt: string;
+  audio: AiAudioInput;
+};
+
+export interface AiProvider {
+  readonly name: AiProviderName;
+  chat(request: AiChatRequest): Promise<string>;
+  chatWithTools(request: AiToolChatRequest): Promise<AiChatResult>;
+  generate(prompt: string): Promise<string>;
+  generateWithImage(request: AiImageRequest): Promise<string>;
+  transcribe(request: AiTranscriptionRequest): Promise<string>;
+}
+
+export class AiProviderUnavailableError extends Error {
+  readonly code = "AI_PROVIDER_UNAVAILABLE";
+
+  constructor(
+    readonly useCase: AiUseCase,
+    readonly providerName?: string,
+  ) {
+    super(
+      providerName
+        ? `AI provider "${providerName}" is not configured for ${useCase}`
+        : `No AI provider is configured for ${useCase}`,
+    );
+    this.name = "AiProviderUnavailableError";
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  AiChatRequest,
+  AiChatResult,
+  AiImageRequest,
+  AiProvider,
+  AiToolChatRequest,
+  AiTranscriptionRequest,
+} from "./ai.types";
+
+export type FakeAiRequest =
+  | { kind: "chat"; request: AiChatRequest }
+  | { kind: "tools"; request: AiToolChatRequest }
+  | { kind: "generate"; prompt: string }
+  | { kind: "image"; request: AiImageRequest }
+  | { kind: "audio"; request: AiTranscriptionRequest };
+
+/** Return an `AiChatResult` for `tools` requests to script tool calls. */
+export type FakeAiResponder = (
+  input: FakeAiRequest,
+) => string | AiChatResult | undefined;
+
+/**
+ * Deterministic offline provider. Replies are derived only from the input, so
+ * the whole bot can run without network access in tests and local setups.
+ */
+export class FakeAiProvider implements AiProvider {
+  readonly name = "fake" as const;
+
+  constructor(private readonly responder?: FakeAiResponder) {}
+
+  chat(request: AiChatRequest) {
+    return Promise.resolve(
+      this.respond({ kind: "chat", request }) ??
+        `[fake] ${request.message.trim()}`,
+    );
+  }
+
+  chatWithTools(request: AiToolChatRequest): Promise<AiChatResult> {
+    const output = this.responder?.({ kind: "tools", request });
+    if (output && typeof output === "object") return Promise.resolve(output);
+    return Promise.resolve({
+      text:
+        typeof output === "string"
+          ? output.trim()
+          : `[fake] ${request.message.trim()}`,
+      toolCalls: [],
+    });
+  }
+
+  generate(prompt: string) {
+    return Promise.resolve(
+      this.respond({ kind: "generate", prompt }) ??
+        `[fake] ${this.lastLine(prompt)}`,
+    );
+  }
+
+  generateWithImage(request: AiImageRequest) {
+    return Promise.resolve(
+      this.respond({ kind: "image", request }) ??
+        `[fake] image ${request.image.mimeType} (${request.image.data.length} bytes)`,
+    );
+  }
+
+  transcribe(request: AiTranscriptionRequest) {
+    return Promise.resolve(
+      this.respond({ kind: "audio", request }) ??
+        `[fake] audio ${request.audio.mimeType} (${request.audio.data.length} bytes)`,
+    );
+  }
+
+  private respond(input: FakeAiRequest) {
+    const output = this.responder?.(input);
+    return typeof output === "string" ? output.trim() : undefined;
+  }
+
+  private lastLine(text: string) {
+    const lines = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean);
+    return lines[lines.length - 1] ?? "";
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  FunctionDeclaration,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  Schema,
+  SchemaType,
+} from "@google/generative-ai";
+import {
+  AiChatRequest,
+  AiChatResult,
+  AiImageRequest,
+  AiProvider,
+  AiToolChatRequest,
+  AiToolDeclaration,
+  AiToolParameter,
+  AiTranscriptionRequest,
+} from "./ai.types";
+
+export class GeminiAiProvider implements AiProvider {
+  readonly name = "gemini" as const;
+  private readonly model: GenerativeModel;
+
+  constructor(params: { apiKey: string; modelName: string }) {
+    const genAI = new GoogleGenerativeAI(params.apiKey);
+    this.model = genAI.getGenerativeModel({ model: params.modelName });
+  }
+
+  async chat(request: AiChatRequest) {
+    const chat = this.model.startChat({ history: this.buildHistory(request) });
+    const result = await chat.sendMessage(request.message);
+    const response = result.response;
+    return response.text()?.trim() ?? "";
+  }
+
+  async chatWithTools(request: AiToolChatRequest): Promise<AiChatResult> {
+    const chat = this.model.startChat({
+      history: this.buildHistory(request),
+      tools: [
+        { functionDeclarations: request.tools.map((tool) => toFunction(tool)) },
+      ],
+    });
+    const result = await chat.sendMessage(request.message);
+    const response = result.response;
+    const toolCalls = (response.functionCalls() ?? []).map((call) => ({
+      name: call.name,
+      args: (call.args ?? {}) as Record<string, unknown>,
+    }));
+    return { text: response.text()?.trim() ?? "", toolCalls };
+  }
+
+  async generate(prompt: string) {
+    const result = await this.model.generateContent(prompt);
+    const response = result.response;
+    return response.text()?.trim() ?? "";
+  }
+
+  async generateWithImage(request: AiImageRequest) {
+    const result = await this.model.generateContent([
+      { text: request.prompt },
+      {
+        inlineData: {
+          mimeType: request.image.mimeType,
+          data: request.image.data.toString("base64"),
+        },
+      },
+    ]);
+    const response = result.response;
+    return response.text()?.trim() ?? "";
+  }
+
+  async transcribe(request: AiTranscriptionRequest) {
+    const result = await this.model.generateContent([
+      { text: request.prompt },
+      {
+        inlineData: {
+          mimeType: request.audio.mimeType,
+          data: request.audio.data.toString("base64"),
+        },
+      },
+    ]);
+    const response = result.response;
+    return response.text()?.trim() ?? "";
+  }
+
+  private buildHistory(request: AiChatRequest) {
+    const history = request.history.map((item) => ({
+      role: item.role === "assistant" ? ("model" as const) : ("user" as const),
+      parts: [{ text: item.content }],
+    }));
+    if (request.systemPrompt) {
+      history.unshift({
+        role: "user",
+        parts: [{ text: request.systemPrompt }],
+      });
+    }
+    return history;
+  }
+}
+
+function toFunction(tool: AiToolDeclaration): FunctionDeclaration {
+  if (!tool.parameters) {
+    return { name: tool.name, description: tool.description };
+  }
+  const properties: Record<string, Schema> = {};
+  for (const [key, parameter] of Object.entries(tool.parameters)) {
+    properties[key] = toSchema(parameter);
+  }
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties,
+      required: tool.required,
+    },
+  };
+}
+
+function toSchema(parameter: AiToolParameter): Schema {
+  if (parameter.enum) {
+    return {
+      type: SchemaType.STRING,
+      format: "enum",
+      enum: parameter.enum,
+      description: parameter.description,
+    };
+  }
+  if (parameter.type === "integer") {
+    return { type: SchemaType.INTEGER, description: parameter.description };
+  }
+  return { type: SchemaType.STRING, description: parameter.description };
+}
@@ -0,0 +1,215 @@
+import {
+  AiChatRequest,
+  AiChatResult,
+  AiImageRequest,
+  AiProvider,
+  AiToolChatRequest,
+  AiToolDeclaration,
+  AiTranscriptionRequest,
+} from "./ai.types";
+
+type OpenAiContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+type OpenAiMessage = {
+  role: "system" | "user" | "assistant";
+  content: string | OpenAiContentPart[];
+};
+
+type OpenAiTool = {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: "object";
+      properties: Record<string, unknown>;
+      required?: string[];
+    };
+  };
+};
+
+type OpenAiResponseMessage = {
+  content?: string | null;
+  tool_calls?: Array<{ function?: { name?: string; arguments?: string } }>;
+};
+
+type OpenAiChatCompletionResponse = {
+  choices?: Array<{ message?: OpenAiResponseMessage }>;
+};
+
+type OpenAiTranscriptionResponse = {
+  text?: string;
+};
+
+const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` contract
+ * (OpenAI, OpenRouter, vLLM, Ollama, LM Studio, ...). Voice notes go to
+ * `/audio/transcriptions`, which not every such server implements.
+ */
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly name = "openai" as const;
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly params: {
+      baseUrl: string;
+      apiKey?: string;
+      modelName: string;
+      transcriptionModelName?: string;
+      timeoutMs?: number;
+    },
+  ) {
+    this.baseUrl = params.baseUrl.replace(/\/+$/, "");
+  }
+
+  async chat(request: AiChatRequest) {
+    return this.complete(this.buildMessages(request));
+  }
+
+  async chatWithTools(request: AiToolChatRequest): Promise<AiChatResult> {
+    const message = await this.request(
+      this.buildMessages(request),
+      request.tools.map((tool) => toOpenAiTool(tool)),
+    );
+    const toolCalls = (message?.tool_calls ?? [])
+      .filter((call) => call.function?.name)
+      .map((call) => ({
+        name: call.function?.name ?? "",
+        args: parseToolArguments(call.function?.arguments),
+      }));
+    return { text: message?.content?.trim() ?? "", toolCalls };
+  }
+
+  async generate(prompt: string) {
+    return this.complete([{ role: "user", content: prompt }]);
+  }
+
+  async generateWithImage(request: AiImageRequest) {
+    const dataUrl = `data:${request.image.mimeType};base64,${request.image.data.toString("base64")}`;
+    return this.complete([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: request.prompt },
+          { type: "image_url", image_url: { url: dataUrl } },
+        ],
+      },
+    ]);
+  }
+
+  async transcribe(request: AiTranscriptionRequest) {
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([new Uint8Array(request.audio.data)], {
+        type: request.audio.mimeType,
+      }),
+      `voice.${request.audio.mimeType.split("/")[1] ?? "ogg"}`,
+    );
+    form.append(
+      "model",
+      this.params.transcriptionModelName ?? DEFAULT_TRANSCRIPTION_MODEL,
+    );
+    form.append("prompt", request.prompt);
+
+    const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+      method: "POST",
+      headers: this.params.apiKey
+        ? { Authorization: `Bearer ${this.params.apiKey}` }
+        : {},
+      body: form,
+      signal: AbortSignal.timeout(this.params.timeoutMs ?? 60_000),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `OpenAI-compatible transcription failed (${response.status}): ${body.slice(0, 200)}`,
+      );
+    }
+
+    const payload = (await response.json()) as OpenAiTranscriptionResponse;
+    return payload.text?.trim() ?? "";
+  }
+
+  private buildMessages(request: AiChatRequest) {
+    const messages: OpenAiMessage[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: "system", content: request.systemPrompt });
+    }
+    messages.push(
+      ...request.history.map((item) => ({
+        role: item.role,
+        content: item.content,
+      })),
+    );
+    messages.push({ role: "user", content: request.message });
+    return messages;
+  }
+
+  private async complete(messages: OpenAiMessage[]) {
+    const message = await this.request(messages);
+    return message?.content?.trim() ?? "";
+  }
+
+  private async request(messages: OpenAiMessage[], tools?: OpenAiTool[]) {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.params.apiKey) {
+      headers.Authorization = `Bearer ${this.params.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.params.modelName,
+        messages,
+        ...(tools?.length ? { tools } : {}),
+      }),
+      signal: AbortSignal.timeout(this.params.timeoutMs ?? 60_000),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `OpenAI-compatible request failed (${response.status}): ${body.slice(0, 200)}`,
+      );
+    }
+
+    const payload = (await response.json()) as OpenAiChatCompletionResponse;
+    return payload.choices?.[0]?.message;
+  }
+}
+
+function toOpenAiTool(tool: AiToolDeclaration): OpenAiTool {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: {
+        type: "object",
+        properties: tool.parameters ?? {},
+        required: tool.required,
+      },
+    },
+  };
+}
+
+function parseToolArguments(raw?: string): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
@@ -11,6 +11,13 @@ import { AdminBotModule } from './admin-bot/admin-bot.module';
 import { VipModule } from './vip/vip.module';
 import { UserProfilesModule } from './user-profiles/user-profiles.module';
 import { AdminTestChatModule } from './admin-test-chat/admin-test-chat.module';
+import { AdminApiModule } from './admin-api/admin-api.module';
+import { AdminAuthModule } from './admin-auth/admin-auth.module';
+import { TranscriptsModule } from './transcripts/transcripts.module';
+import { PricingModule } from './pricing/pricing.module';
+import { PromoCodesModule } from './promo-codes/promo-codes.module';
+import { PaymentWebhookModule } from './payments/payment-webhook.module';
+import { OrderExpiryModule } from './orders/order-expiry.module';
 
 @Module({
   imports: [
@@ -24,6 +31,13 @@ import { AdminTestChatModule } from './admin-test-chat/admin-test-chat.module';
     VipModule,
     UserProfilesModule,
     AdminTestChatModule,
+    AdminAuthModule,
+    AdminApiModule,
+    TranscriptsModule,
+    PricingModule,
+    PromoCodesModule,
+    PaymentWebhookModule,
+    OrderExpiryModule,
     SettingsModule,
     ChatProcessorModule,
   ],
@@ -0,0 +1,94 @@
+import {
+  normalizeUzbekPhone,
+  parseAnketa,
+  parseCandidateHeight,
+  parseCandidateRegion,
+  renderAnketa,
+} from "./anketa.parser";
+
+describe("anketa parser", () => {
+  const anketa = [
+    "Jins: Qiz",
+    "Ism: Dilnoza",
+    "Yosh: 24 yosh",
+    "Manzil: Toshkent sh., Chilonzor",
+    "Boʻy: 1.65",
+    "Vazn: 55 kg",
+    "Oilaviy holati: ajrashgan",
+    "Farzand: yo'q",
+    "Talab: oilali bo'lishni xohlaydigan yigit",
+    "Tel: 90 123-45-67",
+  ].join("\n");
+
+  it("turns a filled template into a normalised candidate record", () => {
+    const parsed = parseAnketa(anketa);
+
+    expect(parsed.missing).toEqual([]);
+    expect(parsed.invalid).toEqual([]);
+    expect(parsed.candidate).toEqual({
+      gender: "female",
+      name: "Dilnoza",
+      age: 24,
+      region: "tashkent_city",
+      city: "Chilonzor",
+      heightCm: 165,
+      weightKg: 55,
+      maritalStatus: "divorced",
+      children: 0,
+      nationality: null,
+      occupation: null,
+      requirements: "oilali bo'lishni xohlaydigan yigit",
+      phone: "+998901234567",
+    });
+  });
+
+  it("reports missing and unreadable required lines by template label", () => {
+    const parsed = parseAnketa(
+      "Jins: qiz\nIsm: Malika\nYosh: yosh emas\nTel: 123",
+    );
+
+    expect(parsed.missing).toEqual(["manzil", "boy", "talab"]);
+    expect(parsed.invalid).toEqual(["yosh", "tel"]);
+  });
+
+  it("keeps unknown addresses as the city", () => {
+    expect(parseCandidateRegion("Samarqand viloyati, Urgut")).toEqual({
+      region: "samarkand",
+      city: "Urgut",
+    });
+    expect(parseCandidateRegion("Toshkent viloyati")).toEqual({
+      region: "tashkent",
+      city: null,
+    });
+    expect(parseCandidateRegion("Moskva")).toEqual({
+      region: null,
+      city: "Moskva",
+    });
+  });
+
+  it("normalises heights and phone numbers", () => {
+    expect(parseCandidateHeight("175 sm")).toBe(175);
+    expect(parseCandidateHeight("1,8 m")).toBe(180);
+    expect(parseCandidateHeight("17")).toBeNull();
+    expect(normalizeUzbekPhone("+998 (93) 555 11 22")).toBe("+998935551122");
+    expect(normalizeUzbekPhone("+7 916 123 45 67")).toBe("+79161234567");
+    expect(normalizeUzbekPhone("12345")).toBeNull();
+  });
+
+  it("renders the post back from the record", () => {
+    expect(renderAnketa(parseAnketa(anketa).candidate)).toBe(
+      [
+        "Jins: Ayol",
+        "Ism: Dilnoza",
+        "Yosh: 24",
+        "Manzil: Toshkent shahri, Chilonzor",
+        "Boy: 165 sm",
+        "Vazn: 55 kg",
+        "Oilaviy holat: Ajrashgan",
+        "Farzand: yo'q",
+        "Talab: oilali bo'lishni xohlaydigan yigit",
+        "Tel: +998901234567",
+      ].join("\n"),
+    );
+  });
+});
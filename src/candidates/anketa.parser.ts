@@ -0,0 +1,214 @@
+import { normalizeUserText } from "../i18n/text-normalizer";
+import {
+  ANKETA_FIELDS,
+  CANDIDATE_AGE_RANGE,
+  CANDIDATE_HEIGHT_RANGE_CM,
+  CANDIDATE_WEIGHT_RANGE_KG,
+  MARITAL_STATUS_LABELS,
+  UZ_REGIONS,
+} from "./candidates.constants";
+import {
+  AnketaField,
+  CandidateGender,
+  CandidateMaritalStatus,
+  CandidateRecord,
+  ParsedAnketa,
+} from "./candidates.types";
+
+const FIELDS_WITH_NORMALISED_VALUES = new Set<AnketaField>([
+  "gender",
+  "age",
+  "heightCm",
+  "phone",
+]);
+
+export function parseAnketa(text: string): ParsedAnketa {
+  const values = readAnketaLines(text);
+  const region = values.region ? parseCandidateRegion(values.region) : null;
+  const candidate: CandidateRecord = {
+    gender: values.gender ? parseCandidateGender(values.gender) : null,
+    name: values.name ? values.name.slice(0, 80) : null,
+    age: values.age ? parseCandidateAge(values.age) : null,
+    region: region?.region ?? null,
+    city: region?.city ?? null,
+    heightCm: values.heightCm ? parseCandidateHeight(values.heightCm) : null,
+    weightKg: values.weightKg ? parseCandidateWeight(values.weightKg) : null,
+    maritalStatus: values.maritalStatus
+      ? parseCandidateMaritalStatus(values.maritalStatus)
+      : null,
+    children: values.children ? parseCandidateChildren(values.children) : null,
+    nationality: values.nationality ?? null,
+    occupation: values.occupation ?? null,
+    requirements: values.requirements ?? null,
+    phone: values.phone ? normalizeUzbekPhone(values.phone) : null,
+  };
+
+  const missing: string[] = [];
+  const invalid: string[] = [];
+  for (const { field, label, required } of ANKETA_FIELDS) {
+    if (!values[field]) {
+      if (required) missing.push(label);
+      continue;
+    }
+    if (FIELDS_WITH_NORMALISED_VALUES.has(field) && candidate[field] === null) {
+      invalid.push(label);
+    }
+  }
+
+  return { candidate, missing, invalid };
+}
+
+/** Re-renders a channel post from the stored candidate record. */
+export function renderAnketa(candidate: CandidateRecord) {
+  const region = UZ_REGIONS.find((entry) => entry.key === candidate.region);
+  const address = [region?.label, candidate.city].filter(Boolean).join(", ");
+  const lines: Array<[string, string | number | null | undefined]> = [
+    [
+      "Jins",
+      candidate.gender === "female" ? "Ayol" : candidate.gender && "Erkak",
+    ],
+    ["Ism", candidate.name],
+    ["Yosh", candidate.age],
+    ["Manzil", address],
+    ["Boy", candidate.heightCm && `${candidate.heightCm} sm`],
+    ["Vazn", candidate.weightKg && `${candidate.weightKg} kg`],
+    [
+      "Oilaviy holat",
+      candidate.maritalStatus && MARITAL_STATUS_LABELS[candidate.maritalStatus],
+    ],
+    [
+      "Farzand",
+      candidate.children === null ? null : candidate.children || "yo'q",
+    ],
+    ["Millat", candidate.nationality],
+    ["Kasb", candidate.occupation],
+    ["Talab", candidate.requirements],
+    ["Tel", candidate.phone],
+  ];
+  return lines
+    .filter(
+      ([, value]) => value !== null && value !== undefined && value !== "",
+    )
+    .map(([label, value]) => `${label}: ${value}`)
+    .join("\n");
+}
+
+export function parseCandidateGender(value: string): CandidateGender | null {
+  const lowered = normalizeUserText(value);
+  if (/(\bayol\b|\bqiz\b|\bfemale\b)/.test(lowered)) return "female";
+  if (/(\berkak\b|\byigit\b|\bmale\b)/.test(lowered)) return "male";
+  return null;
+}
+
+export function parseCandidateAge(value: string) {
+  const match = value.match(/\d+/);
+  if (!match) return null;
+  const age = Number(match[0]);
+  return age >= CANDIDATE_AGE_RANGE.min && age <= CANDIDATE_AGE_RANGE.max
+    ? age
+    : null;
+}
+
+/** Accepts "175", "175 sm" and "1.75" / "1,75 m". */
+export function parseCandidateHeight(value: string) {
+  const match = value.match(/(\d+)(?:[.,](\d{1,2}))?/);
+  if (!match) return null;
+  const height = match[2]
+    ? Math.round(Number(`${match[1]}.${match[2]}`) * 100)
+    : Number(match[1]);
+  return height >= CANDIDATE_HEIGHT_RANGE_CM.min &&
+    height <= CANDIDATE_HEIGHT_RANGE_CM.max
+    ? height
+    : null;
+}
+
+export function parseCandidateWeight(value: string) {
+  const match = value.match(/\d+/);
+  if (!match) return null;
+  const weight = Number(match[0]);
+  return weight >= CANDIDATE_WEIGHT_RANGE_KG.min &&
+    weight <= CANDIDATE_WEIGHT_RANGE_KG.max
+    ? weight
+    : null;
+}
+
+/**
+ * Maps the address to a known region. Whatever else was written (district,
+ * city) is kept as `city`; an unknown address is kept whole as `city`.
+ */
+export function parseCandidateRegion(value: string) {
+  const lowered = normalizeUserText(value);
+  const region = UZ_REGIONS.find((entry) =>
+    entry.aliases.some((alias) => lowered.includes(normalizeUserText(alias))),
+  );
+  if (!region) return { region: null, city: value.trim() || null };
+
+  const rest = value
+    .split(/[,;/]/)
+    .map((part) => part.trim())
+    .filter(
+      (part) =>
+        part &&
+        !region.aliases.some((alias) =>
+          normalizeUserText(part).includes(normalizeUserText(alias)),
+        ),
+    );
+  return { region: region.key, city: rest.join(", ") || null };
+}
+
+export function parseCandidateMaritalStatus(
+  value: string,
+): CandidateMaritalStatus | null {
+  const lowered = normalizeUserText(value);
+  if (/ajrash/.test(lowered)) return "divorced";
+  if (/(beva|\btul\b)/.test(lowered)) return "widowed";
+  if (
+    /(turmush qurmagan|bo'ydoq|uylanmagan|turmushga chiqmagan)/.test(lowered)
+  ) {
+    return "never_married";
+  }
+  return null;
+}
+
+export function parseCandidateChildren(value: string) {
+  const lowered = normalizeUserText(value);
+  const match = lowered.match(/\d+/);
+  if (match) return Number(match[0]);
+  if (/(yo'q|yoq|\bnet\b)/.test(lowered)) return 0;
+  return null;
+}
+
+/** Normalises Uzbek numbers to E.164 (`+998XXXXXXXXX`). */
+export function normalizeUzbekPhone(value: string) {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length === 9) return `+998${digits}`;
+  if (digits.length === 12 && digits.startsWith("998")) return `+${digits}`;
+  if (
+    value.trim().startsWith("+") &&
+    digits.length >= 10 &&
+    digits.length <= 15
+  ) {
+    return `+${digits}`;
+  }
+  return null;
+}
+
+function readAnketaLines(text: string) {
+  const values: Partial<Record<AnketaField, string>> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const key = normalizeUserText(line.slice(0, separator))
+      .replace(/[^a-z' ]/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    const value = line.slice(separator + 1).trim();
+    if (!key || !value) continue;
+
+    const entry = ANKETA_FIELDS.find(
+      (candidate) => candidate.label === key || candidate.aliases.includes(key),
+    );
+    if (entry && !values[entry.field]) values[entry.field] = value;
+  }
+  return values;
+}
@@ -0,0 +1,55 @@
+import { buildCandidateSearchReply } from "./candidate-search.rules";
+
+describe("candidate search rules", () => {
+  it("lists matches with a path into the contact flow", () => {
+    expect(
+      buildCandidateSearchReply([
+        {
+          adId: 371,
+          userId: "5",
+          gender: "female",
+          age: 24,
+          region: "tashkent_city",
+          city: "Chilonzor",
+          heightCm: 165,
+        },
+        {
+          adId: 360,
+          userId: "6",
+          gender: "female",
+          age: 27,
+          region: null,
+          city: "Moskva",
+          heightCm: null,
+        },
+      ]),
+    ).toBe(
+      [
+        "Mos nomzodlar:",
+        "#371 — Ayol, 24 yosh, Toshkent shahri, 165 sm",
+        "#360 — Ayol, 27 yosh, Moskva",
+        "Kontakt olish uchun anketa raqamini yozing, masalan #371.",
+      ].join("\n"),
+    );
+    expect(buildCandidateSearchReply([])).toContain("topilmadi");
+  });
+
+  it("builds the reply in the user's language", () => {
+    const reply = buildCandidateSearchReply(
+      [
+        {
+          adId: 371,
+          userId: "5",
+          gender: "male",
+          age: 30,
+          region: null,
+          city: "Samarqand",
+          heightCm: 180,
+        },
+      ],
+      "ru",
+    );
+    expect(reply).toContain("#371 — Мужчина, 30 лет, Samarqand, 180 см");
+    expect(reply).toContain("например #371");
+  });
+});
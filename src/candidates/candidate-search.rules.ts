@@ -0,0 +1,64 @@
+import { UZ_REGIONS } from "./candidates.constants";
+import { CandidateGender } from "./candidates.types";
+import { DEFAULT_LOCALE, Locale } from "../i18n/locale";
+import { translate } from "../i18n/messages";
+
+export const CANDIDATE_SEARCH_LIMIT = 5;
+
+/** `ad_posts` statuses whose candidates are visible in search. */
+export const SEARCHABLE_AD_STATUSES = ["published", "partial_failed"];
+
+export type CandidateSearchFilters = {
+  gender?: CandidateGender;
+  minAge?: number;
+  maxAge?: number;
+  region?: string;
+  minHeightCm?: number;
+  maxHeightCm?: number;
+};
+
+export type CandidateSearchResult = {
+  adId: number;
+  userId: string | null;
+  gender: string | null;
+  age: number | null;
+  region: string | null;
+  city: string | null;
+  heightCm: number | null;
+};
+
+const GENDER_MESSAGE_KEYS = {
+  female: "gender.female",
+  male: "gender.male",
+} as const;
+
+export function describeCandidateResult(
+  result: CandidateSearchResult,
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  const region = UZ_REGIONS.find((entry) => entry.key === result.region);
+  const genderKey =
+    result.gender === "female" || result.gender === "male"
+      ? GENDER_MESSAGE_KEYS[result.gender]
+      : undefined;
+  const parts = [
+    genderKey && translate(locale, genderKey),
+    result.age && translate(locale, "search.age", { age: result.age }),
+    region?.label ?? result.city,
+    result.heightCm &&
+      translate(locale, "search.height", { height: result.heightCm }),
+  ].filter(Boolean);
+  return `#${result.adId} — ${parts.join(", ")}`;
+}
+
+export function buildCandidateSearchReply(
+  results: CandidateSearchResult[],
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  if (!results.length) return translate(locale, "search.empty");
+  return [
+    translate(locale, "search.heading"),
+    ...results.map((result) => describeCandidateResult(result, locale)),
+    translate(locale, "search.contact_hint", { adId: results[0].adId }),
+  ].join("\n");
+}
@@ -0,0 +1,42 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+export async function ensureCandidatesSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "candidates" (
+      "id" serial PRIMARY KEY,
+      "ad_id" integer REFERENCES "ad_posts"("id") ON DELETE SET NULL,
+      "task_id" integer REFERENCES "admin_tasks"("id") ON DELETE SET NULL,
+      "user_id" text,
+      "gender" text,
+      "name" text,
+      "age" integer,
+      "region" text,
+      "city" text,
+      "height_cm" integer,
+      "weight_kg" integer,
+      "marital_status" text,
+      "children" integer,
+      "nationality" text,
+      "occupation" text,
+      "requirements" text,
+      "phone" text,
+      "raw_text" text NOT NULL,
+      "created_at" timestamp DEFAULT now(),
+      "updated_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "candidates_ad_idx" ON "candidates" ("ad_id")`,
+  );
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "candidates_search_idx" ON "candidates" ("gender", "region", "age")`,
+  );
+
+  logger.log("Candidates schema ensured");
+}
@@ -0,0 +1,142 @@
+import { AnketaField, CandidateMaritalStatus } from "./candidates.types";
+
+/**
+ * Anketa template lines. `label` is what the user sees in the template and in
+ * validation messages; `aliases` are the other spellings people write.
+ */
+export const ANKETA_FIELDS: Array<{
+  field: AnketaField;
+  label: string;
+  aliases: string[];
+  required: boolean;
+}> = [
+  { field: "gender", label: "jins", aliases: ["jinsi"], required: true },
+  {
+    field: "name",
+    label: "ism",
+    aliases: ["ismi", "ism familiya"],
+    required: true,
+  },
+  { field: "age", label: "yosh", aliases: ["yoshi"], required: true },
+  {
+    field: "region",
+    label: "manzil",
+    aliases: ["yashash joyi", "hudud", "viloyat", "shahar"],
+    required: true,
+  },
+  {
+    field: "heightCm",
+    label: "boy",
+    aliases: ["bo'y", "bo'yi", "boyi"],
+    required: true,
+  },
+  {
+    field: "weightKg",
+    label: "vazn",
+    aliases: ["vazni", "og'irlik"],
+    required: false,
+  },
+  {
+    field: "maritalStatus",
+    label: "oilaviy holat",
+    aliases: ["oilaviy holati", "oilaviy ahvol", "oilaviy ahvoli"],
+    required: false,
+  },
+  {
+    field: "children",
+    label: "farzand",
+    aliases: ["farzandlar", "bolalar", "farzandi"],
+    required: false,
+  },
+  {
+    field: "nationality",
+    label: "millat",
+    aliases: ["millati"],
+    required: false,
+  },
+  {
+    field: "occupation",
+    label: "kasb",
+    aliases: ["kasbi", "ish", "ishi"],
+    required: false,
+  },
+  {
+    field: "requirements",
+    label: "talab",
+    aliases: ["talablar", "talabi"],
+    required: true,
+  },
+  {
+    field: "phone",
+    label: "tel",
+    aliases: ["telefon", "raqam", "tel raqam", "tel raqami", "aloqa", "phone"],
+    required: true,
+  },
+];
+
+/**
+ * Uzbekistan regions with the spellings users commonly type, matched in order.
+ * A bare "Toshkent" means the city, so the region entry has to come first.
+ */
+export const UZ_REGIONS: Array<{
+  key: string;
+  label: string;
+  aliases: string[];
+}> = [
+  {
+    key: "tashkent",
+    label: "Toshkent viloyati",
+    aliases: ["toshkent vil", "tashkent region"],
+  },
+  {
+    key: "tashkent_city",
+    label: "Toshkent shahri",
+    aliases: ["toshkent", "tashkent"],
+  },
+  { key: "andijan", label: "Andijon", aliases: ["andijon", "andijan"] },
+  { key: "namangan", label: "Namangan", aliases: ["namangan"] },
+  {
+    key: "fergana",
+    label: "Farg'ona",
+    aliases: ["farg'ona", "fargona", "fergana", "qo'qon", "marg'ilon"],
+  },
+  { key: "samarkand", label: "Samarqand", aliases: ["samarqand", "samarkand"] },
+  { key: "bukhara", label: "Buxoro", aliases: ["buxoro", "bukhara"] },
+  {
+    key: "khorezm",
+    label: "Xorazm",
+    aliases: ["xorazm", "khorezm", "urganch"],
+  },
+  { key: "navoi", label: "Navoiy", aliases: ["navoiy", "navoi"] },
+  {
+    key: "kashkadarya",
+    label: "Qashqadaryo",
+    aliases: ["qashqadaryo", "kashkadarya", "qarshi"],
+  },
+  {
+    key: "surkhandarya",
+    label: "Surxondaryo",
+    aliases: ["surxondaryo", "surkhandarya", "termiz"],
+  },
+  { key: "jizzakh", label: "Jizzax", aliases: ["jizzax", "jizzakh"] },
+  {
+    key: "syrdarya",
+    label: "Sirdaryo",
+    aliases: ["sirdaryo", "syrdarya", "guliston"],
+  },
+  {
+    key: "karakalpakstan",
+    label: "Qoraqalpog'iston",
+    aliases: ["qoraqalpog'iston", "qoraqalpogiston", "karakalpakstan", "nukus"],
+  },
+];
+
+export const MARITAL_STATUS_LABELS: Record<CandidateMaritalStatus, string> = {
+  never_married: "Turmush qurmagan",
+  divorced: "Ajrashgan",
+  widowed: "Beva",
+};
+
+export const CANDIDATE_AGE_RANGE = { min: 16, max: 99 } as const;
+export const CANDIDATE_HEIGHT_RANGE_CM = { min: 120, max: 230 } as const;
+export const CANDIDATE_WEIGHT_RANGE_KG = { min: 30, max: 250 } as const;
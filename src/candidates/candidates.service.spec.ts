@@ -0,0 +1,73 @@
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "../database/schema";
+import { CandidatesService } from "./candidates.service";
+
+describe("CandidatesService", () => {
+  function createService(unparsedAds: Array<Record<string, unknown>> = []) {
+    const values = jest.fn(() => ({
+      onConflictDoUpdate: jest.fn(() => ({
+        returning: jest.fn().mockResolvedValue([{ id: 1, adId: 7 }]),
+      })),
+      onConflictDoNothing: jest.fn().mockResolvedValue(undefined),
+    }));
+    const db = {
+      execute: jest.fn().mockResolvedValue(undefined),
+      select: jest.fn(() => ({
+        from: () => ({
+          leftJoin: () => ({
+            where: jest.fn().mockResolvedValue(unparsedAds),
+          }),
+        }),
+      })),
+      insert: jest.fn(() => ({ values })),
+    };
+    return {
+      service: new CandidatesService(
+        db as unknown as NodePgDatabase<typeof schema>,
+      ),
+      values,
+    };
+  }
+
+  it("stores the parsed anketa against the ad and reports completeness", async () => {
+    const { service, values } = createService();
+
+    const saved = await service.saveFromAnketa({
+      adId: 7,
+      taskId: 3,
+      userId: "555",
+      text: "Jins: ayol\nIsm: Malika\nYosh: 23\nManzil: Buxoro\nBoy: 160\nTalab: jiddiy\nTel: 901234567",
+    });
+
+    expect(saved.complete).toBe(true);
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        adId: 7,
+        taskId: 3,
+        userId: "555",
+        gender: "female",
+        age: 23,
+        region: "bukhara",
+        heightCm: 160,
+        phone: "+998901234567",
+      }),
+    );
+  });
+
+  it("backfills ads published before candidate records existed", async () => {
+    const { service, values } = createService([
+      { adId: 2, taskId: null, userId: "9", content: "Jins: erkak\nYosh: 30" },
+    ]);
+
+    await service.saveFromAnketa({ adId: 7, text: "Ism: Ali" });
+
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        adId: 2,
+        gender: "male",
+        age: 30,
+        rawText: "Jins: erkak\nYosh: 30",
+      }),
+    );
+  });
+});
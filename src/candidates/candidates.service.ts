@@ -0,0 +1,187 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, desc, eq, gte, inArray, isNull, lte, ne, or } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { adPosts, candidates } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { ensureCandidatesSchema } from "./candidates-schema";
+import { parseAnketa } from "./anketa.parser";
+import {
+  CANDIDATE_SEARCH_LIMIT,
+  CandidateSearchFilters,
+  CandidateSearchResult,
+  SEARCHABLE_AD_STATUSES,
+} from "./candidate-search.rules";
+
+@Injectable()
+export class CandidatesService {
+  private readonly logger = new Logger(CandidatesService.name);
+  private schemaChecked = false;
+
+  constructor(@Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>) {}
+
+  /**
+   * Parses the published anketa and stores it as the candidate record of the
+   * ad. Re-publishing the same ad replaces the previous record. `complete` is
+   * false when required lines were missing or could not be normalised.
+   */
+  async saveFromAnketa(params: {
+    adId: number;
+    taskId?: number;
+    userId?: string | null;
+    text: string;
+  }) {
+    await this.ensureSchema();
+    const { candidate, missing, invalid } = parseAnketa(params.text);
+    const values = {
+      ...candidate,
+      taskId: params.taskId,
+      userId: params.userId ?? null,
+      rawText: params.text,
+      updatedAt: nowInUzbekistan(),
+    };
+
+    const saved = await this.db
+      .insert(candidates)
+      .values({ ...values, adId: params.adId, createdAt: nowInUzbekistan() })
+      .onConflictDoUpdate({ target: candidates.adId, set: values })
+      .returning();
+
+    if (missing.length || invalid.length) {
+      this.logTelemetry("candidate.parse_incomplete", {
+        adId: params.adId,
+        missing,
+        invalid,
+      });
+    }
+    return {
+      record: saved[0],
+      candidate,
+      complete: !missing.length && !invalid.length,
+    };
+  }
+
+  async findByAdId(adId: number) {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(candidates)
+      .where(eq(candidates.adId, adId))
+      .limit(1);
+    return rows[0];
+  }
+
+  /** Published candidates matching the filters, newest ads first. */
+  async search(
+    filters: CandidateSearchFilters,
+    options: { excludeUserId?: string; limit?: number } = {},
+  ): Promise<CandidateSearchResult[]> {
+    await this.ensureSchema();
+    const conditions = [inArray(adPosts.status, SEARCHABLE_AD_STATUSES)];
+    if (filters.gender) conditions.push(eq(candidates.gender, filters.gender));
+    if (filters.region) conditions.push(eq(candidates.region, filters.region));
+    if (filters.minAge) conditions.push(gte(candidates.age, filters.minAge));
+    if (filters.maxAge) conditions.push(lte(candidates.age, filters.maxAge));
+    if (filters.minHeightCm) {
+      conditions.push(gte(candidates.heightCm, filters.minHeightCm));
+    }
+    if (filters.maxHeightCm) {
+      conditions.push(lte(candidates.heightCm, filters.maxHeightCm));
+    }
+    if (options.excludeUserId) {
+      conditions.push(
+        or(
+          isNull(candidates.userId),
+          ne(candidates.userId, options.excludeUserId),
+        )!,
+      );
+    }
+
+    const rows = await this.db
+      .select({
+        adId: adPosts.id,
+        userId: candidates.userId,
+        gender: candidates.gender,
+        age: candidates.age,
+        region: candidates.region,
+        city: candidates.city,
+        heightCm: candidates.heightCm,
+      })
+      .from(candidates)
+      .innerJoin(adPosts, eq(adPosts.id, candidates.adId))
+      .where(and(...conditions))
+      .orderBy(desc(adPosts.id))
+      .limit(options.limit ?? CANDIDATE_SEARCH_LIMIT);
+
+    this.logTelemetry("candidate.search", {
+      filters,
+      results: rows.length,
+    });
+    return rows;
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensureCandidatesSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn("Failed to ensure candidates schema", error as Error);
+      throw error;
+    }
+
+    try {
+      await this.backfillFromAdPosts();
+    } catch (error) {
+      this.logger.warn("Failed to backfill candidate records", error as Error);
+    }
+  }
+
+  /** Parses ads published before candidate records existed, once per boot. */
+  private async backfillFromAdPosts() {
+    const rows = await this.db
+      .select({
+        adId: adPosts.id,
+        taskId: adPosts.taskId,
+        userId: adPosts.userId,
+        content: adPosts.content,
+      })
+      .from(adPosts)
+      .leftJoin(candidates, eq(candidates.adId, adPosts.id))
+      .where(
+        and(
+          inArray(adPosts.status, SEARCHABLE_AD_STATUSES),
+          isNull(candidates.id),
+        ),
+      );
+
+    for (const row of rows) {
+      await this.db
+        .insert(candidates)
+        .values({
+          ...parseAnketa(row.content).candidate,
+          adId: row.adId,
+          taskId: row.taskId,
+          userId: row.userId,
+          rawText: row.content,
+          createdAt: nowInUzbekistan(),
+          updatedAt: nowInUzbekistan(),
+        })
+        .onConflictDoNothing();
+    }
+    if (rows.length) {
+      this.logTelemetry("candidate.backfill", { ads: rows.length });
+    }
+  }
+}
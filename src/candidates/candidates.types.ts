@@ -0,0 +1,29 @@
+export type CandidateGender = "male" | "female";
+
+export type CandidateMaritalStatus = "never_married" | "divorced" | "widowed";
+
+export type CandidateRecord = {
+  gender: CandidateGender | null;
+  name: string | null;
+  age: number | null;
+  region: string | null;
+  city: string | null;
+  heightCm: number | null;
+  weightKg: number | null;
+  maritalStatus: CandidateMaritalStatus | null;
+  children: number | null;
+  nationality: string | null;
+  occupation: string | null;
+  requirements: string | null;
+  phone: string | null;
+};
+
+export type AnketaField = keyof CandidateRecord;
+
+export type ParsedAnketa = {
+  candidate: CandidateRecord;
+  /** Template labels (`jins`, `yosh`, ...) of required lines that are absent. */
+  missing: string[];
+  /** Template labels whose value is present but could not be normalised. */
+  invalid: string[];
+};
@@ -1,10 +1,10 @@
 import { Module } from "@nestjs/common";
 import { ChatProcessorService } from "./chat-processor.service";
 import { SettingsModule } from "../settings/settings.module";
-import { ConfigModule } from "@nestjs/config";
+import { AiModule } from "../ai/ai.module";
 
 @Module({
-  imports: [SettingsModule, ConfigModule],
+  imports: [SettingsModule, AiModule],
   providers: [ChatProcessorService],
 })
 export class ChatProcessorModule {}
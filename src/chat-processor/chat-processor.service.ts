@@ -6,8 +6,7 @@ import * as schema from "../database/schema";
 import { chatMessages, chatSessions, chatSummaries } from "../database/schema";
 import { and, desc, eq, gt } from "drizzle-orm";
 import { SettingsService } from "../settings/settings.service";
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
-import { ConfigService } from "@nestjs/config";
+import { AiService } from "../ai/ai.service";
 import { nowInUzbekistan } from "../common/time";
 
 type FailureState = { count: number; lastFailedAt: Date };
@@ -15,34 +14,20 @@ type FailureState = { count: number; lastFailedAt: Date };
 @Injectable()
 export class ChatProcessorService {
   private readonly logger = new Logger(ChatProcessorService.name);
-  private genAI: GoogleGenerativeAI | undefined;
-  private model: GenerativeModel | undefined;
   private lastRunAt: Date | undefined;
   private isProcessing = false;
   private failureState = new Map<number, FailureState>();
 
   constructor(
     private readonly settingsService: SettingsService,
-    private readonly configService: ConfigService,
+    private readonly aiService: AiService,
     @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
-  ) {
-    const apiKey = this.configService.get<string>("GEMINI_API_KEY");
-    const modelName = this.configService.get<string>("AI_MODEL_NAME");
-
-    if (apiKey && modelName) {
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({ model: modelName });
-    } else {
-      this.logger.warn(
-        "GEMINI_API_KEY or AI_MODEL_NAME not found. Summary cron disabled.",
-      );
-    }
-  }
+  ) {}
 
   @Cron(CronExpression.EVERY_MINUTE)
   async handleSummaryCron() {
-    if (!this.model) return;
     if (this.isProcessing) return;
+    if (!(await this.aiService.isAvailable("summary"))) return;
 
     const settings = await this.settingsService.getSettings();
     const now = nowInUzbekistan();
@@ -144,8 +129,6 @@ export class ChatProcessorService {
     messages: typeof chatMessages.$inferSelect[],
     summaryPrompt: string,
   ) {
-    if (!this.model) return undefined;
-
     const formattedMessages = messages
       .map((message) => {
         const roleLabel = message.role === "assistant" ? "assistant" : "user";
@@ -167,9 +150,7 @@ export class ChatProcessorService {
       "Yangilangan xulosa:",
     ].join("\n");
 
-    const result = await this.model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const text = await this.aiService.generate("summary", prompt);
     if (!text?.trim()) return undefined;
     return text.trim();
   }
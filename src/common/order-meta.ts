@@ -0,0 +1,50 @@
+import { OrderPromoMeta } from "../promo-codes/promo-codes.types";
+
+/**
+ * Shape stored under `orders.meta.receiptChoice` on every order offered when a
+ * receipt photo matches several payable orders, until the user picks one.
+ */
+export type OrderReceiptChoiceMeta = {
+  messageId: number;
+  sessionId: number;
+  incomingText: string;
+  orderIds: number[];
+  askedAt: string;
+};
+
+export type OrderMeta = Record<string, unknown> & {
+  promo?: OrderPromoMeta;
+  reminderSentAt?: string;
+  receiptChoice?: OrderReceiptChoiceMeta;
+};
+
+export function parseOrderMeta(meta: string | null | undefined): OrderMeta {
+  if (!meta) return {};
+  try {
+    const parsed: unknown = JSON.parse(meta);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as OrderMeta)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+export function resolveOrderPromo(meta: string | null | undefined) {
+  const promo = parseOrderMeta(meta).promo;
+  if (!promo || typeof promo !== "object" || !promo.code) return undefined;
+  return promo;
+}
+
+export function resolveReceiptChoice(meta: string | null | undefined) {
+  const choice = parseOrderMeta(meta).receiptChoice;
+  if (
+    !choice ||
+    typeof choice !== "object" ||
+    typeof choice.messageId !== "number" ||
+    !Array.isArray(choice.orderIds)
+  ) {
+    return undefined;
+  }
+  return choice;
+}
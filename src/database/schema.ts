@@ -5,6 +5,8 @@ import {
   timestamp,
   integer,
   uniqueIndex,
+  index,
+  boolean,
 } from 'drizzle-orm/pg-core';
 
 export const sessions = pgTable('sessions', {
@@ -35,9 +37,14 @@ export const chatMessages = pgTable(
     role: text('role').notNull(),
     content: text('content').notNull(),
     telegramMessageId: text('telegram_message_id'),
+    adminId: text('admin_id'),
+    relayMessageId: text('relay_message_id'),
     createdAt: timestamp('created_at').defaultNow(),
   },
   (table) => ({
+    relayMessageIdx: index('chat_messages_relay_message_idx').on(
+      table.relayMessageId,
+    ),
     sessionTelegramIdUnique: uniqueIndex(
       'chat_messages_session_telegram_id_unique',
     ).on(table.sessionId, table.telegramMessageId),
@@ -60,6 +67,21 @@ export const appSettings = pgTable('app_settings', {
   summaryCronMinutes: integer('summary_cron_minutes').notNull().default(1),
   systemPrompt: text('system_prompt'),
   summaryPrompt: text('summary_prompt'),
+  dialogueAiProvider: text('dialogue_ai_provider').notNull().default('gemini'),
+  summaryAiProvider: text('summary_ai_provider').notNull().default('gemini'),
+  imageAiProvider: text('image_ai_provider').notNull().default('gemini'),
+  transcriptionAiProvider: text('transcription_ai_provider')
+    .notNull()
+    .default('gemini'),
+  escalationAiProvider: text('escalation_ai_provider')
+    .notNull()
+    .default('gemini'),
+  orderReminderMinutes: integer('order_reminder_minutes')
+    .notNull()
+    .default(60),
+  orderExpiryMinutes: integer('order_expiry_minutes').notNull().default(1440),
+  orderReminderText: text('order_reminder_text'),
+  orderExpiryText: text('order_expiry_text'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -77,6 +99,13 @@ export const adminTasks = pgTable('admin_tasks', {
   adminTopicId: integer('admin_topic_id'),
   adminActionBy: text('admin_action_by'),
   adminActionAt: timestamp('admin_action_at'),
+  firstResponseBy: text('first_response_by'),
+  firstResponseAt: timestamp('first_response_at'),
+  resolvedAt: timestamp('resolved_at'),
+  slaPingedAt: timestamp('sla_pinged_at'),
+  slaPingCount: integer('sla_ping_count').notNull().default(0),
+  claimedBy: text('claimed_by'),
+  claimedAt: timestamp('claimed_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -161,3 +190,185 @@ export const userProfiles = pgTable('user_profiles', {
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
+
+export const userModerationStates = pgTable('user_moderation_states', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').unique().notNull(),
+  aiPaused: boolean('ai_paused').notNull().default(false),
+  blocked: boolean('blocked').notNull().default(false),
+  reason: text('reason'),
+  updatedByAdmin: text('updated_by_admin'),
+  pausedUntil: timestamp('paused_until'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const priceRules = pgTable('price_rules', {
+  id: serial('id').primaryKey(),
+  productKey: text('product_key').notNull(),
+  label: text('label'),
+  amount: integer('amount').notNull(),
+  periodDays: integer('period_days'),
+  priority: integer('priority').notNull().default(0),
+  conditions: text('conditions'),
+  effectiveFrom: timestamp('effective_from').notNull().defaultNow(),
+  effectiveTo: timestamp('effective_to'),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const promoCodes = pgTable('promo_codes', {
+  id: serial('id').primaryKey(),
+  code: text('code').unique().notNull(),
+  discountType: text('discount_type').notNull(),
+  discountValue: integer('discount_value').notNull(),
+  productKeys: text('product_keys'),
+  maxUses: integer('max_uses'),
+  perUserLimit: integer('per_user_limit'),
+  usedCount: integer('used_count').notNull().default(0),
+  expiresAt: timestamp('expires_at'),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const promoRedemptions = pgTable(
+  'promo_redemptions',
+  {
+    id: serial('id').primaryKey(),
+    promoCodeId: integer('promo_code_id')
+      .references(() => promoCodes.id, { onDelete: 'cascade' })
+      .notNull(),
+    userId: text('user_id').notNull(),
+    orderId: integer('order_id').references(() => orders.id, {
+      onDelete: 'set null',
+    }),
+    discountAmount: integer('discount_amount').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => ({
+    orderUnique: uniqueIndex('promo_redemptions_order_id_unique').on(
+      table.orderId,
+    ),
+  }),
+);
+
+export const paymentTransactions = pgTable(
+  'payment_transactions',
+  {
+    id: serial('id').primaryKey(),
+    orderId: integer('order_id').references(() => orders.id, {
+      onDelete: 'set null',
+    }),
+    provider: text('provider').notNull(),
+    externalId: text('external_id').notNull(),
+    status: text('status').notNull(),
+    amount: integer('amount').notNull(),
+    payload: text('payload'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => ({
+    providerExternalUnique: uniqueIndex(
+      'payment_transactions_provider_external_unique',
+    ).on(table.provider, table.externalId),
+  }),
+);
+
+export const paymentReceipts = pgTable(
+  'payment_receipts',
+  {
+    id: serial('id').primaryKey(),
+    orderId: integer('order_id').references(() => orders.id, {
+      onDelete: 'set null',
+    }),
+    userId: text('user_id').notNull(),
+    imageHash: text('image_hash').notNull(),
+    amount: integer('amount'),
+    paidAt: text('paid_at'),
+    cardMask: text('card_mask'),
+    transactionId: text('transaction_id'),
+    confidence: text('confidence').notNull(),
+    warnings: text('warnings'),
+    rawResponse: text('raw_response'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index('payment_receipts_order_idx').on(table.orderId),
+    imageHashIdx: index('payment_receipts_image_hash_idx').on(table.imageHash),
+    transactionIdx: index('payment_receipts_transaction_idx').on(
+      table.transactionId,
+    ),
+  }),
+);
+
+export const orderEvents = pgTable(
+  'order_events',
+  {
+    id: serial('id').primaryKey(),
+    orderId: integer('order_id')
+      .notNull()
+      .references(() => orders.id, { onDelete: 'cascade' }),
+    fromStatus: text('from_status'),
+    toStatus: text('to_status').notNull(),
+    actor: text('actor').notNull(),
+    reason: text('reason'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => ({
+    orderIdx: index('order_events_order_idx').on(table.orderId),
+  }),
+);
+
+export const candidates = pgTable(
+  'candidates',
+  {
+    id: serial('id').primaryKey(),
+    adId: integer('ad_id').references(() => adPosts.id, {
+      onDelete: 'set null',
+    }),
+    taskId: integer('task_id').references(() => adminTasks.id, {
+      onDelete: 'set null',
+    }),
+    userId: text('user_id'),
+    gender: text('gender'),
+    name: text('name'),
+    age: integer('age'),
+    region: text('region'),
+    city: text('city'),
+    heightCm: integer('height_cm'),
+    weightKg: integer('weight_kg'),
+    maritalStatus: text('marital_status'),
+    children: integer('children'),
+    nationality: text('nationality'),
+    occupation: text('occupation'),
+    requirements: text('requirements'),
+    phone: text('phone'),
+    rawText: text('raw_text').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => ({
+    adIdx: uniqueIndex('candidates_ad_idx').on(table.adId),
+    searchIdx: index('candidates_search_idx').on(
+      table.gender,
+      table.region,
+      table.age,
+    ),
+  }),
+);
+
+export const adminAccounts = pgTable('admin_accounts', {
+  id: serial('id').primaryKey(),
+  name: text('name').unique().notNull(),
+  role: text('role').notNull(),
+  tokenHash: text('token_hash').unique().notNull(),
+  telegramUserId: text('telegram_user_id').unique(),
+  isActive: boolean('is_active').notNull().default(true),
+  onDuty: boolean('on_duty').notNull().default(false),
+  lastUsedAt: timestamp('last_used_at'),
+  createdBy: text('created_by'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
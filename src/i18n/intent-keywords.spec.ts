@@ -0,0 +1,24 @@
+import { detectGenderKeyword, matchesIntent } from "./intent-keywords";
+
+describe("intent keywords", () => {
+  it("recognises agreement and refusal in every supported locale", () => {
+    expect(matchesIntent("Ha, olaman", "affirmative")).toBe(true);
+    expect(matchesIntent("Ҳа, майли", "affirmative")).toBe(true);
+    expect(matchesIntent("Да, беру", "affirmative")).toBe(true);
+    expect(matchesIntent("Yo'q, kerak emas", "negative")).toBe(true);
+    expect(matchesIntent("Йўқ", "negative")).toBe(true);
+    expect(matchesIntent("Нет, не надо", "negative")).toBe(true);
+  });
+
+  it("matches whole words only", () => {
+    expect(matchesIntent("Когда будет ответ?", "affirmative")).toBe(false);
+    expect(matchesIntent("shahar", "affirmative")).toBe(false);
+  });
+
+  it("detects gender in Latin and Cyrillic", () => {
+    expect(detectGenderKeyword("ayol")).toBe("female");
+    expect(detectGenderKeyword("Эркак")).toBe("male");
+    expect(detectGenderKeyword("Я девушка")).toBe("female");
+    expect(detectGenderKeyword("salom")).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { Locale, SUPPORTED_LOCALES } from "./locale";
+import { normalizeUserText } from "./text-normalizer";
+
+export type KeywordIntent = "affirmative" | "negative" | "female" | "male";
+
+type IntentKeywords = {
+  /** Matched as whole words. */
+  words: string[];
+  /** Matched anywhere in the text (stems, multi-word phrases). */
+  fragments?: string[];
+};
+
+export const INTENT_KEYWORDS: Record<
+  Locale,
+  Record<KeywordIntent, IntentKeywords>
+> = {
+  "uz-Latn": {
+    affirmative: {
+      words: [
+        "ha",
+        "xo'p",
+        "mayli",
+        "olaman",
+        "ok",
+        "yuboraman",
+        "jonataman",
+        "jo'nataman",
+        "tashlayman",
+      ],
+    },
+    negative: {
+      words: ["yoq", "yo'q", "kerak emas", "bekor", "istamayman"],
+    },
+    female: { words: ["ayol", "qiz"] },
+    male: { words: ["erkak", "yigit"] },
+  },
+  "uz-Cyrl": {
+    affirmative: {
+      words: [
+        "ҳа",
+        "хўп",
+        "хоп",
+        "майли",
+        "оламан",
+        "юбораман",
+        "жўнатаман",
+        "ташлайман",
+      ],
+    },
+    negative: {
+      words: ["йўқ", "йук", "керак эмас", "бекор", "истамайман"],
+    },
+    female: { words: ["аёл", "қиз", "киз"] },
+    male: { words: ["эркак", "йигит"] },
+  },
+  ru: {
+    affirmative: {
+      words: [
+        "да",
+        "ок",
+        "хорошо",
+        "ладно",
+        "согласен",
+        "согласна",
+        "беру",
+        "давайте",
+        "отправлю",
+        "скину",
+      ],
+    },
+    negative: {
+      words: ["нет", "не надо", "не нужно", "отмена", "не хочу"],
+    },
+    female: { words: ["женщина", "девушка"] },
+    male: { words: ["мужчина", "парень"] },
+  },
+};
+
+/**
+ * Keywords and messages are both passed through `normalizeUserText`, so the
+ * Cyrillic lists end up matching their Latin transliteration too. Whole words
+ * are bounded by letter lookarounds rather than `\b`, which would split
+ * "yo'q" at the apostrophe.
+ */
+const INTENT_PATTERNS = new Map<string, RegExp>();
+
+function escapeKeyword(keyword: string) {
+  return keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getIntentPattern(locale: Locale, intent: KeywordIntent) {
+  const cacheKey = `${locale}:${intent}`;
+  const cached = INTENT_PATTERNS.get(cacheKey);
+  if (cached) return cached;
+
+  const { words, fragments = [] } = INTENT_KEYWORDS[locale][intent];
+  const alternatives = [
+    ...words.map(
+      (word) =>
+        `(?<![\\p{L}'])${escapeKeyword(normalizeUserText(word))}(?![\\p{L}'])`,
+    ),
+    ...fragments.map((fragment) => escapeKeyword(normalizeUserText(fragment))),
+  ];
+  const pattern = alternatives.length
+    ? new RegExp(alternatives.join("|"), "u")
+    : /$^/;
+  INTENT_PATTERNS.set(cacheKey, pattern);
+  return pattern;
+}
+
+/**
+ * Checks `text` against the keyword sets of every supported locale: users
+ * switch script mid-conversation, so the stored preference is only a hint.
+ */
+export function matchesIntent(text: string, intent: KeywordIntent) {
+  const normalized = normalizeUserText(text);
+  return SUPPORTED_LOCALES.some((locale) =>
+    getIntentPattern(locale, intent).test(normalized),
+  );
+}
+
+export function detectGenderKeyword(text: string) {
+  if (matchesIntent(text, "female")) return "female" as const;
+  if (matchesIntent(text, "male")) return "male" as const;
+  return undefined;
+}
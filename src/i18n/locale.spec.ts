@@ -0,0 +1,25 @@
+import { detectLocale, resolveLocale } from "./locale";
+
+describe("locale", () => {
+  it("maps stored preferred languages to supported locales", () => {
+    expect(resolveLocale("uz")).toBe("uz-Latn");
+    expect(resolveLocale(undefined)).toBe("uz-Latn");
+    expect(resolveLocale("uz-cyrl")).toBe("uz-Cyrl");
+    expect(resolveLocale("uz-Cyrl")).toBe("uz-Cyrl");
+    expect(resolveLocale("ru")).toBe("ru");
+    expect(resolveLocale("en")).toBe("uz-Latn");
+  });
+
+  it("detects Uzbek Latin, Uzbek Cyrillic and Russian messages", () => {
+    expect(detectLocale("Assalomu alaykum, kontakt kerak")).toBe("uz-Latn");
+    expect(detectLocale("Ассалому алайкум, контакт керак")).toBe("uz-Cyrl");
+    expect(detectLocale("Нархи қанча?")).toBe("uz-Cyrl");
+    expect(detectLocale("Здравствуйте, сколько стоит контакт?")).toBe("ru");
+  });
+
+  it("leaves short or script-less messages undetected", () => {
+    expect(detectLocale("ok")).toBeUndefined();
+    expect(detectLocale("#371")).toBeUndefined();
+    expect(detectLocale("👍")).toBeUndefined();
+  });
+});
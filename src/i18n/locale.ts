@@ -0,0 +1,71 @@
+export type Locale = "uz-Latn" | "uz-Cyrl" | "ru";
+
+export const SUPPORTED_LOCALES: Locale[] = ["uz-Latn", "uz-Cyrl", "ru"];
+
+export const DEFAULT_LOCALE: Locale = "uz-Latn";
+
+/** Language names as the dialogue model should read them. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  "uz-Latn": "Uzbek (Latin script)",
+  "uz-Cyrl": "Uzbek (Cyrillic script)",
+  ru: "Russian",
+};
+
+const UZBEK_CYRILLIC_LETTERS = /[ўқғҳЎҚҒҲ]/;
+const UZBEK_CYRILLIC_WORDS = new Set([
+  "ассалому",
+  "салом",
+  "раҳмат",
+  "рахмат",
+  "керак",
+  "эмас",
+  "йўқ",
+  "йук",
+  "ха",
+  "ҳа",
+  "хоп",
+  "майли",
+  "учун",
+  "менга",
+  "сиз",
+  "сизда",
+  "бор",
+  "канча",
+  "қанча",
+  "нарх",
+  "нархи",
+  "эълон",
+  "оламан",
+  "ва",
+]);
+const MIN_DETECTABLE_LETTERS = 3;
+
+/**
+ * Maps a stored `preferred_language` value to a supported locale. Bare "uz"
+ * (the column default) and unknown values fall back to Uzbek Latin.
+ */
+export function resolveLocale(value?: string | null): Locale {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return DEFAULT_LOCALE;
+  if (normalized === "uz-cyrl") return "uz-Cyrl";
+  if (normalized === "ru" || normalized.startsWith("ru-")) return "ru";
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Guesses the locale of a user message from its script. Cyrillic text is
+ * Uzbek when it uses Uzbek-only letters or common Uzbek words, Russian
+ * otherwise. Returns undefined for text too short to tell (digits, "ok").
+ */
+export function detectLocale(text: string): Locale | undefined {
+  const cyrillic = text.match(/[Ѐ-ӿ]/g)?.length ?? 0;
+  const latin = text.match(/[a-z]/gi)?.length ?? 0;
+  if (cyrillic + latin < MIN_DETECTABLE_LETTERS) return undefined;
+  if (latin >= cyrillic) return "uz-Latn";
+
+  if (UZBEK_CYRILLIC_LETTERS.test(text)) return "uz-Cyrl";
+  const words = text.toLowerCase().match(/[Ѐ-ӿ]+/g) ?? [];
+  return words.some((word) => UZBEK_CYRILLIC_WORDS.has(word))
+    ? "uz-Cyrl"
+    : "ru";
+}
@@ -0,0 +1,41 @@
+import { translate } from "./messages";
+import { RU_MESSAGES } from "./messages/ru";
+import { UZ_CYRL_MESSAGES } from "./messages/uz-cyrl";
+import { UZ_LATN_MESSAGES } from "./messages/uz-latn";
+
+function placeholders(template: string) {
+  return [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+}
+
+describe("messages", () => {
+  it("fills placeholders in the requested locale", () => {
+    expect(translate("uz-Latn", "ad.published", { adId: 12 })).toBe(
+      "Anketangiz chiqdi. ID: #12",
+    );
+    expect(
+      translate("ru", "vip.price_offer", { days: 30, amount: "490 тыс." }),
+    ).toBe("490 тыс. за 30 дней. Берёте?");
+    expect(translate("uz-Cyrl", "gender.ask")).toBe("Аёлмисиз ёки эркак?");
+  });
+
+  it("keeps unknown placeholders untouched", () => {
+    expect(translate("uz-Latn", "contact.delivered")).toBe(
+      "Kontakt: {contact}",
+    );
+  });
+
+  it("uses the same placeholders in every locale", () => {
+    for (const [key, template] of Object.entries(UZ_LATN_MESSAGES)) {
+      const expected = placeholders(template);
+      const typedKey = key as keyof typeof UZ_LATN_MESSAGES;
+      expect([key, placeholders(UZ_CYRL_MESSAGES[typedKey])]).toEqual([
+        key,
+        expected,
+      ]);
+      expect([key, placeholders(RU_MESSAGES[typedKey])]).toEqual([
+        key,
+        expected,
+      ]);
+    }
+  });
+});
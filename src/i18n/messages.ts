@@ -0,0 +1,29 @@
+import { DEFAULT_LOCALE, Locale } from "./locale";
+import { RU_MESSAGES } from "./messages/ru";
+import { UZ_CYRL_MESSAGES } from "./messages/uz-cyrl";
+import { UZ_LATN_MESSAGES } from "./messages/uz-latn";
+
+export type MessageKey = keyof typeof UZ_LATN_MESSAGES;
+
+export type MessageParams = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  "uz-Latn": UZ_LATN_MESSAGES,
+  "uz-Cyrl": UZ_CYRL_MESSAGES,
+  ru: RU_MESSAGES,
+};
+
+/**
+ * Looks up a user-facing message and fills its `{name}` placeholders.
+ * Placeholders without a matching param are left as is.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+) {
+  const template = MESSAGES[locale]?.[key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
@@ -0,0 +1,137 @@
+import type { MessageKey } from "../messages";
+
+export const RU_MESSAGES: Record<MessageKey, string> = {
+  "amount.thousands": "{value} тыс.",
+
+  "gender.ask": "Вы женщина или мужчина?",
+  "gender.female": "Женщина",
+  "gender.male": "Мужчина",
+
+  "order.cancelled": "Хорошо, отменил.",
+  "order.list_empty": "У вас нет открытых заказов.",
+  "order.list_heading": "Ваши открытые заказы:",
+  "order.type_contact": "Контакт",
+  "order.type_contact_ad": "Контакт (анкета #{adId})",
+  "order.type_vip": "VIP подписка",
+  "order.type_ad": "Объявление",
+  "order.status_awaiting_gender": "ждём ваш пол",
+  "order.status_awaiting_payment": "ждём вашего подтверждения",
+  "order.status_awaiting_check": "ждём оплату",
+  "order.status_payment_submitted": "чек проверяется",
+  "order.status_paid": "оплата получена",
+  "order.status_awaiting_content": "ждём анкету и медиа",
+  "order.status_ready_to_publish": "на проверке у админа",
+
+  "payment.finish_first": "Сначала завершим оплату.",
+  "payment.price": "Стоимость {amount}.",
+  "payment.promo_line":
+    "Промокод {code}: -{discount} (исходная цена {original}).",
+  "payment.card_number": "Номер карты:",
+  "payment.card_owner": "Владелец карты: {owner}",
+  "payment.online_url": "Онлайн-оплата: {url}",
+  "payment.online_no_receipt": "При онлайн-оплате чек не нужен.",
+  "payment.send_receipt": "Отправьте чек.",
+  "payment.approved": "Оплата получена. Теперь отправьте данные.",
+  "payment.rejected": "Оплата не найдена. Пожалуйста, отправьте чек ещё раз.",
+
+  "ad.first_free": "Первое объявление бесплатно.",
+  "ad.price_offer": "Стоимость {amount}. Отправить номер карты?",
+  "ad.first_was_free": "Первое объявление было бесплатным. {offer}",
+  "ad.next_price": "Это следующее объявление, стоимость {amount}.",
+  "ad.step_payment": "Сначала завершим оплату, потом продолжим.",
+  "ad.step_in_progress": "Текущее объявление ещё в процессе.",
+  "ad.published": "Ваша анкета опубликована. ID: #{adId}",
+
+  "contact.price_offer":
+    "Стоимость {amount}. После оплаты вы получите контакт и 1 фото. Берёте?",
+  "contact.delivered": "Контакт: {contact}",
+  "contact.not_found": "Контакт не найден. Админ проверит.",
+
+  "vip.price_offer": "{amount} за {days} дней. Берёте?",
+  "vip.invite_link": "Ссылка на VIP канал: {link}",
+  "vip.added": "Вы добавлены в VIP канал.",
+  "vip.active_days": "VIP подписка будет активна {days} дней.",
+  "vip.expired": "Срок VIP подписки истёк.",
+  "vip.expiring": "До окончания VIP подписки осталось 3 дня. Продлеваем?",
+
+  "promo.applied":
+    "Промокод применён: -{discount}. Новая цена {amount}. Берёте?",
+  "promo.not_found": "Такой промокод не найден.",
+  "promo.expired": "Срок действия промокода истёк.",
+  "promo.exhausted": "Лимит промокода исчерпан.",
+  "promo.user_limit": "Вы уже использовали этот промокод.",
+  "promo.not_applicable": "Этот промокод не действует для этой услуги.",
+  "promo.already_applied": "К этому заказу промокод уже применён.",
+  "promo.inactive": "Промокод не активен.",
+
+  "template.start_ad_first":
+    "Чтобы получить шаблон анкеты, сначала начните оформление объявления.",
+  "template.link": "Чтобы заполнить анкету, [нажмите здесь]({link})",
+  "template.heading": "Шаблон анкеты (названия полей оставьте на латинице):",
+  "anketa.incomplete": "Заполните шаблон полностью. {problems}",
+  "anketa.missing": "Не хватает: {fields}.",
+  "anketa.invalid": "Заполнено неверно: {fields}.",
+
+  "media.send_next": "Затем отправьте 2 фото и 1 видеокружок.",
+  "media.reset_done": "Медиа очищены. Отправьте 2 фото и 1 видео.",
+  "media.rejected": "Медиа не подходят. Отправьте заново 2 фото и 1 видео.",
+  "media.progress":
+    "Отправьте 2 фото и 1 видеокружок. Сейчас: {photos} фото, {videos} видео.",
+  "media.too_many": "Не отправляйте лишние файлы. Нужно 2 фото и 1 видео.",
+  "media.photos_enough": "2 фото достаточно. Лишнее не отправляйте.",
+  "media.video_enough": "1 видео достаточно. Лишнее не отправляйте.",
+  "media.video_received":
+    "Видео получено. Для AI-проверки отправьте также дополнительное фото.",
+  "media.photo_received":
+    "Фото получено. Продолжайте отправлять нужные материалы.",
+  "media.no_ad_order":
+    "Не найдено активное объявление для отправки медиа кандидата. Сначала начните оформление объявления.",
+  "media.archive_not_ready":
+    "Сохранение медиа временно приостановлено: в базе не найдены нужные столбцы миграции. Пожалуйста, отправьте позже.",
+  "media.archive_unavailable":
+    "Сохранение медиа временно приостановлено: проблема с подключением к базе данных. Пожалуйста, отправьте позже.",
+  "media.route_low_confidence":
+    "Перед отправкой фото начните нужный этап. Для оплаты перейдите к оплате, для анкеты — к этапу сбора медиа.",
+  "media.route_receipt_during_candidate":
+    "На этом этапе принимаются медиа кандидата. Чтобы отправить чек, сначала вернитесь к этапу оплаты.",
+  "media.route_candidate_during_receipt":
+    "Сейчас активен этап оплаты. Пожалуйста, отправьте фото чека; медиа кандидата принимаются на следующем этапе.",
+  "media.route_unsupported_candidate_media":
+    "Отправьте фото или видео кандидата. Стикеры и другие файлы не принимаются.",
+  "media.route_no_context":
+    "Перед отправкой фото начните нужный процесс. Должен быть активен этап чека или медиа кандидата.",
+  "media.route_no_payable_order":
+    "Не найден активный заказ для оплаты. Сначала оформите заказ или перейдите к этапу оплаты.",
+
+  "receipt.choose_order": "К какому заказу относится чек? Напишите номер:",
+  "receipt.order_not_payable":
+    "Этот заказ больше не ждёт оплату. Отправьте чек для нужного заказа заново.",
+  "receipt.not_accepted":
+    "Чек сейчас не принят. Пожалуйста, проверьте этап оплаты и отправьте снова.",
+  "receipt.photo_required":
+    "Чек должен быть фотографией. Пожалуйста, отправьте чек в виде фото.",
+  "receipt.anketa_after_payment":
+    "После поступления оплаты отправите свою анкету.",
+  "receipt.received": "Фото чека получено и отправлено на проверку.",
+
+  "refund.in_review": "Ваш запрос на возврат денег рассматривается.",
+  "refund.submitted":
+    "Ваш запрос на возврат денег отправлен админу. Проверим и ответим.",
+  "refund.approved": "Деньги возвращены: {amount}.",
+  "refund.rejected":
+    "Запрос на возврат денег отклонён. Если есть вопросы, напишите.",
+
+  "voice.not_understood":
+    "Не удалось разобрать голосовое сообщение. Пожалуйста, напишите текстом.",
+
+  "search.unavailable":
+    "Поиск сейчас не работает. Напишите номер анкеты, и я получу контакт.",
+  "search.empty":
+    "Подходящих кандидатов пока нет. Попробуйте немного расширить требования.",
+  "search.heading": "Подходящие кандидаты:",
+  "search.contact_hint":
+    "Чтобы получить контакт, напишите номер анкеты, например #{adId}.",
+  "search.age": "{age} лет",
+  "search.height": "{height} см",
+  "search.preview_caption": "Фото удалится через 10 секунд.",
+};
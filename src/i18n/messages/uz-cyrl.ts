@@ -0,0 +1,135 @@
+import type { MessageKey } from "../messages";
+
+export const UZ_CYRL_MESSAGES: Record<MessageKey, string> = {
+  "amount.thousands": "{value} минг",
+
+  "gender.ask": "Аёлмисиз ёки эркак?",
+  "gender.female": "Аёл",
+  "gender.male": "Эркак",
+
+  "order.cancelled": "Майли, бекор қилдим.",
+  "order.list_empty": "Сизда очиқ буюртма йўқ.",
+  "order.list_heading": "Очиқ буюртмаларингиз:",
+  "order.type_contact": "Контакт",
+  "order.type_contact_ad": "Контакт (анкета #{adId})",
+  "order.type_vip": "VIP обуна",
+  "order.type_ad": "Эълон",
+  "order.status_awaiting_gender": "жинсингиз кутилмоқда",
+  "order.status_awaiting_payment": "тасдиқлашингиз кутилмоқда",
+  "order.status_awaiting_check": "тўлов кутилмоқда",
+  "order.status_payment_submitted": "чек текширилмоқда",
+  "order.status_paid": "тўлов қабул қилинди",
+  "order.status_awaiting_content": "анкета ва медиа кутилмоқда",
+  "order.status_ready_to_publish": "админ кўриб чиқмоқда",
+
+  "payment.finish_first": "Аввал тўловни якунлаймиз.",
+  "payment.price": "Нархи {amount}.",
+  "payment.promo_line": "Промокод {code}: -{discount} (асл нарх {original}).",
+  "payment.card_number": "Карта рақами:",
+  "payment.card_owner": "Карта эгаси: {owner}",
+  "payment.online_url": "Онлайн тўлов: {url}",
+  "payment.online_no_receipt": "Онлайн тўласангиз чек шарт эмас.",
+  "payment.send_receipt": "Чекни юборасиз.",
+  "payment.approved": "Тўлов тушди. Энди маълумотларни юборинг.",
+  "payment.rejected": "Тўлов топилмади. Илтимос, чекингизни қайта юборинг.",
+
+  "ad.first_free": "Биринчи эълон бепул.",
+  "ad.price_offer": "Нархи {amount}. Карта ташлайми?",
+  "ad.first_was_free": "Биринчи эълон бепул эди. {offer}",
+  "ad.next_price": "Бу кейинги эълон, нархи {amount}.",
+  "ad.step_payment": "Тўловни якунлаймиз, кейин давом этамиз.",
+  "ad.step_in_progress": "Жорий эълон жараёни давом этяпти.",
+  "ad.published": "Анкетангиз чиқди. ID: #{adId}",
+
+  "contact.price_offer":
+    "Нархи {amount}. Тўловдан кейин контакт ва 1 та расм берилади. Оласизми?",
+  "contact.delivered": "Контакт: {contact}",
+  "contact.not_found": "Контакт топилмади. Админ текширади.",
+
+  "vip.price_offer": "{days} кунга {amount}. Оласизми?",
+  "vip.invite_link": "VIP канал линк: {link}",
+  "vip.added": "VIP каналга қўшилдингиз.",
+  "vip.active_days": "VIP обуна {days} кун фаол бўлади.",
+  "vip.expired": "VIP обуна муддати тугади.",
+  "vip.expiring": "VIP обуна тугашига 3 кун қолди. Узайтирамизми?",
+
+  "promo.applied":
+    "Промокод қўлланди: -{discount}. Янги нарх {amount}. Оласизми?",
+  "promo.not_found": "Бундай промокод топилмади.",
+  "promo.expired": "Промокод муддати тугаган.",
+  "promo.exhausted": "Промокод лимити тугаган.",
+  "promo.user_limit": "Сиз бу промокоддан фойдаланиб бўлгансиз.",
+  "promo.not_applicable": "Бу промокод ушбу хизматга амал қилмайди.",
+  "promo.already_applied": "Бу буюртмага промокод аллақачон қўлланган.",
+  "promo.inactive": "Промокод фаол эмас.",
+
+  "template.start_ad_first":
+    "Анкета шаблонини юбориш учун аввал эълон жараёнини бошланг.",
+  "template.link": "Анкетани тўлдириш учун [шу ерга босинг]({link})",
+  "template.heading": "Анкета шаблони:",
+  "anketa.incomplete": "Шаблонни тўлиқ тўлдиринг. {problems}",
+  "anketa.missing": "Етишмаяпти: {fields}.",
+  "anketa.invalid": "Нотўғри ёзилган: {fields}.",
+
+  "media.send_next": "Кейин 2 та расм ва 1 та юмалоқ видео юборинг.",
+  "media.reset_done": "Медиа тозаланди. 2 та расм ва 1 та видео юборинг.",
+  "media.rejected": "Медиа мос эмас. Қайтадан 2 та расм ва 1 та видео юборинг.",
+  "media.progress":
+    "2 та расм ва 1 та юмалоқ видео юборинг. Ҳозир: {photos} расм, {videos} видео.",
+  "media.too_many":
+    "Ортиқча файлларни юборманг. 2 та расм ва 1 та видео керак.",
+  "media.photos_enough": "2 та расм етарли. Ортиқча юборманг.",
+  "media.video_enough": "1 та видео етарли. Ортиқча юборманг.",
+  "media.video_received":
+    "Видео қабул қилинди. AI таҳлил учун қўшимча расм ҳам юборинг.",
+  "media.photo_received":
+    "Расм қабул қилинди. Яна керакли материалларни юборишда давом этинг.",
+  "media.no_ad_order":
+    "Номзод медиа юбориш учун фаол эълон жараёни топилмади. Аввал эълон жараёнини бошланг.",
+  "media.archive_not_ready":
+    "Медиа сақлаш вақтинча тўхтатилди: базада керакли миграция устунлари топилмади. Илтимос, кейинроқ қайта юборинг.",
+  "media.archive_unavailable":
+    "Медиа сақлаш вақтинча тўхтатилди: маълумотлар базасига уланишда муаммо бор. Илтимос, кейинроқ қайта юборинг.",
+  "media.route_low_confidence":
+    "Расм юборишдан олдин тегишли босқични бошланг. Тўлов учун аввал тўлов жараёнига, анкета учун эса медиа йиғиш босқичига ўтинг.",
+  "media.route_receipt_during_candidate":
+    "Бу босқичда номзод медиа қабул қилинади. Тўлов чеки юбориш учун аввал тўлов босқичига қайтинг.",
+  "media.route_candidate_during_receipt":
+    "Ҳозир тўлов чеки босқичи фаол. Илтимос, чек расмини юборинг; номзод медиа кейинги босқичда қабул қилинади.",
+  "media.route_unsupported_candidate_media":
+    "Номзод учун расм ёки видео юборинг. Стикер ёки бошқа турдаги файл қабул қилинмайди.",
+  "media.route_no_context":
+    "Расм юборишдан олдин керакли жараённи бошланг. Тўлов чеки ёки номзод медиа босқичи фаол бўлиши керак.",
+  "media.route_no_payable_order":
+    "Тўлов чеки юбориш учун фаол тўлов буюртмаси топилмади. Аввал буюртмани бошланг ёки тўлов босқичини фаоллаштиринг.",
+
+  "receipt.choose_order": "Чек қайси буюртма учун? Рақамини ёзинг:",
+  "receipt.order_not_payable":
+    "Бу буюртма энди тўлов кутмаяпти. Чекни керакли буюртма учун қайта юборинг.",
+  "receipt.not_accepted":
+    "Тўлов чеки ҳозир қабул қилинмади. Илтимос, тўлов босқичини текшириб қайта юборинг.",
+  "receipt.photo_required":
+    "Тўлов чеки расм бўлиши керак. Илтимос, чекни расм кўринишида юборинг.",
+  "receipt.anketa_after_payment": "Тўлов тушгач, анкетангизни юборасиз.",
+  "receipt.received": "Чек расми қабул қилинди ва текширувга юборилди.",
+
+  "refund.in_review": "Пулни қайтариш сўровингиз кўриб чиқилмоқда.",
+  "refund.submitted":
+    "Пулни қайтариш сўровингиз админга юборилди. Текшириб жавоб берамиз.",
+  "refund.approved": "Пулингиз қайтарилди: {amount}.",
+  "refund.rejected": "Пулни қайтариш сўрови рад этилди. Саволлар бўлса ёзинг.",
+
+  "voice.not_understood":
+    "Овозли хабарингизни тушуна олмадим. Илтимос, ёзиб юборинг.",
+
+  "search.unavailable":
+    "Қидирув ҳозир ишламаяпти. Анкета рақамини ёзсангиз, контактни олиб бераман.",
+  "search.empty":
+    "Ҳозирча мос номзод топилмади. Талабларни бироз кенгайтириб кўринг.",
+  "search.heading": "Мос номзодлар:",
+  "search.contact_hint":
+    "Контакт олиш учун анкета рақамини ёзинг, масалан #{adId}.",
+  "search.age": "{age} ёш",
+  "search.height": "{height} см",
+  "search.preview_caption": "Расм 10 сонияда ўчади.",
+};
@@ -0,0 +1,135 @@
+export const UZ_LATN_MESSAGES = {
+  "amount.thousands": "{value} ming",
+
+  "gender.ask": "Ayolmisiz yoki erkak?",
+  "gender.female": "Ayol",
+  "gender.male": "Erkak",
+
+  "order.cancelled": "Mayli, bekor qildim.",
+  "order.list_empty": "Sizda ochiq buyurtma yo'q.",
+  "order.list_heading": "Ochiq buyurtmalaringiz:",
+  "order.type_contact": "Kontakt",
+  "order.type_contact_ad": "Kontakt (anketa #{adId})",
+  "order.type_vip": "VIP obuna",
+  "order.type_ad": "E'lon",
+  "order.status_awaiting_gender": "jinsingiz kutilmoqda",
+  "order.status_awaiting_payment": "tasdiqlashingiz kutilmoqda",
+  "order.status_awaiting_check": "to'lov kutilmoqda",
+  "order.status_payment_submitted": "chek tekshirilmoqda",
+  "order.status_paid": "to'lov qabul qilindi",
+  "order.status_awaiting_content": "anketa va media kutilmoqda",
+  "order.status_ready_to_publish": "admin ko'rib chiqmoqda",
+
+  "payment.finish_first": "Avval to'lovni yakunlaymiz.",
+  "payment.price": "Narxi {amount}.",
+  "payment.promo_line": "Promokod {code}: -{discount} (asl narx {original}).",
+  "payment.card_number": "Karta raqami:",
+  "payment.card_owner": "Karta egasi: {owner}",
+  "payment.online_url": "Onlayn to'lov: {url}",
+  "payment.online_no_receipt": "Onlayn to'lasangiz chek shart emas.",
+  "payment.send_receipt": "Chekni yuborasiz.",
+  "payment.approved": "To'lov tushdi. Endi ma'lumotlarni yuboring.",
+  "payment.rejected": "To'lov topilmadi. Iltimos, chekingizni qayta yuboring.",
+
+  "ad.first_free": "Birinchi e'lon bepul.",
+  "ad.price_offer": "Narxi {amount}. Karta tashlaymi?",
+  "ad.first_was_free": "Birinchi e'lon bepul edi. {offer}",
+  "ad.next_price": "Bu keyingi e'lon, narxi {amount}.",
+  "ad.step_payment": "To'lovni yakunlaymiz, keyin davom etamiz.",
+  "ad.step_in_progress": "Joriy e'lon jarayoni davom etyapti.",
+  "ad.published": "Anketangiz chiqdi. ID: #{adId}",
+
+  "contact.price_offer":
+    "Narxi {amount}. To'lovdan keyin kontakt va 1 ta rasm beriladi. Olasizmi?",
+  "contact.delivered": "Kontakt: {contact}",
+  "contact.not_found": "Kontakt topilmadi. Admin tekshiradi.",
+
+  "vip.price_offer": "{days} kunga {amount}. Olasizmi?",
+  "vip.invite_link": "VIP kanal link: {link}",
+  "vip.added": "VIP kanalga qo'shildingiz.",
+  "vip.active_days": "VIP obuna {days} kun faol bo'ladi.",
+  "vip.expired": "VIP obuna muddati tugadi.",
+  "vip.expiring": "VIP obuna tugashiga 3 kun qoldi. Uzaytiramizmi?",
+
+  "promo.applied":
+    "Promokod qo'llandi: -{discount}. Yangi narx {amount}. Olasizmi?",
+  "promo.not_found": "Bunday promokod topilmadi.",
+  "promo.expired": "Promokod muddati tugagan.",
+  "promo.exhausted": "Promokod limiti tugagan.",
+  "promo.user_limit": "Siz bu promokoddan foydalanib bo'lgansiz.",
+  "promo.not_applicable": "Bu promokod ushbu xizmatga amal qilmaydi.",
+  "promo.already_applied": "Bu buyurtmaga promokod allaqachon qo'llangan.",
+  "promo.inactive": "Promokod faol emas.",
+
+  "template.start_ad_first":
+    "Anketa shablonini yuborish uchun avval e'lon jarayonini boshlang.",
+  "template.link": "Anketani to'ldirish uchun [shu yerga bosing]({link})",
+  "template.heading": "Anketa shabloni:",
+  "anketa.incomplete": "Shablonni to'liq toldiring. {problems}",
+  "anketa.missing": "Yetishmayapti: {fields}.",
+  "anketa.invalid": "Noto'g'ri yozilgan: {fields}.",
+
+  "media.send_next": "Keyin 2 ta rasm va 1 ta yumaloq video yuboring.",
+  "media.reset_done": "Media tozalandi. 2 ta rasm va 1 ta video yuboring.",
+  "media.rejected":
+    "Media mos emas. Qaytadan 2 ta rasm va 1 ta video yuboring.",
+  "media.progress":
+    "2 ta rasm va 1 ta yumaloq video yuboring. Hozir: {photos} rasm, {videos} video.",
+  "media.too_many":
+    "Ortiqcha fayllarni yubormang. 2 ta rasm va 1 ta video kerak.",
+  "media.photos_enough": "2 ta rasm yetarli. Ortiqcha yubormang.",
+  "media.video_enough": "1 ta video yetarli. Ortiqcha yubormang.",
+  "media.video_received":
+    "Video qabul qilindi. AI tahlil uchun qo'shimcha rasm ham yuboring.",
+  "media.photo_received":
+    "Rasm qabul qilindi. Yana kerakli materiallarni yuborishda davom eting.",
+  "media.no_ad_order":
+    "Nomzod media yuborish uchun faol e'lon jarayoni topilmadi. Avval e'lon jarayonini boshlang.",
+  "media.archive_not_ready":
+    "Media saqlash vaqtincha to'xtatildi: bazada kerakli migratsiya ustunlari topilmadi. Iltimos, keyinroq qayta yuboring.",
+  "media.archive_unavailable":
+    "Media saqlash vaqtincha to'xtatildi: ma'lumotlar bazasiga ulanishda muammo bor. Iltimos, keyinroq qayta yuboring.",
+  "media.route_low_confidence":
+    "Rasm yuborishdan oldin tegishli bosqichni boshlang. To'lov uchun avval to'lov jarayoniga, anketa uchun esa media yig'ish bosqichiga o'ting.",
+  "media.route_receipt_during_candidate":
+    "Bu bosqichda nomzod media qabul qilinadi. To'lov cheki yuborish uchun avval to'lov bosqichiga qayting.",
+  "media.route_candidate_during_receipt":
+    "Hozir to'lov cheki bosqichi faol. Iltimos, chek rasmini yuboring; nomzod media keyingi bosqichda qabul qilinadi.",
+  "media.route_unsupported_candidate_media":
+    "Nomzod uchun rasm yoki video yuboring. Sticker yoki boshqa turdagi fayl qabul qilinmaydi.",
+  "media.route_no_context":
+    "Rasm yuborishdan oldin kerakli jarayonni boshlang. To'lov cheki yoki nomzod media bosqichi faol bo'lishi kerak.",
+  "media.route_no_payable_order":
+    "To'lov cheki yuborish uchun faol to'lov buyurtmasi topilmadi. Avval buyurtmani boshlang yoki to'lov bosqichini faollashtiring.",
+
+  "receipt.choose_order": "Chek qaysi buyurtma uchun? Raqamini yozing:",
+  "receipt.order_not_payable":
+    "Bu buyurtma endi to'lov kutmayapti. Chekni kerakli buyurtma uchun qayta yuboring.",
+  "receipt.not_accepted":
+    "To'lov cheki hozir qabul qilinmadi. Iltimos, to'lov bosqichini tekshirib qayta yuboring.",
+  "receipt.photo_required":
+    "To'lov cheki rasm bo'lishi kerak. Iltimos, chekni rasm ko'rinishida yuboring.",
+  "receipt.anketa_after_payment": "To'lov tushgach, anketangizni yuborasiz.",
+  "receipt.received": "Chek rasmi qabul qilindi va tekshiruvga yuborildi.",
+
+  "refund.in_review": "Pulni qaytarish so'rovingiz ko'rib chiqilmoqda.",
+  "refund.submitted":
+    "Pulni qaytarish so'rovingiz adminga yuborildi. Tekshirib javob beramiz.",
+  "refund.approved": "Pulingiz qaytarildi: {amount}.",
+  "refund.rejected":
+    "Pulni qaytarish so'rovi rad etildi. Savollar bo'lsa yozing.",
+
+  "voice.not_understood":
+    "Ovozli xabaringizni tushuna olmadim. Iltimos, yozib yuboring.",
+
+  "search.unavailable":
+    "Qidiruv hozir ishlamayapti. Anketa raqamini yozsangiz, kontaktni olib beraman.",
+  "search.empty":
+    "Hozircha mos nomzod topilmadi. Talablarni biroz kengaytirib ko'ring.",
+  "search.heading": "Mos nomzodlar:",
+  "search.contact_hint":
+    "Kontakt olish uchun anketa raqamini yozing, masalan #{adId}.",
+  "search.age": "{age} yosh",
+  "search.height": "{height} sm",
+  "search.preview_caption": "Rasm 10 soniyada o'chadi.",
+};
@@ -0,0 +1,56 @@
+import {
+  foldApostrophes,
+  normalizeUserText,
+  stripEmoji,
+  transliterateCyrillic,
+} from "./text-normalizer";
+import { matchesIntent } from "./intent-keywords";
+
+describe("text normalizer", () => {
+  it.each([
+    ["yoʻq", "yo'q"],
+    ["yo’q", "yo'q"],
+    ["yo`q", "yo'q"],
+    ["Йўқ", "yo'q"],
+    ["ЙЎҚ", "yo'q"],
+    ["Ҳа", "ha"],
+    ["Xa", "ha"],
+    ["xo'p", "ho'p"],
+    ["Хўп 👍", "ho'p"],
+    ["ok👌🏻", "ok"],
+    ["❤️ Rahmat ❤️", "rahmat"],
+    ["Анкета #371", "anketa #371"],
+    ["анкета   371\nбераман", "anketa 371 beraman"],
+    ["Тўлов қилдим", "to'lov qildim"],
+    ["Ғалаба", "g'alaba"],
+    ["етти", "yetti"],
+    ["бекор", "bekor"],
+    ["Шикоят", "shikoyat"],
+    ["Қизман", "qizman"],
+    ["Ёлғон", "yolg'on"],
+    ["Нет, спасибо", "net, spasibo"],
+    ["Xorazm, Urganch", "horazm, urganch"],
+  ])("normalises %j to %j", (input, expected) => {
+    expect(normalizeUserText(input)).toBe(expected);
+  });
+
+  it("keeps letter case when transliterating", () => {
+    expect(transliterateCyrillic("Ўзбекистон")).toBe("O'zbekiston");
+    expect(transliterateCyrillic("Шаҳар")).toBe("Shahar");
+  });
+
+  it("folds every apostrophe variant and replaces emoji with spaces", () => {
+    expect(foldApostrophes("oʻgʻil o’g‘il")).toBe("o'g'il o'g'il");
+    expect(stripEmoji("ha🙂rahmat")).toBe("ha rahmat");
+  });
+
+  it.each([
+    ["Ha 👍", "affirmative"],
+    ["Хоп", "affirmative"],
+    ["ho'p", "affirmative"],
+    ["Йўқ, керак эмас", "negative"],
+    ["yoʻq", "negative"],
+  ] as const)("detects %j as %s", (input, intent) => {
+    expect(matchesIntent(input, intent)).toBe(true);
+  });
+});
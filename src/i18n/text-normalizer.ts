@@ -0,0 +1,96 @@
+/**
+ * Folds the spelling variants users type for the same Uzbek word into one
+ * lowercase Latin form, so keyword detectors only list each word once:
+ * apostrophe variants (o' / oʻ / o`), Cyrillic input (йўқ -> yo'q) and the
+ * interchangeable x / h. Emoji are dropped.
+ */
+
+const APOSTROPHE_VARIANTS = /[ʻʼ’‘`´′ʹ]/g;
+const EMOJI =
+  /\p{Extended_Pictographic}|[\u{1F3FB}-\u{1F3FF}]|\u{FE0F}|\u{200D}/gu;
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  ё: "yo",
+  ж: "j",
+  з: "z",
+  и: "i",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "x",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "sh",
+  ъ: "'",
+  ы: "i",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  ў: "o'",
+  қ: "q",
+  ғ: "g'",
+  ҳ: "h",
+};
+
+/** "е" is "ye" at the start of a word or after a vowel (етти -> yetti). */
+const CYRILLIC_E_AFTER = /[аеёиоуўэюяъь]/;
+
+export function foldApostrophes(text: string) {
+  return text.replace(APOSTROPHE_VARIANTS, "'");
+}
+
+/** Uzbek Cyrillic to Uzbek Latin; Russian text comes out as a close transliteration. */
+export function transliterateCyrillic(text: string) {
+  let output = "";
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    const lower = char.toLowerCase();
+    let latin: string | undefined;
+    if (lower === "е") {
+      const previous = text[index - 1]?.toLowerCase();
+      latin =
+        !previous || !/\p{L}/u.test(previous) || CYRILLIC_E_AFTER.test(previous)
+          ? "ye"
+          : "e";
+    } else {
+      latin = CYRILLIC_TO_LATIN[lower];
+    }
+    if (latin === undefined) {
+      output += char;
+    } else if (char !== lower && latin) {
+      output += latin[0].toUpperCase() + latin.slice(1);
+    } else {
+      output += latin;
+    }
+  }
+  return output;
+}
+
+export function stripEmoji(text: string) {
+  return text.replace(EMOJI, " ");
+}
+
+/** Canonical form every keyword detector matches against. */
+export function normalizeUserText(text: string) {
+  return transliterateCyrillic(foldApostrophes(stripEmoji(text)))
+    .toLowerCase()
+    .replace(/x/g, "h")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,65 @@
+import {
+  parseEscalationClassification,
+  resolveEscalationAction,
+  scoreEscalationKeywords,
+} from "./escalation-classifier.rules";
+
+describe("escalation classifier rules", () => {
+  it.each([
+    ["Bu firibgarlik!", "fraud"],
+    ["Сизлар алдадингиз", "fraud"],
+    ["Это обман, верните деньги", "fraud"],
+    ["ahmoq", "abuse"],
+    ["Axmoqmisiz", "abuse"],
+    ["Sudga beraman sizlarni", "legal_threat"],
+  ] as const)("escalates %j as high %s", (text, category) => {
+    expect(scoreEscalationKeywords(text)).toMatchObject({
+      category,
+      severity: "high",
+      source: "keywords",
+    });
+  });
+
+  it("flags weaker complaints without pausing", () => {
+    const result = scoreEscalationKeywords("Tоʻlov qilganman, javob yo'q");
+
+    expect(result.severity).toBe("medium");
+    expect(resolveEscalationAction(result.severity)).toBe("flag");
+  });
+
+  it.each([
+    "Narxi qancha?",
+    "Ertaga pulni qaytaraman",
+    "Mashina sudralib ketdi",
+  ])("ignores harmless %j", (text) => {
+    expect(scoreEscalationKeywords(text).severity).toBe("none");
+  });
+
+  it("parses the model reply and drops unknown labels", () => {
+    expect(
+      parseEscalationClassification(
+        '```json\n{"category": "refund", "severity": "medium", "rationale": " Pulni qaytarishni so\'ramoqda. "}\n```',
+      ),
+    ).toEqual({
+      category: "refund",
+      severity: "medium",
+      rationale: "Pulni qaytarishni so'ramoqda.",
+      source: "ai",
+    });
+    expect(
+      parseEscalationClassification('{"category": "spam", "severity": "high"}'),
+    ).toBeUndefined();
+    expect(parseEscalationClassification("no json")).toBeUndefined();
+  });
+
+  it("keeps category and severity consistent", () => {
+    expect(
+      parseEscalationClassification('{"category": "none", "severity": "high"}'),
+    ).toMatchObject({ category: "none", severity: "none" });
+  });
+
+  it("pauses only on high severity", () => {
+    expect(resolveEscalationAction("high")).toBe("pause");
+    expect(resolveEscalationAction("low")).toBe("none");
+  });
+});
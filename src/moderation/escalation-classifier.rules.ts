@@ -0,0 +1,280 @@
+import { normalizeUserText } from "../i18n/text-normalizer";
+
+export type EscalationCategory =
+  | "none"
+  | "complaint"
+  | "abuse"
+  | "refund"
+  | "fraud"
+  | "legal_threat";
+
+export type EscalationSeverity = "none" | "low" | "medium" | "high";
+
+export const ESCALATION_CATEGORIES: EscalationCategory[] = [
+  "none",
+  "complaint",
+  "abuse",
+  "refund",
+  "fraud",
+  "legal_threat",
+];
+
+export const ESCALATION_SEVERITIES: EscalationSeverity[] = [
+  "none",
+  "low",
+  "medium",
+  "high",
+];
+
+/** Stored in the escalation task payload and shown on the admin card. */
+export type EscalationClassification = {
+  category: EscalationCategory;
+  severity: EscalationSeverity;
+  rationale: string;
+  source: "ai" | "keywords";
+};
+
+/**
+ * `pause` hands the chat to a human (AI paused), `flag` posts the card but
+ * lets the AI keep answering.
+ */
+export type EscalationAction = "none" | "flag" | "pause";
+
+export const ESCALATION_CLASSIFIER_PROMPT = [
+  "Siz mijozlar xabarlarini tasniflovchisiz. Xabar admin aralashuvini talab qiladimi, aniqlang.",
+  "Faqat JSON qaytaring, boshqa matn yozmang:",
+  '{"category": "none"|"complaint"|"abuse"|"refund"|"fraud"|"legal_threat", "severity": "none"|"low"|"medium"|"high", "rationale": string}',
+  "complaint - xizmatdan norozilik; abuse - haqorat, so'kinish; refund - pulni qaytarishni talab qilish; fraud - aldov yoki firibgarlik ayblovi; legal_threat - sud, politsiya, prokuratura bilan tahdid.",
+  "severity: high - darhol admin kerak; medium - admin ko'rishi kerak, lekin suhbat davom etishi mumkin; low - engil norozilik; none - oddiy savol yoki suhbat.",
+  "Kelasi zamondagi va'dalar (masalan, 'qaytaraman') va tasodifiy so'z bo'laklari shikoyat emas.",
+  "rationale - bir jumla, o'zbek tilida.",
+].join("\n");
+
+const RATIONALE_MAX_LENGTH = 200;
+
+/**
+ * Parses the model reply for `ESCALATION_CLASSIFIER_PROMPT`. Tolerates code
+ * fences and surrounding prose; returns undefined when the JSON is missing or
+ * names an unknown category or severity.
+ */
+export function parseEscalationClassification(
+  raw: string | undefined,
+): EscalationClassification | undefined {
+  if (!raw) return undefined;
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) return undefined;
+
+  let parsed: Record<string, unknown>;
+  try {
+    const value: unknown = JSON.parse(raw.slice(start, end + 1));
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return undefined;
+    }
+    parsed = value as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+
+  const category = ESCALATION_CATEGORIES.find(
+    (item) => item === parsed.category,
+  );
+  const severity = ESCALATION_SEVERITIES.find(
+    (item) => item === parsed.severity,
+  );
+  if (!category || !severity) return undefined;
+
+  return {
+    category: severity === "none" ? "none" : category,
+    severity: category === "none" ? "none" : severity,
+    rationale:
+      typeof parsed.rationale === "string"
+        ? parsed.rationale.trim().slice(0, RATIONALE_MAX_LENGTH)
+        : "",
+    source: "ai",
+  };
+}
+
+type EscalationSignal = {
+  category: Exclude<EscalationCategory, "none">;
+  weight: number;
+  /** Matched as whole words, so "sud" does not fire on "sudralib". */
+  words?: string[];
+  /** Matched anywhere in the text (stems, multi-word phrases). */
+  fragments?: string[];
+};
+
+/**
+ * Fallback scorer when no AI provider answers. Weights add up per category;
+ * a single strong signal (fraud, legal threat, swearing) reaches `high` on
+ * its own, weaker ones need company. Lists pass through `normalizeUserText`,
+ * so Cyrillic entries also match their Latin transliteration.
+ */
+export const ESCALATION_SIGNALS: EscalationSignal[] = [
+  {
+    category: "complaint",
+    weight: 2,
+    fragments: ["shikoyat", "шикоят", "жалоб", "nohaq", "ноҳақ"],
+  },
+  {
+    category: "complaint",
+    weight: 1,
+    words: ["muammo", "muammoli", "janjal", "жанжал", "муаммо", "проблема"],
+    fragments: ["javob yo'q", "javob bermayapsiz", "не отвечаете"],
+  },
+  {
+    category: "abuse",
+    weight: 3,
+    words: ["ahmoq", "xayvon", "tentak", "dolboyob", "pidar", "suka", "blya"],
+    fragments: [
+      "haqorat",
+      "ҳақорат",
+      "so'kish",
+      "sharmanda",
+      "ahmoqmisiz",
+      "fuck",
+      "shit",
+      "аҳмоқ",
+      "ҳайвон",
+      "тентак",
+      "шарманда",
+      "оскорб",
+      "дурак",
+      "идиот",
+      "сука",
+      "бля",
+      "хуй",
+      "пизд",
+    ],
+  },
+  {
+    category: "abuse",
+    weight: 3,
+    words: ["uraman", "o'ldiraman"],
+  },
+  {
+    category: "refund",
+    weight: 2,
+    words: [
+      "qaytaring",
+      "qaytarib bering",
+      "qaytarib bermadingiz",
+      "қайтаринг",
+      "қайтариб беринг",
+      "верните",
+      "возврат",
+    ],
+  },
+  {
+    category: "refund",
+    weight: 1,
+    words: ["pulim", "pulimni", "пулим"],
+    fragments: [
+      "to'lov qilganman",
+      "tulov qilganman",
+      "to'lov qilmadim",
+      "tulov qilmadim",
+    ],
+  },
+  {
+    category: "fraud",
+    weight: 3,
+    fragments: [
+      "firib",
+      "фириб",
+      "aldadingiz",
+      "алдадингиз",
+      "обман",
+      "мошенни",
+    ],
+  },
+  {
+    category: "fraud",
+    weight: 1,
+    words: ["yolg'on", "ёлғон"],
+  },
+  {
+    category: "legal_threat",
+    weight: 3,
+    words: ["sud", "sudga", "sudda", "суд", "суда", "судом"],
+    fragments: ["politsiya", "полиция", "полици", "prokur", "прокур"],
+  },
+];
+
+const SEVERITY_THRESHOLDS: [number, EscalationSeverity][] = [
+  [3, "high"],
+  [2, "medium"],
+  [1, "low"],
+];
+
+const SIGNAL_PATTERNS = new Map<EscalationSignal, RegExp>();
+
+function escapeKeyword(keyword: string) {
+  return keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getSignalPattern(signal: EscalationSignal) {
+  const cached = SIGNAL_PATTERNS.get(signal);
+  if (cached) return cached;
+
+  const pattern = new RegExp(
+    [
+      ...(signal.words ?? []).map(
+        (word) =>
+          `(?<![\\p{L}'])${escapeKeyword(normalizeUserText(word))}(?![\\p{L}'])`,
+      ),
+      ...(signal.fragments ?? []).map((fragment) =>
+        escapeKeyword(normalizeUserText(fragment)),
+      ),
+    ].join("|"),
+    "u",
+  );
+  SIGNAL_PATTERNS.set(signal, pattern);
+  return pattern;
+}
+
+export function scoreEscalationKeywords(
+  text: string,
+): EscalationClassification {
+  const normalized = normalizeUserText(text);
+  const scores = new Map<EscalationCategory, number>();
+  for (const signal of ESCALATION_SIGNALS) {
+    if (getSignalPattern(signal).test(normalized)) {
+      scores.set(
+        signal.category,
+        (scores.get(signal.category) ?? 0) + signal.weight,
+      );
+    }
+  }
+
+  let category: EscalationCategory = "none";
+  let best = 0;
+  let total = 0;
+  for (const [candidate, score] of scores) {
+    total += score;
+    if (score > best) {
+      category = candidate;
+      best = score;
+    }
+  }
+
+  const severity =
+    SEVERITY_THRESHOLDS.find(([threshold]) => total >= threshold)?.[1] ??
+    "none";
+  return {
+    category,
+    severity,
+    rationale: scores.size
+      ? `Kalit so'zlar: ${[...scores.keys()].join(", ")} (ball ${total})`
+      : "",
+    source: "keywords",
+  };
+}
+
+export function resolveEscalationAction(
+  severity: EscalationSeverity,
+): EscalationAction {
+  if (severity === "high") return "pause";
+  if (severity === "medium") return "flag";
+  return "none";
+}
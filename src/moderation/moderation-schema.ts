@@ -0,0 +1,28 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+export async function ensureModerationSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "user_moderation_states" (
+      "id" serial PRIMARY KEY,
+      "user_id" text NOT NULL,
+      "ai_paused" boolean NOT NULL DEFAULT false,
+      "blocked" boolean NOT NULL DEFAULT false,
+      "reason" text,
+      "updated_by_admin" text,
+      "paused_until" timestamp,
+      "created_at" timestamp DEFAULT now(),
+      "updated_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "user_moderation_states_user_id_unique" ON "user_moderation_states" ("user_id")`,
+  );
+
+  logger.log("Moderation schema ensured");
+}
@@ -0,0 +1,105 @@
+import { ConfigService } from "@nestjs/config";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "../database/schema";
+import { ModerationService } from "./moderation.service";
+
+describe("ModerationService", () => {
+  function createService(options: {
+    state?: Record<string, unknown>;
+    expiredRows?: Array<{ id: number }>;
+    pauseHours?: string;
+  }) {
+    const configService = {
+      get: jest.fn((key: string) =>
+        key === "ESCALATION_PAUSE_HOURS" ? options.pauseHours : undefined,
+      ),
+    };
+    const insertValues = jest.fn(() => ({
+      onConflictDoUpdate: jest.fn().mockResolvedValue(undefined),
+    }));
+    const db = {
+      execute: jest.fn().mockResolvedValue({ rows: [] }),
+      select: jest.fn(() => ({
+        from: jest.fn(() => ({
+          where: jest.fn(() => ({
+            limit: jest
+              .fn()
+              .mockResolvedValue(options.state ? [options.state] : []),
+          })),
+        })),
+      })),
+      update: jest.fn(() => ({
+        set: jest.fn(() => ({
+          where: jest.fn(() => ({
+            returning: jest.fn().mockResolvedValue(options.expiredRows ?? []),
+          })),
+        })),
+      })),
+      insert: jest.fn(() => ({ values: insertValues })),
+    };
+    return {
+      service: new ModerationService(
+        configService as unknown as ConfigService,
+        db as unknown as NodePgDatabase<typeof schema>,
+      ),
+      db,
+      insertValues,
+    };
+  }
+
+  it("keeps a pause active until its deadline", async () => {
+    const { service, db } = createService({
+      state: {
+        aiPaused: true,
+        blocked: false,
+        pausedUntil: new Date(Date.now() + 60_000),
+      },
+    });
+
+    await expect(service.getAiPauseStatus("777")).resolves.toBe("active");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("clears an expired pause and reports it once", async () => {
+    const { service, db } = createService({
+      state: {
+        aiPaused: true,
+        blocked: false,
+        pausedUntil: new Date(Date.now() - 1_000),
+      },
+      expiredRows: [{ id: 1 }],
+    });
+
+    await expect(service.getAiPauseStatus("777")).resolves.toBe("expired");
+    expect(db.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("never expires a blocked user", async () => {
+    const { service, db } = createService({
+      state: {
+        aiPaused: true,
+        blocked: true,
+        pausedUntil: new Date(Date.now() - 1_000),
+      },
+    });
+
+    await expect(service.isBlocked("777")).resolves.toBe(true);
+    await expect(service.getAiPauseStatus("777")).resolves.toBe("active");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("stores an open-ended pause when the TTL is disabled", async () => {
+    const { service, insertValues } = createService({ pauseHours: "0" });
+
+    await service.pauseAi("777", { reason: "ai_escalation" });
+
+    expect(insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "777",
+        aiPaused: true,
+        reason: "ai_escalation",
+        pausedUntil: null,
+      }),
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, eq, lte } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { userModerationStates } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { ensureModerationSchema } from "./moderation-schema";
+
+export type AiPauseStatus = "active" | "expired" | "none";
+
+type ModerationStateValues = Partial<
+  Pick<
+    typeof userModerationStates.$inferInsert,
+    "aiPaused" | "blocked" | "reason" | "updatedByAdmin" | "pausedUntil"
+  >
+>;
+
+const DEFAULT_ESCALATION_PAUSE_HOURS = 24;
+
+@Injectable()
+export class ModerationService {
+  private readonly logger = new Logger(ModerationService.name);
+  private readonly escalationPauseMs: number;
+  private schemaChecked = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
+  ) {
+    this.escalationPauseMs = this.resolveEscalationPauseMs();
+  }
+
+  async isBlocked(userId: string) {
+    const state = await this.getState(userId);
+    return Boolean(state?.blocked);
+  }
+
+  /**
+   * Returns "expired" exactly once for a timed pause that ran out; the row is
+   * cleared in the same call so the caller can restore the user's flow.
+   */
+  async getAiPauseStatus(userId: string): Promise<AiPauseStatus> {
+    const state = await this.getState(userId);
+    if (!state || (!state.aiPaused && !state.blocked)) return "none";
+    if (state.blocked) return "active";
+
+    const now = nowInUzbekistan();
+    if (!state.pausedUntil || state.pausedUntil > now) return "active";
+
+    const expired = await this.db
+      .update(userModerationStates)
+      .set({
+        aiPaused: false,
+        pausedUntil: null,
+        reason: null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(userModerationStates.userId, userId),
+          eq(userModerationStates.aiPaused, true),
+          eq(userModerationStates.blocked, false),
+          lte(userModerationStates.pausedUntil, now),
+        ),
+      )
+      .returning({ id: userModerationStates.id });
+
+    if (!expired.length) return "none";
+
+    this.logTelemetry("moderation.pause_expired", { userId });
+    return "expired";
+  }
+
+  async pauseAi(
+    userId: string,
+    params: { reason: string; adminId?: string; durationMs?: number },
+  ) {
+    const durationMs = params.durationMs ?? this.escalationPauseMs;
+    const pausedUntil =
+      durationMs > 0
+        ? new Date(nowInUzbekistan().getTime() + durationMs)
+        : null;
+
+    await this.upsertState(userId, {
+      aiPaused: true,
+      reason: params.reason,
+      updatedByAdmin: params.adminId ?? null,
+      pausedUntil,
+    });
+    this.logTelemetry("moderation.pause", {
+      userId,
+      reason: params.reason,
+      adminId: params.adminId,
+      pausedUntil: pausedUntil?.toISOString() ?? null,
+    });
+  }
+
+  async block(userId: string, params: { reason: string; adminId?: string }) {
+    await this.upsertState(userId, {
+      aiPaused: true,
+      blocked: true,
+      reason: params.reason,
+      updatedByAdmin: params.adminId ?? null,
+      pausedUntil: null,
+    });
+    this.logTelemetry("moderation.block", {
+      userId,
+      reason: params.reason,
+      adminId: params.adminId,
+    });
+  }
+
+  async clear(userId: string, params: { adminId?: string } = {}) {
+    await this.upsertState(userId, {
+      aiPaused: false,
+      blocked: false,
+      reason: null,
+      updatedByAdmin: params.adminId ?? null,
+      pausedUntil: null,
+    });
+    this.logTelemetry("moderation.clear", {
+      userId,
+      adminId: params.adminId,
+    });
+  }
+
+  private async getState(userId: string) {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(userModerationStates)
+      .where(eq(userModerationStates.userId, userId))
+      .limit(1);
+    return rows[0];
+  }
+
+  private async upsertState(userId: string, values: ModerationStateValues) {
+    await this.ensureSchema();
+    const now = nowInUzbekistan();
+    await this.db
+      .insert(userModerationStates)
+      .values({ userId, ...values, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: userModerationStates.userId,
+        set: { ...values, updatedAt: now },
+      });
+  }
+
+  private resolveEscalationPauseMs() {
+    const raw = this.configService.get<string>("ESCALATION_PAUSE_HOURS");
+    const hours = raw === undefined || raw === "" ? NaN : Number(raw);
+    const resolved =
+      Number.isFinite(hours) && hours >= 0
+        ? hours
+        : DEFAULT_ESCALATION_PAUSE_HOURS;
+    return resolved * 60 * 60 * 1000;
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensureModerationSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn(
+        "Failed to ensure user_moderation_states schema",
+        error as Error,
+      );
+      throw error;
+    }
+  }
+}
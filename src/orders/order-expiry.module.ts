@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { SettingsModule } from "../settings/settings.module";
+import { TelegramModule } from "../telegram/telegram.module";
+import { OrderExpiryService } from "./order-expiry.service";
+
+@Module({
+  imports: [SettingsModule, TelegramModule],
+  providers: [OrderExpiryService],
+})
+export class OrderExpiryModule {}
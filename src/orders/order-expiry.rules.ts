@@ -0,0 +1,61 @@
+import { OrderStatus } from "./order-state-machine";
+
+/** Statuses where the next step is on the user, so the order can go stale. */
+export const STALE_ORDER_STATUSES: OrderStatus[] = [
+  "awaiting_gender",
+  "awaiting_payment",
+  "awaiting_check",
+  "awaiting_content",
+];
+
+export const ORDER_EXPIRED_REASON = "expired";
+
+export type StaleOrderAction = "remind" | "expire";
+
+export type AbandonedFunnelRow = {
+  orderType: string;
+  fromStatus: string | null;
+  total: number;
+};
+
+/**
+ * Staleness is measured from the last status change (`updatedAt`). A reminder
+ * sent before that change belongs to an earlier step and does not count.
+ */
+export function resolveStaleOrderAction(
+  order: { updatedAt: Date | null; reminderSentAt?: string },
+  params: { reminderMinutes: number; expiryMinutes: number; now: Date },
+): StaleOrderAction | null {
+  if (!order.updatedAt) return null;
+  const ageMs = params.now.getTime() - order.updatedAt.getTime();
+
+  if (ageMs >= params.expiryMinutes * 60_000) return "expire";
+  if (ageMs < params.reminderMinutes * 60_000) return null;
+
+  const reminderSentAt = order.reminderSentAt
+    ? new Date(order.reminderSentAt)
+    : undefined;
+  if (
+    reminderSentAt &&
+    !Number.isNaN(reminderSentAt.getTime()) &&
+    reminderSentAt >= order.updatedAt
+  ) {
+    return null;
+  }
+  return "remind";
+}
+
+/** Groups expired orders by type and by the status they were abandoned in. */
+export function summarizeAbandonedFunnel(rows: AbandonedFunnelRow[]) {
+  const report: Record<
+    string,
+    { total: number; byStatus: Record<string, number> }
+  > = {};
+  for (const row of rows) {
+    const entry = (report[row.orderType] ??= { total: 0, byStatus: {} });
+    const status = row.fromStatus ?? "unknown";
+    entry.total += row.total;
+    entry.byStatus[status] = (entry.byStatus[status] ?? 0) + row.total;
+  }
+  return report;
+}
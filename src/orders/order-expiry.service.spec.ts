@@ -0,0 +1,124 @@
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "../database/schema";
+import { SettingsService } from "../settings/settings.service";
+import { TelegramService } from "../telegram/telegram.service";
+import { OrderExpiryService } from "./order-expiry.service";
+import { resolveStaleOrderAction } from "./order-expiry.rules";
+
+jest.mock("../common/time", () => ({
+  nowInUzbekistan: () => new Date("2026-03-02T12:00:00Z"),
+}));
+
+describe("OrderExpiryService", () => {
+  const settings = {
+    orderReminderMinutes: 60,
+    orderExpiryMinutes: 24 * 60,
+    orderReminderText: "Davom ettiramizmi?",
+    orderExpiryText: "Bekor qilindi.",
+  };
+
+  function createService(staleOrders: Array<Record<string, unknown>>) {
+    const settingsService = {
+      getSettings: jest.fn().mockResolvedValue(settings),
+    };
+    const telegramService = {
+      expireOrder: jest.fn().mockResolvedValue({ id: 1 }),
+      sendAdminResponse: jest.fn().mockResolvedValue(undefined),
+    };
+    const set = jest.fn(() => ({
+      where: jest.fn(() => ({
+        returning: jest.fn().mockResolvedValue([{ id: 2 }]),
+      })),
+    }));
+    const db = {
+      select: jest.fn(() => ({
+        from: jest.fn(() => ({
+          where: jest.fn(() => ({
+            orderBy: jest.fn(() => ({
+              limit: jest.fn().mockResolvedValue(staleOrders),
+            })),
+          })),
+        })),
+      })),
+      update: jest.fn(() => ({ set })),
+    };
+    return {
+      service: new OrderExpiryService(
+        settingsService as unknown as SettingsService,
+        telegramService as unknown as TelegramService,
+        db as unknown as NodePgDatabase<typeof schema>,
+      ),
+      telegramService,
+      set,
+    };
+  }
+
+  it("cancels expired orders and reminds stale ones once", async () => {
+    const { service, telegramService, set } = createService([
+      {
+        id: 1,
+        orderType: "contact",
+        status: "awaiting_payment",
+        userId: "111",
+        updatedAt: new Date("2026-03-01T06:00:00Z"),
+        meta: null,
+      },
+      {
+        id: 2,
+        orderType: "ad",
+        status: "awaiting_content",
+        userId: "222",
+        updatedAt: new Date("2026-03-02T10:00:00Z"),
+        meta: null,
+      },
+      {
+        id: 3,
+        orderType: "ad",
+        status: "awaiting_check",
+        userId: "333",
+        updatedAt: new Date("2026-03-02T09:00:00Z"),
+        meta: JSON.stringify({ reminderSentAt: "2026-03-02T10:30:00.000Z" }),
+      },
+    ]);
+
+    await expect(service.processStaleOrders()).resolves.toEqual({
+      contact: { reminded: 0, cancelled: 1 },
+      ad: { reminded: 1, cancelled: 0 },
+    });
+    expect(telegramService.expireOrder).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({
+        from: ["awaiting_payment"],
+        reason: "expired",
+      }),
+    );
+    expect(telegramService.sendAdminResponse).toHaveBeenCalledWith(
+      "111",
+      "Bekor qilindi.",
+    );
+    expect(set).toHaveBeenCalledWith({
+      meta: JSON.stringify({ reminderSentAt: "2026-03-02T12:00:00.000Z" }),
+    });
+    expect(telegramService.sendAdminResponse).toHaveBeenCalledWith(
+      "222",
+      "Davom ettiramizmi?",
+    );
+    expect(telegramService.sendAdminResponse).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends a new reminder after the order moved to another step", () => {
+    expect(
+      resolveStaleOrderAction(
+        {
+          updatedAt: new Date("2026-03-02T10:00:00Z"),
+          reminderSentAt: "2026-03-01T10:00:00.000Z",
+        },
+        {
+          reminderMinutes: 60,
+          expiryMinutes: 1440,
+          now: new Date("2026-03-02T12:00:00Z"),
+        },
+      ),
+    ).toBe("remind");
+  });
+});
@@ -0,0 +1,124 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, asc, eq, inArray, lte } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { orders } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { parseOrderMeta } from "../common/order-meta";
+import { SettingsService } from "../settings/settings.service";
+import { TelegramService } from "../telegram/telegram.service";
+import { OrderStatus } from "./order-state-machine";
+import {
+  ORDER_EXPIRED_REASON,
+  resolveStaleOrderAction,
+  STALE_ORDER_STATUSES,
+} from "./order-expiry.rules";
+
+const STALE_ORDER_BATCH_SIZE = 200;
+
+@Injectable()
+export class OrderExpiryService {
+  private readonly logger = new Logger(OrderExpiryService.name);
+  private running = false;
+
+  constructor(
+    private readonly settingsService: SettingsService,
+    private readonly telegramService: TelegramService,
+    @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleOrderExpiryCron() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.processStaleOrders();
+    } catch (error) {
+      this.logger.warn("Order expiry run failed", error as Error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async processStaleOrders() {
+    const settings = await this.settingsService.getSettings();
+    const now = nowInUzbekistan();
+    const staleBefore = new Date(
+      now.getTime() -
+        Math.min(settings.orderReminderMinutes, settings.orderExpiryMinutes) *
+          60_000,
+    );
+
+    const staleOrders = await this.db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          inArray(orders.status, STALE_ORDER_STATUSES),
+          lte(orders.updatedAt, staleBefore),
+        ),
+      )
+      .orderBy(asc(orders.updatedAt))
+      .limit(STALE_ORDER_BATCH_SIZE);
+
+    const report: Record<string, { reminded: number; cancelled: number }> = {};
+    for (const order of staleOrders) {
+      const meta = parseOrderMeta(order.meta);
+      const action = resolveStaleOrderAction(
+        { updatedAt: order.updatedAt, reminderSentAt: meta.reminderSentAt },
+        {
+          reminderMinutes: settings.orderReminderMinutes,
+          expiryMinutes: settings.orderExpiryMinutes,
+          now,
+        },
+      );
+      if (!action) continue;
+
+      const entry = (report[order.orderType] ??= { reminded: 0, cancelled: 0 });
+      if (action === "expire") {
+        const cancelled = await this.telegramService.expireOrder(order.id, {
+          actor: "system",
+          from: [order.status as OrderStatus],
+          reason: ORDER_EXPIRED_REASON,
+        });
+        if (!cancelled) continue;
+        entry.cancelled += 1;
+        await this.telegramService.sendAdminResponse(
+          order.userId,
+          settings.orderExpiryText,
+        );
+        continue;
+      }
+
+      const reminded = await this.db
+        .update(orders)
+        .set({
+          meta: JSON.stringify({ ...meta, reminderSentAt: now.toISOString() }),
+        })
+        .where(and(eq(orders.id, order.id), eq(orders.status, order.status)))
+        .returning({ id: orders.id });
+      if (!reminded.length) continue;
+      entry.reminded += 1;
+      await this.telegramService.sendAdminResponse(
+        order.userId,
+        settings.orderReminderText,
+      );
+    }
+
+    if (Object.keys(report).length) {
+      this.logTelemetry("order.expiry_run", { orderTypes: report });
+    }
+    return report;
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  describeOrderStatus,
+  describeOrderType,
+  parseOrderChoice,
+  selectOrderForStep,
+  selectReceiptOrder,
+} from "./order-selection";
+
+describe("order selection", () => {
+  const contact = { id: 1, orderType: "contact", status: "awaiting_payment" };
+  const vip = { id: 2, orderType: "vip", status: "awaiting_check" };
+  const ad = { id: 3, orderType: "ad", status: "awaiting_content" };
+
+  it("picks the only payable order for a receipt", () => {
+    expect(selectReceiptOrder([ad, contact])).toEqual({
+      kind: "single",
+      order: contact,
+    });
+    expect(selectReceiptOrder([ad])).toEqual({ kind: "none" });
+  });
+
+  it("prefers the order the user confirmed paying for", () => {
+    expect(selectReceiptOrder([contact, vip])).toEqual({
+      kind: "single",
+      order: vip,
+    });
+  });
+
+  it("reports ambiguity when several orders are equally likely", () => {
+    const secondVip = { ...vip, id: 4 };
+    expect(selectReceiptOrder([contact, vip, secondVip])).toEqual({
+      kind: "ambiguous",
+      orders: [vip, secondVip],
+    });
+  });
+
+  it("selects the order driving the current step", () => {
+    expect(selectOrderForStep([contact, ad], "awaiting_candidate_media")).toBe(
+      ad,
+    );
+    expect(selectOrderForStep([contact, ad], "idle")).toBe(contact);
+    expect(selectOrderForStep([], "idle")).toBeUndefined();
+  });
+
+  it("parses numbered replies within range", () => {
+    expect(parseOrderChoice("2", 3)).toBe(1);
+    expect(parseOrderChoice(" 1-chi ", 2)).toBe(0);
+    expect(parseOrderChoice("3)", 3)).toBe(2);
+    expect(parseOrderChoice("4", 3)).toBeUndefined();
+    expect(parseOrderChoice("0", 3)).toBeUndefined();
+    expect(parseOrderChoice("kontakt", 3)).toBeUndefined();
+  });
+
+  it("describes orders in Uzbek", () => {
+    expect(describeOrderType({ orderType: "contact", adId: 12 })).toBe(
+      "Kontakt (anketa #12)",
+    );
+    expect(describeOrderType({ orderType: "vip" })).toBe("VIP obuna");
+    expect(describeOrderStatus("payment_submitted")).toBe(
+      "chek tekshirilmoqda",
+    );
+    expect(describeOrderStatus("unknown")).toBe("unknown");
+    expect(describeOrderType({ orderType: "ad" }, "uz-Cyrl")).toBe("Эълон");
+    expect(describeOrderStatus("awaiting_check", "ru")).toBe("ждём оплату");
+  });
+});
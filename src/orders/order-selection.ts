@@ -0,0 +1,95 @@
+import {
+  OrderStatus,
+  PAYABLE_ORDER_STATUSES,
+  resolveOrderUserStep,
+} from "./order-state-machine";
+import { DEFAULT_LOCALE, Locale } from "../i18n/locale";
+import { MessageKey, translate } from "../i18n/messages";
+
+type SelectableOrder = {
+  id: number;
+  orderType: string;
+  status: string;
+};
+
+export type ReceiptOrderSelection<T extends SelectableOrder> =
+  | { kind: "none" }
+  | { kind: "single"; order: T }
+  | { kind: "ambiguous"; orders: T[] };
+
+const ORDER_STATUS_LABELS: Partial<Record<OrderStatus, MessageKey>> = {
+  awaiting_gender: "order.status_awaiting_gender",
+  awaiting_payment: "order.status_awaiting_payment",
+  awaiting_check: "order.status_awaiting_check",
+  payment_submitted: "order.status_payment_submitted",
+  paid: "order.status_paid",
+  awaiting_content: "order.status_awaiting_content",
+  ready_to_publish: "order.status_ready_to_publish",
+};
+
+/**
+ * Picks the order a payment receipt belongs to. Orders the user already
+ * confirmed (`awaiting_check`) win over the rest; several equally likely
+ * orders are returned as ambiguous so the user can choose.
+ */
+export function selectReceiptOrder<T extends SelectableOrder>(
+  openOrders: T[],
+): ReceiptOrderSelection<T> {
+  const payable = openOrders.filter((order) =>
+    PAYABLE_ORDER_STATUSES.includes(order.status as OrderStatus),
+  );
+  if (!payable.length) return { kind: "none" };
+  if (payable.length === 1) return { kind: "single", order: payable[0] };
+
+  const confirmed = payable.filter(
+    (order) => order.status === "awaiting_check",
+  );
+  if (confirmed.length === 1) return { kind: "single", order: confirmed[0] };
+  return { kind: "ambiguous", orders: confirmed.length ? confirmed : payable };
+}
+
+/** Open order whose flow step matches `step`, falling back to the newest. */
+export function selectOrderForStep<T extends SelectableOrder>(
+  openOrders: T[],
+  step: string,
+) {
+  return (
+    openOrders.find(
+      (order) => resolveOrderUserStep(order.orderType, order.status) === step,
+    ) ?? openOrders[0]
+  );
+}
+
+/** Parses a "1", "2-chi" style reply to a numbered order list. */
+export function parseOrderChoice(text: string, optionCount: number) {
+  const match = text.trim().match(/^(\d{1,2})(?:\s*-?\s*(?:chi|si))?[.)]?$/i);
+  if (!match) return undefined;
+  const index = Number(match[1]) - 1;
+  return index >= 0 && index < optionCount ? index : undefined;
+}
+
+export function describeOrderType(
+  order: { orderType: string; adId?: number | null },
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  switch (order.orderType) {
+    case "contact":
+      return order.adId
+        ? translate(locale, "order.type_contact_ad", { adId: order.adId })
+        : translate(locale, "order.type_contact");
+    case "vip":
+      return translate(locale, "order.type_vip");
+    case "ad":
+      return translate(locale, "order.type_ad");
+    default:
+      return order.orderType;
+  }
+}
+
+export function describeOrderStatus(
+  status: string,
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  const key = ORDER_STATUS_LABELS[status as OrderStatus];
+  return key ? translate(locale, key) : status;
+}
@@ -0,0 +1,64 @@
+import {
+  assertInitialOrderStatus,
+  assertOrderTransition,
+  canTransitionOrder,
+  IllegalOrderTransitionError,
+  resolveOrderUserStep,
+} from "./order-state-machine";
+
+describe("order state machine", () => {
+  it("allows the regular payment path for each order type", () => {
+    expect(
+      canTransitionOrder("contact", "awaiting_payment", "awaiting_check"),
+    ).toBe(true);
+    expect(
+      canTransitionOrder("contact", "payment_submitted", "completed"),
+    ).toBe(true);
+    expect(canTransitionOrder("vip", "paid", "completed")).toBe(true);
+    expect(
+      canTransitionOrder("ad", "payment_submitted", "awaiting_content"),
+    ).toBe(true);
+    expect(canTransitionOrder("ad", "ready_to_publish", "completed")).toBe(
+      true,
+    );
+  });
+
+  it("rejects illegal transitions", () => {
+    expect(canTransitionOrder("contact", "cancelled", "awaiting_payment")).toBe(
+      false,
+    );
+    expect(canTransitionOrder("vip", "completed", "refund_requested")).toBe(
+      false,
+    );
+    expect(
+      canTransitionOrder("ad", "awaiting_payment", "ready_to_publish"),
+    ).toBe(false);
+    expect(canTransitionOrder("unknown", "awaiting_payment", "cancelled")).toBe(
+      false,
+    );
+    expect(() =>
+      assertOrderTransition("contact", "completed", "awaiting_content"),
+    ).toThrow(IllegalOrderTransitionError);
+    expect(() => assertInitialOrderStatus("vip", "completed")).toThrow(
+      IllegalOrderTransitionError,
+    );
+  });
+
+  it("treats re-applying the current status as a no-op transition", () => {
+    expect(
+      canTransitionOrder("ad", "awaiting_content", "awaiting_content"),
+    ).toBe(true);
+  });
+
+  it("derives the user step from the order status", () => {
+    expect(resolveOrderUserStep("contact", "awaiting_payment")).toBe(
+      "awaiting_payment_confirmation",
+    );
+    expect(resolveOrderUserStep("ad", "awaiting_content")).toBe(
+      "awaiting_candidate_media",
+    );
+    expect(resolveOrderUserStep("contact", "awaiting_content")).toBe("idle");
+    expect(resolveOrderUserStep("contact", "refund_requested")).toBe("idle");
+    expect(resolveOrderUserStep(undefined, undefined)).toBe("idle");
+  });
+});
@@ -0,0 +1,187 @@
+export type OrderType = "contact" | "vip" | "ad";
+
+export type OrderStatus =
+  | "awaiting_gender"
+  | "awaiting_payment"
+  | "awaiting_check"
+  | "payment_submitted"
+  | "paid"
+  | "awaiting_content"
+  | "ready_to_publish"
+  | "completed"
+  | "cancelled"
+  | "failed"
+  | "refund_requested"
+  | "refunded";
+
+export type OrderEventActor = "user" | "admin" | "provider" | "system";
+
+/** User-facing flow step implied by an order status (see `UserCurrentStep`). */
+export type OrderUserStep =
+  | "idle"
+  | "awaiting_gender"
+  | "awaiting_payment_confirmation"
+  | "awaiting_payment_receipt"
+  | "payment_receipt_submitted"
+  | "awaiting_candidate_media"
+  | "awaiting_publish_review";
+
+export const PAYABLE_ORDER_STATUSES: OrderStatus[] = [
+  "awaiting_payment",
+  "awaiting_check",
+  "payment_submitted",
+];
+
+export const OPEN_ORDER_STATUSES: OrderStatus[] = [
+  ...PAYABLE_ORDER_STATUSES,
+  "awaiting_gender",
+  "awaiting_content",
+  "ready_to_publish",
+];
+
+type TransitionTable = Partial<Record<OrderStatus, OrderStatus[]>>;
+
+const PAID_ORDER_TRANSITIONS: TransitionTable = {
+  awaiting_payment: [
+    "awaiting_check",
+    "paid",
+    "completed",
+    "failed",
+    "cancelled",
+  ],
+  awaiting_check: [
+    "awaiting_payment",
+    "payment_submitted",
+    "paid",
+    "completed",
+    "failed",
+    "cancelled",
+  ],
+  payment_submitted: [
+    "awaiting_payment",
+    "paid",
+    "completed",
+    "failed",
+    "cancelled",
+  ],
+  paid: ["completed", "failed"],
+};
+
+const AD_PAYMENT_OUTCOMES: OrderStatus[] = [
+  "paid",
+  "awaiting_content",
+  "awaiting_gender",
+  "cancelled",
+];
+
+const ORDER_TRANSITIONS: Record<OrderType, TransitionTable> = {
+  contact: {
+    ...PAID_ORDER_TRANSITIONS,
+    completed: ["refund_requested"],
+    refund_requested: ["refunded", "completed"],
+  },
+  vip: PAID_ORDER_TRANSITIONS,
+  ad: {
+    awaiting_gender: ["awaiting_payment", "awaiting_content", "cancelled"],
+    awaiting_payment: ["awaiting_check", ...AD_PAYMENT_OUTCOMES],
+    awaiting_check: [
+      "awaiting_payment",
+      "payment_submitted",
+      ...AD_PAYMENT_OUTCOMES,
+    ],
+    payment_submitted: ["awaiting_payment", ...AD_PAYMENT_OUTCOMES],
+    paid: ["awaiting_content", "awaiting_gender", "failed"],
+    awaiting_content: [
+      "ready_to_publish",
+      "awaiting_gender",
+      "completed",
+      "cancelled",
+    ],
+    ready_to_publish: ["awaiting_content", "completed", "cancelled"],
+  },
+};
+
+const INITIAL_ORDER_STATUSES: Record<OrderType, OrderStatus[]> = {
+  contact: ["awaiting_payment"],
+  vip: ["awaiting_payment"],
+  ad: ["awaiting_gender", "awaiting_payment", "awaiting_content"],
+};
+
+const ORDER_STATUS_STEPS: Partial<Record<OrderStatus, OrderUserStep>> = {
+  awaiting_gender: "awaiting_gender",
+  awaiting_payment: "awaiting_payment_confirmation",
+  awaiting_check: "awaiting_payment_receipt",
+  payment_submitted: "payment_receipt_submitted",
+  paid: "payment_receipt_submitted",
+};
+
+const AD_ORDER_STATUS_STEPS: Partial<Record<OrderStatus, OrderUserStep>> = {
+  awaiting_content: "awaiting_candidate_media",
+  ready_to_publish: "awaiting_publish_review",
+};
+
+export class IllegalOrderTransitionError extends Error {
+  constructor(
+    readonly orderType: string,
+    readonly fromStatus: string | null,
+    readonly toStatus: string,
+  ) {
+    super(
+      `Illegal ${orderType} order transition: ${fromStatus ?? "(new)"} -> ${toStatus}`,
+    );
+    this.name = "IllegalOrderTransitionError";
+  }
+}
+
+export function isOrderType(value: string): value is OrderType {
+  return value in ORDER_TRANSITIONS;
+}
+
+/** Re-applying the current status is allowed and treated as a no-op. */
+export function canTransitionOrder(
+  orderType: string,
+  fromStatus: string,
+  toStatus: OrderStatus,
+) {
+  if (!isOrderType(orderType)) return false;
+  if (fromStatus === toStatus) return true;
+  return (
+    ORDER_TRANSITIONS[orderType][fromStatus as OrderStatus]?.includes(
+      toStatus,
+    ) ?? false
+  );
+}
+
+export function assertOrderTransition(
+  orderType: string,
+  fromStatus: string,
+  toStatus: OrderStatus,
+) {
+  if (!canTransitionOrder(orderType, fromStatus, toStatus)) {
+    throw new IllegalOrderTransitionError(orderType, fromStatus, toStatus);
+  }
+}
+
+export function assertInitialOrderStatus(
+  orderType: string,
+  status: OrderStatus,
+) {
+  if (
+    !isOrderType(orderType) ||
+    !INITIAL_ORDER_STATUSES[orderType].includes(status)
+  ) {
+    throw new IllegalOrderTransitionError(orderType, null, status);
+  }
+}
+
+export function resolveOrderUserStep(
+  orderType?: string,
+  orderStatus?: string,
+): OrderUserStep {
+  if (!orderStatus) return "idle";
+  const status = orderStatus as OrderStatus;
+  if (orderType === "ad" && AD_ORDER_STATUS_STEPS[status]) {
+    return AD_ORDER_STATUS_STEPS[status];
+  }
+  return ORDER_STATUS_STEPS[status] ?? "idle";
+}
@@ -0,0 +1,26 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+export async function ensureOrdersSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "order_events" (
+      "id" serial PRIMARY KEY,
+      "order_id" integer NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+      "from_status" text,
+      "to_status" text NOT NULL,
+      "actor" text NOT NULL,
+      "reason" text,
+      "created_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "order_events_order_idx" ON "order_events" ("order_id")`,
+  );
+
+  logger.log("Orders schema ensured");
+}
@@ -0,0 +1,44 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { nowInUzbekistan } from "../common/time";
+import { OrdersService } from "./orders.service";
+import { AdminRoles } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
+
+const DEFAULT_FUNNEL_DAYS = 7;
+const MAX_FUNNEL_DAYS = 365;
+
+@Controller("orders")
+@UseGuards(AdminAuthGuard)
+export class OrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  @Get("abandoned")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async getAbandonedFunnel(@Query("days") days?: string) {
+    const periodDays = days === undefined ? DEFAULT_FUNNEL_DAYS : Number(days);
+    if (
+      !Number.isInteger(periodDays) ||
+      periodDays <= 0 ||
+      periodDays > MAX_FUNNEL_DAYS
+    ) {
+      throw new BadRequestException(
+        `days must be an integer between 1 and ${MAX_FUNNEL_DAYS}`,
+      );
+    }
+
+    const since = new Date(
+      nowInUzbekistan().getTime() - periodDays * 24 * 60 * 60 * 1000,
+    );
+    return {
+      days: periodDays,
+      orderTypes: await this.ordersService.getAbandonedFunnel(since),
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { OrdersController } from "./orders.controller";
+import { OrdersService } from "./orders.service";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
+
+@Module({
+  imports: [ConfigModule, AdminAuthModule],
+  providers: [OrdersService],
+  controllers: [OrdersController],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
@@ -0,0 +1,196 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, asc, count, eq, gte } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { orderEvents, orders } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { ensureOrdersSchema } from "./orders-schema";
+import {
+  ORDER_EXPIRED_REASON,
+  summarizeAbandonedFunnel,
+} from "./order-expiry.rules";
+import {
+  assertInitialOrderStatus,
+  assertOrderTransition,
+  OrderEventActor,
+  OrderStatus,
+} from "./order-state-machine";
+
+export type OrderTransitionOptions = {
+  actor: OrderEventActor;
+  reason?: string;
+  /** Only transition when the order is currently in one of these statuses. */
+  from?: OrderStatus[];
+  /** Extra columns written together with the status. */
+  set?: Partial<Pick<typeof orders.$inferInsert, "amount" | "meta">>;
+};
+
+@Injectable()
+export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+  private schemaChecked = false;
+
+  constructor(@Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>) {}
+
+  async create(params: {
+    orderType: string;
+    status: OrderStatus;
+    sessionId?: number;
+    userId: string;
+    amount: number;
+    adId?: number;
+    meta?: Record<string, unknown>;
+    actor: OrderEventActor;
+  }) {
+    assertInitialOrderStatus(params.orderType, params.status);
+    await this.ensureSchema();
+
+    const inserted = await this.db
+      .insert(orders)
+      .values({
+        orderType: params.orderType,
+        status: params.status,
+        sessionId: params.sessionId,
+        userId: params.userId,
+        amount: params.amount,
+        adId: params.adId,
+        meta: params.meta ? JSON.stringify(params.meta) : undefined,
+        createdAt: nowInUzbekistan(),
+        updatedAt: nowInUzbekistan(),
+      })
+      .returning();
+
+    const order = inserted[0];
+    if (order) {
+      await this.recordEvent({
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: params.status,
+        actor: params.actor,
+      });
+    }
+    return order;
+  }
+
+  /**
+   * Moves an order to `toStatus` if the order type allows it. Returns the
+   * updated order, or undefined when the order is missing, not in `from`, or
+   * was changed concurrently. Throws `IllegalOrderTransitionError` otherwise.
+   */
+  async transition(
+    orderId: number,
+    toStatus: OrderStatus,
+    options: OrderTransitionOptions,
+  ) {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId))
+      .limit(1);
+    const order = rows[0];
+    if (!order) return undefined;
+    if (options.from && !options.from.includes(order.status as OrderStatus)) {
+      return undefined;
+    }
+
+    assertOrderTransition(order.orderType, order.status, toStatus);
+
+    const updated = await this.db
+      .update(orders)
+      .set({
+        ...options.set,
+        status: toStatus,
+        updatedAt: nowInUzbekistan(),
+      })
+      .where(and(eq(orders.id, order.id), eq(orders.status, order.status)))
+      .returning();
+    if (!updated.length) return undefined;
+
+    if (order.status !== toStatus) {
+      await this.recordEvent({
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus,
+        actor: options.actor,
+        reason: options.reason,
+      });
+    }
+    return updated[0];
+  }
+
+  async listEvents(orderId: number) {
+    await this.ensureSchema();
+    return this.db
+      .select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.id));
+  }
+
+  /** Orders auto-cancelled by the expiry job since `since`, per type and step. */
+  async getAbandonedFunnel(since: Date) {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select({
+        orderType: orders.orderType,
+        fromStatus: orderEvents.fromStatus,
+        total: count(),
+      })
+      .from(orderEvents)
+      .innerJoin(orders, eq(orders.id, orderEvents.orderId))
+      .where(
+        and(
+          eq(orderEvents.toStatus, "cancelled"),
+          eq(orderEvents.reason, ORDER_EXPIRED_REASON),
+          gte(orderEvents.createdAt, since),
+        ),
+      )
+      .groupBy(orders.orderType, orderEvents.fromStatus);
+
+    return summarizeAbandonedFunnel(
+      rows.map((row) => ({ ...row, total: Number(row.total) })),
+    );
+  }
+
+  private async recordEvent(params: {
+    orderId: number;
+    fromStatus: string | null;
+    toStatus: OrderStatus;
+    actor: OrderEventActor;
+    reason?: string;
+  }) {
+    await this.db.insert(orderEvents).values({
+      orderId: params.orderId,
+      fromStatus: params.fromStatus,
+      toStatus: params.toStatus,
+      actor: params.actor,
+      reason: params.reason ?? null,
+      createdAt: nowInUzbekistan(),
+    });
+
+    this.logTelemetry("order.transition", params);
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensureOrdersSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn("Failed to ensure order_events schema", error as Error);
+      throw error;
+    }
+  }
+}
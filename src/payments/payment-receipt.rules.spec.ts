@@ -0,0 +1,84 @@
+import {
+  buildReceiptAdminLines,
+  evaluateReceipt,
+  parseReceiptExtraction,
+} from "./payment-receipt.rules";
+
+describe("payment receipt rules", () => {
+  const extraction = {
+    isReceipt: true,
+    amount: 99_000,
+    paidAt: "2026-03-01 10:15",
+    cardMask: "**** 4455",
+    transactionId: "TX-1",
+    modelConfidence: 0.9,
+  };
+
+  it("parses fenced model JSON and masks the card number", () => {
+    expect(
+      parseReceiptExtraction(
+        '```json\n{"isReceipt": true, "amount": "99 000", "date": "2026-03-01 10:15", "cardNumber": "8600 12** **** 4455", "transactionId": "TX-1", "confidence": 0.9}\n```',
+      ),
+    ).toEqual(extraction);
+    expect(parseReceiptExtraction("chek emas")).toBeUndefined();
+  });
+
+  it("rates a matching receipt as high confidence", () => {
+    expect(
+      evaluateReceipt(extraction, {
+        orderAmount: 99_000,
+        cardNumber: "8600 1234 5678 4455",
+        duplicates: [],
+      }),
+    ).toEqual({
+      confidence: "high",
+      warnings: [],
+      amountMatches: true,
+      cardMatches: true,
+      duplicates: [],
+    });
+  });
+
+  it("flags amount, card and duplicate mismatches", () => {
+    const check = evaluateReceipt(
+      { ...extraction, amount: 90_000, cardMask: "**** 1111" },
+      {
+        orderAmount: 99_000,
+        cardNumber: "8600 1234 5678 4455",
+        duplicates: [{ userId: "888", orderId: 12 }],
+      },
+    );
+
+    expect(check.confidence).toBe("low");
+    expect(check.warnings).toEqual([
+      "amount_mismatch",
+      "card_mismatch",
+      "duplicate_receipt",
+    ]);
+    expect(
+      buildReceiptAdminLines(
+        { ...check, ...extraction, amount: 90_000, cardMask: "**** 1111" },
+        99_000,
+      ),
+    ).toEqual([
+      "receipt: LOW confidence",
+      "receipt amount: 90000",
+      "receipt date: 2026-03-01 10:15",
+      "receipt card: **** 1111",
+      "receipt tx: TX-1",
+      "! amount mismatch: receipt 90000, order 99000",
+      "! card mismatch: receipt **** 1111",
+      "! duplicate receipt: user 888 order #12",
+    ]);
+  });
+
+  it("marks unreadable extractions as low confidence", () => {
+    expect(
+      evaluateReceipt(undefined, {
+        orderAmount: 99_000,
+        cardNumber: undefined,
+        duplicates: [],
+      }).warnings,
+    ).toEqual(["unreadable"]);
+  });
+});
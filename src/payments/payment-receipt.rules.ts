@@ -0,0 +1,211 @@
+export type ReceiptConfidence = "high" | "medium" | "low";
+
+export type ReceiptExtraction = {
+  isReceipt: boolean;
+  amount: number | null;
+  paidAt: string | null;
+  cardMask: string | null;
+  transactionId: string | null;
+  modelConfidence: number | null;
+};
+
+export type ReceiptWarning =
+  | "not_a_receipt"
+  | "unreadable"
+  | "amount_mismatch"
+  | "card_mismatch"
+  | "duplicate_receipt";
+
+export type ReceiptDuplicate = {
+  userId: string;
+  orderId: number | null;
+};
+
+export type ReceiptCheck = {
+  confidence: ReceiptConfidence;
+  warnings: ReceiptWarning[];
+  amountMatches: boolean | null;
+  cardMatches: boolean | null;
+  duplicates: ReceiptDuplicate[];
+};
+
+/** Summary stored in the admin payment task payload. */
+export type ReceiptTaskSummary = ReceiptCheck & {
+  amount: number | null;
+  paidAt: string | null;
+  cardMask: string | null;
+  transactionId: string | null;
+};
+
+export const RECEIPT_EXTRACTION_PROMPT = [
+  "Siz to'lov cheki tekshiruvchisiz. Rasmdagi chekdan ma'lumotlarni ajrating.",
+  "Faqat JSON qaytaring, boshqa matn yozmang:",
+  '{"isReceipt": boolean, "amount": number|null, "date": "YYYY-MM-DD HH:mm"|null, "cardNumber": string|null, "transactionId": string|null, "confidence": number}',
+  "amount - so'mda butun son. cardNumber - qabul qiluvchi karta raqami, yashirilgan raqamlarni * bilan qoldiring.",
+  "confidence - 0 dan 1 gacha, ma'lumotlar qanchalik aniq o'qilgani.",
+].join("\n");
+
+const MIN_HIGH_MODEL_CONFIDENCE = 0.7;
+
+/**
+ * Parses the model reply for `RECEIPT_EXTRACTION_PROMPT`. Tolerates code
+ * fences and surrounding prose; returns undefined when no JSON object is found.
+ */
+export function parseReceiptExtraction(
+  raw: string | undefined,
+): ReceiptExtraction | undefined {
+  if (!raw) return undefined;
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) return undefined;
+
+  let parsed: Record<string, unknown>;
+  try {
+    const value: unknown = JSON.parse(raw.slice(start, end + 1));
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return undefined;
+    }
+    parsed = value as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+
+  return {
+    isReceipt: parsed.isReceipt === true,
+    amount: parseReceiptAmount(parsed.amount),
+    paidAt: parseOptionalText(parsed.date, 32),
+    cardMask: maskCardNumber(parseOptionalText(parsed.cardNumber, 32)),
+    transactionId: parseOptionalText(parsed.transactionId, 64),
+    modelConfidence: parseModelConfidence(parsed.confidence),
+  };
+}
+
+/** Keeps only the last four digits of a card number: "**** 1234". */
+export function maskCardNumber(value: string | null | undefined) {
+  const lastDigits = extractCardLastDigits(value);
+  return lastDigits ? `**** ${lastDigits}` : null;
+}
+
+export function extractCardLastDigits(value: string | null | undefined) {
+  if (!value) return null;
+  const match = value.match(/(\d{4})\D*$/);
+  return match ? match[1] : null;
+}
+
+export function evaluateReceipt(
+  extraction: ReceiptExtraction | undefined,
+  params: {
+    orderAmount: number | null | undefined;
+    cardNumber: string | undefined;
+    duplicates: ReceiptDuplicate[];
+  },
+): ReceiptCheck {
+  const warnings: ReceiptWarning[] = [];
+
+  if (!extraction) {
+    warnings.push("unreadable");
+  } else if (!extraction.isReceipt) {
+    warnings.push("not_a_receipt");
+  }
+
+  const amountMatches =
+    extraction?.amount != null && typeof params.orderAmount === "number"
+      ? extraction.amount === params.orderAmount
+      : null;
+  if (amountMatches === false) warnings.push("amount_mismatch");
+
+  const expectedLast = extractCardLastDigits(params.cardNumber);
+  const receiptLast = extractCardLastDigits(extraction?.cardMask);
+  const cardMatches =
+    expectedLast && receiptLast ? expectedLast === receiptLast : null;
+  if (cardMatches === false) warnings.push("card_mismatch");
+
+  if (params.duplicates.length) warnings.push("duplicate_receipt");
+
+  let confidence: ReceiptConfidence = "medium";
+  if (warnings.length) {
+    confidence = "low";
+  } else if (
+    amountMatches &&
+    cardMatches !== false &&
+    (extraction?.modelConfidence ?? 0) >= MIN_HIGH_MODEL_CONFIDENCE
+  ) {
+    confidence = "high";
+  }
+
+  return {
+    confidence,
+    warnings,
+    amountMatches,
+    cardMatches,
+    duplicates: params.duplicates,
+  };
+}
+
+export function buildReceiptAdminLines(
+  receipt: ReceiptTaskSummary,
+  orderAmount?: number | null,
+) {
+  const lines = [`receipt: ${receipt.confidence.toUpperCase()} confidence`];
+  if (receipt.amount !== null) lines.push(`receipt amount: ${receipt.amount}`);
+  if (receipt.paidAt) lines.push(`receipt date: ${receipt.paidAt}`);
+  if (receipt.cardMask) lines.push(`receipt card: ${receipt.cardMask}`);
+  if (receipt.transactionId) lines.push(`receipt tx: ${receipt.transactionId}`);
+
+  for (const warning of receipt.warnings) {
+    lines.push(`! ${describeReceiptWarning(warning, receipt, orderAmount)}`);
+  }
+  return lines;
+}
+
+function describeReceiptWarning(
+  warning: ReceiptWarning,
+  receipt: ReceiptTaskSummary,
+  orderAmount?: number | null,
+) {
+  switch (warning) {
+    case "not_a_receipt":
+      return "image does not look like a payment receipt";
+    case "unreadable":
+      return "receipt could not be read";
+    case "amount_mismatch":
+      return `amount mismatch: receipt ${receipt.amount}, order ${orderAmount ?? "?"}`;
+    case "card_mismatch":
+      return `card mismatch: receipt ${receipt.cardMask}`;
+    case "duplicate_receipt":
+      return `duplicate receipt: ${receipt.duplicates
+        .map((item) =>
+          item.orderId
+            ? `user ${item.userId} order #${item.orderId}`
+            : `user ${item.userId}`,
+        )
+        .join(", ")}`;
+  }
+}
+
+function parseReceiptAmount(value: unknown) {
+  const numeric =
+    typeof value === "string" ? Number(value.replace(/[\s,]/g, "")) : value;
+  if (
+    typeof numeric !== "number" ||
+    !Number.isFinite(numeric) ||
+    numeric <= 0
+  ) {
+    return null;
+  }
+  return Math.round(numeric);
+}
+
+function parseOptionalText(value: unknown, maxLength: number) {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const text = String(value).trim();
+  return text ? text.slice(0, maxLength) : null;
+}
+
+function parseModelConfidence(value: unknown) {
+  const numeric = Number(value);
+  if (value === null || value === undefined || !Number.isFinite(numeric)) {
+    return null;
+  }
+  return Math.min(Math.max(numeric, 0), 1);
+}
@@ -0,0 +1,145 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, eq, isNull, ne, or } from "drizzle-orm";
+import { createHash } from "crypto";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { paymentReceipts } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { ensurePaymentsSchema } from "./payments-schema";
+import {
+  evaluateReceipt,
+  parseReceiptExtraction,
+  ReceiptDuplicate,
+  ReceiptTaskSummary,
+} from "./payment-receipt.rules";
+
+@Injectable()
+export class PaymentReceiptsService {
+  private readonly logger = new Logger(PaymentReceiptsService.name);
+  private schemaChecked = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
+  ) {}
+
+  /**
+   * Stores the extracted receipt against the order and compares it with the
+   * order amount, the configured card and receipts sent for other orders.
+   */
+  async recordReceipt(params: {
+    orderId: number;
+    userId: string;
+    image: Buffer;
+    rawResponse?: string;
+    orderAmount: number | null | undefined;
+  }): Promise<ReceiptTaskSummary> {
+    await this.ensureSchema();
+    const extraction = parseReceiptExtraction(params.rawResponse);
+    const imageHash = createHash("sha256").update(params.image).digest("hex");
+    const duplicates = await this.findDuplicates({
+      orderId: params.orderId,
+      imageHash,
+      transactionId: extraction?.transactionId ?? null,
+    });
+
+    const check = evaluateReceipt(extraction, {
+      orderAmount: params.orderAmount,
+      cardNumber: this.configService.get<string>("PAYMENT_CARD_NUMBER"),
+      duplicates,
+    });
+
+    await this.db.insert(paymentReceipts).values({
+      orderId: params.orderId,
+      userId: params.userId,
+      imageHash,
+      amount: extraction?.amount ?? null,
+      paidAt: extraction?.paidAt ?? null,
+      cardMask: extraction?.cardMask ?? null,
+      transactionId: extraction?.transactionId ?? null,
+      confidence: check.confidence,
+      warnings: check.warnings.length ? JSON.stringify(check.warnings) : null,
+      rawResponse: params.rawResponse?.slice(0, 2000) ?? null,
+      createdAt: nowInUzbekistan(),
+    });
+
+    this.logTelemetry("payment.receipt_recorded", {
+      orderId: params.orderId,
+      userId: params.userId,
+      confidence: check.confidence,
+      warnings: check.warnings,
+    });
+
+    return {
+      ...check,
+      amount: extraction?.amount ?? null,
+      paidAt: extraction?.paidAt ?? null,
+      cardMask: extraction?.cardMask ?? null,
+      transactionId: extraction?.transactionId ?? null,
+    };
+  }
+
+  private async findDuplicates(params: {
+    orderId: number;
+    imageHash: string;
+    transactionId: string | null;
+  }): Promise<ReceiptDuplicate[]> {
+    const sameReceipt = params.transactionId
+      ? or(
+          eq(paymentReceipts.imageHash, params.imageHash),
+          eq(paymentReceipts.transactionId, params.transactionId),
+        )
+      : eq(paymentReceipts.imageHash, params.imageHash);
+
+    const rows = await this.db
+      .select({
+        userId: paymentReceipts.userId,
+        orderId: paymentReceipts.orderId,
+      })
+      .from(paymentReceipts)
+      .where(
+        and(
+          sameReceipt,
+          or(
+            isNull(paymentReceipts.orderId),
+            ne(paymentReceipts.orderId, params.orderId),
+          ),
+        ),
+      )
+      .limit(5);
+
+    const seen = new Set<string>();
+    return rows.filter((row) => {
+      const key = `${row.userId}:${row.orderId ?? ""}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensurePaymentsSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn(
+        "Failed to ensure payment_receipts schema",
+        error as Error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type PaymentWebhookPayload = {
+  transactionId: string;
+  orderId: number;
+  amount: number;
+  status: "paid" | "failed";
+};
+
+export function buildPaymentLinkSignatureBase(params: {
+  merchantId: string;
+  orderId: number;
+  amount: number;
+}) {
+  return `${params.merchantId}:${params.orderId}:${params.amount}`;
+}
+
+export function buildWebhookSignatureBase(payload: PaymentWebhookPayload) {
+  return `${payload.transactionId}:${payload.orderId}:${payload.amount}:${payload.status}`;
+}
+
+export function signPaymentData(secret: string, data: string) {
+  return createHmac("sha256", secret).update(data).digest("hex");
+}
+
+export function verifyPaymentSignature(
+  secret: string,
+  data: string,
+  signature: string | undefined,
+) {
+  if (!signature) return false;
+  const expected = Buffer.from(signPaymentData(secret, data), "hex");
+  const received = Buffer.from(signature.trim().toLowerCase(), "hex");
+  if (expected.length !== received.length) return false;
+  return timingSafeEqual(expected, received);
+}
@@ -0,0 +1,16 @@
+import { Body, Controller, Headers, HttpCode, Post } from "@nestjs/common";
+import { PaymentWebhookService } from "./payment-webhook.service";
+
+@Controller("payments")
+export class PaymentWebhookController {
+  constructor(private readonly paymentWebhookService: PaymentWebhookService) {}
+
+  @Post("webhook")
+  @HttpCode(200)
+  async handleWebhook(
+    @Body() body: Record<string, unknown>,
+    @Headers("x-payment-signature") signature?: string,
+  ) {
+    return this.paymentWebhookService.handleWebhook(body ?? {}, signature);
+  }
+}
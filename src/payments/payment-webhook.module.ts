@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { TelegramModule } from "../telegram/telegram.module";
+import { PaymentsModule } from "./payments.module";
+import { PaymentWebhookController } from "./payment-webhook.controller";
+import { PaymentWebhookService } from "./payment-webhook.service";
+
+@Module({
+  imports: [PaymentsModule, TelegramModule],
+  providers: [PaymentWebhookService],
+  controllers: [PaymentWebhookController],
+})
+export class PaymentWebhookModule {}
@@ -0,0 +1,124 @@
+import { UnauthorizedException } from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "../database/schema";
+import { TelegramService } from "../telegram/telegram.service";
+import { PaymentWebhookService } from "./payment-webhook.service";
+import { PaymentsService } from "./payments.service";
+import {
+  buildWebhookSignatureBase,
+  PaymentWebhookPayload,
+  signPaymentData,
+} from "./payment-signature";
+
+describe("PaymentWebhookService", () => {
+  const secret = "dev-secret";
+
+  function createService(options: {
+    inserted?: Array<{ id: number }>;
+    order?: Record<string, unknown>;
+  }) {
+    const paymentsService = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      getWebhookSecret: jest.fn().mockReturnValue(secret),
+      getProviderName: jest.fn().mockReturnValue("local"),
+    };
+    const telegramService = {
+      transitionOrder: jest.fn().mockResolvedValue({ id: 55 }),
+      handleOrderPaymentApproved: jest.fn().mockResolvedValue(true),
+      logAdminAction: jest.fn().mockResolvedValue(undefined),
+    };
+    const db = {
+      execute: jest.fn().mockResolvedValue({ rows: [] }),
+      insert: jest.fn(() => ({
+        values: jest.fn(() => ({
+          onConflictDoNothing: jest.fn(() => ({
+            returning: jest
+              .fn()
+              .mockResolvedValue(options.inserted ?? [{ id: 1 }]),
+          })),
+        })),
+      })),
+      select: jest.fn(() => ({
+        from: jest.fn(() => ({
+          where: jest.fn(() => ({
+            limit: jest
+              .fn()
+              .mockResolvedValue(options.order ? [options.order] : []),
+          })),
+        })),
+      })),
+      update: jest.fn(() => ({
+        set: jest.fn(() => ({
+          where: jest.fn().mockResolvedValue(undefined),
+        })),
+      })),
+    };
+    return {
+      service: new PaymentWebhookService(
+        paymentsService as unknown as PaymentsService,
+        telegramService as unknown as TelegramService,
+        db as unknown as NodePgDatabase<typeof schema>,
+      ),
+      telegramService,
+    };
+  }
+
+  function signed(payload: PaymentWebhookPayload) {
+    return signPaymentData(secret, buildWebhookSignatureBase(payload));
+  }
+
+  const payload: PaymentWebhookPayload = {
+    transactionId: "sim-1",
+    orderId: 55,
+    amount: 99_000,
+    status: "paid",
+  };
+
+  it("runs the shared approval flow for a signed paid webhook", async () => {
+    const { service, telegramService } = createService({
+      order: { id: 55, orderType: "contact", amount: 99_000, userId: "777" },
+    });
+
+    await expect(
+      service.handleWebhook(payload, signed(payload)),
+    ).resolves.toEqual({ status: "approved", orderId: 55 });
+    expect(telegramService.transitionOrder).toHaveBeenCalledWith(
+      55,
+      "paid",
+      expect.objectContaining({ actor: "provider" }),
+    );
+    expect(telegramService.handleOrderPaymentApproved).toHaveBeenCalledWith(
+      55,
+      "contact",
+    );
+  });
+
+  it("rejects webhooks with a bad signature", async () => {
+    const { service } = createService({});
+
+    await expect(
+      service.handleWebhook(payload, "deadbeef"),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it("ignores replayed transactions and amount mismatches", async () => {
+    const duplicate = createService({ inserted: [] });
+    await expect(
+      duplicate.service.handleWebhook(payload, signed(payload)),
+    ).resolves.toEqual({ status: "duplicate", orderId: 55 });
+
+    const mismatch = createService({
+      order: { id: 55, orderType: "vip", amount: 490_000, userId: "777" },
+    });
+    await expect(
+      mismatch.service.handleWebhook(payload, signed(payload)),
+    ).resolves.toEqual({
+      status: "ignored",
+      orderId: 55,
+      reason: "amount_mismatch",
+    });
+    expect(
+      mismatch.telegramService.handleOrderPaymentApproved,
+    ).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { eq } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { orders, paymentTransactions } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { PAYABLE_ORDER_STATUSES } from "../orders/order-state-machine";
+import { TelegramService } from "../telegram/telegram.service";
+import { PaymentsService } from "./payments.service";
+import { ensurePaymentsSchema } from "./payments-schema";
+import {
+  buildWebhookSignatureBase,
+  PaymentWebhookPayload,
+  verifyPaymentSignature,
+} from "./payment-signature";
+
+export type PaymentWebhookResult = {
+  status: "approved" | "duplicate" | "failed" | "ignored";
+  orderId: number;
+  reason?: string;
+};
+
+@Injectable()
+export class PaymentWebhookService {
+  private readonly logger = new Logger(PaymentWebhookService.name);
+  private schemaChecked = false;
+
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly telegramService: TelegramService,
+    @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
+  ) {}
+
+  async handleWebhook(
+    body: Record<string, unknown>,
+    signature: string | undefined,
+  ): Promise<PaymentWebhookResult> {
+    const secret = this.paymentsService.getWebhookSecret();
+    if (!this.paymentsService.isEnabled() || !secret) {
+      throw new ServiceUnavailableException("Payment provider not configured");
+    }
+
+    const payload = this.parsePayload(body);
+    if (
+      !verifyPaymentSignature(
+        secret,
+        buildWebhookSignatureBase(payload),
+        signature,
+      )
+    ) {
+      throw new UnauthorizedException("Invalid payment signature");
+    }
+
+    await this.ensureSchema();
+    const provider = this.paymentsService.getProviderName();
+    const inserted = await this.db
+      .insert(paymentTransactions)
+      .values({
+        orderId: payload.orderId,
+        provider,
+        externalId: payload.transactionId,
+        status: payload.status,
+        amount: payload.amount,
+        payload: JSON.stringify(body),
+        createdAt: nowInUzbekistan(),
+        updatedAt: nowInUzbekistan(),
+      })
+      .onConflictDoNothing({
+        target: [paymentTransactions.provider, paymentTransactions.externalId],
+      })
+      .returning({ id: paymentTransactions.id });
+
+    if (!inserted.length) {
+      return { status: "duplicate", orderId: payload.orderId };
+    }
+
+    const transactionId = inserted[0].id;
+    if (payload.status !== "paid") {
+      this.logTelemetry("payment.webhook_failed", { ...payload, provider });
+      return { status: "failed", orderId: payload.orderId };
+    }
+
+    const orderRows = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, payload.orderId))
+      .limit(1);
+    const order = orderRows[0];
+
+    if (!order) {
+      return this.ignore(transactionId, payload, "order_not_found");
+    }
+    if (order.amount !== payload.amount) {
+      return this.ignore(transactionId, payload, "amount_mismatch");
+    }
+
+    const claimed = await this.telegramService.transitionOrder(
+      order.id,
+      "paid",
+      {
+        actor: "provider",
+        from: PAYABLE_ORDER_STATUSES,
+        reason: `${provider} transaction ${payload.transactionId}`,
+      },
+    );
+    if (!claimed) {
+      return this.ignore(transactionId, payload, "order_not_payable");
+    }
+
+    await this.telegramService.handleOrderPaymentApproved(
+      order.id,
+      order.orderType,
+    );
+    await this.telegramService.logAdminAction({
+      action: "payment_provider_approve",
+      orderId: order.id,
+      userId: order.userId,
+      details: `${provider} transaction ${payload.transactionId}`,
+    });
+
+    this.logTelemetry("payment.webhook_approved", { ...payload, provider });
+    return { status: "approved", orderId: order.id };
+  }
+
+  private async ignore(
+    transactionId: number,
+    payload: PaymentWebhookPayload,
+    reason: string,
+  ): Promise<PaymentWebhookResult> {
+    await this.db
+      .update(paymentTransactions)
+      .set({ status: reason, updatedAt: nowInUzbekistan() })
+      .where(eq(paymentTransactions.id, transactionId));
+    this.logger.warn(
+      `Payment webhook ignored for order ${payload.orderId}: ${reason}`,
+    );
+    return { status: "ignored", orderId: payload.orderId, reason };
+  }
+
+  private parsePayload(body: Record<string, unknown>): PaymentWebhookPayload {
+    if (!body || typeof body !== "object") {
+      throw new BadRequestException("Webhook body must be an object");
+    }
+
+    const transactionId =
+      typeof body.transactionId === "string" ? body.transactionId.trim() : "";
+    const orderId = Number(body.orderId);
+    const amount = Number(body.amount);
+    const status = body.status;
+
+    if (!transactionId || transactionId.length > 128) {
+      throw new BadRequestException("transactionId is required");
+    }
+    if (!Number.isInteger(orderId) || orderId <= 0) {
+      throw new BadRequestException("orderId must be a positive integer");
+    }
+    if (!Number.isInteger(amount) || amount < 0) {
+      throw new BadRequestException("amount must be a non-negative integer");
+    }
+    if (status !== "paid" && status !== "failed") {
+      throw new BadRequestException("status must be paid or failed");
+    }
+
+    return { transactionId, orderId, amount, status };
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensurePaymentsSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn(
+        "Failed to ensure payment_transactions schema",
+        error as Error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+export async function ensurePaymentsSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "payment_transactions" (
+      "id" serial PRIMARY KEY,
+      "order_id" integer REFERENCES "orders"("id") ON DELETE SET NULL,
+      "provider" text NOT NULL,
+      "external_id" text NOT NULL,
+      "status" text NOT NULL,
+      "amount" integer NOT NULL,
+      "payload" text,
+      "created_at" timestamp DEFAULT now(),
+      "updated_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "payment_transactions_provider_external_unique" ON "payment_transactions" ("provider", "external_id")`,
+  );
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "payment_receipts" (
+      "id" serial PRIMARY KEY,
+      "order_id" integer REFERENCES "orders"("id") ON DELETE SET NULL,
+      "user_id" text NOT NULL,
+      "image_hash" text NOT NULL,
+      "amount" integer,
+      "paid_at" text,
+      "card_mask" text,
+      "transaction_id" text,
+      "confidence" text NOT NULL,
+      "warnings" text,
+      "raw_response" text,
+      "created_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "payment_receipts_order_idx" ON "payment_receipts" ("order_id")`,
+  );
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "payment_receipts_image_hash_idx" ON "payment_receipts" ("image_hash")`,
+  );
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "payment_receipts_transaction_idx" ON "payment_receipts" ("transaction_id")`,
+  );
+
+  logger.log("Payments schema ensured");
+}
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { PaymentReceiptsService } from "./payment-receipts.service";
+import { PaymentsService } from "./payments.service";
+
+@Module({
+  imports: [ConfigModule],
+  providers: [PaymentsService, PaymentReceiptsService],
+  exports: [PaymentsService, PaymentReceiptsService],
+})
+export class PaymentsModule {}
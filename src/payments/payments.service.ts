@@ -0,0 +1,64 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  buildPaymentLinkSignatureBase,
+  signPaymentData,
+} from "./payment-signature";
+
+/**
+ * Builds checkout links for the optional payment provider. When
+ * PAYMENT_PROVIDER_URL / PAYMENT_PROVIDER_SECRET are not set the bot keeps the
+ * manual card-transfer flow only.
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly providerUrl?: string;
+  private readonly secret?: string;
+  private readonly merchantId: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.providerUrl = this.configService
+      .get<string>("PAYMENT_PROVIDER_URL")
+      ?.trim()
+      .replace(/\/+$/, "");
+    this.secret = this.configService.get<string>("PAYMENT_PROVIDER_SECRET");
+    this.merchantId =
+      this.configService.get<string>("PAYMENT_MERCHANT_ID")?.trim() || "local";
+  }
+
+  isEnabled() {
+    return Boolean(this.providerUrl && this.secret);
+  }
+
+  getProviderName() {
+    return (
+      this.configService.get<string>("PAYMENT_PROVIDER_NAME")?.trim() || "local"
+    );
+  }
+
+  getWebhookSecret() {
+    return this.secret;
+  }
+
+  createPaymentLink(order: { id: number; amount: number }) {
+    if (!this.providerUrl || !this.secret || order.amount <= 0) {
+      return undefined;
+    }
+
+    const sign = signPaymentData(
+      this.secret,
+      buildPaymentLinkSignatureBase({
+        merchantId: this.merchantId,
+        orderId: order.id,
+        amount: order.amount,
+      }),
+    );
+    const query = new URLSearchParams({
+      merchant_id: this.merchantId,
+      order_id: String(order.id),
+      amount: String(order.amount),
+      sign,
+    });
+    return `${this.providerUrl}/pay?${query.toString()}`;
+  }
+}
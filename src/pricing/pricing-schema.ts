@@ -0,0 +1,46 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+export async function ensurePricingSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "price_rules" (
+      "id" serial PRIMARY KEY,
+      "product_key" text NOT NULL,
+      "label" text,
+      "amount" integer NOT NULL,
+      "period_days" integer,
+      "priority" integer NOT NULL DEFAULT 0,
+      "conditions" text,
+      "effective_from" timestamp NOT NULL DEFAULT now(),
+      "effective_to" timestamp,
+      "is_active" boolean NOT NULL DEFAULT true,
+      "created_at" timestamp DEFAULT now(),
+      "updated_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "price_rules_product_key_idx" ON "price_rules" ("product_key")`,
+  );
+
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'price_rules_amount_non_negative'
+      ) THEN
+        ALTER TABLE "price_rules"
+        ADD CONSTRAINT "price_rules_amount_non_negative"
+        CHECK ("amount" >= 0);
+      END IF;
+    END $$;
+  `);
+
+  logger.log("Pricing schema ensured");
+}
@@ -0,0 +1,49 @@
+import { PricingConditions } from "./pricing.types";
+
+export const PRICE_PRODUCT_KEY_MAX_LENGTH = 64;
+export const PRICE_RULE_LABEL_MAX_LENGTH = 120;
+
+export const DEFAULT_VIP_PERIOD_DAYS = 30;
+
+/**
+ * Seeded into `price_rules` when the catalogue is empty, matching the prices
+ * the bot charged before the catalogue existed.
+ */
+export const DEFAULT_PRICE_RULES: Array<{
+  productKey: string;
+  label: string;
+  amount: number;
+  periodDays?: number;
+  priority: number;
+  conditions: PricingConditions;
+}> = [
+  {
+    productKey: "contact",
+    label: "Kontakt",
+    amount: 99_000,
+    priority: 0,
+    conditions: {},
+  },
+  {
+    productKey: "vip",
+    label: "VIP kanal (30 kun)",
+    amount: 490_000,
+    periodDays: DEFAULT_VIP_PERIOD_DAYS,
+    priority: 0,
+    conditions: {},
+  },
+  {
+    productKey: "ad",
+    label: "E'lon",
+    amount: 90_000,
+    priority: 0,
+    conditions: {},
+  },
+  {
+    productKey: "ad",
+    label: "Qizlar uchun birinchi e'lon",
+    amount: 0,
+    priority: 10,
+    conditions: { gender: "female", maxAdCount: 0 },
+  },
+];
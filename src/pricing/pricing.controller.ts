@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { PricingService } from "./pricing.service";
+import { AdminRoles } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
+
+@Controller("pricing")
+@UseGuards(AdminAuthGuard)
+export class PricingController {
+  constructor(private readonly pricingService: PricingService) {}
+
+  @Get("prices")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async getPrices() {
+    return this.pricingService.getBasePrices();
+  }
+
+  @Get("rules")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async listRules(@Query("productKey") productKey?: string) {
+    return this.pricingService.listRules(productKey);
+  }
+
+  @Post("rules")
+  @AdminRoles("payments")
+  async createRule(@Body() payload: Record<string, unknown>) {
+    return this.pricingService.createRule(payload ?? {});
+  }
+
+  @Patch("rules/:id")
+  @AdminRoles("payments")
+  async updateRule(
+    @Param("id") id: string,
+    @Body() payload: Record<string, unknown>,
+  ) {
+    return this.pricingService.updateRule(id, payload ?? {});
+  }
+
+  @Delete("rules/:id")
+  @AdminRoles("payments")
+  async deactivateRule(@Param("id") id: string) {
+    return this.pricingService.deactivateRule(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { PricingController } from "./pricing.controller";
+import { PricingService } from "./pricing.service";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
+
+@Module({
+  imports: [ConfigModule, AdminAuthModule],
+  providers: [PricingService],
+  controllers: [PricingController],
+  exports: [PricingService],
+})
+export class PricingModule {}
@@ -0,0 +1,98 @@
+import { selectPriceRule } from "./pricing.rules";
+import { PriceRule } from "./pricing.types";
+
+describe("selectPriceRule", () => {
+  const now = new Date("2026-03-01T10:00:00Z");
+
+  function rule(overrides: Partial<PriceRule>): PriceRule {
+    return {
+      id: 1,
+      productKey: "ad",
+      label: null,
+      amount: 90_000,
+      periodDays: null,
+      priority: 0,
+      conditions: {},
+      effectiveFrom: new Date("2026-01-01T00:00:00Z"),
+      effectiveTo: null,
+      isActive: true,
+      ...overrides,
+    };
+  }
+
+  const rules = [
+    rule({ id: 1 }),
+    rule({
+      id: 2,
+      amount: 0,
+      priority: 10,
+      conditions: { gender: "female", maxAdCount: 0 },
+    }),
+    rule({ id: 3, productKey: "contact", amount: 99_000 }),
+  ];
+
+  it("gives women their first ad for free", () => {
+    expect(
+      selectPriceRule(rules, "ad", { gender: "female", adCount: 0 }, now)
+        ?.amount,
+    ).toBe(0);
+  });
+
+  it("charges the base price once the condition no longer matches", () => {
+    expect(
+      selectPriceRule(rules, "ad", { gender: "female", adCount: 1 }, now)
+        ?.amount,
+    ).toBe(90_000);
+    expect(
+      selectPriceRule(rules, "ad", { gender: "male", adCount: 0 }, now)?.amount,
+    ).toBe(90_000);
+  });
+
+  it("switches to a future-dated price once it becomes effective", () => {
+    const scheduled = [
+      ...rules,
+      rule({
+        id: 4,
+        productKey: "contact",
+        amount: 120_000,
+        effectiveFrom: new Date("2026-04-01T00:00:00Z"),
+      }),
+    ];
+
+    expect(selectPriceRule(scheduled, "contact", {}, now)?.amount).toBe(99_000);
+    expect(
+      selectPriceRule(
+        scheduled,
+        "contact",
+        {},
+        new Date("2026-04-02T00:00:00Z"),
+      )?.amount,
+    ).toBe(120_000);
+  });
+
+  it("skips inactive, expired and VIP-only rules that do not apply", () => {
+    const vipRules = [
+      rule({ id: 5, productKey: "contact", amount: 99_000 }),
+      rule({
+        id: 6,
+        productKey: "contact",
+        amount: 49_000,
+        priority: 5,
+        conditions: { vipActive: true },
+      }),
+      rule({ id: 7, productKey: "contact", amount: 1, isActive: false }),
+      rule({
+        id: 8,
+        productKey: "contact",
+        amount: 2,
+        priority: 20,
+        effectiveTo: new Date("2026-02-01T00:00:00Z"),
+      }),
+    ];
+
+    expect(selectPriceRule(vipRules, "contact", {}, now)?.id).toBe(5);
+    expect(
+      selectPriceRule(vipRules, "contact", { vipActive: true }, now)?.id,
+    ).toBe(6);
+  });
+});
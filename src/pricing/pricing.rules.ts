@@ -0,0 +1,64 @@
+import { PriceRule, PricingConditions, PricingContext } from "./pricing.types";
+
+export function matchesPricingConditions(
+  conditions: PricingConditions,
+  context: PricingContext,
+) {
+  if (conditions.gender && context.gender !== conditions.gender) {
+    return false;
+  }
+
+  const adCount = context.adCount ?? 0;
+  if (conditions.minAdCount !== undefined && adCount < conditions.minAdCount) {
+    return false;
+  }
+  if (conditions.maxAdCount !== undefined && adCount > conditions.maxAdCount) {
+    return false;
+  }
+
+  if (
+    conditions.vipActive !== undefined &&
+    Boolean(context.vipActive) !== conditions.vipActive
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+export function isPriceRuleEffective(rule: PriceRule, at: Date) {
+  if (!rule.isActive) return false;
+  if (rule.effectiveFrom > at) return false;
+  if (rule.effectiveTo && rule.effectiveTo <= at) return false;
+  return true;
+}
+
+/**
+ * Picks the rule that applies to `context` at `at`: highest priority first,
+ * then the most recently effective one, so a future-dated price change takes
+ * over automatically once its date arrives.
+ */
+export function selectPriceRule(
+  rules: PriceRule[],
+  productKey: string,
+  context: PricingContext,
+  at: Date,
+) {
+  const candidates = rules.filter(
+    (rule) =>
+      rule.productKey === productKey &&
+      isPriceRuleEffective(rule, at) &&
+      matchesPricingConditions(rule.conditions, context),
+  );
+
+  candidates.sort((left, right) => {
+    if (left.priority !== right.priority) {
+      return right.priority - left.priority;
+    }
+    const byDate = right.effectiveFrom.getTime() - left.effectiveFrom.getTime();
+    if (byDate !== 0) return byDate;
+    return right.id - left.id;
+  });
+
+  return candidates[0];
+}
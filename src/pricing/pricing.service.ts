@@ -0,0 +1,225 @@
+import { Inject, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { asc, eq } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { priceRules } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { ensurePricingSchema } from "./pricing-schema";
+import { DEFAULT_PRICE_RULES } from "./pricing.constants";
+import { selectPriceRule } from "./pricing.rules";
+import {
+  PriceRule,
+  PricingConditions,
+  PricingContext,
+  ResolvedPrice,
+} from "./pricing.types";
+import {
+  validatePriceRuleId,
+  validatePriceRuleInput,
+  validatePricingConditions,
+} from "./pricing.validation";
+
+@Injectable()
+export class PricingService {
+  private readonly logger = new Logger(PricingService.name);
+  private schemaChecked = false;
+
+  constructor(@Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>) {}
+
+  async listRules(productKey?: string) {
+    const rules = await this.loadRules();
+    if (!productKey) return rules;
+    const normalized = productKey.trim().toLowerCase();
+    return rules.filter((rule) => rule.productKey === normalized);
+  }
+
+  async createRule(payload: Record<string, unknown>) {
+    await this.ensureSchema();
+    const input = validatePriceRuleInput(payload, "create");
+    const now = nowInUzbekistan();
+    const inserted = await this.db
+      .insert(priceRules)
+      .values({
+        productKey: input.productKey!,
+        label: input.label ?? null,
+        amount: input.amount!,
+        periodDays: input.periodDays ?? null,
+        priority: input.priority ?? 0,
+        conditions: JSON.stringify(input.conditions ?? {}),
+        effectiveFrom: input.effectiveFrom ?? now,
+        effectiveTo: input.effectiveTo ?? null,
+        isActive: input.isActive ?? true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    const rule = this.toPriceRule(inserted[0]);
+    this.logTelemetry("pricing.rule_created", { rule });
+    return rule;
+  }
+
+  async updateRule(id: string, payload: Record<string, unknown>) {
+    await this.ensureSchema();
+    const ruleId = validatePriceRuleId(id);
+    const input = validatePriceRuleInput(payload, "update");
+    const { conditions, ...rest } = input;
+
+    const updated = await this.db
+      .update(priceRules)
+      .set({
+        ...rest,
+        ...(conditions ? { conditions: JSON.stringify(conditions) } : {}),
+        updatedAt: nowInUzbekistan(),
+      })
+      .where(eq(priceRules.id, ruleId))
+      .returning();
+
+    if (!updated.length) {
+      throw new NotFoundException("Price rule not found");
+    }
+
+    const rule = this.toPriceRule(updated[0]);
+    this.logTelemetry("pricing.rule_updated", { rule });
+    return rule;
+  }
+
+  async deactivateRule(id: string) {
+    return this.updateRule(id, { isActive: false });
+  }
+
+  async resolvePrice(
+    productKey: string,
+    context: PricingContext = {},
+  ): Promise<ResolvedPrice> {
+    const rules = await this.loadRules();
+    const rule = selectPriceRule(rules, productKey, context, nowInUzbekistan());
+    if (rule) {
+      return {
+        productKey,
+        amount: rule.amount,
+        periodDays: rule.periodDays,
+        ruleId: rule.id,
+      };
+    }
+
+    const fallback = DEFAULT_PRICE_RULES.find(
+      (item) =>
+        item.productKey === productKey &&
+        Object.keys(item.conditions).length === 0,
+    );
+    if (!fallback) {
+      throw new NotFoundException(`No price configured for ${productKey}`);
+    }
+
+    this.logger.warn(
+      `No active price rule for ${productKey}; using built-in default.`,
+    );
+    return {
+      productKey,
+      amount: fallback.amount,
+      periodDays: fallback.periodDays ?? null,
+      ruleId: null,
+    };
+  }
+
+  /**
+   * Current base price of every product (no user-specific conditions), used
+   * for prompt variables and the public price list.
+   */
+  async getBasePrices() {
+    const rules = await this.loadRules();
+    const productKeys = new Set([
+      ...DEFAULT_PRICE_RULES.map((item) => item.productKey),
+      ...rules.map((rule) => rule.productKey),
+    ]);
+
+    const prices: Record<string, ResolvedPrice> = {};
+    for (const productKey of productKeys) {
+      prices[productKey] = await this.resolvePrice(productKey);
+    }
+    return prices;
+  }
+
+  private async loadRules() {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(priceRules)
+      .orderBy(asc(priceRules.productKey), asc(priceRules.id));
+    return rows.map((row) => this.toPriceRule(row));
+  }
+
+  private toPriceRule(row: typeof priceRules.$inferSelect): PriceRule {
+    return {
+      id: row.id,
+      productKey: row.productKey,
+      label: row.label ?? null,
+      amount: row.amount,
+      periodDays: row.periodDays ?? null,
+      priority: row.priority,
+      conditions: this.parseConditions(row.conditions),
+      effectiveFrom: row.effectiveFrom,
+      effectiveTo: row.effectiveTo ?? null,
+      isActive: row.isActive,
+    };
+  }
+
+  private parseConditions(raw: string | null): PricingConditions {
+    if (!raw) return {};
+    try {
+      return validatePricingConditions(JSON.parse(raw));
+    } catch {
+      this.logger.warn(`Ignoring malformed price rule conditions: ${raw}`);
+      return {};
+    }
+  }
+
+  private async seedDefaults() {
+    const existing = await this.db
+      .select({ id: priceRules.id })
+      .from(priceRules)
+      .limit(1);
+    if (existing.length) return;
+
+    const now = nowInUzbekistan();
+    await this.db.insert(priceRules).values(
+      DEFAULT_PRICE_RULES.map((item) => ({
+        productKey: item.productKey,
+        label: item.label,
+        amount: item.amount,
+        periodDays: item.periodDays ?? null,
+        priority: item.priority,
+        conditions: JSON.stringify(item.conditions),
+        effectiveFrom: now,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })),
+    );
+    this.logger.log("Default price rules seeded");
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensurePricingSchema(this.db, this.logger);
+      await this.seedDefaults();
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn("Failed to ensure price_rules schema", error as Error);
+      throw error;
+    }
+  }
+}
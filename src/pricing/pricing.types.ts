@@ -0,0 +1,32 @@
+export type PricingConditions = {
+  gender?: "male" | "female";
+  minAdCount?: number;
+  maxAdCount?: number;
+  vipActive?: boolean;
+};
+
+export type PricingContext = {
+  gender?: string | null;
+  adCount?: number | null;
+  vipActive?: boolean;
+};
+
+export type PriceRule = {
+  id: number;
+  productKey: string;
+  label: string | null;
+  amount: number;
+  periodDays: number | null;
+  priority: number;
+  conditions: PricingConditions;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+  isActive: boolean;
+};
+
+export type ResolvedPrice = {
+  productKey: string;
+  amount: number;
+  periodDays: number | null;
+  ruleId: number | null;
+};
@@ -0,0 +1,237 @@
+import { BadRequestException } from "@nestjs/common";
+import {
+  PRICE_PRODUCT_KEY_MAX_LENGTH,
+  PRICE_RULE_LABEL_MAX_LENGTH,
+} from "./pricing.constants";
+import { PricingConditions } from "./pricing.types";
+
+export type PriceRuleInput = Partial<{
+  productKey: string;
+  label: string | null;
+  amount: number;
+  periodDays: number | null;
+  priority: number;
+  conditions: PricingConditions;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+  isActive: boolean;
+}>;
+
+const ALLOWED_FIELDS = new Set([
+  "productKey",
+  "label",
+  "amount",
+  "periodDays",
+  "priority",
+  "conditions",
+  "effectiveFrom",
+  "effectiveTo",
+  "isActive",
+]);
+
+const ALLOWED_CONDITION_FIELDS = new Set([
+  "gender",
+  "minAdCount",
+  "maxAdCount",
+  "vipActive",
+]);
+
+export function validatePriceRuleInput(
+  payload: Record<string, unknown>,
+  mode: "create" | "update",
+): PriceRuleInput {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new BadRequestException("Price rule payload must be an object");
+  }
+
+  const keys = Object.keys(payload);
+  const disallowed = keys.filter((key) => !ALLOWED_FIELDS.has(key));
+  if (disallowed.length > 0) {
+    throw new BadRequestException(
+      `Unsupported price rule field(s): ${disallowed.join(", ")}`,
+    );
+  }
+
+  const output: PriceRuleInput = {};
+
+  if (payload.productKey !== undefined) {
+    output.productKey = validateProductKey(payload.productKey);
+  }
+  if (payload.label !== undefined) {
+    output.label = validateLabel(payload.label);
+  }
+  if (payload.amount !== undefined) {
+    output.amount = validateNonNegativeInteger(payload.amount, "amount");
+  }
+  if (payload.periodDays !== undefined) {
+    output.periodDays =
+      payload.periodDays === null
+        ? null
+        : validatePositiveInteger(payload.periodDays, "periodDays");
+  }
+  if (payload.priority !== undefined) {
+    const priority = Number(payload.priority);
+    if (!Number.isInteger(priority)) {
+      throw new BadRequestException("priority must be an integer");
+    }
+    output.priority = priority;
+  }
+  if (payload.conditions !== undefined) {
+    output.conditions = validatePricingConditions(payload.conditions);
+  }
+  if (payload.effectiveFrom !== undefined) {
+    output.effectiveFrom = validateDate(payload.effectiveFrom, "effectiveFrom");
+  }
+  if (payload.effectiveTo !== undefined) {
+    output.effectiveTo =
+      payload.effectiveTo === null
+        ? null
+        : validateDate(payload.effectiveTo, "effectiveTo");
+  }
+  if (payload.isActive !== undefined) {
+    if (typeof payload.isActive !== "boolean") {
+      throw new BadRequestException("isActive must be a boolean");
+    }
+    output.isActive = payload.isActive;
+  }
+
+  if (mode === "create") {
+    if (!output.productKey) {
+      throw new BadRequestException("productKey is required");
+    }
+    if (output.amount === undefined) {
+      throw new BadRequestException("amount is required");
+    }
+  }
+
+  if (
+    output.effectiveFrom &&
+    output.effectiveTo &&
+    output.effectiveTo <= output.effectiveFrom
+  ) {
+    throw new BadRequestException("effectiveTo must be after effectiveFrom");
+  }
+
+  return output;
+}
+
+export function validatePricingConditions(value: unknown): PricingConditions {
+  if (value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new BadRequestException("conditions must be an object");
+  }
+
+  const record = value as Record<string, unknown>;
+  const disallowed = Object.keys(record).filter(
+    (key) => !ALLOWED_CONDITION_FIELDS.has(key),
+  );
+  if (disallowed.length > 0) {
+    throw new BadRequestException(
+      `Unsupported pricing condition(s): ${disallowed.join(", ")}`,
+    );
+  }
+
+  const conditions: PricingConditions = {};
+  if (record.gender !== undefined && record.gender !== null) {
+    if (record.gender !== "male" && record.gender !== "female") {
+      throw new BadRequestException("conditions.gender must be male or female");
+    }
+    conditions.gender = record.gender;
+  }
+  if (record.minAdCount !== undefined && record.minAdCount !== null) {
+    conditions.minAdCount = validateNonNegativeInteger(
+      record.minAdCount,
+      "conditions.minAdCount",
+    );
+  }
+  if (record.maxAdCount !== undefined && record.maxAdCount !== null) {
+    conditions.maxAdCount = validateNonNegativeInteger(
+      record.maxAdCount,
+      "conditions.maxAdCount",
+    );
+  }
+  if (
+    conditions.minAdCount !== undefined &&
+    conditions.maxAdCount !== undefined &&
+    conditions.minAdCount > conditions.maxAdCount
+  ) {
+    throw new BadRequestException(
+      "conditions.minAdCount must not exceed conditions.maxAdCount",
+    );
+  }
+  if (record.vipActive !== undefined && record.vipActive !== null) {
+    if (typeof record.vipActive !== "boolean") {
+      throw new BadRequestException("conditions.vipActive must be a boolean");
+    }
+    conditions.vipActive = record.vipActive;
+  }
+
+  return conditions;
+}
+
+export function validatePriceRuleId(id: string) {
+  const numeric = Number(id);
+  if (!Number.isInteger(numeric) || numeric <= 0) {
+    throw new BadRequestException("Price rule id must be a positive integer");
+  }
+  return numeric;
+}
+
+function validateProductKey(value: unknown) {
+  if (typeof value !== "string") {
+    throw new BadRequestException("productKey must be a string");
+  }
+  const normalized = value.trim().toLowerCase();
+  if (!/^[a-z0-9_]+$/.test(normalized)) {
+    throw new BadRequestException(
+      "productKey may only contain latin letters, digits and underscores",
+    );
+  }
+  if (normalized.length > PRICE_PRODUCT_KEY_MAX_LENGTH) {
+    throw new BadRequestException(
+      `productKey exceeds max length (${PRICE_PRODUCT_KEY_MAX_LENGTH})`,
+    );
+  }
+  return normalized;
+}
+
+function validateLabel(value: unknown) {
+  if (value === null) return null;
+  if (typeof value !== "string") {
+    throw new BadRequestException("label must be a string");
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > PRICE_RULE_LABEL_MAX_LENGTH) {
+    throw new BadRequestException(
+      `label exceeds max length (${PRICE_RULE_LABEL_MAX_LENGTH})`,
+    );
+  }
+  return trimmed || null;
+}
+
+function validateNonNegativeInteger(value: unknown, field: string) {
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0) {
+    throw new BadRequestException(`${field} must be a non-negative integer`);
+  }
+  return numeric;
+}
+
+function validatePositiveInteger(value: unknown, field: string) {
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric <= 0) {
+    throw new BadRequestException(`${field} must be a positive integer`);
+  }
+  return numeric;
+}
+
+function validateDate(value: unknown, field: string) {
+  if (typeof value !== "string" && !(value instanceof Date)) {
+    throw new BadRequestException(`${field} must be an ISO date string`);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${field} must be a valid date`);
+  }
+  return date;
+}
@@ -0,0 +1,164 @@
+import { BadRequestException } from "@nestjs/common";
+import {
+  isValidPromoCodeFormat,
+  normalizePromoCode,
+} from "./promo-codes.rules";
+import { PromoDiscountType } from "./promo-codes.types";
+
+export type PromoCodeInput = Partial<{
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  productKeys: string[] | null;
+  maxUses: number | null;
+  perUserLimit: number | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+}>;
+
+const ALLOWED_FIELDS = new Set([
+  "code",
+  "discountType",
+  "discountValue",
+  "productKeys",
+  "maxUses",
+  "perUserLimit",
+  "expiresAt",
+  "isActive",
+]);
+
+export function validatePromoCodeInput(
+  payload: Record<string, unknown>,
+  mode: "create" | "update",
+): PromoCodeInput {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new BadRequestException("Promo code payload must be an object");
+  }
+
+  const keys = Object.keys(payload);
+  const disallowed = keys.filter((key) => !ALLOWED_FIELDS.has(key));
+  if (disallowed.length > 0) {
+    throw new BadRequestException(
+      `Unsupported promo code field(s): ${disallowed.join(", ")}`,
+    );
+  }
+
+  const output: PromoCodeInput = {};
+
+  if (payload.code !== undefined) {
+    if (typeof payload.code !== "string") {
+      throw new BadRequestException("code must be a string");
+    }
+    const code = normalizePromoCode(payload.code);
+    if (!isValidPromoCodeFormat(code)) {
+      throw new BadRequestException(
+        "code must be 3-32 latin letters, digits, '-' or '_'",
+      );
+    }
+    output.code = code;
+  }
+
+  if (payload.discountType !== undefined) {
+    if (
+      payload.discountType !== "percent" &&
+      payload.discountType !== "fixed"
+    ) {
+      throw new BadRequestException("discountType must be percent or fixed");
+    }
+    output.discountType = payload.discountType;
+  }
+
+  if (payload.discountValue !== undefined) {
+    const value = Number(payload.discountValue);
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new BadRequestException("discountValue must be a positive integer");
+    }
+    output.discountValue = value;
+  }
+
+  if (payload.productKeys !== undefined) {
+    output.productKeys = validateProductKeys(payload.productKeys);
+  }
+  if (payload.maxUses !== undefined) {
+    output.maxUses = validateOptionalLimit(payload.maxUses, "maxUses");
+  }
+  if (payload.perUserLimit !== undefined) {
+    output.perUserLimit = validateOptionalLimit(
+      payload.perUserLimit,
+      "perUserLimit",
+    );
+  }
+
+  if (payload.expiresAt !== undefined) {
+    if (payload.expiresAt === null) {
+      output.expiresAt = null;
+    } else {
+      const date =
+        typeof payload.expiresAt === "string"
+          ? new Date(payload.expiresAt)
+          : undefined;
+      if (!date || Number.isNaN(date.getTime())) {
+        throw new BadRequestException("expiresAt must be an ISO date string");
+      }
+      output.expiresAt = date;
+    }
+  }
+
+  if (payload.isActive !== undefined) {
+    if (typeof payload.isActive !== "boolean") {
+      throw new BadRequestException("isActive must be a boolean");
+    }
+    output.isActive = payload.isActive;
+  }
+
+  if (mode === "create") {
+    if (!output.code) throw new BadRequestException("code is required");
+    if (!output.discountType) {
+      throw new BadRequestException("discountType is required");
+    }
+    if (output.discountValue === undefined) {
+      throw new BadRequestException("discountValue is required");
+    }
+  }
+
+  if (
+    output.discountType === "percent" &&
+    output.discountValue !== undefined &&
+    output.discountValue > 100
+  ) {
+    throw new BadRequestException("percent discountValue must not exceed 100");
+  }
+
+  return output;
+}
+
+export function validatePromoCodeId(id: string) {
+  const numeric = Number(id);
+  if (!Number.isInteger(numeric) || numeric <= 0) {
+    throw new BadRequestException("Promo code id must be a positive integer");
+  }
+  return numeric;
+}
+
+function validateProductKeys(value: unknown) {
+  if (value === null) return null;
+  if (!Array.isArray(value)) {
+    throw new BadRequestException("productKeys must be an array of strings");
+  }
+  const keys = value.map((item) => {
+    if (typeof item !== "string" || !item.trim()) {
+      throw new BadRequestException("productKeys must be an array of strings");
+    }
+    return item.trim().toLowerCase();
+  });
+  return keys.length ? Array.from(new Set(keys)) : null;
+}
+
+function validateOptionalLimit(value: unknown, field: string) {
+  if (value === null) return null;
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric <= 0) {
+    throw new BadRequestException(`${field} must be a positive integer`);
+  }
+  return numeric;
+}
@@ -0,0 +1,49 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+export async function ensurePromoCodesSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "promo_codes" (
+      "id" serial PRIMARY KEY,
+      "code" text NOT NULL,
+      "discount_type" text NOT NULL,
+      "discount_value" integer NOT NULL,
+      "product_keys" text,
+      "max_uses" integer,
+      "per_user_limit" integer,
+      "used_count" integer NOT NULL DEFAULT 0,
+      "expires_at" timestamp,
+      "is_active" boolean NOT NULL DEFAULT true,
+      "created_at" timestamp DEFAULT now(),
+      "updated_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "promo_codes_code_unique" ON "promo_codes" ("code")`,
+  );
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "promo_redemptions" (
+      "id" serial PRIMARY KEY,
+      "promo_code_id" integer NOT NULL REFERENCES "promo_codes"("id") ON DELETE CASCADE,
+      "user_id" text NOT NULL,
+      "order_id" integer REFERENCES "orders"("id") ON DELETE SET NULL,
+      "discount_amount" integer NOT NULL,
+      "created_at" timestamp DEFAULT now()
+    )
+  `);
+
+  await db.execute(
+    sql`CREATE UNIQUE INDEX IF NOT EXISTS "promo_redemptions_order_id_unique" ON "promo_redemptions" ("order_id")`,
+  );
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "promo_redemptions_code_user_idx" ON "promo_redemptions" ("promo_code_id", "user_id")`,
+  );
+
+  logger.log("Promo code schema ensured");
+}
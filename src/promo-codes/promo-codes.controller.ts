@@ -0,0 +1,47 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { PromoCodesService } from "./promo-codes.service";
+import { AdminRoles } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
+
+@Controller("promo-codes")
+@UseGuards(AdminAuthGuard)
+export class PromoCodesController {
+  constructor(private readonly promoCodesService: PromoCodesService) {}
+
+  @Get()
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async listCodes() {
+    return this.promoCodesService.listCodes();
+  }
+
+  @Post()
+  @AdminRoles("payments")
+  async createCode(@Body() payload: Record<string, unknown>) {
+    return this.promoCodesService.createCode(payload ?? {});
+  }
+
+  @Patch(":id")
+  @AdminRoles("payments")
+  async updateCode(
+    @Param("id") id: string,
+    @Body() payload: Record<string, unknown>,
+  ) {
+    return this.promoCodesService.updateCode(id, payload ?? {});
+  }
+
+  @Delete(":id")
+  @AdminRoles("payments")
+  async deactivateCode(@Param("id") id: string) {
+    return this.promoCodesService.deactivateCode(id);
+  }
+}
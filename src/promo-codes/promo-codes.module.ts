@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { PromoCodesController } from "./promo-codes.controller";
+import { PromoCodesService } from "./promo-codes.service";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
+
+@Module({
+  imports: [ConfigModule, AdminAuthModule],
+  providers: [PromoCodesService],
+  controllers: [PromoCodesController],
+  exports: [PromoCodesService],
+})
+export class PromoCodesModule {}
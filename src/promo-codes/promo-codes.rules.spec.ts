@@ -0,0 +1,85 @@
+import {
+  checkPromoEligibility,
+  computePromoDiscount,
+  extractPromoCodeCandidate,
+} from "./promo-codes.rules";
+import { PromoCode } from "./promo-codes.types";
+
+describe("promo code rules", () => {
+  const at = new Date("2026-03-01T10:00:00Z");
+
+  function promo(overrides: Partial<PromoCode> = {}): PromoCode {
+    return {
+      id: 1,
+      code: "BAHOR20",
+      discountType: "percent",
+      discountValue: 20,
+      productKeys: null,
+      maxUses: null,
+      perUserLimit: 1,
+      usedCount: 0,
+      expiresAt: null,
+      isActive: true,
+      ...overrides,
+    };
+  }
+
+  it("extracts explicit and bare promo codes from chat text", () => {
+    expect(extractPromoCodeCandidate("promokod bahor20")).toEqual({
+      code: "BAHOR20",
+      explicit: true,
+    });
+    expect(extractPromoCodeCandidate("Promo: vip-50")).toEqual({
+      code: "VIP-50",
+      explicit: true,
+    });
+    expect(extractPromoCodeCandidate("bahor20")).toEqual({
+      code: "BAHOR20",
+      explicit: false,
+    });
+    expect(extractPromoCodeCandidate("ha")).toBeUndefined();
+    expect(extractPromoCodeCandidate("narxi qancha")).toBeUndefined();
+  });
+
+  it("ignores promo keywords inside words and numbers after them", () => {
+    expect(extractPromoCodeCandidate("anketa kod 371")).toBeUndefined();
+    expect(
+      extractPromoCodeCandidate("promokodni qayerdan olaman"),
+    ).toBeUndefined();
+    expect(extractPromoCodeCandidate("kodi 12345 bo'lgan qiz")).toBeUndefined();
+  });
+
+  it("computes percentage and fixed discounts capped at the amount", () => {
+    expect(computePromoDiscount(promo(), 99_000)).toBe(19_800);
+    expect(
+      computePromoDiscount(
+        promo({ discountType: "fixed", discountValue: 150_000 }),
+        99_000,
+      ),
+    ).toBe(99_000);
+  });
+
+  it("rejects codes that are expired, exhausted, reused or out of scope", () => {
+    const params = { productKey: "contact", userRedemptions: 0, at };
+
+    expect(checkPromoEligibility(promo(), params)).toBeNull();
+    expect(checkPromoEligibility(promo({ isActive: false }), params)).toBe(
+      "inactive",
+    );
+    expect(
+      checkPromoEligibility(
+        promo({ expiresAt: new Date("2026-02-01T00:00:00Z") }),
+        params,
+      ),
+    ).toBe("expired");
+    expect(
+      checkPromoEligibility(promo({ maxUses: 5, usedCount: 5 }), params),
+    ).toBe("exhausted");
+    expect(
+      checkPromoEligibility(promo(), { ...params, userRedemptions: 1 }),
+    ).toBe("user_limit");
+    expect(checkPromoEligibility(promo({ productKeys: ["vip"] }), params)).toBe(
+      "not_applicable",
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { PromoCode, PromoRejectionReason } from "./promo-codes.types";
+
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+/** Keywords count only as whole words, so "promokodni" or "kodi" do not introduce a code. */
+const EXPLICIT_PROMO_PATTERN =
+  /\b(?:promo\s*-?\s*kod|promokod|promo|kupon|kod)\b\s*[:-]?\s*([a-z0-9_-]{3,32})\b/i;
+
+export function normalizePromoCode(raw: string) {
+  return raw.trim().toUpperCase();
+}
+
+export function isValidPromoCodeFormat(code: string) {
+  return PROMO_CODE_PATTERN.test(code);
+}
+
+/**
+ * Finds a promo code in a chat message. `explicit` is true when the user
+ * introduced it with a keyword ("promokod ABC"); a bare single token is only
+ * a guess and should not produce an error reply when it does not exist.
+ */
+export function extractPromoCodeCandidate(text: string) {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  // An all-digit token after "kod" is an anketa or order number, not a code.
+  const explicit = trimmed.match(EXPLICIT_PROMO_PATTERN);
+  if (explicit?.[1] && /[a-z]/i.test(explicit[1])) {
+    return { code: normalizePromoCode(explicit[1]), explicit: true };
+  }
+
+  if (/\s/.test(trimmed)) return undefined;
+  const code = normalizePromoCode(trimmed);
+  if (!isValidPromoCodeFormat(code) || !/\d/.test(code)) return undefined;
+  return { code, explicit: false };
+}
+
+export function checkPromoEligibility(
+  promo: PromoCode,
+  params: { productKey: string; userRedemptions: number; at: Date },
+): PromoRejectionReason | null {
+  if (!promo.isActive) return "inactive";
+  if (promo.expiresAt && promo.expiresAt <= params.at) return "expired";
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) {
+    return "exhausted";
+  }
+  if (
+    promo.perUserLimit !== null &&
+    params.userRedemptions >= promo.perUserLimit
+  ) {
+    return "user_limit";
+  }
+  if (promo.productKeys && !promo.productKeys.includes(params.productKey)) {
+    return "not_applicable";
+  }
+  return null;
+}
+
+export function computePromoDiscount(promo: PromoCode, amount: number) {
+  if (amount <= 0) return 0;
+  const raw =
+    promo.discountType === "percent"
+      ? Math.round((amount * promo.discountValue) / 100)
+      : promo.discountValue;
+  return Math.min(Math.max(raw, 0), amount);
+}
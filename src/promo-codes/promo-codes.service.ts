@@ -0,0 +1,286 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  NodePgDatabase,
+  NodePgQueryResultHKT,
+} from "drizzle-orm/node-postgres";
+import { PgDatabase } from "drizzle-orm/pg-core";
+import { and, asc, count, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import { promoCodes, promoRedemptions } from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { ensurePromoCodesSchema } from "./promo-codes-schema";
+import {
+  checkPromoEligibility,
+  computePromoDiscount,
+  normalizePromoCode,
+} from "./promo-codes.rules";
+import {
+  PromoApplyResult,
+  PromoCode,
+  PromoDiscountType,
+} from "./promo-codes.types";
+import {
+  validatePromoCodeId,
+  validatePromoCodeInput,
+} from "./promo-code.validation";
+
+/** The app database or a transaction opened on it. */
+export type PromoDbExecutor = PgDatabase<NodePgQueryResultHKT, typeof schema>;
+
+@Injectable()
+export class PromoCodesService {
+  private readonly logger = new Logger(PromoCodesService.name);
+  private schemaChecked = false;
+
+  constructor(@Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>) {}
+
+  async listCodes() {
+    await this.ensureSchema();
+    const rows = await this.db
+      .select()
+      .from(promoCodes)
+      .orderBy(asc(promoCodes.id));
+    return rows.map((row) => this.toPromoCode(row));
+  }
+
+  async createCode(payload: Record<string, unknown>) {
+    await this.ensureSchema();
+    const input = validatePromoCodeInput(payload, "create");
+    const existing = await this.findByCode(input.code!);
+    if (existing) {
+      throw new ConflictException("Promo code already exists");
+    }
+
+    const now = nowInUzbekistan();
+    const inserted = await this.db
+      .insert(promoCodes)
+      .values({
+        code: input.code!,
+        discountType: input.discountType!,
+        discountValue: input.discountValue!,
+        productKeys: input.productKeys
+          ? JSON.stringify(input.productKeys)
+          : null,
+        maxUses: input.maxUses ?? null,
+        perUserLimit: input.perUserLimit === undefined ? 1 : input.perUserLimit,
+        expiresAt: input.expiresAt ?? null,
+        isActive: input.isActive ?? true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    const promo = this.toPromoCode(inserted[0]);
+    this.logTelemetry("promo.created", { promo });
+    return promo;
+  }
+
+  async updateCode(id: string, payload: Record<string, unknown>) {
+    await this.ensureSchema();
+    const promoId = validatePromoCodeId(id);
+    const { productKeys, ...rest } = validatePromoCodeInput(payload, "update");
+
+    const updated = await this.db
+      .update(promoCodes)
+      .set({
+        ...rest,
+        ...(productKeys !== undefined
+          ? { productKeys: productKeys ? JSON.stringify(productKeys) : null }
+          : {}),
+        updatedAt: nowInUzbekistan(),
+      })
+      .where(eq(promoCodes.id, promoId))
+      .returning();
+
+    if (!updated.length) {
+      throw new NotFoundException("Promo code not found");
+    }
+
+    const promo = this.toPromoCode(updated[0]);
+    this.logTelemetry("promo.updated", { promo });
+    return promo;
+  }
+
+  async deactivateCode(id: string) {
+    return this.updateCode(id, { isActive: false });
+  }
+
+  async exists(code: string) {
+    await this.ensureSchema();
+    return Boolean(await this.findByCode(normalizePromoCode(code)));
+  }
+
+  /**
+   * Validates `code` for one order and reserves a use. The caller re-prices
+   * the order with `finalAmount` and stores `promo` in `orders.meta`; pass its
+   * transaction as `db` so the use is only kept when the order is updated.
+   */
+  async redeemForOrder(
+    params: {
+      code: string;
+      userId: string;
+      orderId: number;
+      productKey: string;
+      amount: number;
+    },
+    db: PromoDbExecutor = this.db,
+  ): Promise<PromoApplyResult> {
+    await this.ensureSchema();
+    const promo = await this.findByCode(normalizePromoCode(params.code), db);
+    if (!promo) return { ok: false, reason: "not_found" };
+
+    const orderRedemption = await db
+      .select({ id: promoRedemptions.id })
+      .from(promoRedemptions)
+      .where(eq(promoRedemptions.orderId, params.orderId))
+      .limit(1);
+    if (orderRedemption.length) return { ok: false, reason: "already_applied" };
+
+    const userRedemptions = await db
+      .select({ total: count() })
+      .from(promoRedemptions)
+      .where(
+        and(
+          eq(promoRedemptions.promoCodeId, promo.id),
+          eq(promoRedemptions.userId, params.userId),
+        ),
+      );
+
+    const rejection = checkPromoEligibility(promo, {
+      productKey: params.productKey,
+      userRedemptions: Number(userRedemptions[0]?.total ?? 0),
+      at: nowInUzbekistan(),
+    });
+    if (rejection) return { ok: false, reason: rejection };
+
+    const reserved = await db
+      .update(promoCodes)
+      .set({
+        usedCount: sql`${promoCodes.usedCount} + 1`,
+        updatedAt: nowInUzbekistan(),
+      })
+      .where(
+        and(
+          eq(promoCodes.id, promo.id),
+          or(
+            isNull(promoCodes.maxUses),
+            lt(promoCodes.usedCount, promoCodes.maxUses),
+          ),
+        ),
+      )
+      .returning({ id: promoCodes.id });
+    if (!reserved.length) return { ok: false, reason: "exhausted" };
+
+    const discountAmount = computePromoDiscount(promo, params.amount);
+    const inserted = await db
+      .insert(promoRedemptions)
+      .values({
+        promoCodeId: promo.id,
+        userId: params.userId,
+        orderId: params.orderId,
+        discountAmount,
+        createdAt: nowInUzbekistan(),
+      })
+      .onConflictDoNothing({ target: promoRedemptions.orderId })
+      .returning({ id: promoRedemptions.id });
+
+    if (!inserted.length) {
+      await this.releaseUse(promo.id, db);
+      return { ok: false, reason: "already_applied" };
+    }
+
+    this.logTelemetry("promo.redeemed", {
+      code: promo.code,
+      userId: params.userId,
+      orderId: params.orderId,
+      discountAmount,
+    });
+
+    return {
+      ok: true,
+      finalAmount: params.amount - discountAmount,
+      promo: {
+        promoCodeId: promo.id,
+        code: promo.code,
+        discountType: promo.discountType,
+        discountValue: promo.discountValue,
+        discountAmount,
+        originalAmount: params.amount,
+      },
+    };
+  }
+
+  private async releaseUse(promoId: number, db: PromoDbExecutor = this.db) {
+    await db
+      .update(promoCodes)
+      .set({
+        usedCount: sql`GREATEST(${promoCodes.usedCount} - 1, 0)`,
+        updatedAt: nowInUzbekistan(),
+      })
+      .where(eq(promoCodes.id, promoId));
+  }
+
+  private async findByCode(code: string, db: PromoDbExecutor = this.db) {
+    const rows = await db
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.code, code))
+      .limit(1);
+    return rows[0] ? this.toPromoCode(rows[0]) : undefined;
+  }
+
+  private toPromoCode(row: typeof promoCodes.$inferSelect): PromoCode {
+    return {
+      id: row.id,
+      code: row.code,
+      discountType: row.discountType as PromoDiscountType,
+      discountValue: row.discountValue,
+      productKeys: this.parseProductKeys(row.productKeys),
+      maxUses: row.maxUses ?? null,
+      perUserLimit: row.perUserLimit ?? null,
+      usedCount: row.usedCount,
+      expiresAt: row.expiresAt ?? null,
+      isActive: row.isActive,
+    };
+  }
+
+  private parseProductKeys(raw: string | null) {
+    if (!raw) return null;
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) && parsed.length
+        ? parsed.map((item) => String(item))
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private logTelemetry(event: string, payload: Record<string, unknown>) {
+    this.logger.log(
+      JSON.stringify({
+        event,
+        ...payload,
+      }),
+    );
+  }
+
+  private async ensureSchema() {
+    if (this.schemaChecked) return;
+    this.schemaChecked = true;
+    try {
+      await ensurePromoCodesSchema(this.db, this.logger);
+    } catch (error) {
+      this.schemaChecked = false;
+      this.logger.warn("Failed to ensure promo_codes schema", error as Error);
+      throw error;
+    }
+  }
+}
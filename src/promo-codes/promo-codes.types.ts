@@ -0,0 +1,37 @@
+export type PromoDiscountType = "percent" | "fixed";
+
+export type PromoCode = {
+  id: number;
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  productKeys: string[] | null;
+  maxUses: number | null;
+  perUserLimit: number | null;
+  usedCount: number;
+  expiresAt: Date | null;
+  isActive: boolean;
+};
+
+export type PromoRejectionReason =
+  | "not_found"
+  | "inactive"
+  | "expired"
+  | "exhausted"
+  | "user_limit"
+  | "not_applicable"
+  | "already_applied";
+
+/** Shape stored under `orders.meta.promo` once a code is redeemed. */
+export type OrderPromoMeta = {
+  promoCodeId: number;
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  discountAmount: number;
+  originalAmount: number;
+};
+
+export type PromoApplyResult =
+  | { ok: true; promo: OrderPromoMeta; finalAmount: number }
+  | { ok: false; reason: PromoRejectionReason };
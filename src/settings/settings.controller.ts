@@ -1,11 +1,17 @@
-import { Body, Controller, Get, Patch } from "@nestjs/common";
+import { Body, Controller, Get, Patch, UseGuards } from "@nestjs/common";
 import { SettingsService } from "./settings.service";
+import type { AiProviderName } from "../ai/ai.types";
+import { AdminRoles } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
 
 @Controller("settings")
+@UseGuards(AdminAuthGuard)
 export class SettingsController {
   constructor(private readonly settingsService: SettingsService) {}
 
   @Get()
+  @AdminRoles(...ADMIN_READ_ROLES)
   async getSettings() {
     return this.settingsService.getSettings();
   }
@@ -16,12 +22,30 @@ export class SettingsController {
     @Body("summaryCronMinutes") summaryCronMinutes?: number,
     @Body("systemPrompt") systemPrompt?: string,
     @Body("summaryPrompt") summaryPrompt?: string,
+    @Body("dialogueAiProvider") dialogueAiProvider?: AiProviderName,
+    @Body("summaryAiProvider") summaryAiProvider?: AiProviderName,
+    @Body("imageAiProvider") imageAiProvider?: AiProviderName,
+    @Body("transcriptionAiProvider") transcriptionAiProvider?: AiProviderName,
+    @Body("escalationAiProvider") escalationAiProvider?: AiProviderName,
+    @Body("orderReminderMinutes") orderReminderMinutes?: number,
+    @Body("orderExpiryMinutes") orderExpiryMinutes?: number,
+    @Body("orderReminderText") orderReminderText?: string,
+    @Body("orderExpiryText") orderExpiryText?: string,
   ) {
     return this.settingsService.updateSettings({
       summaryBatchSize,
       summaryCronMinutes,
       systemPrompt,
       summaryPrompt,
+      dialogueAiProvider,
+      summaryAiProvider,
+      imageAiProvider,
+      transcriptionAiProvider,
+      escalationAiProvider,
+      orderReminderMinutes,
+      orderExpiryMinutes,
+      orderReminderText,
+      orderExpiryText,
     });
   }
 }
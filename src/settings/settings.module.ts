@@ -1,8 +1,10 @@
 import { Module } from "@nestjs/common";
 import { SettingsService } from "./settings.service";
 import { SettingsController } from "./settings.controller";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
 
 @Module({
+  imports: [AdminAuthModule],
   providers: [SettingsService],
   controllers: [SettingsController],
   exports: [SettingsService],
@@ -5,29 +5,48 @@ import * as schema from "../database/schema";
 import { appSettings } from "../database/schema";
 import { eq, sql } from "drizzle-orm";
 import { nowInUzbekistan } from "../common/time";
+import { AI_PROVIDER_NAMES, AiProviderName } from "../ai/ai.types";
 
 export type SummarySettings = {
   summaryBatchSize: number;
   summaryCronMinutes: number;
   systemPrompt: string;
   summaryPrompt: string;
+  dialogueAiProvider: AiProviderName;
+  summaryAiProvider: AiProviderName;
+  imageAiProvider: AiProviderName;
+  transcriptionAiProvider: AiProviderName;
+  escalationAiProvider: AiProviderName;
+  orderReminderMinutes: number;
+  orderExpiryMinutes: number;
+  orderReminderText: string;
+  orderExpiryText: string;
 };
 
 const DEFAULT_SUMMARY_BATCH_SIZE = 100;
 const DEFAULT_SUMMARY_CRON_MINUTES = 1;
+const DEFAULT_AI_PROVIDER: AiProviderName = "gemini";
+const DEFAULT_ORDER_REMINDER_MINUTES = 60;
+const DEFAULT_ORDER_EXPIRY_MINUTES = 24 * 60;
+const DEFAULT_ORDER_REMINDER_TEXT =
+  "Buyurtmangiz hali yakunlanmagan. Davom ettiramizmi?";
+const DEFAULT_ORDER_EXPIRY_TEXT =
+  "Buyurtma uzoq vaqt yakunlanmagani uchun bekor qilindi. Kerak bo'lsa qaytadan yozing.";
 const DEFAULT_SYSTEM_PROMPT_TEMPLATE = [
   "Siz sovchilik agentligi adminisiz. Ismingiz: {adminName}.",
-  "Mijozlar bilan ozbek (lotin) tilida gaplashing.",
+  "Mijoz qaysi tilda yozsa (o'zbek lotin, o'zbek kirill yoki rus), o'sha tilda javob bering; FLOW_CONTEXT dagi user_language ga qarang.",
   "Javoblar 1-2 gap, qisqa va aniq bo'lsin. Ortikcha reklama yoki takror yozmang.",
   "Savolga javob bering, kerak bo'lsa bitta aniqlashtiruvchi savol bering.",
   "O'zingizni bot deb tanitmang.",
   "Narx yoki qoida haqida ishonchsiz bo'lsangiz taxmin qilmang, aniqlashtiring.",
-  "Kontakt/raqam/rasm so'ralganda anketa ID so'rang (masalan #371). To'lovdan keyin kontakt va 1 ta rasm beriladi.",
-  "Posting an Ad: First, clarify their gender (male or female). Then send only send_template_link to send the template link to the customer.",
-  "VIP so'ralganda: VIP kanal oyiga {vipPrice} so'm. Xohlasa obunani boshlang.",
+  "Kontakt/raqam/rasm so'ralganda anketa ID so'rang (masalan #371). ID ma'lum bo'lsa create_contact_order vositasini chaqiring. To'lovdan keyin kontakt va 1 ta rasm beriladi.",
+  "Mijoz qanday nomzod izlayotganini aytsa (jins, yosh, viloyat, bo'y), search_candidates vositasini chaqiring. Bilinmagan maydonlarni to'ldirmang.",
+  "Posting an Ad: call start_ad_order. Once the gender is known, call send_template to send the template link to the customer.",
+  "VIP so'ralganda: VIP kanal oyiga {vipPrice} so'm. Xohlasa start_vip_order vositasi bilan obunani boshlang.",
+  "Mijoz buyurtmasi holatini so'rasa lookup_order_status vositasini chaqiring.",
   "Narxlar (faqat so'ralganda): kontakt {contactPrice} so'm, e'lon {adPrice} so'm. Qizlar uchun birinchi e'lon bepul.",
   "Kafolat: nomzod bog'lanmasa 100% pul qaytariladi.",
-  "Agar mijoz shikoyat qilsa, haqorat qilsa yoki muammo haqida yozsa, faqat quyidagi matnni yozing: escalate_to_human",
+  "Agar mijoz shikoyat qilsa, haqorat qilsa yoki muammo haqida yozsa, escalate vositasini chaqiring.",
 ].join("\n");
 const DEFAULT_SUMMARY_PROMPT_TEMPLATE = [
   "Siz yordamchi assistentsiz.",
@@ -54,6 +73,15 @@ export class SettingsService {
         summaryCronMinutes: DEFAULT_SUMMARY_CRON_MINUTES,
         systemPrompt: DEFAULT_SYSTEM_PROMPT_TEMPLATE,
         summaryPrompt: DEFAULT_SUMMARY_PROMPT_TEMPLATE,
+        dialogueAiProvider: DEFAULT_AI_PROVIDER,
+        summaryAiProvider: DEFAULT_AI_PROVIDER,
+        imageAiProvider: DEFAULT_AI_PROVIDER,
+        transcriptionAiProvider: DEFAULT_AI_PROVIDER,
+        escalationAiProvider: DEFAULT_AI_PROVIDER,
+        orderReminderMinutes: DEFAULT_ORDER_REMINDER_MINUTES,
+        orderExpiryMinutes: DEFAULT_ORDER_EXPIRY_MINUTES,
+        orderReminderText: DEFAULT_ORDER_REMINDER_TEXT,
+        orderExpiryText: DEFAULT_ORDER_EXPIRY_TEXT,
       };
     }
 
@@ -62,6 +90,17 @@ export class SettingsService {
       summaryCronMinutes: existing[0].summaryCronMinutes,
       systemPrompt: existing[0].systemPrompt ?? DEFAULT_SYSTEM_PROMPT_TEMPLATE,
       summaryPrompt: existing[0].summaryPrompt ?? DEFAULT_SUMMARY_PROMPT_TEMPLATE,
+      dialogueAiProvider: existing[0].dialogueAiProvider as AiProviderName,
+      summaryAiProvider: existing[0].summaryAiProvider as AiProviderName,
+      imageAiProvider: existing[0].imageAiProvider as AiProviderName,
+      transcriptionAiProvider: existing[0]
+        .transcriptionAiProvider as AiProviderName,
+      escalationAiProvider: existing[0].escalationAiProvider as AiProviderName,
+      orderReminderMinutes: existing[0].orderReminderMinutes,
+      orderExpiryMinutes: existing[0].orderExpiryMinutes,
+      orderReminderText:
+        existing[0].orderReminderText ?? DEFAULT_ORDER_REMINDER_TEXT,
+      orderExpiryText: existing[0].orderExpiryText ?? DEFAULT_ORDER_EXPIRY_TEXT,
     });
   }
 
@@ -73,6 +112,20 @@ export class SettingsService {
       summaryCronMinutes: input.summaryCronMinutes ?? current.summaryCronMinutes,
       systemPrompt: input.systemPrompt ?? current.systemPrompt,
       summaryPrompt: input.summaryPrompt ?? current.summaryPrompt,
+      dialogueAiProvider:
+        input.dialogueAiProvider ?? current.dialogueAiProvider,
+      summaryAiProvider: input.summaryAiProvider ?? current.summaryAiProvider,
+      imageAiProvider: input.imageAiProvider ?? current.imageAiProvider,
+      transcriptionAiProvider:
+        input.transcriptionAiProvider ?? current.transcriptionAiProvider,
+      escalationAiProvider:
+        input.escalationAiProvider ?? current.escalationAiProvider,
+      orderReminderMinutes:
+        input.orderReminderMinutes ?? current.orderReminderMinutes,
+      orderExpiryMinutes:
+        input.orderExpiryMinutes ?? current.orderExpiryMinutes,
+      orderReminderText: input.orderReminderText ?? current.orderReminderText,
+      orderExpiryText: input.orderExpiryText ?? current.orderExpiryText,
     });
 
     const existing = await this.db
@@ -88,6 +141,15 @@ export class SettingsService {
           summaryCronMinutes: next.summaryCronMinutes,
           systemPrompt: next.systemPrompt,
           summaryPrompt: next.summaryPrompt,
+          dialogueAiProvider: next.dialogueAiProvider,
+          summaryAiProvider: next.summaryAiProvider,
+          imageAiProvider: next.imageAiProvider,
+          transcriptionAiProvider: next.transcriptionAiProvider,
+          escalationAiProvider: next.escalationAiProvider,
+          orderReminderMinutes: next.orderReminderMinutes,
+          orderExpiryMinutes: next.orderExpiryMinutes,
+          orderReminderText: next.orderReminderText,
+          orderExpiryText: next.orderExpiryText,
           createdAt: nowInUzbekistan(),
           updatedAt: nowInUzbekistan(),
         })
@@ -98,6 +160,15 @@ export class SettingsService {
         systemPrompt: inserted[0].systemPrompt ?? DEFAULT_SYSTEM_PROMPT_TEMPLATE,
         summaryPrompt:
           inserted[0].summaryPrompt ?? DEFAULT_SUMMARY_PROMPT_TEMPLATE,
+        dialogueAiProvider: next.dialogueAiProvider,
+        summaryAiProvider: next.summaryAiProvider,
+        imageAiProvider: next.imageAiProvider,
+        transcriptionAiProvider: next.transcriptionAiProvider,
+        escalationAiProvider: next.escalationAiProvider,
+        orderReminderMinutes: inserted[0].orderReminderMinutes,
+        orderExpiryMinutes: inserted[0].orderExpiryMinutes,
+        orderReminderText: next.orderReminderText,
+        orderExpiryText: next.orderExpiryText,
       };
     }
 
@@ -108,6 +179,15 @@ export class SettingsService {
         summaryCronMinutes: next.summaryCronMinutes,
         systemPrompt: next.systemPrompt,
         summaryPrompt: next.summaryPrompt,
+        dialogueAiProvider: next.dialogueAiProvider,
+        summaryAiProvider: next.summaryAiProvider,
+        imageAiProvider: next.imageAiProvider,
+        transcriptionAiProvider: next.transcriptionAiProvider,
+        escalationAiProvider: next.escalationAiProvider,
+        orderReminderMinutes: next.orderReminderMinutes,
+        orderExpiryMinutes: next.orderExpiryMinutes,
+        orderReminderText: next.orderReminderText,
+        orderExpiryText: next.orderExpiryText,
         updatedAt: nowInUzbekistan(),
       })
       .where(eq(appSettings.id, existing[0].id))
@@ -119,6 +199,15 @@ export class SettingsService {
       systemPrompt: updated[0].systemPrompt ?? DEFAULT_SYSTEM_PROMPT_TEMPLATE,
       summaryPrompt:
         updated[0].summaryPrompt ?? DEFAULT_SUMMARY_PROMPT_TEMPLATE,
+      dialogueAiProvider: next.dialogueAiProvider,
+      summaryAiProvider: next.summaryAiProvider,
+      imageAiProvider: next.imageAiProvider,
+      transcriptionAiProvider: next.transcriptionAiProvider,
+      escalationAiProvider: next.escalationAiProvider,
+      orderReminderMinutes: updated[0].orderReminderMinutes,
+      orderExpiryMinutes: updated[0].orderExpiryMinutes,
+      orderReminderText: next.orderReminderText,
+      orderExpiryText: next.orderExpiryText,
     };
   }
 
@@ -140,6 +229,31 @@ export class SettingsService {
         input.summaryPrompt,
         DEFAULT_SUMMARY_PROMPT_TEMPLATE,
       ),
+      dialogueAiProvider: this.normalizeAiProvider(input.dialogueAiProvider),
+      summaryAiProvider: this.normalizeAiProvider(input.summaryAiProvider),
+      imageAiProvider: this.normalizeAiProvider(input.imageAiProvider),
+      transcriptionAiProvider: this.normalizeAiProvider(
+        input.transcriptionAiProvider,
+      ),
+      escalationAiProvider: this.normalizeAiProvider(
+        input.escalationAiProvider,
+      ),
+      orderReminderMinutes: this.normalizePositiveInt(
+        input.orderReminderMinutes,
+        DEFAULT_ORDER_REMINDER_MINUTES,
+      ),
+      orderExpiryMinutes: this.normalizePositiveInt(
+        input.orderExpiryMinutes,
+        DEFAULT_ORDER_EXPIRY_MINUTES,
+      ),
+      orderReminderText: this.normalizePrompt(
+        input.orderReminderText,
+        DEFAULT_ORDER_REMINDER_TEXT,
+      ),
+      orderExpiryText: this.normalizePrompt(
+        input.orderExpiryText,
+        DEFAULT_ORDER_EXPIRY_TEXT,
+      ),
     };
   }
 
@@ -158,6 +272,14 @@ export class SettingsService {
     return normalized;
   }
 
+  private normalizeAiProvider(value: unknown): AiProviderName {
+    if (typeof value !== "string") return DEFAULT_AI_PROVIDER;
+    const normalized = value.trim().toLowerCase();
+    return AI_PROVIDER_NAMES.includes(normalized as AiProviderName)
+      ? (normalized as AiProviderName)
+      : DEFAULT_AI_PROVIDER;
+  }
+
   private async ensureSettingsSchema() {
     if (this.schemaChecked) return;
     this.schemaChecked = true;
@@ -168,6 +290,33 @@ export class SettingsService {
       await this.db.execute(
         sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS summary_prompt text`,
       );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS dialogue_ai_provider text NOT NULL DEFAULT 'gemini'`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS summary_ai_provider text NOT NULL DEFAULT 'gemini'`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS image_ai_provider text NOT NULL DEFAULT 'gemini'`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS transcription_ai_provider text NOT NULL DEFAULT 'gemini'`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS escalation_ai_provider text NOT NULL DEFAULT 'gemini'`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS order_reminder_minutes integer NOT NULL DEFAULT 60`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS order_expiry_minutes integer NOT NULL DEFAULT 1440`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS order_reminder_text text`,
+      );
+      await this.db.execute(
+        sql`ALTER TABLE app_settings ADD COLUMN IF NOT EXISTS order_expiry_text text`,
+      );
     } catch (error) {
       this.logger.warn("Failed to ensure app_settings columns", error as Error);
     }
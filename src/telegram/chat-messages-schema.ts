@@ -0,0 +1,21 @@
+import { Logger } from "@nestjs/common";
+import { sql } from "drizzle-orm";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+/** Columns added for the escalation relay; the table itself predates runtime checks. */
+export async function ensureChatMessagesSchema(
+  db: NodePgDatabase<any>,
+  logger: Logger,
+) {
+  await db.execute(
+    sql`ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "admin_id" text`,
+  );
+  await db.execute(
+    sql`ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "relay_message_id" text`,
+  );
+  await db.execute(
+    sql`CREATE INDEX IF NOT EXISTS "chat_messages_relay_message_idx" ON "chat_messages" ("relay_message_id")`,
+  );
+
+  logger.log("Chat messages schema ensured");
+}
@@ -0,0 +1,71 @@
+import {
+  DIALOGUE_TOOLS,
+  parseDialogueToolCall,
+  parseLegacyDialogueOutput,
+} from "./dialogue-tools";
+
+describe("dialogue tools", () => {
+  it("declares every tool the executor dispatches", () => {
+    expect(DIALOGUE_TOOLS.map((tool) => tool.name)).toEqual([
+      "create_contact_order",
+      "start_vip_order",
+      "start_ad_order",
+      "send_template",
+      "escalate",
+      "lookup_order_status",
+      "search_candidates",
+    ]);
+  });
+
+  it("validates tool arguments", () => {
+    expect(
+      parseDialogueToolCall({
+        name: "create_contact_order",
+        args: { anketa_id: "371" },
+      }),
+    ).toEqual({ name: "create_contact_order", adId: 371 });
+    expect(
+      parseDialogueToolCall({
+        name: "create_contact_order",
+        args: { anketa_id: -4 },
+      }),
+    ).toBeUndefined();
+    expect(
+      parseDialogueToolCall({ name: "drop_tables", args: {} }),
+    ).toBeUndefined();
+  });
+
+  it("normalises search filters", () => {
+    expect(
+      parseDialogueToolCall({
+        name: "search_candidates",
+        args: {
+          gender: "female",
+          min_age: 20,
+          max_age: 28,
+          region: "Farg'ona",
+          min_height: 1.6,
+        },
+      }),
+    ).toEqual({
+      name: "search_candidates",
+      filters: { gender: "female", region: "fergana", minAge: 20, maxAge: 28 },
+    });
+  });
+
+  it("maps plain-text commands of older prompts to tools", () => {
+    expect(parseLegacyDialogueOutput("escalate_to_human")).toEqual({
+      name: "escalate",
+    });
+    expect(parseLegacyDialogueOutput(" send_template_link ")).toEqual({
+      name: "send_template",
+    });
+    expect(parseLegacyDialogueOutput("Salom!")).toBeUndefined();
+  });
+
+  it("never starts a search from reply text", () => {
+    expect(
+      parseLegacyDialogueOutput("search_candidates gender=male"),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+import { AiToolCall, AiToolDeclaration } from "../ai/ai.types";
+import {
+  parseCandidateGender,
+  parseCandidateRegion,
+} from "../candidates/anketa.parser";
+import { CandidateSearchFilters } from "../candidates/candidate-search.rules";
+
+export type DialogueToolCall =
+  | { name: "create_contact_order"; adId: number }
+  | { name: "start_vip_order" }
+  | { name: "start_ad_order" }
+  | { name: "send_template" }
+  | { name: "escalate"; reason?: string }
+  | { name: "lookup_order_status" }
+  | { name: "search_candidates"; filters: CandidateSearchFilters };
+
+export type DialogueToolName = DialogueToolCall["name"];
+
+/** Tools offered to the dialogue model on every reply. */
+export const DIALOGUE_TOOLS: AiToolDeclaration[] = [
+  {
+    name: "create_contact_order",
+    description:
+      "Mijoz aniq anketa ID bo'yicha nomzod kontaktini olmoqchi bo'lsa chaqiring.",
+    parameters: {
+      anketa_id: { type: "integer", description: "Anketa ID, masalan 371." },
+    },
+    required: ["anketa_id"],
+  },
+  {
+    name: "start_vip_order",
+    description: "Mijoz VIP kanalga obuna bo'lmoqchi bo'lsa chaqiring.",
+  },
+  {
+    name: "start_ad_order",
+    description:
+      "Mijoz o'z anketasini kanalga e'lon qilmoqchi bo'lsa chaqiring.",
+  },
+  {
+    name: "send_template",
+    description:
+      "E'lon jarayonida jins aniq bo'lgach anketa shablonini yuborish uchun chaqiring.",
+  },
+  {
+    name: "escalate",
+    description:
+      "Mijoz shikoyat qilsa, haqorat qilsa yoki admin aralashuvi kerak bo'lsa chaqiring.",
+    parameters: {
+      reason: { type: "string", description: "Qisqa sabab." },
+    },
+  },
+  {
+    name: "lookup_order_status",
+    description: "Mijoz buyurtmalari holatini so'rasa chaqiring.",
+  },
+  {
+    name: "search_candidates",
+    description:
+      "Mijoz qanday nomzod izlayotganini aytsa chaqiring. Faqat mijoz aytgan maydonlarni to'ldiring.",
+    parameters: {
+      gender: {
+        type: "string",
+        description: "Izlanayotgan nomzod jinsi.",
+        enum: ["female", "male"],
+      },
+      min_age: { type: "integer", description: "Eng kichik yosh." },
+      max_age: { type: "integer", description: "Eng katta yosh." },
+      region: { type: "string", description: "Viloyat yoki shahar." },
+      min_height: { type: "integer", description: "Eng past bo'y, sm." },
+      max_height: { type: "integer", description: "Eng baland bo'y, sm." },
+    },
+  },
+];
+
+/** Validates a model tool call; unknown tools and bad arguments give undefined. */
+export function parseDialogueToolCall(
+  call: AiToolCall,
+): DialogueToolCall | undefined {
+  const args = call.args ?? {};
+  switch (call.name) {
+    case "create_contact_order": {
+      const adId = readPositiveInt(args.anketa_id);
+      return adId ? { name: call.name, adId } : undefined;
+    }
+    case "start_vip_order":
+    case "start_ad_order":
+    case "send_template":
+    case "lookup_order_status":
+      return { name: call.name };
+    case "escalate":
+      return {
+        name: call.name,
+        reason: typeof args.reason === "string" ? args.reason : undefined,
+      };
+    case "search_candidates":
+      return { name: call.name, filters: readSearchFilters(args) };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Maps the exact plain-text commands older system prompts asked for
+ * (`escalate_to_human`, `send_template_link`) to the matching tool, so
+ * customised prompts keep working. Searches only run from real tool calls.
+ */
+export function parseLegacyDialogueOutput(
+  text: string,
+): DialogueToolCall | undefined {
+  const normalized = text.trim().toLowerCase();
+  if (normalized === "escalate_to_human") return { name: "escalate" };
+  if (normalized === "send_template_link") return { name: "send_template" };
+  return undefined;
+}
+
+function readSearchFilters(args: Record<string, unknown>) {
+  const filters: CandidateSearchFilters = {};
+  if (typeof args.gender === "string") {
+    filters.gender = parseCandidateGender(args.gender) ?? undefined;
+  }
+  if (typeof args.region === "string") {
+    filters.region = parseCandidateRegion(args.region).region ?? undefined;
+  }
+  filters.minAge = readPositiveInt(args.min_age);
+  filters.maxAge = readPositiveInt(args.max_age);
+  filters.minHeightCm = readPositiveInt(args.min_height);
+  filters.maxHeightCm = readPositiveInt(args.max_height);
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined),
+  ) as CandidateSearchFilters;
+}
+
+function readPositiveInt(value: unknown) {
+  const numeric = typeof value === "string" ? Number(value) : value;
+  return typeof numeric === "number" && Number.isInteger(numeric) && numeric > 0
+    ? numeric
+    : undefined;
+}
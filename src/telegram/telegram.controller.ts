@@ -5,24 +5,29 @@ import {
   Get,
   UseInterceptors,
   ClassSerializerInterceptor,
-} from '@nestjs/common';
-import { TelegramService } from './telegram.service';
+  UseGuards,
+} from "@nestjs/common";
+import { TelegramService } from "./telegram.service";
+import { AdminRoles } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
 
-@Controller('telegram')
+@Controller("telegram")
 @UseInterceptors(ClassSerializerInterceptor)
+@UseGuards(AdminAuthGuard)
 export class TelegramController {
   constructor(private readonly telegramService: TelegramService) {}
 
-  @Post('connect')
-  async connect(@Body('phoneNumber') phoneNumber: string) {
+  @Post("connect")
+  async connect(@Body("phoneNumber") phoneNumber: string) {
     return this.telegramService.sendCode(phoneNumber);
   }
 
-  @Post('verify')
+  @Post("verify")
   async verify(
-    @Body('phoneNumber') phoneNumber: string,
-    @Body('phoneCodeHash') phoneCodeHash: string,
-    @Body('phoneCode') phoneCode: string,
+    @Body("phoneNumber") phoneNumber: string,
+    @Body("phoneCodeHash") phoneCodeHash: string,
+    @Body("phoneCode") phoneCode: string,
   ) {
     const session = await this.telegramService.signIn(
       phoneNumber,
@@ -32,18 +37,19 @@ export class TelegramController {
     return { session };
   }
 
-  @Post('verify-password')
-  async verifyPassword(@Body('password') password: string) {
+  @Post("verify-password")
+  async verifyPassword(@Body("password") password: string) {
     const session = await this.telegramService.signInWithPassword(password);
     return { session };
   }
 
-  @Get('status')
+  @Get("status")
+  @AdminRoles(...ADMIN_READ_ROLES)
   async status() {
     return this.telegramService.getStatus();
   }
 
-  @Post('sync')
+  @Post("sync")
   async syncChats() {
     return this.telegramService.syncTelegramChats();
   }
@@ -4,9 +4,29 @@ import { ConfigModule } from '@nestjs/config';
 import { TelegramController } from './telegram.controller';
 import { SettingsModule } from '../settings/settings.module';
 import { UserProfilesModule } from '../user-profiles/user-profiles.module';
+import { AiModule } from '../ai/ai.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { PricingModule } from '../pricing/pricing.module';
+import { PromoCodesModule } from '../promo-codes/promo-codes.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { OrdersModule } from '../orders/orders.module';
+import { CandidatesModule } from '../candidates/candidates.module';
+import { AdminAuthModule } from '../admin-auth/admin-auth.module';
 
 @Module({
-  imports: [ConfigModule, SettingsModule, UserProfilesModule],
+  imports: [
+    ConfigModule,
+    SettingsModule,
+    UserProfilesModule,
+    AiModule,
+    ModerationModule,
+    PricingModule,
+    PromoCodesModule,
+    PaymentsModule,
+    OrdersModule,
+    CandidatesModule,
+    AdminAuthModule,
+  ],
   controllers: [TelegramController],
   providers: [TelegramService],
   exports: [TelegramService],
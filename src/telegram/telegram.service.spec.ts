@@ -1,10 +1,52 @@
+import { TransactionRollbackError } from "drizzle-orm";
 import { Api } from "telegram";
 import { TelegramService } from "./telegram.service";
+import { AiService } from "../ai/ai.service";
+import { ModerationService } from "../moderation/moderation.service";
+import { PricingService } from "../pricing/pricing.service";
+import { PromoCodesService } from "../promo-codes/promo-codes.service";
+import { PaymentsService } from "../payments/payments.service";
+import { PaymentReceiptsService } from "../payments/payment-receipts.service";
+import { OrdersService } from "../orders/orders.service";
+import { CandidatesService } from "../candidates/candidates.service";
 import {
   MediaArchiveConnectivityError,
   MediaArchiveReadinessError,
 } from "../database/media-archive-readiness";
 
+/** Loose views over the service's private methods and injected mocks. */
+type PrivateMethods = Record<string, (...args: unknown[]) => unknown>;
+type InjectedMocks = Record<string, Record<string, jest.Mock>>;
+
+function privates(service: TelegramService) {
+  return service as unknown as PrivateMethods;
+}
+
+function injected(service: TelegramService) {
+  return service as unknown as InjectedMocks;
+}
+
+/** An incoming message whose media is one document with the given attribute. */
+function documentMessage(
+  mimeType: string,
+  attribute: Api.TypeDocumentAttribute,
+  fields: object = {},
+) {
+  const media = Object.create(
+    Api.MessageMediaDocument.prototype,
+  ) as Api.MessageMediaDocument;
+  media.document = { mimeType, attributes: [attribute] } as Api.Document;
+  return { media, message: "", ...fields } as Api.Message;
+}
+
+function voiceMessage(fields: object = {}) {
+  return documentMessage(
+    "audio/ogg",
+    new Api.DocumentAttributeAudio({ duration: 3, voice: true }),
+    fields,
+  );
+}
+
 describe("TelegramService", () => {
   function createService() {
     const configService: any = {
@@ -21,6 +63,46 @@ describe("TelegramService", () => {
         .fn()
         .mockResolvedValue({ status: "no_profile" }),
     };
+    const aiService = {
+      isAvailable: jest.fn().mockResolvedValue(true),
+      chat: jest.fn().mockResolvedValue(""),
+      generate: jest.fn().mockResolvedValue(""),
+      generateWithImage: jest.fn().mockResolvedValue(""),
+      transcribe: jest.fn().mockResolvedValue(""),
+    };
+    const moderationService = {
+      isBlocked: jest.fn().mockResolvedValue(false),
+      getAiPauseStatus: jest.fn().mockResolvedValue("none"),
+      pauseAi: jest.fn().mockResolvedValue(undefined),
+      block: jest.fn().mockResolvedValue(undefined),
+      clear: jest.fn().mockResolvedValue(undefined),
+    };
+    const pricingService = {
+      getBasePrices: jest.fn().mockResolvedValue({
+        contact: { productKey: "contact", amount: 99_000 },
+        vip: { productKey: "vip", amount: 490_000, periodDays: 30 },
+        ad: { productKey: "ad", amount: 90_000 },
+      }),
+      resolvePrice: jest.fn().mockResolvedValue({ amount: 90_000 }),
+    };
+    const promoCodesService = {
+      exists: jest.fn().mockResolvedValue(false),
+      redeemForOrder: jest.fn(),
+    };
+    const paymentsService = {
+      createPaymentLink: jest.fn().mockReturnValue(undefined),
+    };
+    const paymentReceiptsService = {
+      recordReceipt: jest.fn().mockResolvedValue(undefined),
+    };
+    const ordersService = {
+      create: jest.fn().mockResolvedValue({ id: 1 }),
+      transition: jest.fn().mockResolvedValue(undefined),
+    };
+    const candidatesService = {
+      saveFromAnketa: jest.fn(),
+      search: jest.fn().mockResolvedValue([]),
+    };
     const db: any = {
       execute: jest.fn().mockResolvedValue({
         rows: [
@@ -34,6 +116,14 @@ describe("TelegramService", () => {
       configService,
       settingsService,
       userProfilesService,
+      aiService as unknown as AiService,
+      moderationService as unknown as ModerationService,
+      pricingService as unknown as PricingService,
+      promoCodesService as unknown as PromoCodesService,
+      paymentsService as unknown as PaymentsService,
+      paymentReceiptsService as unknown as PaymentReceiptsService,
+      ordersService as unknown as OrdersService,
+      candidatesService as unknown as CandidatesService,
       db,
     );
   }
@@ -92,14 +182,82 @@ describe("TelegramService", () => {
   it("enforces command-only output for template delivery", () => {
     const service = createService();
 
-    expect((service as any).isTemplateLinkCommand("send_template_link")).toBe(
-      true,
-    );
     expect(
-      (service as any).isTemplateLinkCommand(
-        "send_template_link https://example.com/template",
-      ),
-    ).toBe(false);
+      privates(service).resolveDialogueToolCalls("777", {
+        text: "send_template_link",
+        toolCalls: [],
+      }),
+    ).toEqual([{ name: "send_template" }]);
+    expect(
+      privates(service).resolveDialogueToolCalls("777", {
+        text: "send_template_link https://example.com/template",
+        toolCalls: [],
+      }),
+    ).toEqual([]);
+  });
+
+  it("dispatches model tool calls into the order flow", async () => {
+    const service = createService();
+    const handleOrderFlow = jest
+      .spyOn(service as any, "handleOrderFlow")
+      .mockResolvedValue(true);
+    const warnSpy = jest
+      .spyOn(service["logger"], "warn")
+      .mockImplementation(() => undefined);
+
+    const calls = privates(service).resolveDialogueToolCalls("777", {
+      text: "",
+      toolCalls: [
+        { name: "create_contact_order", args: { anketa_id: 371 } },
+        { name: "create_contact_order", args: { anketa_id: "abc" } },
+        { name: "delete_everything", args: {} },
+      ],
+    });
+    expect(calls).toEqual([{ name: "create_contact_order", adId: 371 }]);
+    expect(warnSpy).toHaveBeenCalledTimes(2);
+
+    await privates(service).executeDialogueTool({
+      senderId: "777",
+      sessionId: 10,
+      message: {},
+      combinedMessage: "371 dagi qizning raqami kerak",
+      call: (calls as unknown[])[0],
+    });
+    await privates(service).executeDialogueTool({
+      senderId: "777",
+      sessionId: 10,
+      message: {},
+      combinedMessage: "VIP kanalga qo'shilmoqchiman",
+      call: { name: "start_vip_order" },
+    });
+
+    expect(handleOrderFlow).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ intent: { kind: "contact", adId: 371 } }),
+    );
+    expect(handleOrderFlow).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ intent: { kind: "vip" } }),
+    );
+  });
+
+  it("routes the escalate tool to a human handoff", async () => {
+    const service = createService();
+    const escalate = jest
+      .spyOn(service as any, "escalateToHuman")
+      .mockResolvedValue(undefined);
+
+    await privates(service).executeDialogueTool({
+      senderId: "777",
+      sessionId: 10,
+      message: { id: 5 },
+      combinedMessage: "yomon xizmat",
+      call: { name: "escalate", reason: "complaint" },
+    });
+
+    expect(escalate).toHaveBeenCalledWith(
+      expect.objectContaining({ senderId: "777", reason: "ai_escalation" }),
+    );
   });
 
   it("blocks raw template URL output and records diagnostic warning", async () => {
@@ -140,12 +298,14 @@ describe("TelegramService", () => {
       .spyOn(service as any, "executeTemplateLinkCommand")
       .mockResolvedValue(undefined);
 
-    const handled = await (service as any).handleTemplateLinkAssistantOutput({
+    await privates(service).executeDialogueTool({
       senderId: "777",
-      responseText: "send_template_link",
+      sessionId: 10,
+      message: {},
+      combinedMessage: "shablon yuboring",
+      call: { name: "send_template" },
     });
 
-    expect(handled).toBe(true);
     expect(executeCommand).not.toHaveBeenCalled();
     expect(sendAdminResponse).toHaveBeenCalledWith(
       "777",
@@ -212,6 +372,145 @@ describe("TelegramService", () => {
     expect(mediaType).toBe("sticker");
   });
 
+  it("transcribes voice notes and queues them like typed text", async () => {
+    const service = createService();
+    const aiService = injected(service).aiService;
+    aiService.transcribe.mockResolvedValue("Anketa 371 kontakti kerak");
+    const message = voiceMessage({
+      id: 1,
+      out: false,
+      senderId: { toString: () => "777" },
+      downloadMedia: jest.fn().mockResolvedValue(Buffer.from("ogg")),
+    });
+
+    jest
+      .spyOn(service as any, "getOrCreateChatSession")
+      .mockResolvedValue({ id: 10 });
+    const insertChatMessage = jest
+      .spyOn(service as any, "insertChatMessage")
+      .mockResolvedValue({ id: 55 });
+    const updateChatMessageContent = jest
+      .spyOn(service as any, "updateChatMessageContent")
+      .mockResolvedValue(undefined);
+    jest.spyOn(service as any, "isUserBlocked").mockResolvedValue(false);
+    jest.spyOn(service as any, "isAiPausedForUser").mockResolvedValue(false);
+    jest
+      .spyOn(service as any, "updatePreferredLanguage")
+      .mockResolvedValue(undefined);
+    const forwardIncomingMedia = jest.spyOn(
+      service as any,
+      "forwardIncomingMedia",
+    );
+    jest
+      .spyOn(service as any, "maybeCreateAnketaTask")
+      .mockResolvedValue(undefined);
+    const handleOrderFlow = jest
+      .spyOn(service as any, "handleOrderFlow")
+      .mockResolvedValue(false);
+    const queueBufferedReply = jest
+      .spyOn(service as any, "queueBufferedReply")
+      .mockImplementation(() => undefined);
+
+    await service.handleIncomingMessage({ isPrivate: true, message });
+
+    expect(aiService.transcribe).toHaveBeenCalledWith("transcription", {
+      prompt: expect.any(String),
+      audio: { data: Buffer.from("ogg"), mimeType: "audio/ogg" },
+    });
+    expect(insertChatMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ content: "[voice]" }),
+    );
+    expect(updateChatMessageContent).toHaveBeenCalledWith(
+      55,
+      "[voice] Anketa 371 kontakti kerak",
+    );
+    expect(forwardIncomingMedia).not.toHaveBeenCalled();
+    expect(handleOrderFlow).toHaveBeenCalledWith(
+      expect.objectContaining({ incomingText: "Anketa 371 kontakti kerak" }),
+    );
+    expect(queueBufferedReply).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messageId: 55,
+        content: "Anketa 371 kontakti kerak",
+      }),
+    );
+  });
+
+  it("does not transcribe voice notes from blocked or paused users", async () => {
+    const service = createService();
+    const message = voiceMessage({
+      id: 1,
+      out: false,
+      senderId: { toString: () => "777" },
+    });
+
+    jest
+      .spyOn(service as any, "getOrCreateChatSession")
+      .mockResolvedValue({ id: 10 });
+    jest
+      .spyOn(service as any, "insertChatMessage")
+      .mockResolvedValue({ id: 55 });
+    jest.spyOn(service as any, "markMessageRead").mockResolvedValue(undefined);
+    jest
+      .spyOn(service as any, "mirrorToEscalationTopic")
+      .mockResolvedValue(undefined);
+    const isUserBlocked = jest
+      .spyOn(service as any, "isUserBlocked")
+      .mockResolvedValue(true);
+    const isAiPaused = jest
+      .spyOn(service as any, "isAiPausedForUser")
+      .mockResolvedValue(false);
+    const transcribe = jest.spyOn(service as any, "transcribeIncomingAudio");
+
+    await service.handleIncomingMessage({ isPrivate: true, message });
+    isUserBlocked.mockResolvedValue(false);
+    isAiPaused.mockResolvedValue(true);
+    await service.handleIncomingMessage({ isPrivate: true, message });
+
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(injected(service).aiService.transcribe).not.toHaveBeenCalled();
+  });
+
+  it("asks for text when a voice note cannot be transcribed", async () => {
+    const service = createService();
+
+    jest
+      .spyOn(service as any, "downloadIncomingMediaBuffer")
+      .mockResolvedValue(Buffer.from("ogg"));
+    await expect(
+      privates(service).transcribeIncomingAudio("777", voiceMessage()),
+    ).resolves.toEqual({ marker: "[voice]", transcript: "" });
+  });
+
+  it("leaves round videos to the media flow while candidate media is collected", async () => {
+    const service = createService();
+    const message = documentMessage(
+      "video/mp4",
+      new Api.DocumentAttributeVideo({
+        duration: 5,
+        w: 240,
+        h: 240,
+        roundMessage: true,
+      }),
+    );
+    const collecting = jest
+      .spyOn(service as any, "isCollectingCandidateMedia")
+      .mockResolvedValue(true);
+
+    await expect(
+      privates(service).transcribeIncomingAudio("777", message),
+    ).resolves.toBeUndefined();
+
+    collecting.mockResolvedValue(false);
+    jest
+      .spyOn(service as any, "downloadIncomingMediaBuffer")
+      .mockResolvedValue(Buffer.from("mp4"));
+    injected(service).aiService.transcribe.mockResolvedValue("Salom");
+    await expect(
+      privates(service).transcribeIncomingAudio("777", message),
+    ).resolves.toEqual({ marker: "[round_video]", transcript: "Salom" });
+  });
+
   it("treats common payment commitment phrases as affirmative", () => {
     const service = createService();
 
@@ -219,9 +518,28 @@ describe("TelegramService", () => {
     expect((service as any).isAffirmative("kartaga tashlayman")).toBe(true);
   });
 
+  it.each([
+    ["Анкета #371 контакти керак", { adId: 371 }],
+    ["anketa 371 kontaktini bering 🙏", { adId: 371 }],
+    ["Рақам 1024 номер", { adId: 1024 }],
+    ["Narxi 100 ming", undefined],
+  ])("reads contact requests from %j", (text, expected) => {
+    const service = createService();
+
+    expect(privates(service).parseContactIntent(text)).toEqual(expected);
+  });
+
+  it("recognises refund and payment wording in either script", () => {
+    const service = createService();
+
+    expect(privates(service).isRefundIntent("Пулимни қайтаринг")).toBe(true);
+    expect(privates(service).isRefundIntent("верните, vozvrat")).toBe(true);
+    expect(privates(service).isPaymentEvidence("Тўлов чеки")).toBe(true);
+    expect(privates(service).isPaymentEvidence("toʻlov qildim")).toBe(true);
+  });
+
   it("does not queue Gemini reply after media routing is handled", async () => {
     const service = createService();
-    (service as any).model = {};
 
     jest
       .spyOn(service as any, "getOrCreateChatSession")
@@ -229,8 +547,8 @@ describe("TelegramService", () => {
     jest
       .spyOn(service as any, "insertChatMessage")
       .mockResolvedValue({ id: 55 });
-    jest.spyOn(service as any, "isUserBlocked").mockReturnValue(false);
-    jest.spyOn(service as any, "isAiPausedForUser").mockReturnValue(false);
+    jest.spyOn(service as any, "isUserBlocked").mockResolvedValue(false);
+    jest.spyOn(service as any, "isAiPausedForUser").mockResolvedValue(false);
     jest
       .spyOn(service as any, "forwardIncomingMedia")
       .mockResolvedValue(true);
@@ -263,6 +581,103 @@ describe("TelegramService", () => {
     expect(queueBufferedReply).not.toHaveBeenCalled();
   });
 
+  it("restores the flow step once a timed AI pause has expired", async () => {
+    const service = createService();
+    const moderationService = injected(service).moderationService;
+    moderationService.getAiPauseStatus.mockResolvedValue("expired");
+
+    jest
+      .spyOn(service as any, "getLatestOpenOrder")
+      .mockResolvedValue({ orderType: "contact", status: "awaiting_check" });
+    const syncStep = jest
+      .spyOn(service as any, "syncUserCurrentStepFromOrderState")
+      .mockResolvedValue(undefined);
+
+    await expect(privates(service).isAiPausedForUser("777")).resolves.toBe(
+      false,
+    );
+    expect(syncStep).toHaveBeenCalledWith({
+      userId: "777",
+      orderType: "contact",
+      orderStatus: "awaiting_check",
+    });
+  });
+
+  describe("order expiry", () => {
+    function expire(params: { currentStep: string; openOrders: unknown[] }) {
+      const service = createService();
+      injected(service).ordersService.transition.mockResolvedValue({
+        id: 1,
+        userId: "777",
+        orderType: "contact",
+        status: "cancelled",
+      });
+      jest
+        .spyOn(service as any, "getOrCreateUserProfile")
+        .mockResolvedValue({ currentStep: params.currentStep });
+      jest
+        .spyOn(service as any, "getOpenOrders")
+        .mockResolvedValue(params.openOrders);
+      const setStep = jest
+        .spyOn(service as any, "setUserCurrentStep")
+        .mockResolvedValue(undefined);
+      const expired = service.expireOrder(1, {
+        actor: "system",
+        from: ["awaiting_payment"],
+        reason: "expired",
+      });
+      return { expired, setStep };
+    }
+
+    it("takes the step from the order the user still has open", async () => {
+      const { expired, setStep } = expire({
+        currentStep: "awaiting_payment_confirmation",
+        openOrders: [{ id: 2, orderType: "ad", status: "awaiting_content" }],
+      });
+
+      await expired;
+
+      expect(setStep).toHaveBeenCalledWith("777", "awaiting_candidate_media");
+    });
+
+    it("returns to idle once no order is open", async () => {
+      const { expired, setStep } = expire({
+        currentStep: "awaiting_payment_confirmation",
+        openOrders: [],
+      });
+
+      await expired;
+
+      expect(setStep).toHaveBeenCalledWith("777", "idle");
+    });
+
+    it("keeps the escalation step", async () => {
+      const { expired, setStep } = expire({
+        currentStep: "escalated_to_admin",
+        openOrders: [],
+      });
+
+      await expired;
+
+      expect(setStep).not.toHaveBeenCalled();
+    });
+  });
+
+  it("persists the admin block so it survives restarts", async () => {
+    const service = createService();
+    const moderationService = injected(service).moderationService;
+    jest
+      .spyOn(service as any, "setUserCurrentStep")
+      .mockResolvedValue("escalated_to_admin");
+
+    await service.blockEscalatedUser("777", "42");
+
+    expect(moderationService.block).toHaveBeenCalledWith("777", {
+      reason: "admin_block",
+      adminId: "42",
+    });
+  });
+
   it("rejects non-image payment evidence and keeps receipt waiting step", async () => {
     const service = createService();
     (service as any).paymentsTopicId = 123;
@@ -315,9 +730,9 @@ describe("TelegramService", () => {
     const forwardToTopic = jest
       .spyOn(service as any, "forwardMessageToTopic")
       .mockResolvedValue(undefined);
-    const setStep = jest
-      .spyOn(service as any, "setUserCurrentStep")
-      .mockResolvedValue("payment_receipt_submitted");
+    const transitionOrder = jest
+      .spyOn(service, "transitionOrder")
+      .mockResolvedValue(undefined);
     const createAdminTask = jest
       .spyOn(service as any, "createAdminTask")
       .mockResolvedValue(1);
@@ -346,7 +761,11 @@ describe("TelegramService", () => {
 
     expect(handled).toBe(true);
     expect(forwardToTopic).toHaveBeenCalled();
-    expect(setStep).toHaveBeenCalledWith("777", "payment_receipt_submitted");
+    expect(transitionOrder).toHaveBeenCalledWith(
+      201,
+      "payment_submitted",
+      expect.objectContaining({ actor: "user" }),
+    );
     expect(createAdminTask).toHaveBeenCalled();
     expect(analyzeReceipt).toHaveBeenCalled();
     expect(sendAdminResponse).toHaveBeenCalledWith(
@@ -363,11 +782,13 @@ describe("TelegramService", () => {
     jest.spyOn(service as any, "resolveCurrentStep").mockResolvedValue(
       "awaiting_candidate_media",
     );
-    jest.spyOn(service as any, "getLatestOpenOrder").mockResolvedValue({
-      id: 31,
-      status: "awaiting_content",
-      orderType: "ad",
-    });
+    jest.spyOn(service as any, "getOpenOrders").mockResolvedValue([
+      {
+        id: 31,
+        status: "awaiting_content",
+        orderType: "ad",
+      },
+    ]);
     jest.spyOn(service as any, "getOpenAdOrder").mockResolvedValue({
       id: 31,
       status: "awaiting_content",
@@ -466,11 +887,13 @@ describe("TelegramService", () => {
     jest.spyOn(service as any, "resolveCurrentStep").mockResolvedValue(
       "awaiting_candidate_media",
     );
-    jest.spyOn(service as any, "getLatestOpenOrder").mockResolvedValue({
-      id: 31,
-      status: "awaiting_content",
-      orderType: "ad",
-    });
+    jest.spyOn(service as any, "getOpenOrders").mockResolvedValue([
+      {
+        id: 31,
+        status: "awaiting_content",
+        orderType: "ad",
+      },
+    ]);
     jest.spyOn(service as any, "resolveMediaType").mockReturnValue("photo");
 
     const handlePayment = jest
@@ -510,12 +933,14 @@ describe("TelegramService", () => {
     jest.spyOn(service as any, "resolveCurrentStep").mockResolvedValue(
       "awaiting_payment_receipt",
     );
-    jest.spyOn(service as any, "getLatestOpenOrder").mockResolvedValue({
-      id: 41,
-      status: "awaiting_check",
-      orderType: "ad",
-      userId: "777",
-    });
+    jest.spyOn(service as any, "getOpenOrders").mockResolvedValue([
+      {
+        id: 41,
+        status: "awaiting_check",
+        orderType: "ad",
+        userId: "777",
+      },
+    ]);
     jest.spyOn(service as any, "resolveMediaType").mockReturnValue("photo");
 
     const handlePayment = jest
@@ -540,6 +965,136 @@ describe("TelegramService", () => {
     expect(analyzeCandidate).not.toHaveBeenCalled();
   });
 
+  it("asks which order a receipt is for when several orders await payment", async () => {
+    const service = createService();
+    Object.assign(service, { client: {} });
+    Object.assign(service, { adminGroupId: "-1001" });
+    Object.assign(service, { paymentsTopicId: 123 });
+    const contactOrder = {
+      id: 51,
+      status: "awaiting_check",
+      orderType: "contact",
+      adId: 7,
+      amount: 99_000,
+      userId: "777",
+    };
+    const vipOrder = {
+      id: 52,
+      status: "awaiting_check",
+      orderType: "vip",
+      amount: 150_000,
+      userId: "777",
+    };
+
+    // Both offered orders get the same choice written and cleared together.
+    let storedMeta: string | null = null;
+    const update = jest.fn(() => ({
+      set: (values: { meta: string }) => ({
+        where: () => {
+          storedMeta = values.meta;
+          return Promise.resolve();
+        },
+      }),
+    }));
+    Object.assign(service, { db: { update } });
+    const withMeta = <T extends { id: number }>(order: T) => ({
+      ...order,
+      meta: storedMeta,
+    });
+
+    jest
+      .spyOn(service as any, "resolveCurrentStep")
+      .mockResolvedValue("awaiting_payment_receipt");
+    jest
+      .spyOn(service as any, "getOpenOrders")
+      .mockImplementation(() =>
+        Promise.resolve([withMeta(vipOrder), withMeta(contactOrder)]),
+      );
+    jest.spyOn(service as any, "resolveMediaType").mockReturnValue("photo");
+    const sendAdminResponse = jest
+      .spyOn(service as any, "sendAdminResponse")
+      .mockResolvedValue(undefined);
+    const handlePayment = jest
+      .spyOn(service as any, "handlePaymentReceiptMedia")
+      .mockResolvedValue(true);
+    const message = { id: 3, media: {} };
+
+    await privates(service).forwardIncomingMedia({
+      senderId: "777",
+      sessionId: 10,
+      incomingText: "",
+      message,
+    });
+
+    expect(handlePayment).not.toHaveBeenCalled();
+    expect(sendAdminResponse).toHaveBeenCalledWith(
+      "777",
+      expect.stringContaining("1) VIP obuna"),
+    );
+    expect(sendAdminResponse).toHaveBeenCalledWith(
+      "777",
+      expect.stringContaining("2) Kontakt (anketa #7)"),
+    );
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(storedMeta ?? "{}")).toMatchObject({
+      receiptChoice: { messageId: 3, sessionId: 10, orderIds: [52, 51] },
+    });
+
+    // The choice survives a restart: it is read back from the order meta and
+    // the receipt message is reloaded from Telegram by its id.
+    const getUserMessage = jest
+      .spyOn(service as any, "getUserMessageByPeer")
+      .mockResolvedValue(message);
+    await expect(
+      privates(service).handleReceiptOrderChoice("777", "2"),
+    ).resolves.toBe(true);
+
+    expect(getUserMessage).toHaveBeenCalledWith("777", 3);
+    expect(handlePayment.mock.calls.at(0)?.[0]).toMatchObject({
+      sessionId: 10,
+      message,
+      mediaType: "photo",
+      openOrder: { id: 51 },
+    });
+    await expect(
+      privates(service).handleReceiptOrderChoice("777", "2"),
+    ).resolves.toBe(false);
+  });
+
+  it("lists every open order when the user asks about order status", async () => {
+    const service = createService();
+    jest.spyOn(service as any, "getOpenOrders").mockResolvedValue([]);
+    const sendAdminResponse = jest
+      .spyOn(service as any, "sendAdminResponse")
+      .mockResolvedValue(undefined);
+
+    await privates(service).startOrderFromIntent({
+      senderId: "777",
+      sessionId: 10,
+      intent: { kind: "order_status" },
+    });
+
+    expect(sendAdminResponse).toHaveBeenCalledWith(
+      "777",
+      "Sizda ochiq buyurtma yo'q.",
+    );
+    expect(privates(service).buildOpenOrdersMessage([])).toBe(
+      "Sizda ochiq buyurtma yo'q.",
+    );
+    expect(
+      privates(service).buildOpenOrdersMessage([
+        { id: 1, orderType: "vip", status: "awaiting_payment", amount: 0 },
+        { id: 2, orderType: "ad", status: "awaiting_content", amount: 0 },
+      ]),
+    ).toBe(
+      [
+        "Ochiq buyurtmalaringiz:",
+        "1) VIP obuna: tasdiqlashingiz kutilmoqda",
+        "2) E'lon: anketa va media kutilmoqda",
+      ].join("\n"),
+    );
+  });
+
   it("stores candidate archive references only with candidate routing context", async () => {
     const service = createService();
     (service as any).client = {};
@@ -548,12 +1103,14 @@ describe("TelegramService", () => {
     jest.spyOn(service as any, "resolveCurrentStep").mockResolvedValue(
       "awaiting_candidate_media",
     );
-    jest.spyOn(service as any, "getLatestOpenOrder").mockResolvedValue({
-      id: 52,
-      status: "awaiting_content",
-      orderType: "ad",
-      userId: "777",
-    });
+    jest.spyOn(service as any, "getOpenOrders").mockResolvedValue([
+      {
+        id: 52,
+        status: "awaiting_content",
+        orderType: "ad",
+        userId: "777",
+      },
+    ]);
     jest.spyOn(service as any, "getOpenAdOrder").mockResolvedValue({
       id: 52,
       status: "awaiting_content",
@@ -606,12 +1163,14 @@ describe("TelegramService", () => {
     jest.spyOn(service as any, "resolveCurrentStep").mockResolvedValue(
       "awaiting_candidate_media",
     );
-    jest.spyOn(service as any, "getLatestOpenOrder").mockResolvedValue({
-      id: 61,
-      status: "awaiting_content",
-      orderType: "ad",
-      userId: "777",
-    });
+    jest.spyOn(service as any, "getOpenOrders").mockResolvedValue([
+      {
+        id: 61,
+        status: "awaiting_content",
+        orderType: "ad",
+        userId: "777",
+      },
+    ]);
     jest.spyOn(service as any, "getOpenAdOrder").mockResolvedValue({
       id: 61,
       status: "awaiting_content",
@@ -757,6 +1316,451 @@ describe("TelegramService", () => {
     expect(prompt).toContain("order_status=awaiting_check");
   });
 
+  it("fills prompt price variables from the pricing catalogue", async () => {
+    const service = createService();
+    injected(service).pricingService.getBasePrices.mockResolvedValue({
+      contact: { productKey: "contact", amount: 120_000 },
+      vip: { productKey: "vip", amount: 500_000 },
+      ad: { productKey: "ad", amount: 95_000 },
+    });
+
+    const prompt = await privates(service).applyPromptVariables(
+      "kontakt {contactPrice}, VIP {{vipPrice}}, e'lon ${adPrice}",
+    );
+
+    expect(prompt).toBe("kontakt 120 ming, VIP 500 ming, e'lon 95 ming");
+  });
+
+  it("re-prices the awaiting payment order when a promo code is typed", async () => {
+    const service = createService();
+    injected(service).promoCodesService.redeemForOrder.mockResolvedValue({
+      ok: true,
+      finalAmount: 79_200,
+      promo: {
+        promoCodeId: 1,
+        code: "BAHOR20",
+        discountType: "percent",
+        discountValue: 20,
+        discountAmount: 19_800,
+        originalAmount: 99_000,
+      },
+    });
+    const set = jest.fn<
+      { where: () => { returning: jest.Mock } },
+      [{ amount: number; meta: string }]
+    >(() => ({
+      where: () => ({ returning: jest.fn().mockResolvedValue([{ id: 55 }]) }),
+    }));
+    const tx = { update: jest.fn(() => ({ set })), rollback: jest.fn() };
+    Object.assign(service, {
+      db: {
+        transaction: jest.fn((run: (db: typeof tx) => Promise<unknown>) =>
+          run(tx),
+        ),
+      },
+    });
+    const sendAdminResponse = jest
+      .spyOn(service as any, "sendAdminResponse")
+      .mockResolvedValue(undefined);
+
+    const handled = await privates(service).maybeApplyPromoCode({
+      senderId: "777",
+      order: {
+        id: 55,
+        orderType: "contact",
+        status: "awaiting_payment",
+        amount: 99_000,
+        meta: JSON.stringify({ priceRuleId: 3 }),
+      },
+      text: "promokod bahor20",
+    });
+
+    expect(handled).toBe(true);
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 79_200,
+        meta: expect.stringContaining('"code":"BAHOR20"'),
+      }),
+    );
+    expect(set.mock.calls.at(0)?.[0].meta).toContain('"priceRuleId":3');
+    expect(
+      injected(service).promoCodesService.redeemForOrder,
+    ).toHaveBeenCalledWith(expect.objectContaining({ orderId: 55 }), tx);
+    expect(tx.rollback).not.toHaveBeenCalled();
+    expect(sendAdminResponse).toHaveBeenCalledWith(
+      "777",
+      "Promokod qo'llandi: -19800. Yangi narx 79200. Olasizmi?",
+    );
+  });
+
+  it("rolls the promo redemption back when the order left awaiting payment", async () => {
+    const service = createService();
+    injected(service).promoCodesService.redeemForOrder.mockResolvedValue({
+      ok: true,
+      finalAmount: 79_200,
+      promo: {
+        promoCodeId: 1,
+        code: "BAHOR20",
+        discountType: "percent",
+        discountValue: 20,
+        discountAmount: 19_800,
+        originalAmount: 99_000,
+      },
+    });
+    const tx = {
+      update: jest.fn(() => ({
+        set: () => ({
+          where: () => ({ returning: jest.fn().mockResolvedValue([]) }),
+        }),
+      })),
+      rollback: jest.fn(() => {
+        throw new TransactionRollbackError();
+      }),
+    };
+    Object.assign(service, {
+      db: {
+        transaction: jest.fn((run: (db: typeof tx) => Promise<unknown>) =>
+          run(tx),
+        ),
+      },
+    });
+    const sendAdminResponse = jest
+      .spyOn(service as any, "sendAdminResponse")
+      .mockResolvedValue(undefined);
+
+    const handled = await privates(service).maybeApplyPromoCode({
+      senderId: "777",
+      order: {
+        id: 55,
+        orderType: "contact",
+        status: "awaiting_payment",
+        amount: 99_000,
+        meta: null,
+      },
+      text: "promokod bahor20",
+    });
+
+    expect(handled).toBe(false);
+    expect(tx.rollback).toHaveBeenCalled();
+    expect(sendAdminResponse).not.toHaveBeenCalled();
+  });
+
+  it("switches the preferred language and replies from the matching catalogue", async () => {
+    const service = createService();
+    const set = jest.fn(() => ({ where: jest.fn().mockResolvedValue([]) }));
+    Object.assign(service, {
+      db: {
+        select: jest.fn(() => ({
+          from: jest.fn(() => ({
+            where: jest.fn(() => ({
+              limit: jest.fn().mockResolvedValue([{ preferredLanguage: "uz" }]),
+            })),
+          })),
+        })),
+        update: jest.fn(() => ({ set })),
+      },
+    });
+    jest
+      .spyOn(service as any, "ensureUserProfileSchema")
+      .mockResolvedValue(undefined);
+    jest
+      .spyOn(service as any, "getOrCreateUserProfile")
+      .mockResolvedValue({ userId: "777" });
+    const sendAdminResponse = jest
+      .spyOn(service as any, "sendAdminResponse")
+      .mockResolvedValue(undefined);
+
+    await privates(service).updatePreferredLanguage("777", "Сколько стоит?");
+    await service.sendLocalizedResponse("777", "gender.ask");
+    await privates(service).updatePreferredLanguage("777", "ok");
+
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({ preferredLanguage: "ru" }),
+    );
+    expect(sendAdminResponse).toHaveBeenCalledWith(
+      "777",
+      "Вы женщина или мужчина?",
+    );
+  });
+
+  it("ignores bare words that are not known promo codes", async () => {
+    const service = createService();
+
+    const handled = await privates(service).maybeApplyPromoCode({
+      senderId: "777",
+      order: { id: 55, orderType: "vip", amount: 490_000, meta: null },
+      text: "salom123",
+    });
+
+    expect(handled).toBe(false);
+    expect(
+      injected(service).promoCodesService.redeemForOrder,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("detects explicit refund requests but not guarantee questions", () => {
+    const service = createService();
+
+    expect(privates(service).isRefundIntent("Pulimni qaytarib bering")).toBe(
+      true,
+    );
+    expect(
+      privates(service).isRefundIntent("pulni qaytaring, javob yo'q"),
+    ).toBe(true);
+    expect(privates(service).isRefundIntent("kontakt kerak")).toBe(false);
+    expect(
+      privates(service).isRefundIntent("kafolat bormi, pulim qaytadimi?"),
+    ).toBe(false);
+  });
+
+  it("leaves refund wording to the AI when the user has no completed order", async () => {
+    const service = createService();
+    const select = jest
+      .fn()
+      .mockReturnValueOnce({
+        from: () => ({ where: () => ({ limit: () => Promise.resolve([]) }) }),
+      })
+      .mockReturnValueOnce({
+        from: () => ({
+          where: () => ({
+            orderBy: () => ({ limit: () => Promise.resolve([]) }),
+          }),
+        }),
+      });
+    Object.assign(service, { db: { select } });
+    const escalateToHuman = jest
+      .spyOn(service as any, "escalateToHuman")
+      .mockResolvedValue(undefined);
+    const transitionOrder = jest.spyOn(service, "transitionOrder");
+
+    const handled = await privates(service).handleRefundRequest({
+      senderId: "777",
+      sessionId: 10,
+      text: "pulimni qaytarib bering",
+    });
+
+    expect(handled).toBe(false);
+    expect(escalateToHuman).not.toHaveBeenCalled();
+    expect(transitionOrder).not.toHaveBeenCalled();
+  });
+
+  it("moves the paid contact order to refund_requested and opens an admin task", async () => {
+    const service = createService();
+    const completedOrder = {
+      id: 91,
+      orderType: "contact",
+      status: "completed",
+      amount: 99_000,
+      adId: 12,
+    };
+    const select = jest
+      .fn()
+      .mockReturnValueOnce({
+        from: () => ({ where: () => ({ limit: () => Promise.resolve([]) }) }),
+      })
+      .mockReturnValueOnce({
+        from: () => ({
+          where: () => ({
+            orderBy: () => ({ limit: () => Promise.resolve([completedOrder]) }),
+          }),
+        }),
+      });
+    Object.assign(service, { db: { select } });
+    const transitionOrder = jest
+      .spyOn(service, "transitionOrder")
+      .mockResolvedValue({
+        ...completedOrder,
+        status: "refund_requested",
+      } as any);
+    const createAdminTask = jest
+      .spyOn(service as any, "createAdminTask")
+      .mockResolvedValue(5);
+    const sendAdminResponse = jest
+      .spyOn(service as any, "sendAdminResponse")
+      .mockResolvedValue(undefined);
+
+    await privates(service).handleRefundRequest({
+      senderId: "777",
+      sessionId: 10,
+      text: "pulimni qaytaring",
+    });
+
+    expect(transitionOrder).toHaveBeenCalledWith(
+      91,
+      "refund_requested",
+      expect.objectContaining({ actor: "user", from: ["completed"] }),
+    );
+    expect(createAdminTask).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskType: "refund",
+        userId: "777",
+        payload: expect.objectContaining({ orderId: 91, amount: 99_000 }),
+      }),
+    );
+    expect(sendAdminResponse).toHaveBeenCalledWith(
+      "777",
+      expect.stringContaining("adminga yuborildi"),
+    );
+  });
+
+  it("renders the channel post from the saved candidate record", async () => {
+    const service = createService();
+    const saveFromAnketa = injected(service).candidatesService.saveFromAnketa;
+    const text = "Jins: qiz\nIsm: Dilnoza\nYosh: 24 da";
+    saveFromAnketa.mockResolvedValueOnce({
+      complete: true,
+      candidate: {
+        gender: "female",
+        name: "Dilnoza",
+        age: 24,
+        region: null,
+        city: null,
+        heightCm: null,
+        weightKg: null,
+        maritalStatus: null,
+        children: null,
+        nationality: null,
+        occupation: null,
+        requirements: null,
+        phone: null,
+      },
+    });
+
+    await expect(
+      privates(service).saveCandidateRecord({ adId: 5, taskId: 9, text }),
+    ).resolves.toBe("Jins: Ayol\nIsm: Dilnoza\nYosh: 24");
+
+    saveFromAnketa.mockResolvedValueOnce({ complete: false, candidate: {} });
+    await expect(
+      privates(service).saveCandidateRecord({ adId: 5, taskId: 9, text }),
+    ).resolves.toBe(text);
+
+    saveFromAnketa.mockRejectedValueOnce(new Error("db down"));
+    await expect(
+      privates(service).saveCandidateRecord({ adId: 5, taskId: 9, text }),
+    ).resolves.toBe(text);
+  });
+
+  it("answers a candidate search with matching anketa IDs and previews", async () => {
+    const service = createService();
+    const result = {
+      adId: 371,
+      userId: "555",
+      gender: "female",
+      age: 24,
+      region: "samarkand",
+      city: null,
+      heightCm: 165,
+    };
+    const search = injected(service).candidatesService.search;
+    search.mockResolvedValue([result]);
+    const sendAdminResponse = jest
+      .spyOn(service as any, "sendAdminResponse")
+      .mockResolvedValue(undefined);
+    const sendPreview = jest
+      .spyOn(service as any, "sendCandidatePreview")
+      .mockResolvedValue(undefined);
+
+    await privates(service).runCandidateSearch("777", {
+      gender: "female",
+      minAge: 20,
+      maxAge: 28,
+    });
+
+    expect(search).toHaveBeenCalledWith(
+      { gender: "female", minAge: 20, maxAge: 28 },
+      { excludeUserId: "777" },
+    );
+    expect(sendAdminResponse).toHaveBeenCalledWith(
+      "777",
+      expect.stringContaining("#371 — Ayol, 24 yosh, Samarqand, 165 sm"),
+    );
+    expect(sendPreview).toHaveBeenCalledWith("777", result);
+  });
+
+  it("previews only candidate media archived for the anketa's ad order", async () => {
+    const service = createService();
+    const sendFile = jest.fn().mockResolvedValue(undefined);
+    Object.assign(service, {
+      client: {
+        getInputEntity: jest.fn().mockResolvedValue("peer"),
+        sendFile,
+      },
+    });
+    Object.assign(service, {
+      db: {
+        select: () => ({
+          from: () => ({
+            where: () => ({ limit: () => Promise.resolve([{ taskId: 90 }]) }),
+          }),
+        }),
+      },
+    });
+    jest
+      .spyOn(service as any, "findOrderIdForPublishTask")
+      .mockResolvedValue(41);
+    const getMedia = jest
+      .spyOn(service as any, "getRecentUserMedia")
+      .mockResolvedValue([{ id: 5, messageId: 12 }]);
+    jest
+      .spyOn(service as any, "downloadUserMedia")
+      .mockResolvedValue(Buffer.from("photo"));
+    jest
+      .spyOn(service as any, "blurFaces")
+      .mockResolvedValue(Buffer.from("blurred"));
+    const result = { adId: 371, userId: "555" };
+
+    await privates(service).sendCandidatePreview("777", result);
+
+    expect(getMedia).toHaveBeenCalledWith("555", "photo", 1, 41);
+    expect(sendFile).toHaveBeenCalledWith("peer", {
+      file: Buffer.from("blurred"),
+      caption: "#371",
+    });
+
+    sendFile.mockClear();
+    getMedia.mockClear();
+    jest
+      .spyOn(service as any, "findOrderIdForPublishTask")
+      .mockResolvedValue(undefined);
+
+    await privates(service).sendCandidatePreview("777", result);
+
+    expect(getMedia).not.toHaveBeenCalled();
+    expect(sendFile).not.toHaveBeenCalled();
+  });
+
+  it("blurs the whole photo when no face is detected", async () => {
+    const service = createService();
+    const gaussianBlur = jest.fn().mockReturnValue("whole-frame-blur");
+    const imencode = jest.fn().mockReturnValue(Buffer.from("encoded"));
+    class Size {
+      constructor(
+        readonly width: number,
+        readonly height: number,
+      ) {}
+    }
+    jest.spyOn(service as any, "loadOpenCv").mockResolvedValue({
+      imdecode: () => ({ bgrToGray: () => "gray", gaussianBlur }),
+      CascadeClassifier: class {
+        detectMultiScale() {
+          return { objects: [] };
+        }
+      },
+      HAAR_FRONTALFACE_ALT2: "haar",
+      Size,
+      imencode,
+    });
+
+    await expect(
+      privates(service).blurFaces(Buffer.from("photo")),
+    ).resolves.toEqual(Buffer.from("encoded"));
+
+    expect(gaussianBlur).toHaveBeenCalledWith(new Size(31, 31), 0);
+    expect(imencode).toHaveBeenCalledWith(".jpg", "whole-frame-blur");
+  });
+
   it("passes startup when archive schema readiness succeeds", async () => {
     const service = createService();
 
@@ -825,7 +1829,7 @@ describe("TelegramService", () => {
     jest
       .spyOn(service as any, "resolveCurrentStep")
       .mockResolvedValue("awaiting_candidate_media");
-    jest.spyOn(service as any, "getLatestOpenOrder").mockResolvedValue(undefined);
+    jest.spyOn(service as any, "getOpenOrders").mockResolvedValue([]);
     jest.spyOn(service as any, "resolveMediaType").mockReturnValue("photo");
     jest
       .spyOn(service as any, "ensureMediaArchiveSchemaReadiness")
@@ -872,4 +1876,172 @@ describe("TelegramService", () => {
       }),
     ).rejects.toBeInstanceOf(MediaArchiveReadinessError);
   });
+
+  it("mirrors messages into the escalation topic while AI is paused", async () => {
+    const service = createService();
+    const message = {
+      id: 5,
+      out: false,
+      message: "javob kutyapman",
+      senderId: { toString: () => "777" },
+    };
+    jest.spyOn(service as any, "isHumanPrivateMessage").mockReturnValue(true);
+    jest
+      .spyOn(service as any, "getOrCreateChatSession")
+      .mockResolvedValue({ id: 10 });
+    jest
+      .spyOn(service as any, "insertChatMessage")
+      .mockResolvedValue({ id: 55 });
+    jest.spyOn(service as any, "isUserBlocked").mockResolvedValue(false);
+    jest.spyOn(service as any, "isAiPausedForUser").mockResolvedValue(true);
+    jest.spyOn(service as any, "markMessageRead").mockResolvedValue(undefined);
+    const mirror = jest
+      .spyOn(service as any, "mirrorToEscalationTopic")
+      .mockResolvedValue(undefined);
+
+    await service.handleIncomingMessage({ isPrivate: true, message });
+
+    expect(mirror).toHaveBeenCalledWith({
+      senderId: "777",
+      message,
+      chatMessageId: 55,
+    });
+  });
+
+  it("stores relayed admin media with the admin ID", async () => {
+    const service = createService();
+    const client = {
+      getInputEntity: jest.fn().mockResolvedValue("peer"),
+      sendFile: jest.fn().mockResolvedValue({ id: 91, date: 1_700_000_000 }),
+    };
+    Object.assign(service, { client: client });
+    jest
+      .spyOn(service as any, "getOrCreateChatSession")
+      .mockResolvedValue({ id: 10 });
+    const insertChatMessage = jest
+      .spyOn(service as any, "insertChatMessage")
+      .mockResolvedValue({ id: 56 });
+    jest.spyOn(service as any, "touchChatSession").mockResolvedValue(undefined);
+
+    await service.sendAdminResponse("777", "Chek", {
+      adminId: "42",
+      relayMessageId: "300",
+      file: Buffer.from("jpg"),
+    });
+
+    expect(client.sendFile).toHaveBeenCalledWith("peer", {
+      file: Buffer.from("jpg"),
+      caption: "Chek",
+    });
+    expect(insertChatMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        role: "assistant",
+        content: "[media] Chek",
+        telegramMessageId: "91",
+        adminId: "42",
+        relayMessageId: "300",
+      }),
+    );
+  });
+
+  describe("escalation classifier", () => {
+    function prepareBufferedReply(text: string) {
+      const service = createService();
+      Object.assign(service, { problemsTopicId: 7 });
+      service["pendingReplies"].set("777", {
+        token: 1,
+        sessionId: 10,
+        lastMessage: { id: 5 },
+        messages: [text],
+        messageIds: [],
+      });
+      jest
+        .spyOn(service as any, "markMessageRead")
+        .mockResolvedValue(undefined);
+      jest.spyOn(service as any, "getChatHistory").mockResolvedValue([]);
+      jest.spyOn(service as any, "buildSystemPrompt").mockResolvedValue("");
+      const aiService = injected(service).aiService;
+      aiService.chatWithTools = jest
+        .fn()
+        .mockResolvedValue({ text: "", toolCalls: [] });
+      const escalate = jest
+        .spyOn(service as any, "escalateToHuman")
+        .mockResolvedValue(undefined);
+      const createTask = jest
+        .spyOn(service as any, "createEscalationTask")
+        .mockResolvedValue(undefined);
+      jest
+        .spyOn(service as any, "findOpenEscalationTaskId")
+        .mockResolvedValue(undefined);
+      return { service, aiService, escalate, createTask };
+    }
+
+    it("pauses the AI on a high-severity verdict from the provider", async () => {
+      const { service, aiService, escalate } = prepareBufferedReply(
+        "Sizlarni sudga beraman, ko'rsatib qo'yaman",
+      );
+      aiService.generate.mockResolvedValue(
+        '{"category": "legal_threat", "severity": "high", "rationale": "Tahdid."}',
+      );
+
+      await privates(service).processBufferedReply("777", 1);
+
+      expect(aiService.generate).toHaveBeenCalledWith(
+        "escalation",
+        expect.stringContaining("Sizlarni sudga beraman, ko'rsatib qo'yaman"),
+      );
+      expect(escalate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: "classifier_legal_threat",
+          classification: {
+            category: "legal_threat",
+            severity: "high",
+            rationale: "Tahdid.",
+            source: "ai",
+          },
+        }),
+      );
+      expect(aiService.chatWithTools).not.toHaveBeenCalled();
+    });
+
+    it("flags medium-severity messages and keeps answering", async () => {
+      const { service, aiService, escalate, createTask } = prepareBufferedReply(
+        "Pulimni qaytarib bering",
+      );
+      aiService.generate.mockResolvedValue(
+        '{"category": "refund", "severity": "medium", "rationale": "Pul so\'rayapti."}',
+      );
+
+      await privates(service).processBufferedReply("777", 1);
+
+      expect(escalate).not.toHaveBeenCalled();
+      expect(createTask).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "flag" }),
+      );
+      expect(aiService.chatWithTools).toHaveBeenCalled();
+    });
+
+    it("falls back to the keyword scorer without a usable verdict", async () => {
+      const { service, aiService, escalate } = prepareBufferedReply(
+        "Ertaga pulni qaytaraman",
+      );
+
+      await privates(service).processBufferedReply("777", 1);
+
+      expect(escalate).not.toHaveBeenCalled();
+      expect(aiService.chatWithTools).toHaveBeenCalled();
+    });
+
+    it("skips the provider when the keywords find no signal", async () => {
+      const { service, aiService, createTask } = prepareBufferedReply(
+        "Salom, VIP narxi qancha?",
+      );
+
+      await privates(service).processBufferedReply("777", 1);
+
+      expect(aiService.generate).not.toHaveBeenCalled();
+      expect(createTask).not.toHaveBeenCalled();
+      expect(aiService.chatWithTools).toHaveBeenCalled();
+    });
+  });
 });
@@ -25,8 +25,14 @@ import {
   chatSummaries,
   sessions,
 } from "../database/schema";
-import { and, desc, eq, gt, inArray } from "drizzle-orm";
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import {
+  and,
+  desc,
+  eq,
+  gt,
+  inArray,
+  TransactionRollbackError,
+} from "drizzle-orm";
 import { NewMessage } from "telegram/events";
 import { nowInUzbekistan } from "../common/time";
 import { promises as fs } from "fs";
@@ -35,9 +41,83 @@ import {
   validateTelegramRoutingConfig,
 } from "../common/telegram-routing";
 import { UserProfilesService } from "../user-profiles/user-profiles.service";
+import { AiService } from "../ai/ai.service";
+import { AiChatMessage, AiChatResult } from "../ai/ai.types";
+import { ModerationService } from "../moderation/moderation.service";
+import {
+  ESCALATION_CLASSIFIER_PROMPT,
+  EscalationAction,
+  EscalationClassification,
+  parseEscalationClassification,
+  resolveEscalationAction,
+  scoreEscalationKeywords,
+} from "../moderation/escalation-classifier.rules";
+import { PricingService } from "../pricing/pricing.service";
+import { DEFAULT_VIP_PERIOD_DAYS } from "../pricing/pricing.constants";
+import { PromoCodesService } from "../promo-codes/promo-codes.service";
+import { PaymentsService } from "../payments/payments.service";
+import { PaymentReceiptsService } from "../payments/payment-receipts.service";
+import {
+  OrdersService,
+  OrderTransitionOptions,
+} from "../orders/orders.service";
+import {
+  IllegalOrderTransitionError,
+  OPEN_ORDER_STATUSES,
+  OrderStatus,
+  PAYABLE_ORDER_STATUSES,
+  resolveOrderUserStep,
+} from "../orders/order-state-machine";
+import {
+  describeOrderStatus,
+  describeOrderType,
+  parseOrderChoice,
+  selectOrderForStep,
+  selectReceiptOrder,
+} from "../orders/order-selection";
+import {
+  RECEIPT_EXTRACTION_PROMPT,
+  ReceiptTaskSummary,
+} from "../payments/payment-receipt.rules";
+import { CandidatesService } from "../candidates/candidates.service";
+import { parseAnketa, renderAnketa } from "../candidates/anketa.parser";
+import {
+  buildCandidateSearchReply,
+  CandidateSearchFilters,
+  CandidateSearchResult,
+} from "../candidates/candidate-search.rules";
+import {
+  DIALOGUE_TOOLS,
+  DialogueToolCall,
+  parseDialogueToolCall,
+  parseLegacyDialogueOutput,
+} from "./dialogue-tools";
+import { extractPromoCodeCandidate } from "../promo-codes/promo-codes.rules";
+import {
+  DEFAULT_LOCALE,
+  detectLocale,
+  Locale,
+  LOCALE_NAMES,
+  resolveLocale,
+} from "../i18n/locale";
+import { MessageKey, MessageParams, translate } from "../i18n/messages";
+import { detectGenderKeyword, matchesIntent } from "../i18n/intent-keywords";
+import { normalizeUserText } from "../i18n/text-normalizer";
+import {
+  OrderReceiptChoiceMeta,
+  parseOrderMeta,
+  resolveOrderPromo,
+  resolveReceiptChoice,
+} from "../common/order-meta";
+import {
+  OrderPromoMeta,
+  PromoApplyResult,
+  PromoRejectionReason,
+} from "../promo-codes/promo-codes.types";
 import { buildUserPromptContext } from "./prompt-context.builder";
 import { DEFAULT_PROMPT_CONTEXT_FIELD_MAX_LENGTH } from "../user-profiles/user-profile.constants";
 import { ensureUserProfilesSchema } from "../user-profiles/user-profiles-schema";
+import { ensureChatMessagesSchema } from "./chat-messages-schema";
 import {
   assertMediaArchiveSchemaReadiness,
   extractArchiveColumnsFromDbError,
@@ -57,10 +137,7 @@ type PendingReply = {
 
 type TelegramParseMode = "markdown" | "markdownv2";
 
-export type AiConversationMessage = {
-  role: "user" | "assistant";
-  content: string;
-};
+export type AiConversationMessage = AiChatMessage;
 
 type UserCurrentStep =
   | "idle"
@@ -73,7 +150,12 @@ type UserCurrentStep =
   | "awaiting_publish_review"
   | "escalated_to_admin";
 
-type ClassifiedMediaType = "photo" | "video" | "sticker" | "unsupported";
+type ClassifiedMediaType =
+  | "photo"
+  | "video"
+  | "voice"
+  | "sticker"
+  | "unsupported";
 
 type ActiveImageChatContext =
   | "payment_receipt"
@@ -86,13 +168,35 @@ type ImageRoutingTarget = "payment_receipt" | "candidate_media" | "blocked";
 
 type ImageRoutingConfidence = "high" | "medium" | "low";
 
+/** Order action requested through a dialogue tool call. */
+type OrderFlowIntent =
+  | { kind: "contact"; adId: number }
+  | { kind: "vip" }
+  | { kind: "ad" }
+  | { kind: "order_status" };
+
+const VOICE_TRANSCRIPTION_PROMPT = [
+  "Transcribe this Telegram voice message word for word.",
+  "The speaker uses Uzbek (Latin or Cyrillic script) or Russian; keep the language and script they would write in.",
+  "Return only the transcript, without comments. Return an empty answer if nothing is said.",
+].join("\n");
+
+/** The parser reads these Uzbek labels in either script, but not in Russian. */
+const ANKETA_TEMPLATE_FIELDS = [
+  "Jins: ",
+  "Ism: ",
+  "Yosh: ",
+  "Manzil: ",
+  "Boy: ",
+  "Talab: ",
+  "Tel: ",
+];
+
 @Injectable()
 export class TelegramService implements OnModuleInit {
   private client: TelegramClient;
   private readonly logger = new Logger(TelegramService.name);
   private stringSession: StringSession;
-  private genAI: GoogleGenerativeAI;
-  private model: GenerativeModel;
   private readonly replyBufferMs: number;
   private readonly minFragmentChars = 12;
   private readonly maxFragmentChars = 200;
@@ -100,13 +204,10 @@ export class TelegramService implements OnModuleInit {
   private readonly typingMaxMs = 3000;
   private readonly typingBaseMs = 1200;
   private readonly typingPerCharMs = 20;
-  private readonly contactPrice = 99_000;
-  private readonly vipPrice = 490_000;
-  private readonly adPrice = 90_000;
   private readonly pendingReplies = new Map<string, PendingReply>();
   private readonly replyTokens = new Map<string, number>();
-  private readonly aiPausedUsers = new Set<string>();
-  private readonly blockedUsers = new Set<string>();
+  private readonly receiptSelectionTtlMs = 30 * 60 * 1000;
+  private readonly userLocales = new Map<string, Locale>();
   private adminGroupId?: string;
   private storageGroupId?: string;
   private confirmPaymentsGroupId?: string;
@@ -123,10 +224,10 @@ export class TelegramService implements OnModuleInit {
   private paymentCardNumber?: string;
   private paymentCardOwner?: string;
   private adminName = "Admin";
-  private readonly sendTemplateLinkCommand = "send_template_link";
   private readonly promptContextFieldMaxLength: number;
   private profileSchemaChecked = false;
   private mediaArchiveSchemaChecked = false;
+  private chatMessagesSchemaChecked = false;
   private blurDependencyWarningEmitted = false;
   private templateLink?: string;
   private templateLinkMale?: string;
@@ -136,11 +237,9 @@ export class TelegramService implements OnModuleInit {
     "candidate_media_ready",
     "awaiting_publish_review",
   ]);
-  private readonly payableOrderStatuses = new Set([
-    "awaiting_payment",
-    "awaiting_check",
-    "payment_submitted",
-  ]);
+  private readonly payableOrderStatuses = new Set<string>(
+    PAYABLE_ORDER_STATUSES,
+  );
   private readonly candidateCollectionStatuses = new Set([
     "payment_submitted",
     "awaiting_content",
@@ -164,23 +263,16 @@ export class TelegramService implements OnModuleInit {
     private configService: ConfigService,
     private readonly settingsService: SettingsService,
     private readonly userProfilesService: UserProfilesService,
+    private readonly aiService: AiService,
+    private readonly moderationService: ModerationService,
+    private readonly pricingService: PricingService,
+    private readonly promoCodesService: PromoCodesService,
+    private readonly paymentsService: PaymentsService,
+    private readonly paymentReceiptsService: PaymentReceiptsService,
+    private readonly ordersService: OrdersService,
+    private readonly candidatesService: CandidatesService,
     @Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>,
   ) {
-    const apiKey = this.configService.get<string>("GEMINI_API_KEY");
-    const modelName = this.configService.get<string>("AI_MODEL_NAME");
-
-    if (apiKey && modelName) {
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      this.model = this.genAI.getGenerativeModel({ model: modelName });
-      this.logger.log(
-        `Gemini (Vertex AI) initialized with model: ${modelName}`,
-      );
-    } else {
-      this.logger.warn(
-        "GEMINI_API_KEY or AI_MODEL_NAME not found. AI features disabled.",
-      );
-    }
-
     const routing = resolveTelegramRoutingConfig(this.configService);
     this.adminGroupId = routing.managementGroupId;
     this.storageGroupId = routing.storageGroupId;
@@ -220,6 +312,7 @@ export class TelegramService implements OnModuleInit {
 
   async onModuleInit() {
     await this.ensureUserProfileSchema();
+    await this.ensureChatMessagesSchema();
     try {
       await this.ensureMediaArchiveSchemaReadiness("startup");
     } catch (error) {
@@ -303,16 +396,18 @@ export class TelegramService implements OnModuleInit {
   }
 
   async handleIncomingMessage(event: any) {
-    if (!this.model) {
-      this.logger.debug("Gemini model not initialized, ignoring message.");
+    if (!(await this.aiService.isAvailable("dialogue"))) {
+      this.logger.debug(
+        "Dialogue AI provider not configured, ignoring message.",
+      );
       return;
     }
 
-    const message = event.message;
+    const message = (event as { message?: Api.Message }).message;
     const senderId = message?.senderId?.toString();
     const isPrivate = event.isPrivate;
     const isOut = message?.out;
-    const incomingText = this.resolveMessageContent(message);
+    let incomingText = this.resolveMessageContent(message);
 
     this.logger.debug(
       `Event received: Sender=${senderId}, Private=${isPrivate}, Out=${isOut}, Text=${message?.message?.substring(0, 20)}...`,
@@ -341,26 +436,53 @@ export class TelegramService implements OnModuleInit {
           createdAt: userCreatedAt,
         });
 
-        if (this.isUserBlocked(senderId)) {
+        if (await this.isUserBlocked(senderId)) {
           await this.markMessageRead(message);
           this.logger.debug(`Blocked user ignored: ${senderId}`);
           return;
         }
 
-        if (this.isAiPausedForUser(senderId)) {
+        if (await this.isAiPausedForUser(senderId)) {
           await this.markMessageRead(message);
+          await this.mirrorToEscalationTopic({
+            senderId,
+            message,
+            chatMessageId: insertedUser.id,
+          });
           this.logger.debug(`AI paused for user ${senderId}, skipping reply.`);
           return;
         }
 
+        // Transcribed only after the block and pause checks, so ignored
+        // users never reach the paid transcription provider.
+        const voice = await this.transcribeIncomingAudio(senderId, message);
+        if (voice?.transcript) {
+          incomingText = voice.transcript;
+          if (insertedUser.id) {
+            await this.updateChatMessageContent(
+              insertedUser.id,
+              `${voice.marker} ${voice.transcript}`,
+            );
+          }
+        }
+
+        if (voice && !voice.transcript) {
+          await this.markMessageRead(message);
+          await this.sendLocalizedResponse(senderId, "voice.not_understood");
+          return;
+        }
+
         const messageId = insertedUser.id;
+        await this.updatePreferredLanguage(senderId, incomingText);
 
-        const mediaHandled = await this.forwardIncomingMedia({
-          senderId,
-          sessionId: session.id,
-          message,
-          incomingText,
-        });
+        const mediaHandled =
+          !voice &&
+          (await this.forwardIncomingMedia({
+            senderId,
+            sessionId: session.id,
+            message,
+            incomingText,
+          }));
 
         if (mediaHandled) {
           return;
@@ -397,7 +519,7 @@ export class TelegramService implements OnModuleInit {
           await this.notifyMediaArchiveFailure(senderId, error);
           return;
         }
-        this.logger.error(`Error in Gemini handler for ${senderId}`, error);
+        this.logger.error(`Error in AI handler for ${senderId}`, error);
       }
     }
   }
@@ -406,14 +528,14 @@ export class TelegramService implements OnModuleInit {
     senderId: string,
     error: MediaArchiveReadinessError | MediaArchiveConnectivityError,
   ) {
-    const message =
+    const messageKey: MessageKey =
       error instanceof MediaArchiveReadinessError
-        ? "Media saqlash vaqtincha to'xtatildi: bazada kerakli migratsiya ustunlari topilmadi. Iltimos, keyinroq qayta yuboring."
-        : "Media saqlash vaqtincha to'xtatildi: ma'lumotlar bazasiga ulanishda muammo bor. Iltimos, keyinroq qayta yuboring.";
+        ? "media.archive_not_ready"
+        : "media.archive_unavailable";
 
     this.logger.error(`Media archive flow blocked for ${senderId}: ${error.message}`);
     try {
-      await this.sendAdminResponse(senderId, message);
+      await this.sendLocalizedResponse(senderId, messageKey);
     } catch (notifyError) {
       this.logger.warn(
         `Failed to notify user ${senderId} about media archive issue`,
@@ -504,24 +626,7 @@ export class TelegramService implements OnModuleInit {
     orderType?: string,
     orderStatus?: string,
   ): UserCurrentStep {
-    if (!orderStatus) return "idle";
-
-    if (orderStatus === "awaiting_gender") return "awaiting_gender";
-    if (orderStatus === "awaiting_payment") {
-      return "awaiting_payment_confirmation";
-    }
-    if (orderStatus === "awaiting_check") return "awaiting_payment_receipt";
-    if (orderStatus === "payment_submitted") return "payment_receipt_submitted";
-    if (orderType === "ad" && orderStatus === "awaiting_content") {
-      return "awaiting_candidate_media";
-    }
-    if (orderType === "ad" && orderStatus === "ready_to_publish") {
-      return "awaiting_publish_review";
-    }
-    if (["completed", "cancelled", "failed"].includes(orderStatus)) {
-      return "idle";
-    }
-    return "idle";
+    return resolveOrderUserStep(orderType, orderStatus);
   }
 
   private async setUserCurrentStep(
@@ -559,6 +664,74 @@ export class TelegramService implements OnModuleInit {
     return nextStep;
   }
 
+  /**
+   * Applies an order status change through the order state machine and
+   * re-derives the user's current step from the new status. Illegal
+   * transitions are logged and skipped.
+   */
+  async transitionOrder(
+    orderId: number,
+    toStatus: OrderStatus,
+    options: OrderTransitionOptions,
+  ) {
+    const order = await this.applyOrderTransition(orderId, toStatus, options);
+    if (order) {
+      await this.syncUserCurrentStepFromOrderState({
+        userId: order.userId,
+        orderType: order.orderType,
+        orderStatus: order.status,
+      });
+    }
+    return order;
+  }
+
+  /**
+   * Cancels an order the user abandoned. The user's step is re-derived from
+   * the orders still open instead of the cancelled one, and an escalation
+   * step is left alone.
+   */
+  async expireOrder(orderId: number, options: OrderTransitionOptions) {
+    const order = await this.applyOrderTransition(
+      orderId,
+      "cancelled",
+      options,
+    );
+    if (order) await this.syncUserCurrentStepFromOpenOrders(order.userId);
+    return order;
+  }
+
+  private async applyOrderTransition(
+    orderId: number,
+    toStatus: OrderStatus,
+    options: OrderTransitionOptions,
+  ) {
+    try {
+      return await this.ordersService.transition(orderId, toStatus, options);
+    } catch (error) {
+      if (error instanceof IllegalOrderTransitionError) {
+        this.logger.warn(`Order #${orderId}: ${error.message}`);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** Keeps the step while an open order still implies it, else the newest open order decides. */
+  private async syncUserCurrentStepFromOpenOrders(userId: string) {
+    const profile = await this.getOrCreateUserProfile(userId);
+    const persisted = this.normalizeCurrentStep(profile.currentStep);
+    if (persisted === "escalated_to_admin") return persisted;
+
+    const steps = (await this.getOpenOrders(userId)).map((order) =>
+      this.resolveStepFromOrderState(order.orderType, order.status),
+    );
+    const nextStep = steps.includes(persisted)
+      ? persisted
+      : (steps[0] ?? "idle");
+    await this.setUserCurrentStep(userId, nextStep);
+    return nextStep;
+  }
+
   async syncUserCurrentStepFromOrderId(orderId: number) {
     const rows = await this.db
       .select({
@@ -583,12 +756,30 @@ export class TelegramService implements OnModuleInit {
   private async resolveCurrentStep(params: {
     userId: string;
     openOrder?: typeof orders.$inferSelect;
+    openOrders?: Array<typeof orders.$inferSelect>;
   }) {
     const profile = await this.getOrCreateUserProfile(params.userId);
     const persisted = this.normalizeCurrentStep(profile.currentStep);
     if (persisted === "escalated_to_admin") return persisted;
 
-    const openOrder = params.openOrder ?? (await this.getLatestOpenOrder(params.userId));
+    // With several open orders the persisted step stays valid as long as one
+    // of them still implies it; otherwise the newest order decides.
+    if (
+      params.openOrders?.some(
+        (order) =>
+          this.resolveStepFromOrderState(order.orderType, order.status) ===
+          persisted,
+      )
+    ) {
+      return persisted;
+    }
+
+    const openOrder =
+      params.openOrder ??
+      params.openOrders?.[0] ??
+      (params.openOrders
+        ? undefined
+        : await this.getLatestOpenOrder(params.userId));
     const inferred = this.resolveStepFromOrderState(
       openOrder?.orderType,
       openOrder?.status,
@@ -621,7 +812,7 @@ export class TelegramService implements OnModuleInit {
       case "escalated_to_admin":
         return ["handoff_to_human", "do_not_auto_reply"];
       default:
-        return ["normal_assistant_flow"];
+        return ["normal_assistant_flow", "search_candidates"];
     }
   }
 
@@ -659,36 +850,28 @@ export class TelegramService implements OnModuleInit {
       ? messages.filter((item) => !excludeSet.has(item.id))
       : messages;
 
-    const history = [] as Array<{
-      role: "model" | "user";
-      parts: { text: string }[];
-    }>;
+    const history: AiChatMessage[] = [];
 
     if (latestSummary?.summaryContent) {
       history.push({
         role: "user",
-        parts: [
-          {
-            text: [
-              "[SYSTEM CONTEXT]",
-              "Oldingi xulosa (ozbek tilida):",
-              latestSummary.summaryContent,
-              "[CHATNI DAVOM ETTIRING]",
-            ].join("\n"),
-          },
-        ],
+        content: [
+          "[SYSTEM CONTEXT]",
+          "Oldingi xulosa (ozbek tilida):",
+          latestSummary.summaryContent,
+          "[CHATNI DAVOM ETTIRING]",
+        ].join("\n"),
       });
     }
 
     history.push(
-      ...filtered.map((item) => {
-        const role: "user" | "model" =
-          item.role === "assistant" ? "model" : "user";
-        return {
-          role,
-          parts: [{ text: item.content }],
-        };
-      }),
+      ...filtered.map((item) => ({
+        role:
+          item.role === "assistant"
+            ? ("assistant" as const)
+            : ("user" as const),
+        content: item.content,
+      })),
     );
 
     return history;
@@ -746,13 +929,6 @@ export class TelegramService implements OnModuleInit {
 
     this.pendingReplies.delete(senderId);
 
-    if (!this.model) {
-      this.logger.debug(
-        "Gemini model not initialized, skipping buffered reply.",
-      );
-      return;
-    }
-
     const combinedMessage = pending.messages.join("\n").trim();
     if (!combinedMessage) {
       this.logger.warn(`Buffered reply empty for ${senderId}, skipping.`);
@@ -765,35 +941,63 @@ export class TelegramService implements OnModuleInit {
         pending.sessionId,
         pending.messageIds,
       );
-      if (this.shouldEscalateLocally(combinedMessage)) {
+      const classification = await this.classifyEscalation(combinedMessage);
+      const escalationAction = resolveEscalationAction(classification.severity);
+      if (escalationAction !== "none") {
+        this.logger.log(
+          JSON.stringify({
+            event: "escalation.classified",
+            userId: senderId,
+            ...classification,
+            action: escalationAction,
+          }),
+        );
+      }
+      if (escalationAction === "pause") {
         await this.escalateToHuman({
           senderId,
           sessionId: pending.sessionId,
           message: pending.lastMessage,
           combinedMessage,
+          reason: `classifier_${classification.category}`,
+          classification,
         });
         return;
       }
+      if (escalationAction === "flag") {
+        await this.flagForAdminReview({
+          senderId,
+          sessionId: pending.sessionId,
+          message: pending.lastMessage,
+          combinedMessage,
+          classification,
+        });
+      }
 
-      const chat = this.model.startChat({
-        history: await this.prependSystemPrompt(history, senderId),
+      const result = await this.aiService.chatWithTools("dialogue", {
+        systemPrompt: await this.buildSystemPrompt(senderId),
+        history,
+        message: combinedMessage,
+        tools: DIALOGUE_TOOLS,
       });
-      const result = await chat.sendMessage(combinedMessage);
-      const response = await result.response;
-      const responseText = response.text();
 
-      if (!responseText?.trim()) {
-        this.logger.warn(`Empty response from Gemini for ${senderId}`);
+      const toolCalls = this.resolveDialogueToolCalls(senderId, result);
+      if (toolCalls.length) {
+        for (const call of toolCalls) {
+          await this.executeDialogueTool({
+            senderId,
+            sessionId: pending.sessionId,
+            message: pending.lastMessage,
+            combinedMessage,
+            call,
+          });
+        }
         return;
       }
 
-      if (this.isEscalationResponse(responseText)) {
-        await this.escalateToHuman({
-          senderId,
-          sessionId: pending.sessionId,
-          message: pending.lastMessage,
-          combinedMessage,
-        });
+      const responseText = result.text;
+      if (!responseText?.trim()) {
+        this.logger.warn(`Empty response from AI for ${senderId}`);
         return;
       }
 
@@ -827,6 +1031,8 @@ export class TelegramService implements OnModuleInit {
     responseText: string;
     token: number;
     parseMode?: TelegramParseMode;
+    adminId?: string;
+    relayMessageId?: string;
   }) {
     if (!this.client) return;
 
@@ -858,6 +1064,8 @@ export class TelegramService implements OnModuleInit {
         role: "assistant",
         content: fragment,
         telegramMessageId: sentMessage?.id?.toString(),
+        adminId: params.adminId,
+        relayMessageId: params.relayMessageId,
         createdAt: sentMessage
           ? this.resolveMessageDate(sentMessage)
           : undefined,
@@ -866,7 +1074,7 @@ export class TelegramService implements OnModuleInit {
 
     await this.touchChatSession(params.sessionId);
     this.logger.log(
-      `Gemini replied to ${params.senderId} (${fragments.length} fragments).`,
+      `AI replied to ${params.senderId} (${fragments.length} fragments).`,
     );
   }
 
@@ -989,29 +1197,16 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
-  private async prependSystemPrompt(
-    history: Array<{ role: "model" | "user"; parts: { text: string }[] }>,
-    userId?: string,
-  ) {
-    const systemPrompt = await this.buildSystemPrompt(userId);
-    return [
-      {
-        role: "user" as const,
-        parts: [{ text: systemPrompt }],
-      },
-      ...history,
-    ];
-  }
-
   private async buildSystemPrompt(userId?: string) {
     const settings = await this.settingsService.getSettings();
-    const basePrompt = this.applyPromptVariables(settings.systemPrompt);
+    const basePrompt = await this.applyPromptVariables(settings.systemPrompt);
     if (!userId) return basePrompt;
 
     const openOrder = await this.getLatestOpenOrder(userId);
     const step = await this.resolveCurrentStep({ userId, openOrder });
     const allowedActions = this.resolveAllowedActions(step).join(", ");
     const orderStatus = openOrder?.status ?? "none";
+    const locale = await this.getUserLocale(userId);
 
     let promptContextSection: string | undefined;
     let promptContextStatus: "included" | "partial" | "skipped" = "skipped";
@@ -1058,21 +1253,24 @@ export class TelegramService implements OnModuleInit {
       `current_step=${step}`,
       `order_status=${orderStatus}`,
       `allowed_next_actions=${allowedActions}`,
+      `user_language=${locale}`,
       `prompt_context_status=${promptContextStatus}`,
       `prompt_context_included=${includedFields.join(",") || "none"}`,
       `prompt_context_excluded=${excludedFields.join(",") || "none"}`,
+      `Reply in ${LOCALE_NAMES[locale]}, the language of the user's latest messages.`,
     ]
       .filter(Boolean)
       .join("\n");
   }
 
-  private applyPromptVariables(prompt: string) {
+  private async applyPromptVariables(prompt: string) {
     const replacements: Record<string, string> = {
       adminName: this.adminName,
-      contactPrice: this.formatAmount(this.contactPrice),
-      vipPrice: this.formatAmount(this.vipPrice),
-      adPrice: this.formatAmount(this.adPrice),
     };
+    const prices = await this.pricingService.getBasePrices();
+    for (const [productKey, price] of Object.entries(prices)) {
+      replacements[`${productKey}Price`] = this.formatAmount(price.amount);
+    }
 
     let output = prompt;
     for (const [key, value] of Object.entries(replacements)) {
@@ -1105,6 +1303,17 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
+  private async ensureChatMessagesSchema() {
+    if (this.chatMessagesSchemaChecked) return;
+    this.chatMessagesSchemaChecked = true;
+    try {
+      await ensureChatMessagesSchema(this.db, this.logger);
+    } catch (error) {
+      this.chatMessagesSchemaChecked = false;
+      throw error;
+    }
+  }
+
   private async ensureMediaArchiveSchemaReadiness(
     source: "startup" | "runtime",
   ) {
@@ -1123,7 +1332,7 @@ export class TelegramService implements OnModuleInit {
   }
 
   async generateAiReplyFromConversation(conversation: AiConversationMessage[]) {
-    if (!this.model) {
+    if (!(await this.aiService.isAvailable("dialogue"))) {
       throw new BadRequestException("AI model is not configured");
     }
 
@@ -1143,17 +1352,18 @@ export class TelegramService implements OnModuleInit {
       throw new BadRequestException("Last message must be from user");
     }
 
-    const history = normalized.slice(0, -1).map((item) => ({
-      role: item.role === "assistant" ? ("model" as const) : ("user" as const),
-      parts: [{ text: item.content }],
+    const history: AiChatMessage[] = normalized.slice(0, -1).map((item) => ({
+      role: item.role,
+      content: item.content,
     }));
 
-    const chat = this.model.startChat({
-      history: await this.prependSystemPrompt(history),
-    });
-    const result = await chat.sendMessage(lastMessage.content);
-    const response = await result.response;
-    const responseText = response.text()?.trim();
+    const responseText = (
+      await this.aiService.chat("dialogue", {
+        systemPrompt: await this.buildSystemPrompt(),
+        history,
+        message: lastMessage.content,
+      })
+    )?.trim();
 
     if (!responseText) {
       throw new BadRequestException("AI returned an empty response");
@@ -1162,49 +1372,194 @@ export class TelegramService implements OnModuleInit {
     return responseText;
   }
 
-  private isEscalationResponse(responseText: string) {
-    return responseText.trim().toLowerCase() === "escalate_to_human";
+  /**
+   * Validated tool calls of a dialogue reply. Replies without tool calls are
+   * checked for the plain-text commands of older prompts.
+   */
+  private resolveDialogueToolCalls(senderId: string, result: AiChatResult) {
+    const calls: DialogueToolCall[] = [];
+    for (const toolCall of result.toolCalls) {
+      const call = parseDialogueToolCall(toolCall);
+      if (call) {
+        calls.push(call);
+        continue;
+      }
+      this.logger.warn(
+        `[dialogue-tools] ignored invalid tool call ${toolCall.name} for user ${senderId}`,
+      );
+    }
+    if (calls.length || result.toolCalls.length) return calls;
+
+    const legacyCall = parseLegacyDialogueOutput(result.text);
+    if (legacyCall) {
+      this.logger.warn(
+        `[dialogue-tools] legacy command output mapped to ${legacyCall.name} for user ${senderId}`,
+      );
+      return [legacyCall];
+    }
+    return [];
+  }
+
+  private async executeDialogueTool(params: {
+    senderId: string;
+    sessionId: number;
+    message: any;
+    combinedMessage: string;
+    call: DialogueToolCall;
+  }) {
+    const { call } = params;
+    this.logger.log(
+      JSON.stringify({
+        event: "dialogue.tool_call",
+        userId: params.senderId,
+        tool: call.name,
+      }),
+    );
+
+    switch (call.name) {
+      case "escalate":
+        await this.escalateToHuman({
+          senderId: params.senderId,
+          sessionId: params.sessionId,
+          message: params.message,
+          combinedMessage: params.combinedMessage,
+          reason: "ai_escalation",
+        });
+        return;
+      case "send_template":
+        await this.sendTemplateForOpenAdOrder(params.senderId);
+        return;
+      case "search_candidates":
+        await this.runCandidateSearch(params.senderId, call.filters);
+        return;
+      case "create_contact_order":
+      case "start_vip_order":
+      case "start_ad_order":
+      case "lookup_order_status":
+        await this.handleOrderFlow({
+          senderId: params.senderId,
+          sessionId: params.sessionId,
+          incomingText: params.combinedMessage,
+          intent: this.toOrderFlowIntent(call),
+        });
+        return;
+    }
+  }
+
+  private toOrderFlowIntent(
+    call: Extract<
+      DialogueToolCall,
+      {
+        name:
+          | "create_contact_order"
+          | "start_vip_order"
+          | "start_ad_order"
+          | "lookup_order_status";
+      }
+    >,
+  ): OrderFlowIntent {
+    switch (call.name) {
+      case "create_contact_order":
+        return { kind: "contact", adId: call.adId };
+      case "start_vip_order":
+        return { kind: "vip" };
+      case "start_ad_order":
+        return { kind: "ad" };
+      case "lookup_order_status":
+        return { kind: "order_status" };
+    }
   }
 
+  /** Model output that pastes a template URL instead of using the tool. */
   private async handleTemplateLinkAssistantOutput(params: {
     senderId: string;
     responseText: string;
   }) {
     const normalized = params.responseText?.trim();
-    if (!normalized) return false;
+    if (!normalized || !this.hasRawTemplateUrl(normalized)) return false;
 
-    const commandOutput = this.isTemplateLinkCommand(normalized);
-    const rawTemplateUrlOutput = this.hasRawTemplateUrl(normalized);
-    if (!commandOutput && !rawTemplateUrlOutput) return false;
+    this.logger.warn(
+      `[template-link-guard] blocked raw template URL output for user ${params.senderId}`,
+    );
+    await this.sendTemplateForOpenAdOrder(params.senderId);
+    return true;
+  }
 
-    const openAdOrder = await this.getOpenAdOrder(params.senderId);
+  private async sendTemplateForOpenAdOrder(senderId: string) {
+    const openAdOrder = await this.getOpenAdOrder(senderId);
     if (!openAdOrder || !this.isPostingAdTemplateStep(openAdOrder.status)) {
       this.logger.warn(
-        `[template-link-guard] blocked template helper output without active posting context for user ${params.senderId}`,
-      );
-      await this.sendAdminResponse(
-        params.senderId,
-        "Anketa shablonini yuborish uchun avval e'lon jarayonini boshlang.",
+        `[template-link-guard] blocked template helper output without active posting context for user ${senderId}`,
       );
-      return true;
+      await this.sendLocalizedResponse(senderId, "template.start_ad_first");
+      return;
     }
 
-    if (commandOutput) {
-      await this.executeTemplateLinkCommand({
-        senderId: params.senderId,
-        order: openAdOrder,
+    await this.executeTemplateLinkCommand({ senderId, order: openAdOrder });
+  }
+
+  private async runCandidateSearch(
+    senderId: string,
+    filters: CandidateSearchFilters,
+  ) {
+    let results: CandidateSearchResult[];
+    try {
+      results = await this.candidatesService.search(filters, {
+        excludeUserId: senderId,
       });
-      return true;
+    } catch (error) {
+      this.logger.warn("Candidate search failed", error as Error);
+      await this.sendLocalizedResponse(senderId, "search.unavailable");
+      return;
     }
 
-    this.logger.warn(
-      `[template-link-guard] blocked raw template URL output for user ${params.senderId} on order ${openAdOrder.id}`,
+    await this.sendAdminResponse(
+      senderId,
+      buildCandidateSearchReply(results, await this.getUserLocale(senderId)),
     );
-    await this.executeTemplateLinkCommand({
-      senderId: params.senderId,
-      order: openAdOrder,
-    });
-    return true;
+    for (const result of results) {
+      await this.sendCandidatePreview(senderId, result);
+    }
+  }
+
+  /**
+   * Sends a photo archived as candidate media for the anketa's ad order, with
+   * faces blurred. Sends nothing when the ad has no such photo or blur fails.
+   */
+  private async sendCandidatePreview(
+    senderId: string,
+    result: CandidateSearchResult,
+  ) {
+    if (!this.client || !result.userId) return;
+    try {
+      const posts = await this.db
+        .select({ taskId: adPosts.taskId })
+        .from(adPosts)
+        .where(eq(adPosts.id, result.adId))
+        .limit(1);
+      const taskId = posts[0]?.taskId;
+      const orderId = taskId
+        ? await this.findOrderIdForPublishTask(taskId)
+        : undefined;
+      if (!orderId) return;
+      const media = await this.getRecentUserMedia(
+        result.userId,
+        "photo",
+        1,
+        orderId,
+      );
+      if (!media.length) return;
+      const buffer = await this.downloadUserMedia(media[0], result.userId);
+      const blurred = buffer ? await this.blurFaces(buffer) : undefined;
+      if (!blurred) return;
+      const peer = await this.client.getInputEntity(senderId);
+      await this.client.sendFile(peer, {
+        file: blurred,
+        caption: `#${result.adId}`,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to send candidate preview", error as Error);
+    }
   }
 
   private async executeTemplateLinkCommand(params: {
@@ -1216,7 +1571,7 @@ export class TelegramService implements OnModuleInit {
 
     if (!gender) {
       await this.ensureAdOrderAwaitingGender(params.order.id);
-      await this.sendAdminResponse(params.senderId, "Ayolmisiz yoki erkak?");
+      await this.sendLocalizedResponse(params.senderId, "gender.ask");
       return;
     }
 
@@ -1225,19 +1580,28 @@ export class TelegramService implements OnModuleInit {
     }
 
     if (params.order.status === "awaiting_gender") {
-      const amount = this.computeAdPrice(gender, profile.adCount ?? 0);
+      const amount = await this.computeAdPrice(
+        params.senderId,
+        gender,
+        profile.adCount ?? 0,
+      );
       const nextStatus = amount === 0 ? "awaiting_content" : "awaiting_payment";
       await this.updateAdOrderAmountAndStatus(params.order.id, amount, nextStatus);
 
       if (amount > 0) {
         await this.sendAdminResponse(
           params.senderId,
-          this.buildAdPriceMessage(gender, profile.adCount ?? 0, amount),
+          this.buildAdPriceMessage(
+            gender,
+            profile.adCount ?? 0,
+            amount,
+            await this.getUserLocale(params.senderId),
+          ),
         );
         return;
       }
 
-      await this.sendAdminResponse(params.senderId, "Birinchi e'lon bepul.");
+      await this.sendLocalizedResponse(params.senderId, "ad.first_free");
     }
 
     if (
@@ -1245,46 +1609,38 @@ export class TelegramService implements OnModuleInit {
         params.order.status,
       )
     ) {
-      await this.sendAdminResponse(
-        params.senderId,
-        "Avval to'lovni yakunlaymiz.",
-      );
+      await this.sendLocalizedResponse(params.senderId, "payment.finish_first");
       return;
     }
 
     await this.sendPostingTemplateForGender(params.senderId, gender);
-    await this.sendAdminResponse(
-      params.senderId,
-      "Keyin 2 ta rasm va 1 ta yumaloq video yuboring.",
-    );
+    await this.sendLocalizedResponse(params.senderId, "media.send_next");
   }
 
   private async ensureAdOrderAwaitingGender(orderId: number) {
-    await this.db
-      .update(orders)
-      .set({ status: "awaiting_gender", updatedAt: nowInUzbekistan() })
-      .where(eq(orders.id, orderId));
-    await this.syncUserCurrentStepFromOrderId(orderId);
+    await this.transitionOrder(orderId, "awaiting_gender", {
+      actor: "system",
+      reason: "gender_missing",
+    });
   }
 
   private async updateAdOrderAmountAndStatus(
     orderId: number,
     amount: number,
-    status: string,
+    status: OrderStatus,
   ) {
-    await this.db
-      .update(orders)
-      .set({ amount, status, updatedAt: nowInUzbekistan() })
-      .where(eq(orders.id, orderId));
-    await this.syncUserCurrentStepFromOrderId(orderId);
+    await this.transitionOrder(orderId, status, {
+      actor: "user",
+      set: { amount },
+    });
   }
 
   private resolveProfileGender(value?: string | null) {
     if (!value) return undefined;
-    const lowered = value.trim().toLowerCase();
-    if (["female", "ayol", "qiz"].includes(lowered)) return "female" as const;
-    if (["male", "erkak", "yigit"].includes(lowered)) return "male" as const;
-    return undefined;
+    const normalized = normalizeUserText(value);
+    if (normalized === "female") return "female" as const;
+    if (normalized === "male") return "male" as const;
+    return detectGenderKeyword(normalized);
   }
 
   private isPostingAdTemplateStep(status: string) {
@@ -1293,10 +1649,6 @@ export class TelegramService implements OnModuleInit {
     );
   }
 
-  private isTemplateLinkCommand(text: string) {
-    return text.trim().toLowerCase() === this.sendTemplateLinkCommand;
-  }
-
   private hasRawTemplateUrl(text: string) {
     const urls = text.match(/https?:\/\/[^\s)]+/gi) ?? [];
     if (urls.length === 0) return false;
@@ -1339,61 +1691,48 @@ export class TelegramService implements OnModuleInit {
   ) {
     const link = this.resolveTemplateLinkForGender(gender);
     if (link) {
-      await this.sendAdminResponse(
+      await this.sendLocalizedResponse(
         userId,
-        `Anketani to'ldirish uchun [shu yerga bosing](${link})`,
+        "template.link",
+        { link },
         { parseMode: "markdown" },
       );
       return;
     }
 
+    const locale = await this.getUserLocale(userId);
     const template = [
-      "Anketa shabloni:",
-      "Jins: ",
-      "Ism: ",
-      "Yosh: ",
-      "Manzil: ",
-      "Boy: ",
-      "Talab: ",
-      "Tel: ",
+      translate(locale, "template.heading"),
+      ...ANKETA_TEMPLATE_FIELDS,
     ].join("\n");
 
     await this.sendAdminResponse(userId, template);
   }
 
-  private shouldEscalateLocally(text: string) {
-    const normalized = text.toLowerCase();
-    const keywords = [
-      "shikoyat",
-      "muammo",
-      "haqorat",
-      "aldadingiz",
-      "pulim",
-      "qaytar",
-      "tulov qilmadim",
-      "tulov qilganman",
-      "janjal",
-      "nohaq",
-      "firib",
-      "politsiya",
-      "sud",
-      "prokur",
-      "uraman",
-      "so'kish",
-      "axmoq",
-      "ahmoq",
-      "xayvon",
-      "tentak",
-      "sharmanda",
-      "yolg'on",
-      "dolboyob",
-      "pidar",
-      "suka",
-      "blya",
-      "fuck",
-      "shit",
-    ];
-    return keywords.some((word) => normalized.includes(word));
+  /**
+   * Scores the message with the weighted keywords first; only when they find
+   * a signal is the `escalation` provider asked for a structured verdict, and
+   * the keyword score stands when it does not answer in the expected format.
+   */
+  private async classifyEscalation(
+    text: string,
+  ): Promise<EscalationClassification> {
+    const keywords = scoreEscalationKeywords(text);
+    if (keywords.category === "none") return keywords;
+    if (await this.aiService.isAvailable("escalation")) {
+      try {
+        const parsed = parseEscalationClassification(
+          await this.aiService.generate(
+            "escalation",
+            `${ESCALATION_CLASSIFIER_PROMPT}\n\nXabar:\n${text}`,
+          ),
+        );
+        if (parsed) return parsed;
+      } catch (error) {
+        this.logger.warn("Escalation classifier failed", error as Error);
+      }
+    }
+    return keywords;
   }
 
   private async escalateToHuman(params: {
@@ -1401,15 +1740,43 @@ export class TelegramService implements OnModuleInit {
     sessionId: number;
     message: any;
     combinedMessage: string;
+    reason: string;
+    classification?: EscalationClassification;
   }) {
     if (!this.problemsTopicId) {
       this.logger.warn("Admin group/topic not configured for escalation.");
       return;
     }
 
-    this.pauseAiForUser(params.senderId);
+    await this.pauseAiForUser(params.senderId, params.reason);
     await this.setUserCurrentStep(params.senderId, "escalated_to_admin");
+    await this.createEscalationTask({ ...params, action: "pause" });
+  }
+
+  /**
+   * Medium-severity messages get an escalation card while the AI keeps
+   * answering; skipped when the user already has an open escalation.
+   */
+  private async flagForAdminReview(params: {
+    senderId: string;
+    sessionId: number;
+    message: any;
+    combinedMessage: string;
+    classification: EscalationClassification;
+  }) {
+    if (!this.problemsTopicId) return;
+    if (await this.findOpenEscalationTaskId(params.senderId)) return;
+    await this.createEscalationTask({ ...params, action: "flag" });
+  }
 
+  private async createEscalationTask(params: {
+    senderId: string;
+    sessionId: number;
+    message: any;
+    combinedMessage: string;
+    classification?: EscalationClassification;
+    action: EscalationAction;
+  }) {
     const identity = await this.resolveEscalationIdentity({
       senderId: params.senderId,
       sessionId: params.sessionId,
@@ -1426,14 +1793,21 @@ export class TelegramService implements OnModuleInit {
         phone: identity.phone,
         message: params.combinedMessage,
         openUrl: identity.openUrl,
+        action: params.action,
+        ...(params.classification
+          ? { classification: params.classification }
+          : {}),
       },
     });
   }
 
-  async resumeAiForUser(userId: string) {
-    this.aiPausedUsers.delete(userId);
-    this.blockedUsers.delete(userId);
+  async resumeAiForUser(userId: string, adminId?: string) {
+    await this.moderationService.clear(userId, { adminId });
     this.clearPendingReply(userId);
+    await this.restoreStepAfterPause(userId);
+  }
+
+  private async restoreStepAfterPause(userId: string) {
     const openOrder = await this.getLatestOpenOrder(userId);
     await this.syncUserCurrentStepFromOrderState({
       userId,
@@ -1442,9 +1816,11 @@ export class TelegramService implements OnModuleInit {
     });
   }
 
-  async blockEscalatedUser(userId: string) {
-    this.blockedUsers.add(userId);
-    this.aiPausedUsers.add(userId);
+  async blockEscalatedUser(userId: string, adminId?: string) {
+    await this.moderationService.block(userId, {
+      reason: "admin_block",
+      adminId,
+    });
     this.clearPendingReply(userId);
     await this.setUserCurrentStep(userId, "escalated_to_admin");
 
@@ -1469,17 +1845,23 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
-  private pauseAiForUser(userId: string) {
-    this.aiPausedUsers.add(userId);
+  private async pauseAiForUser(userId: string, reason: string) {
+    await this.moderationService.pauseAi(userId, { reason });
     this.clearPendingReply(userId);
   }
 
-  private isAiPausedForUser(userId: string) {
-    return this.aiPausedUsers.has(userId);
+  private async isAiPausedForUser(userId: string) {
+    const status = await this.moderationService.getAiPauseStatus(userId);
+    if (status === "expired") {
+      this.logger.log(`AI pause expired for user ${userId}, resuming.`);
+      await this.restoreStepAfterPause(userId);
+      return false;
+    }
+    return status === "active";
   }
 
   private isUserBlocked(userId: string) {
-    return this.blockedUsers.has(userId);
+    return this.moderationService.isBlocked(userId);
   }
 
   private clearPendingReply(userId: string) {
@@ -1628,10 +2010,20 @@ export class TelegramService implements OnModuleInit {
     return normalized.startsWith("+") ? normalized : `+${normalized}`;
   }
 
+  /**
+   * Sends text written by the bot or an admin. `adminId` and `relayMessageId`
+   * mark replies relayed from the escalation topic; `file` is sent as one
+   * message with the text as caption.
+   */
   async sendAdminResponse(
     senderId: string,
     text: string,
-    options?: { parseMode?: TelegramParseMode },
+    options?: {
+      parseMode?: TelegramParseMode;
+      adminId?: string;
+      relayMessageId?: string;
+      file?: Buffer;
+    },
   ) {
     if (!this.client) {
       await this.startUserbot();
@@ -1639,20 +2031,140 @@ export class TelegramService implements OnModuleInit {
     if (!this.client) return;
     const session = await this.getOrCreateChatSession(senderId);
     const token = this.nextReplyToken(senderId);
+    if (options?.file) {
+      await this.sendAdminFile({
+        senderId,
+        sessionId: session.id,
+        file: options.file,
+        caption: text,
+        adminId: options.adminId,
+        relayMessageId: options.relayMessageId,
+      });
+      return;
+    }
     await this.sendHumanizedResponse({
       senderId,
       sessionId: session.id,
       responseText: text,
       token,
       parseMode: options?.parseMode,
+      adminId: options?.adminId,
+      relayMessageId: options?.relayMessageId,
     });
   }
 
-  private async handleOrderFlow(params: {
+  private async sendAdminFile(params: {
     senderId: string;
     sessionId: number;
-    incomingText: string;
+    file: Buffer;
+    caption: string;
+    adminId?: string;
+    relayMessageId?: string;
   }) {
+    if (!this.client) return;
+    const inputPeer = await this.client.getInputEntity(params.senderId);
+    const caption = params.caption.trim();
+    const sentMessage = await this.client.sendFile(inputPeer, {
+      file: params.file,
+      caption: caption || undefined,
+    });
+    await this.insertChatMessage({
+      sessionId: params.sessionId,
+      role: "assistant",
+      content: caption ? `[media] ${caption}` : "[media]",
+      telegramMessageId: sentMessage?.id?.toString(),
+      adminId: params.adminId,
+      relayMessageId: params.relayMessageId,
+      createdAt: sentMessage ? this.resolveMessageDate(sentMessage) : undefined,
+    });
+    await this.touchChatSession(params.sessionId);
+  }
+
+  /**
+   * Forwards a message from a user whose chat was handed to admins into the
+   * escalation topic, so admins can answer it by replying there.
+   */
+  private async mirrorToEscalationTopic(params: {
+    senderId: string;
+    message: any;
+    chatMessageId?: number;
+  }) {
+    if (!this.adminGroupId || !this.problemsTopicId) return;
+    if (!(await this.findOpenEscalationTaskId(params.senderId))) return;
+
+    const forwarded = await this.forwardMessageToTopic({
+      message: params.message,
+      topicId: this.problemsTopicId,
+      targetGroupId: this.adminGroupId,
+    });
+    if (!forwarded || !params.chatMessageId) return;
+    try {
+      await this.ensureChatMessagesSchema();
+      await this.db
+        .update(chatMessages)
+        .set({ relayMessageId: String(forwarded.id) })
+        .where(eq(chatMessages.id, params.chatMessageId));
+    } catch (error) {
+      this.logger.warn("Failed to record relayed message", error as Error);
+    }
+  }
+
+  private async findOpenEscalationTaskId(userId: string) {
+    const rows = await this.db
+      .select({ id: adminTasks.id })
+      .from(adminTasks)
+      .where(
+        and(
+          eq(adminTasks.userId, userId),
+          eq(adminTasks.taskType, "escalation"),
+          inArray(adminTasks.status, ["pending", "posted"]),
+        ),
+      )
+      .limit(1);
+    return rows[0]?.id;
+  }
+
+  /** User behind a relayed message in the escalation topic, if any. */
+  async findRelayUserId(relayMessageId: string) {
+    await this.ensureChatMessagesSchema();
+    const rows = await this.db
+      .select({ userId: chatSessions.userId })
+      .from(chatMessages)
+      .innerJoin(chatSessions, eq(chatMessages.sessionId, chatSessions.id))
+      .where(eq(chatMessages.relayMessageId, relayMessageId))
+      .limit(1);
+    return rows[0]?.userId;
+  }
+
+  /** Sends a catalogue message in the user's preferred language. */
+  async sendLocalizedResponse(
+    userId: string,
+    key: MessageKey,
+    params?: MessageParams,
+    options?: { parseMode?: TelegramParseMode },
+  ) {
+    const text = translate(await this.getUserLocale(userId), key, params);
+    if (options) {
+      await this.sendAdminResponse(userId, text, options);
+      return;
+    }
+    await this.sendAdminResponse(userId, text);
+  }
+
+  private async handleOrderFlow(params: {
+    senderId: string;
+    sessionId: number;
+    incomingText: string;
+    intent?: OrderFlowIntent;
+  }) {
+    if (params.intent) {
+      return this.startOrderFromIntent({
+        senderId: params.senderId,
+        sessionId: params.sessionId,
+        intent: params.intent,
+      });
+    }
+
     const text = params.incomingText?.trim();
     if (!text) return false;
 
@@ -1660,105 +2172,122 @@ export class TelegramService implements OnModuleInit {
       const openOrder = await this.getOpenAdOrder(params.senderId);
       if (!openOrder) return false;
       await this.clearOrderMedia(params.senderId, openOrder.id);
-      await this.sendAdminResponse(
-        params.senderId,
-        "Media tozalandi. 2 ta rasm va 1 ta video yuboring.",
-      );
+      await this.sendLocalizedResponse(params.senderId, "media.reset_done");
+      return true;
+    }
+
+    if (await this.handleReceiptOrderChoice(params.senderId, text)) {
       return true;
     }
 
+    if (
+      this.isRefundIntent(text) &&
+      (await this.handleRefundRequest({
+        senderId: params.senderId,
+        sessionId: params.sessionId,
+        text,
+      }))
+    ) {
+      return true;
+    }
+
+    const openOrders = await this.getOpenOrders(params.senderId);
+
     const affirmative = this.isAffirmative(text);
     const negative = this.isNegative(text);
     const contactIntent = this.parseContactIntent(text);
-    const vipIntent = this.isVipIntent(text);
-    const adIntent = this.isAdIntent(text);
 
-    const openOrder = await this.getLatestOpenOrder(params.senderId);
     await this.resolveCurrentStep({
       userId: params.senderId,
-      openOrder,
+      openOrders,
     });
 
-    if (openOrder && openOrder.orderType === "ad") {
-      if (openOrder.status === "awaiting_gender") {
-        const gender = this.parseGender(text);
+    // Confirmation, decline and promo replies answer the latest open question:
+    // a price offer or the gender question of a new ad.
+    const latestOffer = openOrders.find(
+      (order) =>
+        order.status === "awaiting_payment" ||
+        (order.orderType === "ad" && order.status === "awaiting_gender"),
+    );
+    const openOrder = openOrders.find(
+      (order) => order.status === "awaiting_payment",
+    );
+    const openAdOrder = openOrders.find((order) => order.orderType === "ad");
+
+    if (openOrder && !affirmative && !negative) {
+      const promoHandled = await this.maybeApplyPromoCode({
+        senderId: params.senderId,
+        order: openOrder,
+        text,
+      });
+      if (promoHandled) return true;
+    }
+
+    if (openAdOrder && !contactIntent?.adId) {
+      const gender =
+        openAdOrder.status === "awaiting_gender"
+          ? this.parseGender(text)
+          : undefined;
+      if (
+        openAdOrder.status === "awaiting_gender" &&
+        (gender || latestOffer?.id === openAdOrder.id)
+      ) {
         if (negative) {
-          await this.db
-            .update(orders)
-            .set({ status: "cancelled", updatedAt: nowInUzbekistan() })
-            .where(eq(orders.id, openOrder.id));
-          await this.setUserCurrentStep(params.senderId, "idle");
-          await this.sendAdminResponse(params.senderId, "Mayli, bekor qildim.");
+          await this.transitionOrder(openAdOrder.id, "cancelled", {
+            actor: "user",
+            reason: "declined",
+          });
+          await this.sendLocalizedResponse(params.senderId, "order.cancelled");
           return true;
         }
         if (!gender) {
-          await this.sendAdminResponse(
-            params.senderId,
-            "Ayolmisiz yoki erkak?",
-          );
+          await this.sendLocalizedResponse(params.senderId, "gender.ask");
           return true;
         }
 
         const profile = await this.getOrCreateUserProfile(params.senderId);
         await this.updateUserGender(profile.userId, gender);
-        const amount = this.computeAdPrice(gender, profile.adCount ?? 0);
+        const amount = await this.computeAdPrice(
+          params.senderId,
+          gender,
+          profile.adCount ?? 0,
+        );
         const nextStatus =
           amount === 0 ? "awaiting_content" : "awaiting_payment";
-        await this.db
-          .update(orders)
-          .set({ amount, status: nextStatus, updatedAt: nowInUzbekistan() })
-          .where(eq(orders.id, openOrder.id));
-        await this.syncUserCurrentStepFromOrderState({
-          userId: params.senderId,
-          orderType: openOrder.orderType,
-          orderStatus: nextStatus,
-        });
+        await this.updateAdOrderAmountAndStatus(
+          openAdOrder.id,
+          amount,
+          nextStatus,
+        );
 
         if (amount === 0) {
-          await this.sendAdminResponse(
-            params.senderId,
-            "Birinchi e'lon bepul.",
-          );
-          await this.handleAdPaymentApproved(openOrder.id);
+          await this.sendLocalizedResponse(params.senderId, "ad.first_free");
+          await this.handleAdPaymentApproved(openAdOrder.id);
         } else {
           await this.sendAdminResponse(
             params.senderId,
-            this.buildAdPriceMessage(gender, profile.adCount ?? 0, amount),
+            this.buildAdPriceMessage(
+              gender,
+              profile.adCount ?? 0,
+              amount,
+              await this.getUserLocale(params.senderId),
+            ),
           );
         }
         return true;
       }
-      if (
-        ["awaiting_payment", "awaiting_check"].includes(openOrder.status) &&
-        adIntent
-      ) {
-        await this.sendAdminResponse(
-          params.senderId,
-          "To'lovni yakunlaymiz, keyin davom etamiz.",
-        );
-        return true;
-      }
-      if (
-        ["awaiting_content", "ready_to_publish", "payment_submitted"].includes(
-          openOrder.status,
-        ) &&
-        adIntent
-      ) {
-        await this.sendAdminResponse(
-          params.senderId,
-          "Joriy e'lon jarayoni davom etyapti.",
-        );
-        return true;
-      }
     }
 
     if (openOrder && openOrder.status === "awaiting_payment" && affirmative) {
-      await this.db
-        .update(orders)
-        .set({ status: "awaiting_check", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, openOrder.id));
-      await this.setUserCurrentStep(params.senderId, "awaiting_payment_receipt");
-      const paymentMessage = this.buildPaymentMessage(openOrder.amount);
+      await this.transitionOrder(openOrder.id, "awaiting_check", {
+        actor: "user",
+      });
+      const locale = await this.getUserLocale(params.senderId);
+      const paymentMessage = this.buildPaymentMessage(openOrder.amount, {
+        promo: resolveOrderPromo(openOrder.meta),
+        paymentUrl: this.paymentsService.createPaymentLink(openOrder),
+        locale,
+      });
       await this.sendAdminResponse(params.senderId, paymentMessage);
       if (
         openOrder.orderType === "ad" &&
@@ -1767,99 +2296,241 @@ export class TelegramService implements OnModuleInit {
       ) {
         const profile = await this.getOrCreateUserProfile(openOrder.userId);
         if (profile.gender === "female" && (profile.adCount ?? 0) > 0) {
-          await this.sendAdminResponse(
-            params.senderId,
-            "Bu keyingi e'lon, narxi 90 ming.",
-          );
+          await this.sendLocalizedResponse(params.senderId, "ad.next_price", {
+            amount: this.formatAmount(openOrder.amount, locale),
+          });
         }
       }
       return true;
     }
 
     if (openOrder && openOrder.status === "awaiting_payment" && negative) {
-      await this.db
-        .update(orders)
-        .set({ status: "cancelled", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, openOrder.id));
-      await this.setUserCurrentStep(params.senderId, "idle");
-      await this.sendAdminResponse(params.senderId, "Mayli, bekor qildim.");
+      await this.transitionOrder(openOrder.id, "cancelled", {
+        actor: "user",
+        reason: "declined",
+      });
+      await this.sendLocalizedResponse(params.senderId, "order.cancelled");
       return true;
     }
 
     if (contactIntent?.adId) {
-      await this.createOrder({
-        orderType: "contact",
+      return this.startOrderFromIntent({
+        senderId: params.senderId,
         sessionId: params.sessionId,
-        userId: params.senderId,
-        amount: this.contactPrice,
-        adId: contactIntent.adId,
+        intent: { kind: "contact", adId: contactIntent.adId },
       });
+    }
+
+    return false;
+  }
+
+  /** Starts the order a dialogue tool call (or an explicit anketa ID) asked for. */
+  private async startOrderFromIntent(params: {
+    senderId: string;
+    sessionId: number;
+    intent: OrderFlowIntent;
+  }) {
+    const { intent } = params;
+
+    if (intent.kind === "order_status") {
       await this.sendAdminResponse(
         params.senderId,
-        `Narxi ${this.formatAmount(
-          this.contactPrice,
-        )}. To'lovdan keyin kontakt va 1 ta rasm beriladi. Olasizmi?`,
+        this.buildOpenOrdersMessage(
+          await this.getOpenOrders(params.senderId),
+          await this.getUserLocale(params.senderId),
+        ),
       );
       return true;
     }
 
-    if (vipIntent) {
+    if (intent.kind === "contact") {
+      const price = await this.resolveUserPrice("contact", params.senderId);
+      await this.createOrder({
+        orderType: "contact",
+        sessionId: params.sessionId,
+        userId: params.senderId,
+        amount: price.amount,
+        adId: intent.adId,
+        meta: { priceRuleId: price.ruleId },
+      });
+      const locale = await this.getUserLocale(params.senderId);
+      await this.sendLocalizedResponse(params.senderId, "contact.price_offer", {
+        amount: this.formatAmount(price.amount, locale),
+      });
+      return true;
+    }
+
+    if (intent.kind === "vip") {
+      const price = await this.resolveUserPrice("vip", params.senderId);
+      const periodDays = price.periodDays ?? DEFAULT_VIP_PERIOD_DAYS;
       await this.createOrder({
         orderType: "vip",
         sessionId: params.sessionId,
         userId: params.senderId,
-        amount: this.vipPrice,
+        amount: price.amount,
+        meta: { priceRuleId: price.ruleId, periodDays },
       });
-      await this.sendAdminResponse(
+      const locale = await this.getUserLocale(params.senderId);
+      await this.sendLocalizedResponse(params.senderId, "vip.price_offer", {
+        days: periodDays,
+        amount: this.formatAmount(price.amount, locale),
+      });
+      return true;
+    }
+
+    const openAdOrder = await this.getOpenAdOrder(params.senderId);
+    if (openAdOrder) {
+      await this.sendLocalizedResponse(
         params.senderId,
-        `Oyiga ${this.formatAmount(this.vipPrice)}. Olasizmi?`,
+        this.describeOpenAdOrderStep(openAdOrder.status),
       );
       return true;
     }
 
-    if (adIntent) {
-      const profile = await this.getOrCreateUserProfile(params.senderId);
-      if (!profile.gender) {
-        await this.createOrder({
-          orderType: "ad",
-          sessionId: params.sessionId,
-          userId: params.senderId,
-          amount: 0,
-          status: "awaiting_gender",
-        });
-        await this.sendAdminResponse(params.senderId, "Ayolmisiz yoki erkak?");
-        return true;
-      }
-
-      const amount = this.computeAdPrice(profile.gender, profile.adCount ?? 0);
-      const status = amount === 0 ? "awaiting_content" : "awaiting_payment";
-      const orderId = await this.createOrder({
+    const profile = await this.getOrCreateUserProfile(params.senderId);
+    if (!profile.gender) {
+      await this.createOrder({
         orderType: "ad",
         sessionId: params.sessionId,
         userId: params.senderId,
-        amount,
-        status,
+        amount: 0,
+        status: "awaiting_gender",
       });
+      await this.sendLocalizedResponse(params.senderId, "gender.ask");
+      return true;
+    }
 
-      if (amount === 0) {
-        await this.sendAdminResponse(params.senderId, "Birinchi e'lon bepul.");
-        if (orderId) {
-          await this.handleAdPaymentApproved(orderId);
-        }
-      } else {
-        await this.sendAdminResponse(
-          params.senderId,
-          this.buildAdPriceMessage(
-            profile.gender ?? "",
-            profile.adCount ?? 0,
-            amount,
-          ),
-        );
+    const amount = await this.computeAdPrice(
+      params.senderId,
+      profile.gender,
+      profile.adCount ?? 0,
+    );
+    const status = amount === 0 ? "awaiting_content" : "awaiting_payment";
+    const orderId = await this.createOrder({
+      orderType: "ad",
+      sessionId: params.sessionId,
+      userId: params.senderId,
+      amount,
+      status,
+    });
+
+    if (amount === 0) {
+      await this.sendLocalizedResponse(params.senderId, "ad.first_free");
+      if (orderId) {
+        await this.handleAdPaymentApproved(orderId);
       }
+    } else {
+      await this.sendAdminResponse(
+        params.senderId,
+        this.buildAdPriceMessage(
+          profile.gender ?? "",
+          profile.adCount ?? 0,
+          amount,
+          await this.getUserLocale(params.senderId),
+        ),
+      );
+    }
+    return true;
+  }
+
+  private describeOpenAdOrderStep(status: string): MessageKey {
+    if (status === "awaiting_gender") return "gender.ask";
+    if (["awaiting_payment", "awaiting_check"].includes(status)) {
+      return "ad.step_payment";
+    }
+    return "ad.step_in_progress";
+  }
+
+  private async maybeApplyPromoCode(params: {
+    senderId: string;
+    order: typeof orders.$inferSelect;
+    text: string;
+  }) {
+    const candidate = extractPromoCodeCandidate(params.text);
+    if (!candidate) return false;
+    if (
+      !candidate.explicit &&
+      !(await this.promoCodesService.exists(candidate.code))
+    ) {
+      return false;
+    }
+
+    // The redemption only sticks when the order is still awaiting payment;
+    // otherwise the transaction rolls back and the code stays unused.
+    let result: PromoApplyResult;
+    try {
+      result = await this.db.transaction(async (tx) => {
+        const redeemed = await this.promoCodesService.redeemForOrder(
+          {
+            code: candidate.code,
+            userId: params.senderId,
+            orderId: params.order.id,
+            productKey: params.order.orderType,
+            amount: params.order.amount,
+          },
+          tx,
+        );
+        if (!redeemed.ok) return redeemed;
+
+        const meta = {
+          ...parseOrderMeta(params.order.meta),
+          promo: redeemed.promo,
+        };
+        const updated = await tx
+          .update(orders)
+          .set({
+            amount: redeemed.finalAmount,
+            meta: JSON.stringify(meta),
+            updatedAt: nowInUzbekistan(),
+          })
+          .where(
+            and(
+              eq(orders.id, params.order.id),
+              eq(orders.status, "awaiting_payment"),
+            ),
+          )
+          .returning({ id: orders.id });
+        if (!updated.length) tx.rollback();
+        return redeemed;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return false;
+      throw error;
+    }
+
+    if (!result.ok) {
+      await this.sendLocalizedResponse(
+        params.senderId,
+        this.resolvePromoRejectionKey(result.reason),
+      );
       return true;
     }
 
-    return false;
+    const locale = await this.getUserLocale(params.senderId);
+    await this.sendLocalizedResponse(params.senderId, "promo.applied", {
+      discount: this.formatAmount(result.promo.discountAmount, locale),
+      amount: this.formatAmount(result.finalAmount, locale),
+    });
+    return true;
+  }
+
+  private resolvePromoRejectionKey(reason: PromoRejectionReason): MessageKey {
+    switch (reason) {
+      case "not_found":
+        return "promo.not_found";
+      case "expired":
+        return "promo.expired";
+      case "exhausted":
+        return "promo.exhausted";
+      case "user_limit":
+        return "promo.user_limit";
+      case "not_applicable":
+        return "promo.not_applicable";
+      case "already_applied":
+        return "promo.already_applied";
+      default:
+        return "promo.inactive";
+    }
   }
 
   private async createOrder(params: {
@@ -1868,28 +2539,34 @@ export class TelegramService implements OnModuleInit {
     userId: string;
     amount: number;
     adId?: number;
-    status?: string;
+    status?: OrderStatus;
+    meta?: Record<string, unknown>;
   }) {
     const nextStatus = params.status ?? "awaiting_payment";
-    const inserted = await this.db
-      .insert(orders)
-      .values({
-        orderType: params.orderType,
-        status: nextStatus,
-        sessionId: params.sessionId,
-        userId: params.userId,
-        amount: params.amount,
-        adId: params.adId,
-        createdAt: nowInUzbekistan(),
-        updatedAt: nowInUzbekistan(),
-      })
-      .returning({ id: orders.id });
+    const order = await this.ordersService.create({
+      ...params,
+      status: nextStatus,
+      actor: "user",
+    });
     await this.syncUserCurrentStepFromOrderState({
       userId: params.userId,
       orderType: params.orderType,
       orderStatus: nextStatus,
     });
-    return inserted[0]?.id;
+    return order?.id;
+  }
+
+  private async getOpenOrders(userId: string) {
+    return this.db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.userId, userId),
+          inArray(orders.status, OPEN_ORDER_STATUSES),
+        ),
+      )
+      .orderBy(desc(orders.id));
   }
 
   private async getLatestOpenOrder(userId: string) {
@@ -1899,14 +2576,7 @@ export class TelegramService implements OnModuleInit {
       .where(
         and(
           eq(orders.userId, userId),
-          inArray(orders.status, [
-            "awaiting_payment",
-            "awaiting_check",
-            "payment_submitted",
-            "awaiting_gender",
-            "awaiting_content",
-            "ready_to_publish",
-          ]),
+          inArray(orders.status, OPEN_ORDER_STATUSES),
         ),
       )
       .orderBy(desc(orders.id))
@@ -1923,14 +2593,7 @@ export class TelegramService implements OnModuleInit {
         and(
           eq(orders.userId, userId),
           eq(orders.orderType, "ad"),
-          inArray(orders.status, [
-            "awaiting_payment",
-            "awaiting_check",
-            "payment_submitted",
-            "awaiting_gender",
-            "awaiting_content",
-            "ready_to_publish",
-          ]),
+          inArray(orders.status, OPEN_ORDER_STATUSES),
         ),
       )
       .orderBy(desc(orders.id))
@@ -1942,14 +2605,14 @@ export class TelegramService implements OnModuleInit {
     if (!text) return undefined;
     if (this.isLikelyAnketa(text)) return undefined;
 
-    const normalized = text.toLowerCase();
-    const adId = this.extractAnketaId(text);
+    const normalized = normalizeUserText(text);
+    const adId = this.extractAnketaId(normalized);
     if (!adId) return undefined;
 
     const hasKeyword = this.hasContactKeyword(normalized);
     const hasLabel = this.hasAnketaLabel(normalized);
-    const isBareId = this.isBareAnketaId(text);
-    const hasHash = text.includes("#");
+    const isBareId = this.isBareAnketaId(normalized);
+    const hasHash = normalized.includes("#");
 
     if (hasKeyword || hasLabel || isBareId || hasHash) {
       return { adId };
@@ -2010,92 +2673,155 @@ export class TelegramService implements OnModuleInit {
     return labels.some((word) => normalized.includes(word));
   }
 
-  private isVipIntent(text: string) {
-    const lowered = text.toLowerCase();
-    return (
-      lowered.includes("vip") &&
-      (lowered.includes("kanal") || lowered.includes("obuna"))
+  /** Explicit refund demands only; questions about the guarantee go to the AI. */
+  private isRefundIntent(text: string) {
+    return /(pul(im|imni|ni|ingiz)?\s+qaytar|qaytarib\s+ber|refund|vozvrat)/.test(
+      normalizeUserText(text),
     );
   }
 
-  private isAdIntent(text: string) {
-    const lowered = text.toLowerCase();
-    if (/(e'lon|elon|reklama)/.test(lowered)) return true;
-    if (!lowered.includes("anketa")) return false;
-
-    const strongContact = [
-      "raqam",
-      "kontakt",
-      "nomer",
-      "telefon",
-      "tel",
-      "aloqa",
-      "lich",
-    ];
-    if (strongContact.some((word) => lowered.includes(word))) {
-      return false;
-    }
+  private isAffirmative(text: string) {
+    return matchesIntent(text, "affirmative");
+  }
 
-    const adKeywords = ["joyla", "chiqar", "tashla", "post", "kanal"];
-    return adKeywords.some((word) => lowered.includes(word));
+  private isNegative(text: string) {
+    return matchesIntent(text, "negative");
   }
 
-  private isAffirmative(text: string) {
-    return /(\bha\b|\bxa\b|\bxo'p\b|\bmayli\b|\bolaman\b|\bok\b|\byuboraman\b|\bjonataman\b|\bjo'nataman\b|\btashlayman\b)/i.test(
-      text,
+  private isMediaResetCommand(text: string) {
+    return /(reset media|media reset|media tozalash|media tozalansin)/.test(
+      normalizeUserText(text),
     );
   }
 
-  private isNegative(text: string) {
-    return /(\byoq\b|\byo'q\b|\bkerak emas\b|\bbekor\b|\bistamayman\b)/i.test(
-      text,
+  private buildOpenOrdersMessage(
+    openOrders: Array<typeof orders.$inferSelect>,
+    locale: Locale = DEFAULT_LOCALE,
+  ) {
+    if (!openOrders.length) return translate(locale, "order.list_empty");
+    const lines = openOrders.map(
+      (order, index) =>
+        `${index + 1}) ${this.describeOrder(order, locale)}: ${describeOrderStatus(order.status, locale)}`,
     );
+    return [translate(locale, "order.list_heading"), ...lines].join("\n");
   }
 
-  private isMediaResetCommand(text: string) {
-    return /(reset media|media reset|media tozalash|media tozalansin)/i.test(
-      text,
-    );
+  private describeOrder(
+    order: typeof orders.$inferSelect,
+    locale: Locale = DEFAULT_LOCALE,
+  ) {
+    const label = describeOrderType(order, locale);
+    return order.amount > 0
+      ? `${label}, ${this.formatAmount(order.amount, locale)}`
+      : label;
   }
 
-  private formatAmount(amount: number) {
+  private formatAmount(amount: number, locale: Locale = DEFAULT_LOCALE) {
     if (amount % 1000 === 0) {
-      return `${Math.round(amount / 1000)} ming`;
+      return translate(locale, "amount.thousands", {
+        value: Math.round(amount / 1000),
+      });
     }
     return amount.toString();
   }
 
-  private buildAdPriceMessage(gender: string, adCount: number, amount: number) {
-    const base = `Narxi ${this.formatAmount(amount)}. Karta tashlaymi?`;
+  private buildAdPriceMessage(
+    gender: string,
+    adCount: number,
+    amount: number,
+    locale: Locale = DEFAULT_LOCALE,
+  ) {
+    const offer = translate(locale, "ad.price_offer", {
+      amount: this.formatAmount(amount, locale),
+    });
     if (gender === "female" && adCount > 0) {
-      return `Birinchi e'lon bepul edi. ${base}`;
+      return translate(locale, "ad.first_was_free", { offer });
     }
-    return base;
+    return offer;
   }
 
-  private buildPaymentMessage(amount: number) {
-    const lines = [`Narxi ${this.formatAmount(amount)}.`];
+  private buildPaymentMessage(
+    amount: number,
+    options: {
+      promo?: OrderPromoMeta;
+      paymentUrl?: string;
+      locale?: Locale;
+    } = {},
+  ) {
+    const { promo, paymentUrl, locale = DEFAULT_LOCALE } = options;
+    const lines = [
+      translate(locale, "payment.price", {
+        amount: this.formatAmount(amount, locale),
+      }),
+    ];
+    if (promo) {
+      lines.push(
+        translate(locale, "payment.promo_line", {
+          code: promo.code,
+          discount: this.formatAmount(promo.discountAmount, locale),
+          original: this.formatAmount(promo.originalAmount, locale),
+        }),
+      );
+    }
     if (this.paymentCardNumber) {
-      lines.push("Karta raqami:");
+      lines.push(translate(locale, "payment.card_number"));
       lines.push(this.paymentCardNumber);
     }
     if (this.paymentCardOwner) {
-      lines.push(`Karta egasi: ${this.paymentCardOwner}`);
+      lines.push(
+        translate(locale, "payment.card_owner", {
+          owner: this.paymentCardOwner,
+        }),
+      );
     }
-    lines.push("Chekni yuborasiz.");
+    if (paymentUrl) {
+      lines.push(translate(locale, "payment.online_url", { url: paymentUrl }));
+      lines.push(translate(locale, "payment.online_no_receipt"));
+      return lines.join("\n");
+    }
+    lines.push(translate(locale, "payment.send_receipt"));
     return lines.join("\n");
   }
 
   private parseGender(text: string) {
-    const lowered = text.toLowerCase();
-    if (/(\bayol\b|\bqiz\b)/i.test(lowered)) return "female" as const;
-    if (/(\berkak\b|\byigit\b)/i.test(lowered)) return "male" as const;
-    return undefined;
+    return detectGenderKeyword(text);
   }
 
-  private computeAdPrice(gender: string, adCount: number) {
-    if (gender === "female" && adCount === 0) return 0;
-    return this.adPrice;
+  private async computeAdPrice(
+    userId: string,
+    gender: string,
+    adCount: number,
+  ) {
+    const price = await this.pricingService.resolvePrice("ad", {
+      gender: this.resolveProfileGender(gender),
+      adCount,
+      vipActive: await this.hasActiveVipSubscription(userId),
+    });
+    return price.amount;
+  }
+
+  private async resolveUserPrice(productKey: string, userId: string) {
+    const profile = await this.getOrCreateUserProfile(userId);
+    return this.pricingService.resolvePrice(productKey, {
+      gender: this.resolveProfileGender(profile.gender),
+      adCount: profile.adCount ?? 0,
+      vipActive: await this.hasActiveVipSubscription(userId),
+    });
+  }
+
+  private async hasActiveVipSubscription(userId: string) {
+    const rows = await this.db
+      .select({ expiresAt: vipSubscriptions.expiresAt })
+      .from(vipSubscriptions)
+      .where(
+        and(
+          eq(vipSubscriptions.userId, userId),
+          eq(vipSubscriptions.status, "active"),
+        ),
+      )
+      .orderBy(desc(vipSubscriptions.expiresAt))
+      .limit(1);
+    return Boolean(rows[0] && rows[0].expiresAt > nowInUzbekistan());
   }
 
   private async getOrCreateUserProfile(userId: string) {
@@ -2120,6 +2846,63 @@ export class TelegramService implements OnModuleInit {
     return inserted[0];
   }
 
+  /** Preferred language from the profile, cached per user for the process. */
+  private async getUserLocale(userId: string) {
+    const cached = this.userLocales.get(userId);
+    if (cached) return cached;
+    try {
+      await this.ensureUserProfileSchema();
+      const rows = await this.db
+        .select({ preferredLanguage: userProfiles.preferredLanguage })
+        .from(userProfiles)
+        .where(eq(userProfiles.userId, userId))
+        .limit(1);
+      const locale = resolveLocale(rows[0]?.preferredLanguage);
+      this.userLocales.set(userId, locale);
+      return locale;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load preferred language for ${userId}`,
+        error as Error,
+      );
+      return DEFAULT_LOCALE;
+    }
+  }
+
+  /**
+   * Switches the user's preferred language when a message is clearly written
+   * in another supported locale. Short or script-less messages keep the
+   * current preference.
+   */
+  private async updatePreferredLanguage(userId: string, text: string) {
+    const detected = text ? detectLocale(text) : undefined;
+    if (!detected) return;
+    const current = await this.getUserLocale(userId);
+    if (detected === current) return;
+
+    try {
+      await this.getOrCreateUserProfile(userId);
+      await this.db
+        .update(userProfiles)
+        .set({ preferredLanguage: detected, updatedAt: nowInUzbekistan() })
+        .where(eq(userProfiles.userId, userId));
+      this.userLocales.set(userId, detected);
+      this.logger.log(
+        JSON.stringify({
+          event: "user.language_detected",
+          userId,
+          from: current,
+          to: detected,
+        }),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update preferred language for ${userId}`,
+        error as Error,
+      );
+    }
+  }
+
   private async updateUserGender(userId: string, gender: string) {
     await this.ensureUserProfileSchema();
     await this.db
@@ -2203,9 +2986,15 @@ export class TelegramService implements OnModuleInit {
       .returning();
 
     const adId = created[0]?.id;
-    const sourceMessageText = adId
-      ? `${params.text}\n\nID: #${adId}`
+    const postText = adId
+      ? await this.saveCandidateRecord({
+          adId,
+          taskId: params.taskId,
+          userId: order?.userId ?? params.userId,
+          text: params.text,
+        })
       : params.text;
+    const sourceMessageText = adId ? `${postText}\n\nID: #${adId}` : postText;
 
     const mediaUserId = order?.userId ?? params.userId ?? undefined;
     let mediaCounts: { photos: number; videos: number } | undefined;
@@ -2350,13 +3139,10 @@ export class TelegramService implements OnModuleInit {
       .where(eq(adminTasks.id, params.taskId));
 
     if (orderId && isFullyPublished) {
-      await this.db
-        .update(orders)
-        .set({ status: "completed", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, orderId));
-      if (order?.userId) {
-        await this.setUserCurrentStep(order.userId, "idle");
-      }
+      await this.transitionOrder(orderId, "completed", {
+        actor: "admin",
+        reason: "ad_published",
+      });
     }
 
     if (isFullyPublished && order?.orderType === "ad" && order?.userId) {
@@ -2364,10 +3150,29 @@ export class TelegramService implements OnModuleInit {
     }
 
     if (params.userId && adId && isFullyPublished) {
-      await this.sendAdminResponse(
-        params.userId,
-        `Anketangiz chiqdi. ID: #${adId}`,
-      );
+      await this.sendLocalizedResponse(params.userId, "ad.published", {
+        adId,
+      });
+    }
+  }
+
+  /**
+   * Stores the anketa as a candidate record and returns the post text rendered
+   * from it. Falls back to the text as written when the anketa is incomplete
+   * or the record could not be saved.
+   */
+  private async saveCandidateRecord(params: {
+    adId: number;
+    taskId: number;
+    userId?: string | null;
+    text: string;
+  }) {
+    try {
+      const saved = await this.candidatesService.saveFromAnketa(params);
+      return saved.complete ? renderAnketa(saved.candidate) : params.text;
+    } catch (error) {
+      this.logger.warn("Failed to save candidate record", error as Error);
+      return params.text;
     }
   }
 
@@ -2380,26 +3185,32 @@ export class TelegramService implements OnModuleInit {
     if (!this.anketasTopicId || !this.adminGroupId) return;
     if (!this.isLikelyAnketa(params.incomingText)) return;
 
-    const validation = this.validateAnketa(params.incomingText);
-    if (!validation.valid) {
+    const validation = parseAnketa(params.incomingText);
+    if (validation.missing.length || validation.invalid.length) {
+      const locale = await this.getUserLocale(params.senderId);
+      const problems = [
+        validation.missing.length
+          ? translate(locale, "anketa.missing", {
+              fields: validation.missing.join(", "),
+            })
+          : "",
+        validation.invalid.length
+          ? translate(locale, "anketa.invalid", {
+              fields: validation.invalid.join(", "),
+            })
+          : "",
+      ].filter(Boolean);
+      await this.sendLocalizedResponse(params.senderId, "anketa.incomplete", {
+        problems: problems.join(" "),
+      });
       await this.sendAdminResponse(
         params.senderId,
-        `Shablonni to'liq toldiring. Yetishmayapti: ${validation.missing.join(", ")}.`,
+        ANKETA_TEMPLATE_FIELDS.join("\n"),
       );
-      const template = [
-        "Jins: ",
-        "Ism: ",
-        "Yosh: ",
-        "Manzil: ",
-        "Boy: ",
-        "Talab: ",
-        "Tel: ",
-      ].join("\n");
-      await this.sendAdminResponse(params.senderId, template);
       return;
     }
 
-    const parsedGender = this.parseGender(params.incomingText);
+    const parsedGender = validation.candidate.gender;
     if (parsedGender) {
       const profile = await this.getOrCreateUserProfile(params.senderId);
       if (!profile.gender) {
@@ -2412,10 +3223,7 @@ export class TelegramService implements OnModuleInit {
       openAdOrder &&
       !["awaiting_content", "ready_to_publish"].includes(openAdOrder.status)
     ) {
-      await this.sendAdminResponse(
-        params.senderId,
-        "Avval to'lovni yakunlaymiz.",
-      );
+      await this.sendLocalizedResponse(params.senderId, "payment.finish_first");
       return;
     }
 
@@ -2425,18 +3233,15 @@ export class TelegramService implements OnModuleInit {
     );
     if (!mediaCounts.ready) {
       await this.setUserCurrentStep(params.senderId, "awaiting_candidate_media");
-      await this.sendAdminResponse(
-        params.senderId,
-        `2 ta rasm va 1 ta yumaloq video yuboring. Hozir: ${mediaCounts.photos} rasm, ${mediaCounts.videos} video.`,
-      );
+      await this.sendLocalizedResponse(params.senderId, "media.progress", {
+        photos: mediaCounts.photos,
+        videos: mediaCounts.videos,
+      });
       return;
     }
     if (mediaCounts.photos > 2 || mediaCounts.videos > 1) {
       await this.setUserCurrentStep(params.senderId, "awaiting_candidate_media");
-      await this.sendAdminResponse(
-        params.senderId,
-        "Ortiqcha fayllarni yubormang. 2 ta rasm va 1 ta video kerak.",
-      );
+      await this.sendLocalizedResponse(params.senderId, "media.too_many");
       return;
     }
 
@@ -2475,28 +3280,11 @@ export class TelegramService implements OnModuleInit {
     }
 
     if (openAdOrder) {
-      await this.db
-        .update(orders)
-        .set({ status: "ready_to_publish", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, openAdOrder.id));
-      await this.setUserCurrentStep(params.senderId, "awaiting_publish_review");
-    }
-  }
-
-  private validateAnketa(text: string) {
-    const required = ["jins", "ism", "yosh", "manzil", "boy", "talab", "tel"];
-    const lowered = text.toLowerCase();
-    const missing: string[] = [];
-    for (const field of required) {
-      const regex = new RegExp(`${field}\\s*:\\s*.+`, "i");
-      if (!regex.test(lowered)) {
-        missing.push(field);
-      }
-    }
-    if (missing.length > 0) {
-      return { valid: false, missing } as const;
+      await this.transitionOrder(openAdOrder.id, "ready_to_publish", {
+        actor: "user",
+        reason: "anketa_submitted",
+      });
     }
-    return { valid: true, missing: [] } as const;
   }
 
   private async getAdMediaCounts(userId: string, orderId?: number) {
@@ -2520,7 +3308,7 @@ export class TelegramService implements OnModuleInit {
   }
 
   private isLikelyAnketa(text: string) {
-    const normalized = text.toLowerCase();
+    const normalized = normalizeUserText(text);
     const keywords = [
       "jins",
       "ism",
@@ -2547,11 +3335,12 @@ export class TelegramService implements OnModuleInit {
     if (!this.adminGroupId && !this.storageGroupId) return false;
 
     const mediaType = this.resolveMediaType(params.message);
-    const openOrder = await this.getLatestOpenOrder(params.senderId);
+    const openOrders = await this.getOpenOrders(params.senderId);
     const currentStep = await this.resolveCurrentStep({
       userId: params.senderId,
-      openOrder,
+      openOrders,
     });
+    const openOrder = selectOrderForStep(openOrders, currentStep);
 
     const route = this.resolveImageRoutingDecision({
       mediaType,
@@ -2580,7 +3369,9 @@ export class TelegramService implements OnModuleInit {
         await this.setUserCurrentStep(params.senderId, "awaiting_candidate_media");
       }
 
-      await this.sendAdminResponse(params.senderId, route.guidance);
+      if (route.guidance) {
+        await this.sendLocalizedResponse(params.senderId, route.guidance);
+      }
       return true;
     }
 
@@ -2597,13 +3388,25 @@ export class TelegramService implements OnModuleInit {
     });
 
     if (route.target === "payment_receipt" && openOrder) {
+      const selection = selectReceiptOrder(openOrders);
+      if (selection.kind === "ambiguous" && mediaType === "photo") {
+        await this.askReceiptOrder({
+          senderId: params.senderId,
+          sessionId: params.sessionId,
+          incomingText: params.incomingText,
+          message: params.message,
+          orders: selection.orders,
+        });
+        return true;
+      }
+
       const handledPayment = await this.handlePaymentReceiptMedia({
         senderId: params.senderId,
         sessionId: params.sessionId,
         incomingText: params.incomingText,
         message: params.message,
         mediaType,
-        openOrder,
+        openOrder: selection.kind === "single" ? selection.order : openOrder,
       });
       if (handledPayment) {
         return true;
@@ -2620,10 +3423,7 @@ export class TelegramService implements OnModuleInit {
         reason: "payment_pipeline_unavailable",
         orderStatus: openOrder?.status,
       });
-      await this.sendAdminResponse(
-        params.senderId,
-        "To'lov cheki hozir qabul qilinmadi. Iltimos, to'lov bosqichini tekshirib qayta yuboring.",
-      );
+      await this.sendLocalizedResponse(params.senderId, "receipt.not_accepted");
       return true;
     }
 
@@ -2644,10 +3444,7 @@ export class TelegramService implements OnModuleInit {
         reason: "candidate_order_missing",
         orderStatus: openOrder?.status,
       });
-      await this.sendAdminResponse(
-        params.senderId,
-        "Nomzod media yuborish uchun faol e'lon jarayoni topilmadi. Avval e'lon jarayonini boshlang.",
-      );
+      await this.sendLocalizedResponse(params.senderId, "media.no_ad_order");
       return true;
     }
 
@@ -2664,11 +3461,11 @@ export class TelegramService implements OnModuleInit {
         orderStatus: openAdOrder.status,
       });
       if (openAdOrder.status === "awaiting_gender") {
-        await this.sendAdminResponse(params.senderId, "Ayolmisiz yoki erkak?");
+        await this.sendLocalizedResponse(params.senderId, "gender.ask");
       } else {
-        await this.sendAdminResponse(
+        await this.sendLocalizedResponse(
           params.senderId,
-          "Avval to'lovni yakunlaymiz.",
+          "payment.finish_first",
         );
       }
       return true;
@@ -2691,9 +3488,9 @@ export class TelegramService implements OnModuleInit {
           reason: "candidate_photo_limit_reached",
           orderStatus: openAdOrder.status,
         });
-        await this.sendAdminResponse(
+        await this.sendLocalizedResponse(
           params.senderId,
-          "2 ta rasm yetarli. Ortiqcha yubormang.",
+          "media.photos_enough",
         );
         return true;
       }
@@ -2709,10 +3506,7 @@ export class TelegramService implements OnModuleInit {
           reason: "candidate_video_limit_reached",
           orderStatus: openAdOrder.status,
         });
-        await this.sendAdminResponse(
-          params.senderId,
-          "1 ta video yetarli. Ortiqcha yubormang.",
-        );
+        await this.sendLocalizedResponse(params.senderId, "media.video_enough");
         return true;
       }
     }
@@ -2800,10 +3594,7 @@ export class TelegramService implements OnModuleInit {
         await this.syncCandidateMediaCurrentStep(params.senderId, openAdOrder.id);
       }
 
-      await this.sendAdminResponse(
-        params.senderId,
-        "Video qabul qilindi. AI tahlil uchun qo'shimcha rasm ham yuboring.",
-      );
+      await this.sendLocalizedResponse(params.senderId, "media.video_received");
       return true;
     }
 
@@ -2841,6 +3632,10 @@ export class TelegramService implements OnModuleInit {
         return "sticker";
       }
 
+      if (this.isVoiceNote(message as Api.Message)) {
+        return "voice" as const;
+      }
+
       if (
         attributes.some(
           (attr: any) => attr instanceof Api.DocumentAttributeVideo,
@@ -2857,12 +3652,13 @@ export class TelegramService implements OnModuleInit {
   }
 
   private isPaymentEvidence(text: string) {
-    const normalized = text?.toLowerCase?.() ?? "";
+    const normalized = normalizeUserText(text ?? "");
     const keywords = [
       "chek",
       "check",
       "oplata",
       "payment",
+      "to'lov",
       "tolov",
       "tulov",
       "kvitansiya",
@@ -2873,7 +3669,7 @@ export class TelegramService implements OnModuleInit {
   }
 
   private isCandidateMediaIntent(text: string) {
-    const normalized = text?.toLowerCase?.() ?? "";
+    const normalized = normalizeUserText(text ?? "");
     const keywords = [
       "anketa",
       "nomzod",
@@ -2974,8 +3770,7 @@ export class TelegramService implements OnModuleInit {
         ...active,
         target: "blocked" as const,
         reason: "low_confidence_context",
-        guidance:
-          "Rasm yuborishdan oldin tegishli bosqichni boshlang. To'lov uchun avval to'lov jarayoniga, anketa uchun esa media yig'ish bosqichiga o'ting.",
+        guidance: "media.route_low_confidence" as const,
       };
     }
 
@@ -2987,8 +3782,7 @@ export class TelegramService implements OnModuleInit {
         ...active,
         target: "blocked" as const,
         reason: "receipt_intent_during_candidate_context",
-        guidance:
-          "Bu bosqichda nomzod media qabul qilinadi. To'lov cheki yuborish uchun avval to'lov bosqichiga qayting.",
+        guidance: "media.route_receipt_during_candidate" as const,
       };
     }
 
@@ -3000,8 +3794,7 @@ export class TelegramService implements OnModuleInit {
         ...active,
         target: "blocked" as const,
         reason: "candidate_intent_during_receipt_context",
-        guidance:
-          "Hozir to'lov cheki bosqichi faol. Iltimos, chek rasmini yuboring; nomzod media keyingi bosqichda qabul qilinadi.",
+        guidance: "media.route_candidate_during_receipt" as const,
       };
     }
 
@@ -3012,8 +3805,7 @@ export class TelegramService implements OnModuleInit {
           ...active,
           target: "blocked" as const,
           reason: "non_image_in_receipt_context",
-          guidance:
-            "To'lov cheki rasm bo'lishi kerak. Iltimos, chekni rasm ko'rinishida yuboring.",
+          guidance: "receipt.photo_required" as const,
         };
       }
 
@@ -3022,8 +3814,7 @@ export class TelegramService implements OnModuleInit {
           ...active,
           target: "blocked" as const,
           reason: "unsupported_media_in_candidate_context",
-          guidance:
-            "Nomzod uchun rasm yoki video yuboring. Sticker yoki boshqa turdagi fayl qabul qilinmaydi.",
+          guidance: "media.route_unsupported_candidate_media" as const,
         };
       }
 
@@ -3031,8 +3822,7 @@ export class TelegramService implements OnModuleInit {
         ...active,
         target: "blocked" as const,
         reason: "no_active_media_context",
-        guidance:
-          "Rasm yuborishdan oldin kerakli jarayonni boshlang. To'lov cheki yoki nomzod media bosqichi faol bo'lishi kerak.",
+        guidance: "media.route_no_context" as const,
       };
     }
 
@@ -3044,8 +3834,7 @@ export class TelegramService implements OnModuleInit {
         ...active,
         target: "blocked" as const,
         reason: "no_payable_order_for_receipt",
-        guidance:
-          "To'lov cheki yuborish uchun faol to'lov buyurtmasi topilmadi. Avval buyurtmani boshlang yoki to'lov bosqichini faollashtiring.",
+        guidance: "media.route_no_payable_order" as const,
       };
     }
 
@@ -3053,7 +3842,7 @@ export class TelegramService implements OnModuleInit {
       ...active,
       target,
       reason: "context_route_match",
-      guidance: "",
+      guidance: undefined,
     };
   }
 
@@ -3093,6 +3882,106 @@ export class TelegramService implements OnModuleInit {
     await this.setUserCurrentStep(userId, "awaiting_candidate_media");
   }
 
+  private async askReceiptOrder(params: {
+    senderId: string;
+    sessionId: number;
+    incomingText: string;
+    message: any;
+    orders: Array<typeof orders.$inferSelect>;
+  }) {
+    const receiptChoice: OrderReceiptChoiceMeta = {
+      messageId: Number(params.message?.id),
+      sessionId: params.sessionId,
+      incomingText: params.incomingText,
+      orderIds: params.orders.map((order) => order.id),
+      askedAt: new Date().toISOString(),
+    };
+    for (const order of params.orders) {
+      await this.db
+        .update(orders)
+        .set({
+          meta: JSON.stringify({
+            ...parseOrderMeta(order.meta),
+            receiptChoice,
+          }),
+        })
+        .where(eq(orders.id, order.id));
+    }
+    const locale = await this.getUserLocale(params.senderId);
+    const lines = params.orders.map(
+      (order, index) => `${index + 1}) ${this.describeOrder(order, locale)}`,
+    );
+    await this.sendAdminResponse(
+      params.senderId,
+      [translate(locale, "receipt.choose_order"), ...lines].join("\n"),
+    );
+  }
+
+  /**
+   * Resolves a pending "which order is this receipt for" question, stored in
+   * the meta of the offered orders. Returns false when there is nothing
+   * pending or the text is not a valid choice, so the message continues
+   * through the normal flow.
+   */
+  private async handleReceiptOrderChoice(senderId: string, text: string) {
+    const openOrders = await this.getOpenOrders(senderId);
+    const pending = openOrders
+      .map((order) => resolveReceiptChoice(order.meta))
+      .find((choice) => choice !== undefined);
+    if (!pending) return false;
+    if (
+      Date.now() - new Date(pending.askedAt).getTime() >
+      this.receiptSelectionTtlMs
+    ) {
+      await this.clearReceiptChoice(openOrders);
+      return false;
+    }
+
+    const index = parseOrderChoice(text, pending.orderIds.length);
+    if (index === undefined) return false;
+    await this.clearReceiptChoice(openOrders);
+
+    const order = openOrders.find(
+      (item) => item.id === pending.orderIds[index],
+    );
+    if (!order || !this.payableOrderStatuses.has(order.status)) {
+      await this.sendLocalizedResponse(senderId, "receipt.order_not_payable");
+      return true;
+    }
+
+    const message = await this.getUserMessageByPeer(
+      senderId,
+      pending.messageId,
+    );
+    const handled =
+      message &&
+      (await this.handlePaymentReceiptMedia({
+        senderId,
+        sessionId: pending.sessionId,
+        incomingText: pending.incomingText,
+        message,
+        mediaType: "photo",
+        openOrder: order,
+      }));
+    if (!handled) {
+      await this.sendLocalizedResponse(senderId, "receipt.not_accepted");
+    }
+    return true;
+  }
+
+  private async clearReceiptChoice(
+    candidates: Array<typeof orders.$inferSelect>,
+  ) {
+    for (const order of candidates) {
+      const { receiptChoice, ...meta } = parseOrderMeta(order.meta);
+      if (!receiptChoice) continue;
+      await this.db
+        .update(orders)
+        .set({ meta: JSON.stringify(meta) })
+        .where(eq(orders.id, order.id));
+    }
+  }
+
   private async handlePaymentReceiptMedia(params: {
     senderId: string;
     sessionId: number;
@@ -3109,9 +3998,9 @@ export class TelegramService implements OnModuleInit {
 
     if (params.mediaType !== "photo") {
       await this.setUserCurrentStep(params.senderId, "awaiting_payment_receipt");
-      await this.sendAdminResponse(
+      await this.sendLocalizedResponse(
         params.senderId,
-        "To'lov cheki rasm bo'lishi kerak. Iltimos, chekni rasm ko'rinishida yuboring.",
+        "receipt.photo_required",
       );
       return true;
     }
@@ -3122,12 +4011,16 @@ export class TelegramService implements OnModuleInit {
       targetGroupId: this.confirmPaymentsGroupId,
     });
 
-    await this.db
-      .update(orders)
-      .set({ status: "payment_submitted", updatedAt: nowInUzbekistan() })
-      .where(eq(orders.id, params.openOrder.id));
+    await this.transitionOrder(params.openOrder.id, "payment_submitted", {
+      actor: "user",
+      reason: "receipt_uploaded",
+    });
 
-    await this.setUserCurrentStep(params.senderId, "payment_receipt_submitted");
+    const receipt = await this.analyzePaymentReceiptStep({
+      senderId: params.senderId,
+      message: params.message,
+      order: params.openOrder,
+    });
 
     await this.createAdminTask({
       taskType: "payment",
@@ -3142,18 +4035,14 @@ export class TelegramService implements OnModuleInit {
         orderAmount: params.openOrder?.amount,
         adId: params.openOrder?.adId,
         mediaType: params.mediaType,
+        receipt,
       },
     });
 
-    await this.analyzePaymentReceiptStep({
-      senderId: params.senderId,
-      message: params.message,
-    });
-
     if (params.openOrder?.orderType === "ad") {
-      await this.sendAdminResponse(
+      await this.sendLocalizedResponse(
         params.senderId,
-        "To'lov tushgach, anketangizni yuborasiz.",
+        "receipt.anketa_after_payment",
       );
     }
 
@@ -3164,59 +4053,83 @@ export class TelegramService implements OnModuleInit {
     senderId: string;
     message: any;
   }) {
-    const prompt =
-      "Siz nomzod suratlarini baholovchi yordamchisiz. Rasm mosligini qisqa tekshiring va faqat o'zbek tilida 1-2 jumla amaliy tavsiya yozing.";
+    const locale = await this.getUserLocale(params.senderId);
+    const prompt = [
+      "Siz nomzod suratlarini baholovchi yordamchisiz. Rasm mosligini qisqa tekshiring va 1-2 jumla amaliy tavsiya yozing.",
+      `Answer only in ${LOCALE_NAMES[locale]}.`,
+    ].join(" ");
     await this.analyzeImageWithPrompt({
       senderId: params.senderId,
       message: params.message,
       prompt,
-      fallbackText:
-        "Rasm qabul qilindi. Yana kerakli materiallarni yuborishda davom eting.",
+      fallbackKey: "media.photo_received",
     });
   }
 
+  /**
+   * Extracts amount, date, card and transaction id from the receipt photo and
+   * stores them against the order. The result goes into the admin payment
+   * task; the user only gets an acknowledgement.
+   */
   private async analyzePaymentReceiptStep(params: {
     senderId: string;
     message: any;
-  }) {
-    const prompt =
-      "Siz to'lov cheki tekshiruvchisiz. Rasm to'lov cheki ekanini qisqa baholang va faqat o'zbek tilida 1-2 jumla natija yozing.";
-    await this.analyzeImageWithPrompt({
-      senderId: params.senderId,
-      message: params.message,
-      prompt,
-      fallbackText: "Chek rasmi qabul qilindi va tekshiruvga yuborildi.",
-    });
+    order: typeof orders.$inferSelect;
+  }): Promise<ReceiptTaskSummary | undefined> {
+    const imageBuffer = await this.downloadIncomingMediaBuffer(params.message);
+    let receipt: ReceiptTaskSummary | undefined;
+
+    if (imageBuffer) {
+      let rawResponse: string | undefined;
+      if (await this.aiService.isAvailable("image")) {
+        try {
+          rawResponse = await this.aiService.generateWithImage("image", {
+            prompt: RECEIPT_EXTRACTION_PROMPT,
+            image: { data: imageBuffer, mimeType: "image/jpeg" },
+          });
+        } catch (error) {
+          this.logger.warn("Receipt extraction failed", error as Error);
+        }
+      }
+
+      try {
+        receipt = await this.paymentReceiptsService.recordReceipt({
+          orderId: params.order.id,
+          userId: params.senderId,
+          image: imageBuffer,
+          rawResponse,
+          orderAmount: params.order.amount,
+        });
+      } catch (error) {
+        this.logger.warn("Failed to record payment receipt", error as Error);
+      }
+    }
+
+    await this.sendLocalizedResponse(params.senderId, "receipt.received");
+    return receipt;
   }
 
   private async analyzeImageWithPrompt(params: {
     senderId: string;
     message: any;
     prompt: string;
-    fallbackText: string;
+    fallbackKey: MessageKey;
   }) {
-    if (!this.model) return;
+    if (!(await this.aiService.isAvailable("image"))) return;
 
-    const imageBuffer = await this.downloadIncomingImageBuffer(params.message);
+    const imageBuffer = await this.downloadIncomingMediaBuffer(params.message);
     if (!imageBuffer) {
-      await this.sendAdminResponse(params.senderId, params.fallbackText);
+      await this.sendLocalizedResponse(params.senderId, params.fallbackKey);
       return;
     }
 
     try {
-      const result = await this.model.generateContent([
-        {
-          text: params.prompt,
-        },
-        {
-          inlineData: {
-            mimeType: "image/jpeg",
-            data: imageBuffer.toString("base64"),
-          },
-        } as any,
-      ] as any);
-      const response = await result.response;
-      const text = response.text()?.trim();
+      const text = (
+        await this.aiService.generateWithImage("image", {
+          prompt: params.prompt,
+          image: { data: imageBuffer, mimeType: "image/jpeg" },
+        })
+      )?.trim();
       if (text) {
         await this.sendAdminResponse(params.senderId, text);
         return;
@@ -3225,10 +4138,10 @@ export class TelegramService implements OnModuleInit {
       this.logger.warn("Image analysis failed", error as Error);
     }
 
-    await this.sendAdminResponse(params.senderId, params.fallbackText);
+    await this.sendLocalizedResponse(params.senderId, params.fallbackKey);
   }
 
-  private async downloadIncomingImageBuffer(message: any) {
+  private async downloadIncomingMediaBuffer(message: any) {
     try {
       const data = await message?.downloadMedia?.({});
       if (Buffer.isBuffer(data)) return data;
@@ -3236,7 +4149,7 @@ export class TelegramService implements OnModuleInit {
         return await fs.readFile(data);
       }
     } catch (error) {
-      this.logger.warn("Failed to download incoming image", error as Error);
+      this.logger.warn("Failed to download incoming media", error as Error);
     }
     return undefined;
   }
@@ -3311,6 +4224,111 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
+  /**
+   * Opens a refund task for the user's last completed contact order. Returns
+   * false when there is nothing to refund, so the message is answered as usual.
+   */
+  private async handleRefundRequest(params: {
+    senderId: string;
+    sessionId: number;
+    text: string;
+  }) {
+    const pending = await this.db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.userId, params.senderId),
+          eq(orders.status, "refund_requested"),
+        ),
+      )
+      .limit(1);
+    if (pending.length) {
+      await this.sendLocalizedResponse(params.senderId, "refund.in_review");
+      return true;
+    }
+
+    const refundable = await this.db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.userId, params.senderId),
+          eq(orders.orderType, "contact"),
+          eq(orders.status, "completed"),
+        ),
+      )
+      .orderBy(desc(orders.id))
+      .limit(1);
+    const order = refundable[0];
+
+    if (!order || order.amount <= 0) return false;
+
+    const updated = await this.transitionOrder(order.id, "refund_requested", {
+      actor: "user",
+      from: ["completed"],
+      reason: params.text.slice(0, 200),
+    });
+    if (!updated) return true;
+
+    await this.createAdminTask({
+      taskType: "refund",
+      sessionId: params.sessionId,
+      userId: params.senderId,
+      payload: {
+        orderId: order.id,
+        orderType: order.orderType,
+        amount: order.amount,
+        adId: order.adId,
+        reason: params.text,
+      },
+    });
+
+    await this.sendLocalizedResponse(params.senderId, "refund.submitted");
+    return true;
+  }
+
+  async resolveRefundRequest(orderId: number, decision: "approve" | "reject") {
+    const nextStatus = decision === "approve" ? "refunded" : "completed";
+    const order = await this.transitionOrder(orderId, nextStatus, {
+      actor: "admin",
+      from: ["refund_requested"],
+      reason: `refund_${decision}`,
+    });
+    if (!order) return undefined;
+
+    if (decision === "approve") {
+      const locale = await this.getUserLocale(order.userId);
+      await this.sendLocalizedResponse(order.userId, "refund.approved", {
+        amount: this.formatAmount(order.amount, locale),
+      });
+    } else {
+      await this.sendLocalizedResponse(order.userId, "refund.rejected");
+    }
+    return order;
+  }
+
+  /**
+   * Runs the post-payment flow for an order. Shared by the admin-bot approve
+   * button and the payment provider webhook; returns false for order types
+   * without an automated flow.
+   */
+  async handleOrderPaymentApproved(orderId: number, orderType?: string) {
+    if (orderType === "contact") {
+      await this.fulfillContactOrder(orderId);
+      return true;
+    }
+    if (orderType === "vip") {
+      await this.activateVipOrder(orderId);
+      return true;
+    }
+    if (orderType === "ad") {
+      await this.handleAdPaymentApproved(orderId);
+      return true;
+    }
+    return false;
+  }
+
   async fulfillContactOrder(orderId: number) {
     if (!this.client) {
       await this.startUserbot();
@@ -3336,33 +4354,27 @@ export class TelegramService implements OnModuleInit {
 
     const adPost = adRows[0];
     if (!adPost?.content || !adPost.userId) {
-      await this.sendAdminResponse(
-        order.userId,
-        "Kontakt topilmadi. Admin tekshiradi.",
-      );
-      await this.db
-        .update(orders)
-        .set({ status: "failed", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, order.id));
-      await this.setUserCurrentStep(order.userId, "idle");
+      await this.sendLocalizedResponse(order.userId, "contact.not_found");
+      await this.transitionOrder(order.id, "failed", {
+        actor: "system",
+        reason: "contact_not_found",
+      });
       return;
     }
 
     const contact = this.extractContactInfo(adPost.content);
     if (!contact) {
-      await this.sendAdminResponse(
-        order.userId,
-        "Kontakt topilmadi. Admin tekshiradi.",
-      );
-      await this.db
-        .update(orders)
-        .set({ status: "failed", updatedAt: nowInUzbekistan() })
-        .where(eq(orders.id, order.id));
-      await this.setUserCurrentStep(order.userId, "idle");
+      await this.sendLocalizedResponse(order.userId, "contact.not_found");
+      await this.transitionOrder(order.id, "failed", {
+        actor: "system",
+        reason: "contact_not_found",
+      });
       return;
     }
 
-    await this.sendAdminResponse(order.userId, `Kontakt: ${contact}`);
+    await this.sendLocalizedResponse(order.userId, "contact.delivered", {
+      contact,
+    });
 
     const media = await this.getRecentUserMedia(adPost.userId, "photo", 1);
     if (media.length > 0) {
@@ -3372,11 +4384,10 @@ export class TelegramService implements OnModuleInit {
       }
     }
 
-    await this.db
-      .update(orders)
-      .set({ status: "completed", updatedAt: nowInUzbekistan() })
-      .where(eq(orders.id, order.id));
-    await this.setUserCurrentStep(order.userId, "idle");
+    await this.transitionOrder(order.id, "completed", {
+      actor: "system",
+      reason: "contact_delivered",
+    });
   }
 
   async activateVipOrder(orderId: number) {
@@ -3394,30 +4405,35 @@ export class TelegramService implements OnModuleInit {
     const order = orderRows[0];
     if (!order || order.orderType !== "vip") return;
 
-    const expiresAt = await this.upsertVipSubscription(order.userId);
+    const meta = parseOrderMeta(order.meta);
+    const periodDays =
+      typeof meta.periodDays === "number" && meta.periodDays > 0
+        ? meta.periodDays
+        : DEFAULT_VIP_PERIOD_DAYS;
+    const expiresAt = await this.upsertVipSubscription(
+      order.userId,
+      periodDays,
+    );
     const addResult = await this.addUserToVipChannel(order.userId);
 
     if (addResult.inviteLink) {
-      await this.sendAdminResponse(
-        order.userId,
-        `VIP kanal link: ${addResult.inviteLink}`,
-      );
+      await this.sendLocalizedResponse(order.userId, "vip.invite_link", {
+        link: addResult.inviteLink,
+      });
     } else if (addResult.added) {
-      await this.sendAdminResponse(order.userId, "VIP kanalga qo'shildingiz.");
+      await this.sendLocalizedResponse(order.userId, "vip.added");
     }
 
     if (expiresAt) {
-      await this.sendAdminResponse(
-        order.userId,
-        "VIP obuna 30 kun faol bo'ladi.",
-      );
+      await this.sendLocalizedResponse(order.userId, "vip.active_days", {
+        days: periodDays,
+      });
     }
 
-    await this.db
-      .update(orders)
-      .set({ status: "completed", updatedAt: nowInUzbekistan() })
-      .where(eq(orders.id, order.id));
-    await this.setUserCurrentStep(order.userId, "idle");
+    await this.transitionOrder(order.id, "completed", {
+      actor: "system",
+      reason: "vip_activated",
+    });
   }
 
   async handleAdPaymentApproved(orderId: number) {
@@ -3434,7 +4450,7 @@ export class TelegramService implements OnModuleInit {
     const gender = this.resolveProfileGender(profile.gender);
     if (!gender) {
       await this.ensureAdOrderAwaitingGender(order.id);
-      await this.sendAdminResponse(order.userId, "Ayolmisiz yoki erkak?");
+      await this.sendLocalizedResponse(order.userId, "gender.ask");
       return;
     }
 
@@ -3442,17 +4458,13 @@ export class TelegramService implements OnModuleInit {
       await this.updateUserGender(profile.userId, gender);
     }
 
-    await this.db
-      .update(orders)
-      .set({ status: "awaiting_content", updatedAt: nowInUzbekistan() })
-      .where(eq(orders.id, order.id));
-    await this.setUserCurrentStep(order.userId, "awaiting_candidate_media");
+    await this.transitionOrder(order.id, "awaiting_content", {
+      actor: "system",
+      reason: "payment_approved",
+    });
 
     await this.sendPostingTemplateForGender(order.userId, gender);
-    await this.sendAdminResponse(
-      order.userId,
-      "Keyin 2 ta rasm va 1 ta yumaloq video yuboring.",
-    );
+    await this.sendLocalizedResponse(order.userId, "media.send_next");
   }
 
   private extractContactInfo(text: string) {
@@ -3535,6 +4547,20 @@ export class TelegramService implements OnModuleInit {
     return Number.isFinite(orderId) ? orderId : undefined;
   }
 
+  private async getUserMessageByPeer(peerId: string, messageId: number) {
+    if (!this.client || !Number.isFinite(messageId)) return undefined;
+    try {
+      const peer = await this.client.getInputEntity(peerId);
+      const messages = await this.client.getMessages(peer, {
+        ids: [messageId],
+      });
+      return messages[0];
+    } catch (error) {
+      this.logger.warn("Failed to load user message", error as Error);
+      return undefined;
+    }
+  }
+
   private async downloadUserMediaByPeer(peerId: string, messageId: number) {
     if (!this.client) return undefined;
     try {
@@ -3601,7 +4627,7 @@ export class TelegramService implements OnModuleInit {
 
   async logAdminAction(params: {
     action: string;
-    taskId: number;
+    taskId?: number;
     orderId?: number;
     adminId?: string;
     userId?: string;
@@ -3610,7 +4636,7 @@ export class TelegramService implements OnModuleInit {
     if (!this.client || !this.adminGroupId || !this.auditTopicId) return;
     const parts = [
       `action: ${params.action}`,
-      `task: #${params.taskId}`,
+      params.taskId ? `task: #${params.taskId}` : "",
       params.orderId ? `order: #${params.orderId}` : "",
       params.adminId ? `admin: ${params.adminId}` : "",
       params.userId ? `user: ${params.userId}` : "",
@@ -3727,7 +4753,10 @@ export class TelegramService implements OnModuleInit {
     const peer = await this.client.getInputEntity(userId);
     const sent = await this.client.sendFile(peer, {
       file: buffer,
-      caption: "Rasm 10 soniyada o'chadi.",
+      caption: translate(
+        await this.getUserLocale(userId),
+        "search.preview_caption",
+      ),
     });
 
     if (sent?.id) {
@@ -3739,7 +4768,7 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
-  private async upsertVipSubscription(userId: string) {
+  private async upsertVipSubscription(userId: string, periodDays: number) {
     const now = nowInUzbekistan();
     const existing = await this.db
       .select()
@@ -3753,7 +4782,9 @@ export class TelegramService implements OnModuleInit {
       current && current.status === "active" && current.expiresAt > now
         ? current.expiresAt
         : now;
-    const nextExpires = new Date(baseDate.getTime() + 30 * 24 * 60 * 60 * 1000);
+    const nextExpires = new Date(
+      baseDate.getTime() + periodDays * 24 * 60 * 60 * 1000,
+    );
 
     await this.db.insert(vipSubscriptions).values({
       userId,
@@ -3844,11 +4875,19 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
+  private async loadOpenCv(): Promise<any> {
+    const imported = await import("opencv4nodejs");
+    return imported.default ?? imported;
+  }
+
+  /**
+   * Blurs every detected face. When no face is found the whole frame is
+   * blurred instead, so an undetected face is never sent in the clear.
+   */
   private async blurFaces(buffer: Buffer) {
     let cv: any;
     try {
-      const imported = await import("opencv4nodejs");
-      cv = imported.default ?? imported;
+      cv = await this.loadOpenCv();
     } catch (error) {
       if (!this.blurDependencyWarningEmitted) {
         this.blurDependencyWarningEmitted = true;
@@ -3977,11 +5016,25 @@ export class TelegramService implements OnModuleInit {
     return { insertedCount, lastMessageAt };
   }
 
+  /** Replaces a stored message's text, e.g. a voice marker with its transcript. */
+  private async updateChatMessageContent(id: number, content: string) {
+    try {
+      await this.db
+        .update(chatMessages)
+        .set({ content })
+        .where(eq(chatMessages.id, id));
+    } catch (error) {
+      this.logger.warn("Failed to update chat message content", error as Error);
+    }
+  }
+
   private async insertChatMessage(params: {
     sessionId: number;
     role: string;
     content: string;
     telegramMessageId?: string;
+    adminId?: string;
+    relayMessageId?: string;
     createdAt?: Date;
   }) {
     const values: typeof chatMessages.$inferInsert = {
@@ -3991,6 +5044,14 @@ export class TelegramService implements OnModuleInit {
       telegramMessageId: params.telegramMessageId,
     };
 
+    if (params.adminId) {
+      values.adminId = params.adminId;
+    }
+
+    if (params.relayMessageId) {
+      values.relayMessageId = params.relayMessageId;
+    }
+
     if (params.createdAt) {
       values.createdAt = params.createdAt;
     }
@@ -4070,14 +5131,112 @@ export class TelegramService implements OnModuleInit {
     return nowInUzbekistan();
   }
 
-  private resolveMessageContent(message: any) {
+  private resolveMessageContent(message: any): string {
     const text = typeof message?.message === "string" ? message.message : "";
     if (text.trim().length > 0) return text;
-    if (message?.media) return "[media]";
+    if (message?.media) return this.resolveMediaMarker(message as Api.Message);
     if (message?.action) return "[action]";
     return "[empty]";
   }
 
+  private resolveMediaMarker(message: Api.Message) {
+    if (this.resolveMediaType(message) === "voice") return "[voice]";
+    if (this.isRoundVideo(message)) return "[round_video]";
+    return "[media]";
+  }
+
+  private isVoiceNote(message: Api.Message) {
+    const attributes = this.getMessageDocument(message)?.attributes;
+    return (
+      Array.isArray(attributes) &&
+      attributes.some(
+        (attr) => attr instanceof Api.DocumentAttributeAudio && attr.voice,
+      )
+    );
+  }
+
+  private isRoundVideo(message: Api.Message) {
+    const attributes = this.getMessageDocument(message)?.attributes;
+    return (
+      Array.isArray(attributes) &&
+      attributes.some(
+        (attr) =>
+          attr instanceof Api.DocumentAttributeVideo && attr.roundMessage,
+      )
+    );
+  }
+
+  /** The document a voice note or video message carries, if any. */
+  private getMessageDocument(message: Api.Message) {
+    const media = message?.media;
+    if (!media || !("document" in media)) return undefined;
+    const document = media.document;
+    return document && "attributes" in document ? document : undefined;
+  }
+
+  /**
+   * Transcribes voice notes, and round videos sent outside candidate media
+   * collection (there they are the candidate's video, not a question).
+   * Returns undefined for anything else; an empty `transcript` means the
+   * audio could not be turned into text.
+   */
+  private async transcribeIncomingAudio(
+    senderId: string,
+    message: Api.Message,
+  ) {
+    if (!message?.media) return undefined;
+    if (typeof message.message === "string" && message.message.trim()) {
+      return undefined;
+    }
+
+    const mediaType = this.resolveMediaType(message);
+    if (mediaType !== "voice") {
+      if (!this.isRoundVideo(message)) return undefined;
+      if (await this.isCollectingCandidateMedia(senderId)) return undefined;
+    }
+
+    const marker = this.resolveMediaMarker(message);
+    if (!(await this.aiService.isAvailable("transcription"))) {
+      return { marker, transcript: "" };
+    }
+
+    const data = await this.downloadIncomingMediaBuffer(message);
+    if (!data) return { marker, transcript: "" };
+
+    const mimeType = this.getMessageDocument(message)?.mimeType || "audio/ogg";
+    try {
+      const transcript = (
+        await this.aiService.transcribe("transcription", {
+          prompt: VOICE_TRANSCRIPTION_PROMPT,
+          audio: { data, mimeType },
+        })
+      ).trim();
+      this.logger.log(
+        JSON.stringify({
+          event: "voice.transcribed",
+          userId: senderId,
+          marker,
+          length: transcript.length,
+        }),
+      );
+      return { marker, transcript };
+    } catch (error) {
+      this.logger.warn("Voice transcription failed", error as Error);
+      return { marker, transcript: "" };
+    }
+  }
+
+  private async isCollectingCandidateMedia(userId: string) {
+    const openOrders = await this.getOpenOrders(userId);
+    const currentStep = await this.resolveCurrentStep({ userId, openOrders });
+    const { context } = this.resolveActiveImageContext({
+      currentStep,
+      incomingText: "",
+      openOrder: selectOrderForStep(openOrders, currentStep),
+    });
+    return context === "candidate_media";
+  }
+
   private resolveDialogId(dialog: any) {
     const dialogId = dialog?.id ?? dialog?.entity?.id;
     if (dialogId === undefined || dialogId === null) return undefined;
@@ -0,0 +1,51 @@
+import { escapeHtml, renderTranscriptHtml } from "./transcript.formatters";
+import { ConversationTranscript } from "./transcripts.types";
+
+describe("transcript formatters", () => {
+  const transcript: ConversationTranscript = {
+    userId: "111",
+    generatedAt: new Date("2025-03-01T10:00:00Z"),
+    unredacted: false,
+    profile: { displayName: "<b>Aziz</b>", phoneNumber: "[REDACTED]" },
+    sessions: [
+      {
+        id: 1,
+        platform: "telegram",
+        status: "active",
+        userId: "111",
+        createdAt: null,
+        updatedAt: null,
+        lastMessageAt: null,
+        messages: [
+          {
+            id: 10,
+            sessionId: 1,
+            role: "user",
+            content: "<script>alert(1)</script>",
+            telegramMessageId: null,
+            adminId: null,
+            relayMessageId: null,
+            createdAt: new Date("2025-03-01T10:00:00Z"),
+          },
+        ],
+        summaries: [],
+      },
+    ],
+    orders: [],
+    media: [],
+    adminActions: [],
+  };
+
+  it("escapes stored values in HTML", () => {
+    const html = renderTranscriptHtml(transcript);
+
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(html).toContain("&lt;b&gt;Aziz&lt;/b&gt;");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("Sensitive profile fields are redacted.");
+  });
+
+  it("escapes quotes and ampersands", () => {
+    expect(escapeHtml(`a & "b" 'c'`)).toBe("a &amp; &quot;b&quot; &#39;c&#39;");
+  });
+});
@@ -0,0 +1,177 @@
+import { ConversationTranscript } from "./transcripts.types";
+
+/** Renders a transcript for reading in a text editor or a Telegram document. */
+export function renderTranscriptText(transcript: ConversationTranscript) {
+  const lines: string[] = [
+    `Transcript for user ${transcript.userId}`,
+    `Generated: ${formatTimestamp(transcript.generatedAt)}`,
+    transcript.unredacted
+      ? "Profile: unredacted"
+      : "Profile: sensitive fields redacted",
+    "",
+    "== Profile ==",
+    ...profileEntries(transcript).map(([key, value]) => `${key}: ${value}`),
+  ];
+
+  for (const session of transcript.sessions) {
+    lines.push(
+      "",
+      `== Session #${session.id} (${session.platform}, ${session.status}) ==`,
+    );
+    for (const message of session.messages) {
+      lines.push(
+        `[${formatTimestamp(message.createdAt)}] ${message.role}: ${message.content}`,
+      );
+    }
+    for (const summary of session.summaries) {
+      lines.push(
+        `-- summary up to message #${summary.lastProcessedMessageId}: ${summary.summaryContent}`,
+      );
+    }
+  }
+
+  lines.push("", "== Orders ==");
+  for (const order of transcript.orders) {
+    lines.push(
+      `#${order.id} ${order.orderType} ${order.status} ${order.amount} (${formatTimestamp(order.createdAt)})`,
+    );
+    for (const event of order.events) {
+      lines.push(
+        `  [${formatTimestamp(event.createdAt)}] ${event.actor}: ${event.fromStatus ?? "-"} -> ${event.toStatus}${event.reason ? ` (${event.reason})` : ""}`,
+      );
+    }
+  }
+
+  lines.push("", "== Media ==");
+  for (const item of transcript.media) {
+    lines.push(describeMedia(item));
+  }
+
+  lines.push("", "== Admin actions ==");
+  for (const action of transcript.adminActions) {
+    lines.push(
+      `[${formatTimestamp(action.at)}] ${action.action}${action.adminId ? ` by ${action.adminId}` : ""}${action.details ? ` (${action.details})` : ""}`,
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Self-contained HTML page; every stored value is escaped. */
+export function renderTranscriptHtml(transcript: ConversationTranscript) {
+  const sections: string[] = [
+    `<h1>Transcript for user ${escapeHtml(transcript.userId)}</h1>`,
+    `<p>Generated ${escapeHtml(formatTimestamp(transcript.generatedAt))}. ${
+      transcript.unredacted
+        ? "Profile is unredacted."
+        : "Sensitive profile fields are redacted."
+    }</p>`,
+    "<h2>Profile</h2>",
+    renderList(
+      profileEntries(transcript).map(
+        ([key, value]) => `<b>${escapeHtml(key)}</b>: ${escapeHtml(value)}`,
+      ),
+    ),
+  ];
+
+  for (const session of transcript.sessions) {
+    sections.push(
+      `<h2>Session #${session.id} (${escapeHtml(session.platform)}, ${escapeHtml(session.status)})</h2>`,
+      '<table border="1" cellpadding="4">',
+      "<tr><th>Time</th><th>Role</th><th>Message</th></tr>",
+      ...session.messages.map(
+        (message) =>
+          `<tr><td>${escapeHtml(formatTimestamp(message.createdAt))}</td><td>${escapeHtml(message.role)}</td><td>${escapeHtml(message.content)}</td></tr>`,
+      ),
+      "</table>",
+    );
+    if (session.summaries.length) {
+      sections.push(
+        "<h3>Summaries</h3>",
+        renderList(
+          session.summaries.map(
+            (summary) =>
+              `up to message #${summary.lastProcessedMessageId}: ${escapeHtml(summary.summaryContent)}`,
+          ),
+        ),
+      );
+    }
+  }
+
+  sections.push(
+    "<h2>Orders</h2>",
+    renderList(
+      transcript.orders.map(
+        (order) =>
+          `#${order.id} ${escapeHtml(order.orderType)} ${escapeHtml(order.status)} ${order.amount}${renderList(
+            order.events.map((event) =>
+              escapeHtml(
+                `${formatTimestamp(event.createdAt)} ${event.actor}: ${event.fromStatus ?? "-"} -> ${event.toStatus}${event.reason ? ` (${event.reason})` : ""}`,
+              ),
+            ),
+          )}`,
+      ),
+    ),
+    "<h2>Media</h2>",
+    renderList(transcript.media.map((item) => escapeHtml(describeMedia(item)))),
+    "<h2>Admin actions</h2>",
+    renderList(
+      transcript.adminActions.map((action) =>
+        escapeHtml(
+          `${formatTimestamp(action.at)} ${action.action}${action.adminId ? ` by ${action.adminId}` : ""}${action.details ? ` (${action.details})` : ""}`,
+        ),
+      ),
+    ),
+  );
+
+  return [
+    "<!DOCTYPE html>",
+    '<html><head><meta charset="utf-8">',
+    `<title>Transcript ${escapeHtml(transcript.userId)}</title></head><body>`,
+    ...sections,
+    "</body></html>",
+    "",
+  ].join("\n");
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function profileEntries(transcript: ConversationTranscript) {
+  if (!transcript.profile) return [];
+  return Object.entries(transcript.profile)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]): [string, string] => [
+      key,
+      value instanceof Date ? formatTimestamp(value) : String(value),
+    ]);
+}
+
+function describeMedia(item: ConversationTranscript["media"][number]) {
+  return [
+    `#${item.id} ${item.mediaType} message ${item.messageId}`,
+    item.orderId ? `order #${item.orderId}` : "",
+    item.archiveMessageId
+      ? `archive ${item.archiveGroupId ?? "-"}/${item.archiveTopicId ?? "-"}/${item.archiveMessageId}`
+      : "",
+    `(${formatTimestamp(item.createdAt)})`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function renderList(items: string[]) {
+  if (!items.length) return "<p>-</p>";
+  return `<ul>${items.map((item) => `<li>${item}</li>`).join("")}</ul>`;
+}
+
+function formatTimestamp(value: Date | null | undefined) {
+  if (!value) return "-";
+  return value.toISOString().replace("T", " ").slice(0, 19);
+}
@@ -0,0 +1,39 @@
+import { Controller, Get, Param, Query, Res, UseGuards } from "@nestjs/common";
+import type { Response } from "express";
+import { AdminRoles, CurrentAdmin } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
+import type { AdminPrincipal } from "../admin-auth/admin-auth.types";
+import { TranscriptsService } from "./transcripts.service";
+import { TRANSCRIPT_UNREDACTED_ROLES } from "./transcripts.types";
+import { parseTranscriptFormat } from "./transcripts.validation";
+
+@Controller("admin/transcripts")
+@UseGuards(AdminAuthGuard)
+export class TranscriptsController {
+  constructor(private readonly transcriptsService: TranscriptsService) {}
+
+  @Get(":userId")
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async exportTranscript(
+    @Param("userId") userId: string,
+    @CurrentAdmin() admin: AdminPrincipal,
+    @Res({ passthrough: true }) res: Response,
+    @Query("format") format?: string,
+  ) {
+    const rendered = await this.transcriptsService.exportTranscript(
+      userId,
+      parseTranscriptFormat(format),
+      {
+        unredacted: TRANSCRIPT_UNREDACTED_ROLES.includes(admin.role),
+        requestedBy: admin.name,
+      },
+    );
+    res.setHeader("Content-Type", rendered.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${rendered.fileName}"`,
+    );
+    return rendered.body;
+  }
+}
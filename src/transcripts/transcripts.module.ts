@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
+import { TranscriptsController } from "./transcripts.controller";
+import { TranscriptsService } from "./transcripts.service";
+
+@Module({
+  imports: [AdminAuthModule],
+  providers: [TranscriptsService],
+  controllers: [TranscriptsController],
+  exports: [TranscriptsService],
+})
+export class TranscriptsModule {}
@@ -0,0 +1,159 @@
+import { NotFoundException } from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "../database/schema";
+import { TranscriptsService } from "./transcripts.service";
+
+type QueryChain = {
+  from: () => QueryChain;
+  where: () => QueryChain;
+  orderBy: () => QueryChain;
+  limit: () => QueryChain;
+  then: (resolve: (value: unknown[]) => unknown) => unknown;
+};
+
+/** Each `select()` chain resolves to the next queued result. */
+function createDb(results: unknown[][]) {
+  const queue = [...results];
+  const chain = () => {
+    const rows = queue.shift() ?? [];
+    const query: QueryChain = {
+      from: () => query,
+      where: () => query,
+      orderBy: () => query,
+      limit: () => query,
+      then: (resolve) => resolve(rows),
+    };
+    return query;
+  };
+  return { select: jest.fn(chain) } as unknown as NodePgDatabase<typeof schema>;
+}
+
+describe("TranscriptsService", () => {
+  const profile = {
+    userId: "111",
+    displayName: "Aziz",
+    phoneNumber: "+998901234567",
+    email: "a@example.com",
+    notes: null,
+  };
+  const session = {
+    id: 1,
+    platform: "telegram",
+    status: "active",
+    userId: "111",
+  };
+  const order = {
+    id: 5,
+    orderType: "vip",
+    status: "completed",
+    userId: "111",
+    amount: 50000,
+  };
+  const at = new Date("2025-03-01T10:00:00Z");
+
+  function createDbForUser() {
+    return createDb([
+      [profile],
+      [session],
+      [order],
+      [{ id: 10, sessionId: 1, role: "user", content: "salom", createdAt: at }],
+      [
+        {
+          id: 2,
+          sessionId: 1,
+          summaryContent: "xulosa",
+          lastProcessedMessageId: 10,
+        },
+      ],
+      [
+        {
+          id: 7,
+          orderId: 5,
+          actor: "admin",
+          fromStatus: "awaiting_check",
+          toStatus: "completed",
+          reason: "payment_approved",
+          createdAt: at,
+        },
+        {
+          id: 6,
+          orderId: 5,
+          actor: "user",
+          fromStatus: null,
+          toStatus: "awaiting_check",
+          reason: null,
+          createdAt: at,
+        },
+      ],
+      [{ id: 3, userId: "111", mediaType: "photo", messageId: 44, orderId: 5 }],
+      [
+        {
+          id: 9,
+          userId: "111",
+          taskType: "payment",
+          status: "approved",
+          adminActionBy: "42",
+          adminActionAt: at,
+        },
+      ],
+    ]);
+  }
+
+  it("redacts sensitive profile fields by default", async () => {
+    const service = new TranscriptsService(createDbForUser());
+
+    const transcript = await service.buildTranscript("111", {
+      unredacted: false,
+      requestedBy: "moderator",
+    });
+
+    expect(transcript.profile).toMatchObject({
+      displayName: "Aziz",
+      phoneNumber: "[REDACTED]",
+      email: "[REDACTED]",
+      notes: "[REDACTED]",
+    });
+    expect(transcript.sessions[0].messages).toHaveLength(1);
+    expect(transcript.sessions[0].summaries).toHaveLength(1);
+    expect(transcript.orders[0].events).toHaveLength(2);
+    expect(transcript.adminActions.map((action) => action.source)).toEqual([
+      "task",
+      "order_event",
+    ]);
+  });
+
+  it("keeps profile fields for elevated callers", async () => {
+    const service = new TranscriptsService(createDbForUser());
+
+    const transcript = await service.buildTranscript("111", {
+      unredacted: true,
+      requestedBy: "owner",
+    });
+
+    expect(transcript.profile).toMatchObject({
+      phoneNumber: "+998901234567",
+    });
+  });
+
+  it("renders the requested format with a matching file name", async () => {
+    const service = new TranscriptsService(createDbForUser());
+
+    const rendered = await service.exportTranscript("111", "text", {
+      unredacted: false,
+      requestedBy: "moderator",
+    });
+
+    expect(rendered.fileName).toBe("transcript-111.txt");
+    expect(rendered.contentType).toBe("text/plain; charset=utf-8");
+    expect(rendered.body).toContain("2025-03-01 10:00:00] user: salom");
+    expect(rendered.body).not.toContain("+998901234567");
+  });
+
+  it("returns 404 for users without any stored conversation", async () => {
+    const service = new TranscriptsService(createDb([[], [], []]));
+
+    await expect(
+      service.buildTranscript("999", { unredacted: false, requestedBy: "x" }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,203 @@
+import { Inject, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { and, asc, eq, inArray, isNotNull } from "drizzle-orm";
+import { DRIZZLE } from "../database/database.module";
+import * as schema from "../database/schema";
+import {
+  adminTasks,
+  chatMessages,
+  chatSessions,
+  chatSummaries,
+  orderEvents,
+  orders,
+  userMedia,
+  userProfiles,
+} from "../database/schema";
+import { nowInUzbekistan } from "../common/time";
+import { redactUserProfilePayload } from "../user-profiles/user-profile.redaction";
+import { validateUserId } from "../user-profiles/user-profile.validation";
+import {
+  ConversationTranscript,
+  TranscriptAdminAction,
+  TranscriptFormat,
+} from "./transcripts.types";
+import {
+  renderTranscriptHtml,
+  renderTranscriptText,
+} from "./transcript.formatters";
+
+export type RenderedTranscript = {
+  fileName: string;
+  contentType: string;
+  body: string;
+};
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  json: "application/json; charset=utf-8",
+  text: "text/plain; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+const FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  json: "json",
+  text: "txt",
+  html: "html",
+};
+
+@Injectable()
+export class TranscriptsService {
+  private readonly logger = new Logger(TranscriptsService.name);
+
+  constructor(@Inject(DRIZZLE) private db: NodePgDatabase<typeof schema>) {}
+
+  /**
+   * Collects everything stored about a user's conversations. Sensitive
+   * profile fields are redacted unless `unredacted` is set.
+   */
+  async buildTranscript(
+    userId: string,
+    options: { unredacted: boolean; requestedBy: string },
+  ): Promise<ConversationTranscript> {
+    const normalizedUserId = validateUserId(userId);
+
+    const profileRows = await this.db
+      .select()
+      .from(userProfiles)
+      .where(eq(userProfiles.userId, normalizedUserId))
+      .limit(1);
+    const sessionRows = await this.db
+      .select()
+      .from(chatSessions)
+      .where(eq(chatSessions.userId, normalizedUserId))
+      .orderBy(asc(chatSessions.id));
+    const orderRows = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.userId, normalizedUserId))
+      .orderBy(asc(orders.id));
+    if (!profileRows.length && !sessionRows.length && !orderRows.length) {
+      throw new NotFoundException("No conversation found for this user");
+    }
+
+    const sessionIds = sessionRows.map((session) => session.id);
+    const orderIds = orderRows.map((order) => order.id);
+    const messages = sessionIds.length
+      ? await this.db
+          .select()
+          .from(chatMessages)
+          .where(inArray(chatMessages.sessionId, sessionIds))
+          .orderBy(asc(chatMessages.id))
+      : [];
+    const summaries = sessionIds.length
+      ? await this.db
+          .select()
+          .from(chatSummaries)
+          .where(inArray(chatSummaries.sessionId, sessionIds))
+          .orderBy(asc(chatSummaries.id))
+      : [];
+    const events = orderIds.length
+      ? await this.db
+          .select()
+          .from(orderEvents)
+          .where(inArray(orderEvents.orderId, orderIds))
+          .orderBy(asc(orderEvents.id))
+      : [];
+    const media = await this.db
+      .select()
+      .from(userMedia)
+      .where(eq(userMedia.userId, normalizedUserId))
+      .orderBy(asc(userMedia.id));
+    const tasks = await this.db
+      .select()
+      .from(adminTasks)
+      .where(
+        and(
+          eq(adminTasks.userId, normalizedUserId),
+          isNotNull(adminTasks.adminActionBy),
+        ),
+      )
+      .orderBy(asc(adminTasks.id));
+
+    const profile = profileRows[0]
+      ? (profileRows[0] as Record<string, unknown>)
+      : null;
+
+    this.logger.log(
+      JSON.stringify({
+        event: "transcript.exported",
+        userId: normalizedUserId,
+        unredacted: options.unredacted,
+        by: options.requestedBy,
+      }),
+    );
+
+    return {
+      userId: normalizedUserId,
+      generatedAt: nowInUzbekistan(),
+      unredacted: options.unredacted,
+      profile:
+        profile && !options.unredacted
+          ? (redactUserProfilePayload(profile) ?? null)
+          : profile,
+      sessions: sessionRows.map((session) => ({
+        ...session,
+        messages: messages.filter((item) => item.sessionId === session.id),
+        summaries: summaries.filter((item) => item.sessionId === session.id),
+      })),
+      orders: orderRows.map((order) => ({
+        ...order,
+        events: events.filter((event) => event.orderId === order.id),
+      })),
+      media,
+      adminActions: collectAdminActions(tasks, events),
+    };
+  }
+
+  async exportTranscript(
+    userId: string,
+    format: TranscriptFormat,
+    options: { unredacted: boolean; requestedBy: string },
+  ): Promise<RenderedTranscript> {
+    const transcript = await this.buildTranscript(userId, options);
+    return {
+      fileName: `transcript-${transcript.userId}.${FILE_EXTENSIONS[format]}`,
+      contentType: CONTENT_TYPES[format],
+      body: renderTranscript(transcript, format),
+    };
+  }
+}
+
+export function renderTranscript(
+  transcript: ConversationTranscript,
+  format: TranscriptFormat,
+) {
+  if (format === "text") return renderTranscriptText(transcript);
+  if (format === "html") return renderTranscriptHtml(transcript);
+  return JSON.stringify(transcript, null, 2);
+}
+
+function collectAdminActions(
+  tasks: (typeof adminTasks.$inferSelect)[],
+  events: (typeof orderEvents.$inferSelect)[],
+): TranscriptAdminAction[] {
+  const fromTasks: TranscriptAdminAction[] = tasks.map((task) => ({
+    source: "task",
+    id: task.id,
+    action: `${task.taskType}: ${task.status}`,
+    adminId: task.adminActionBy,
+    at: task.adminActionAt,
+  }));
+  const fromEvents: TranscriptAdminAction[] = events
+    .filter((event) => event.actor === "admin")
+    .map((event) => ({
+      source: "order_event",
+      id: event.id,
+      action: `order #${event.orderId}: ${event.fromStatus ?? "-"} -> ${event.toStatus}`,
+      adminId: null,
+      at: event.createdAt,
+      details: event.reason,
+    }));
+  return [...fromTasks, ...fromEvents].sort(
+    (a, b) => (a.at?.getTime() ?? 0) - (b.at?.getTime() ?? 0),
+  );
+}
@@ -0,0 +1,47 @@
+import {
+  chatMessages,
+  chatSessions,
+  chatSummaries,
+  orderEvents,
+  orders,
+  userMedia,
+} from "../database/schema";
+import { AdminRole } from "../admin-auth/admin-auth.types";
+
+export type TranscriptFormat = "json" | "text" | "html";
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ["json", "text", "html"];
+
+/** Roles that see sensitive profile fields (phone, email, notes) in exports. */
+export const TRANSCRIPT_UNREDACTED_ROLES: AdminRole[] = ["owner"];
+
+export type TranscriptSession = typeof chatSessions.$inferSelect & {
+  messages: (typeof chatMessages.$inferSelect)[];
+  summaries: (typeof chatSummaries.$inferSelect)[];
+};
+
+export type TranscriptOrder = typeof orders.$inferSelect & {
+  events: (typeof orderEvents.$inferSelect)[];
+};
+
+/** A task an admin acted on, or an order step an admin made. */
+export type TranscriptAdminAction = {
+  source: "task" | "order_event";
+  id: number;
+  action: string;
+  adminId: string | null;
+  at: Date | null;
+  details?: string | null;
+};
+
+export type ConversationTranscript = {
+  userId: string;
+  generatedAt: Date;
+  /** False when sensitive profile fields were replaced with `[REDACTED]`. */
+  unredacted: boolean;
+  profile: Record<string, unknown> | null;
+  sessions: TranscriptSession[];
+  orders: TranscriptOrder[];
+  media: (typeof userMedia.$inferSelect)[];
+  adminActions: TranscriptAdminAction[];
+};
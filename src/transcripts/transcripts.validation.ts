@@ -0,0 +1,13 @@
+import { BadRequestException } from "@nestjs/common";
+import { TRANSCRIPT_FORMATS, TranscriptFormat } from "./transcripts.types";
+
+/** Defaults to JSON; accepts the format name in any case. */
+export function parseTranscriptFormat(value?: string): TranscriptFormat {
+  const normalized = value?.trim().toLowerCase() || "json";
+  if (!TRANSCRIPT_FORMATS.includes(normalized as TranscriptFormat)) {
+    throw new BadRequestException(
+      `format must be one of ${TRANSCRIPT_FORMATS.join(", ")}`,
+    );
+  }
+  return normalized as TranscriptFormat;
+}
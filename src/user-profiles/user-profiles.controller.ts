@@ -5,58 +5,45 @@ import {
   Param,
   Patch,
   Post,
-  Headers,
-  UnauthorizedException,
+  UseGuards,
 } from "@nestjs/common";
-import { ConfigService } from "@nestjs/config";
 import { UserProfilesService } from "./user-profiles.service";
+import { AdminRoles } from "../admin-auth/admin-auth.decorators";
+import { AdminAuthGuard } from "../admin-auth/admin-auth.guard";
+import { ADMIN_READ_ROLES } from "../admin-auth/admin-auth.types";
 
 @Controller("profiles")
+@UseGuards(AdminAuthGuard)
 export class UserProfilesController {
-  constructor(
-    private readonly profilesService: UserProfilesService,
-    private readonly configService: ConfigService,
-  ) {}
+  constructor(private readonly profilesService: UserProfilesService) {}
 
   @Get(":userId")
-  async getProfile(
-    @Param("userId") userId: string,
-    @Headers("x-admin-key") adminKey?: string,
-  ) {
-    this.requireAdmin(adminKey);
+  @AdminRoles(...ADMIN_READ_ROLES)
+  async getProfile(@Param("userId") userId: string) {
     return this.profilesService.getProfile(userId);
   }
 
   @Patch(":userId")
+  @AdminRoles("moderator")
   async updateProfile(
     @Param("userId") userId: string,
     @Body() payload: Record<string, unknown>,
-    @Headers("x-admin-key") adminKey?: string,
   ) {
-    this.requireAdmin(adminKey);
     return this.profilesService.updateProfile(userId, payload ?? {});
   }
 
   @Post(":userId")
+  @AdminRoles("moderator")
   async createProfile(
     @Param("userId") userId: string,
     @Body() payload: Record<string, unknown>,
-    @Headers("x-admin-key") adminKey?: string,
   ) {
-    this.requireAdmin(adminKey);
     return this.profilesService.createProfile(userId, payload ?? {});
   }
 
   @Post("backfill")
-  async backfill(@Headers("x-admin-key") adminKey?: string) {
-    this.requireAdmin(adminKey);
+  @AdminRoles("moderator")
+  async backfill() {
     return this.profilesService.backfillFromAdPosts();
   }
-
-  private requireAdmin(adminKey?: string) {
-    const expected = this.configService.get<string>("ADMIN_API_KEY");
-    if (expected && adminKey !== expected) {
-      throw new UnauthorizedException("Invalid admin key");
-    }
-  }
 }
@@ -3,9 +3,10 @@ import { ConfigModule } from "@nestjs/config";
 import { UserProfilesService } from "./user-profiles.service";
 import { UserProfilesController } from "./user-profiles.controller";
 import { UserProfilesRepository } from "./user-profiles.repository";
+import { AdminAuthModule } from "../admin-auth/admin-auth.module";
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, AdminAuthModule],
   providers: [UserProfilesService, UserProfilesRepository],
   controllers: [UserProfilesController],
   exports: [UserProfilesService],
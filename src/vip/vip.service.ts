@@ -32,9 +32,9 @@ export class VipService {
           .update(vipSubscriptions)
           .set({ status: "expired", updatedAt: now })
           .where(eq(vipSubscriptions.id, subscription.id));
-        await this.telegramService.sendAdminResponse(
+        await this.telegramService.sendLocalizedResponse(
           subscription.userId,
-          "VIP obuna muddati tugadi.",
+          "vip.expired",
         );
         continue;
       }
@@ -42,9 +42,9 @@ export class VipService {
       const msLeft = subscription.expiresAt.getTime() - now.getTime();
       const threeDaysMs = 3 * 24 * 60 * 60 * 1000;
       if (!subscription.reminderSentAt && msLeft <= threeDaysMs) {
-        await this.telegramService.sendAdminResponse(
+        await this.telegramService.sendLocalizedResponse(
           subscription.userId,
-          "VIP obuna tugashiga 3 kun qoldi. Uzaytiramizmi?",
+          "vip.expiring",
         );
         await this.db
           .update(vipSubscriptions)